@@ -18,8 +18,20 @@ export interface ApiKeyStore {
     revoke(id: string): Promise<void>;
 }
 
+export interface ApiKeyManagerOptions {
+    /** Accept keys without a trc_ prefix (plaintext keys issued before hashing was introduced) */
+    allowLegacyKeys?: boolean;
+}
+
+/**
+ * Hash an API key for storage
+ */
+export function hashApiKey(key: string): string {
+    return createHash("sha256").update(key).digest("hex");
+}
+
 export class ApiKeyManager {
-    constructor(private store: ApiKeyStore) { }
+    constructor(private store: ApiKeyStore, private options: ApiKeyManagerOptions = {}) { }
 
     /**
      * Generate a new API key
@@ -35,7 +47,7 @@ export class ApiKeyManager {
         const prefix = options.isTest ? API_KEY_PREFIX_TEST : API_KEY_PREFIX_LIVE;
         const randomPart = randomBytes(API_KEY_LENGTH).toString("base64url");
         const fullKey = `${prefix}${randomPart}`;
-        const keyHash = this.hashKey(fullKey);
+        const keyHash = hashApiKey(fullKey);
         const keyPrefix = `${prefix}${randomPart.slice(0, 8)}...`;
 
         const apiKey = await this.store.create({
@@ -68,11 +80,12 @@ export class ApiKeyManager {
         error?: string;
     }> {
         // Check format
-        if (!key.startsWith(API_KEY_PREFIX_LIVE) && !key.startsWith(API_KEY_PREFIX_TEST)) {
+        const hasPrefix = key.startsWith(API_KEY_PREFIX_LIVE) || key.startsWith(API_KEY_PREFIX_TEST);
+        if (!hasPrefix && !this.options.allowLegacyKeys) {
             return { valid: false, error: "Invalid API key format" };
         }
 
-        const keyHash = this.hashKey(key);
+        const keyHash = hashApiKey(key);
         const apiKey = await this.store.findByHash(keyHash);
 
         if (!apiKey) {
@@ -122,13 +135,6 @@ export class ApiKeyManager {
         await this.store.revoke(id);
         return true;
     }
-
-    /**
-     * Hash an API key for storage
-     */
-    private hashKey(key: string): string {
-        return createHash("sha256").update(key).digest("hex");
-    }
 }
 
 /**
@@ -3,8 +3,11 @@
  * 
  * Tracks security-relevant events for compliance and forensics.
  * Stores audit logs with user attribution and resource context.
+ * Entries can be hash-chained so that edits or deletions are detectable.
  */
 
+import { createHash } from "crypto";
+
 export type AuditAction =
     | "LOGIN"
     | "LOGIN_FAILED"
@@ -26,7 +29,11 @@ export type AuditAction =
     | "ADMIN_ACTION"
     | "DATA_EXPORT"
     | "DATA_DELETE"
-    | "SETTINGS_CHANGE";
+    | "SETTINGS_CHANGE"
+    | "RISK_CONFIRM"
+    | "PATCH_APPLY"
+    | "PERMISSIONS_CHANGE"
+    | "RUNNER_AUTH_FAILED";
 
 export interface AuditEntry {
     id: string;
@@ -41,6 +48,8 @@ export interface AuditEntry {
     metadata?: Record<string, unknown>;
     status: "success" | "failure";
     reason?: string;           // For failures
+    prevHash?: string;         // Hash of the previous entry in the chain
+    hash?: string;             // sha256 over prevHash and this entry's fields
 }
 
 export interface AuditStore {
@@ -357,11 +366,12 @@ export class PgAuditStore implements AuditStore {
  */
 export const AUDIT_LOGS_MIGRATION = `
 CREATE TABLE IF NOT EXISTS audit_logs (
-    id VARCHAR(36) PRIMARY KEY,
-    timestamp TIMESTAMP NOT NULL,
+    id VARCHAR(64) PRIMARY KEY,
+    seq BIGINT,
+    timestamp TIMESTAMPTZ NOT NULL,
     action VARCHAR(50) NOT NULL,
-    user_id VARCHAR(36),
-    org_id VARCHAR(36),
+    user_id VARCHAR(64),
+    org_id VARCHAR(64),
     target_type VARCHAR(50),
     target_id VARCHAR(255),
     ip_address VARCHAR(45),
@@ -369,16 +379,74 @@ CREATE TABLE IF NOT EXISTS audit_logs (
     metadata JSONB,
     status VARCHAR(10) NOT NULL,
     reason TEXT,
-    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    prev_hash VARCHAR(64),
+    entry_hash VARCHAR(64),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_logs_seq ON audit_logs(seq);
+
 CREATE INDEX IF NOT EXISTS idx_audit_logs_user_id ON audit_logs(user_id);
 CREATE INDEX IF NOT EXISTS idx_audit_logs_org_id ON audit_logs(org_id);
 CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs(action);
 CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs(timestamp);
 `;
 
+/**
+ * Hash an entry together with its predecessor's hash
+ */
+export function hashAuditEntry(entry: AuditEntry, prevHash: string | null): string {
+    const fields = [
+        entry.id,
+        entry.timestamp,
+        entry.action,
+        entry.userId ?? null,
+        entry.orgId ?? null,
+        entry.targetType ?? null,
+        entry.targetId ?? null,
+        entry.ipAddress ?? null,
+        entry.userAgent ?? null,
+        entry.metadata ?? null,
+        entry.status,
+        entry.reason ?? null
+    ];
+    return createHash("sha256")
+        .update(`${prevHash ?? ""}\n${canonicalJson(fields)}`)
+        .digest("hex");
+}
+
+/**
+ * Verify a hash chain given entries in insertion order (oldest first)
+ */
+export function verifyAuditChain(entries: AuditEntry[]): {
+    valid: boolean;
+    checked: number;
+    brokenAt?: string;
+} {
+    let prevHash: string | null = null;
+    for (const [index, entry] of entries.entries()) {
+        if ((entry.prevHash ?? null) !== prevHash || entry.hash !== hashAuditEntry(entry, prevHash)) {
+            return { valid: false, checked: index, brokenAt: entry.id };
+        }
+        prevHash = entry.hash;
+    }
+    return { valid: true, checked: entries.length };
+}
+
 // Utility functions
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(",")}]`;
+    }
+    if (value && typeof value === "object") {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+    }
+    return JSON.stringify(value ?? null);
+}
+
 function generateAuditId(): string {
     return `aud_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
 }
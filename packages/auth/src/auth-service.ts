@@ -104,14 +104,7 @@ export class AuthService {
             throw new AuthError("Invalid email or password", "INVALID_CREDENTIALS", 401);
         }
 
-        // Get user's primary organization
-        const orgs = await this.config.orgStore.findByUserId(user.id);
-        const org = orgs[0];
-        if (!org) {
-            throw new AuthError("No organization found", "NO_ORGANIZATION", 500);
-        }
-
-        return this.generateAuthResult(user, org);
+        return this.loginToPrimaryOrg(user);
     }
 
     /**
@@ -126,8 +119,7 @@ export class AuthService {
 
         if (user) {
             // Existing user, just login
-            const orgs = await this.config.orgStore.findByUserId(user.id);
-            return this.generateAuthResult(user, orgs[0]);
+            return this.loginToPrimaryOrg(user);
         }
 
         // Check if email exists (link accounts)
@@ -139,8 +131,7 @@ export class AuthService {
                 provider_id: profile.provider_id,
                 avatar_url: profile.avatar_url
             });
-            const orgs = await this.config.orgStore.findByUserId(user.id);
-            return this.generateAuthResult(user, orgs[0]);
+            return this.loginToPrimaryOrg(user);
         }
 
         // New user via OAuth
@@ -168,8 +159,7 @@ export class AuthService {
             throw new AuthError("User not found", "USER_NOT_FOUND", 401);
         }
 
-        const orgs = await this.config.orgStore.findByUserId(user.id);
-        return this.generateAuthResult(user, orgs[0]);
+        return this.loginToPrimaryOrg(user);
     }
 
     /**
@@ -213,22 +203,44 @@ export class AuthService {
         return this.generateAuthResult(user, org, member.role);
     }
 
-    private async createDefaultOrg(user: User): Promise<Organization> {
-        const slug = this.generateSlug(user.name || user.email);
-
+    /**
+     * Create an organization on the default plan owned by the given user
+     */
+    async createOrganization(userId: string, name: string): Promise<Organization> {
         const org = await this.config.orgStore.create({
-            name: user.name ? `${user.name}'s Workspace` : "My Workspace",
-            slug,
-            owner_id: user.id,
+            name,
+            slug: this.generateSlug(name),
+            owner_id: userId,
             plan_id: this.config.defaultPlan!,
             credits_balance: this.config.defaultCredits!,
             credits_included: this.config.defaultCredits!
         });
 
-        await this.config.orgStore.addMember(org.id, user.id, "owner");
+        await this.config.orgStore.addMember(org.id, userId, "owner");
         return org;
     }
 
+    private async createDefaultOrg(user: User): Promise<Organization> {
+        return this.createOrganization(
+            user.id,
+            user.name ? `${user.name}'s Workspace` : "My Workspace"
+        );
+    }
+
+    /**
+     * Issue tokens for the user's first organization with their actual role
+     */
+    private async loginToPrimaryOrg(user: User): Promise<AuthResult> {
+        const orgs = await this.config.orgStore.findByUserId(user.id);
+        const org = orgs[0];
+        if (!org) {
+            throw new AuthError("No organization found", "NO_ORGANIZATION", 500);
+        }
+
+        const member = await this.config.orgStore.getMember(org.id, user.id);
+        return this.generateAuthResult(user, org, member?.role ?? "member");
+    }
+
     private generateAuthResult(
         user: User,
         org: Organization,
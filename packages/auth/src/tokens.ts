@@ -20,12 +20,13 @@ export class TokenManager {
     private config: Required<TokenConfig>;
 
     constructor(config: TokenConfig) {
+        // fromEnv passes unset variables as undefined, so fall back per field
         this.config = {
-            accessTokenExpiry: DEFAULT_ACCESS_TOKEN_EXPIRY,
-            refreshTokenExpiry: DEFAULT_REFRESH_TOKEN_EXPIRY,
-            issuer: "trcoder",
-            audience: "trcoder-api",
-            ...config
+            secret: config.secret,
+            accessTokenExpiry: config.accessTokenExpiry ?? DEFAULT_ACCESS_TOKEN_EXPIRY,
+            refreshTokenExpiry: config.refreshTokenExpiry ?? DEFAULT_REFRESH_TOKEN_EXPIRY,
+            issuer: config.issuer ?? "trcoder",
+            audience: config.audience ?? "trcoder-api"
         };
     }
 
@@ -29,16 +29,18 @@ export interface BillingStore {
 
 export interface BillingServiceConfig {
     store: BillingStore;
-    stripe: StripeService;
+    stripe?: StripeService;    // Credit accounting works without Stripe
 }
 
+export type SubscriptionSync = Omit<Subscription, "id" | "org_id" | "created_at" | "updated_at">;
+
 export class BillingService {
     private store: BillingStore;
-    private stripe: StripeService;
+    private stripe: StripeService | null;
 
     constructor(config: BillingServiceConfig) {
         this.store = config.store;
-        this.stripe = config.stripe;
+        this.stripe = config.stripe ?? null;
     }
 
     /**
@@ -59,10 +61,10 @@ export class BillingService {
         const currentSub = await this.store.getSubscription(orgId);
         if (currentSub?.status === "active" && !currentSub.cancel_at_period_end) {
             // Already has active subscription - redirect to portal
-            return await this.stripe.createPortalSession(params.customerId);
+            return await this.requireStripe().createPortalSession(params.customerId);
         }
 
-        return await this.stripe.createSubscriptionCheckout({
+        return await this.requireStripe().createSubscriptionCheckout({
             customerId: params.customerId,
             planId: params.planId,
             billing_cycle: params.billing_cycle
@@ -73,7 +75,7 @@ export class BillingService {
      * Create checkout for credit purchase
      */
     async createCreditPurchase(orgId: string, credits: number, customerId: string) {
-        return await this.stripe.createCreditPurchaseCheckout({
+        return await this.requireStripe().createCreditPurchaseCheckout({
             customerId,
             credits,
             orgId
@@ -84,7 +86,7 @@ export class BillingService {
      * Get customer portal URL
      */
     async getCustomerPortal(customerId: string) {
-        return await this.stripe.createPortalSession(customerId);
+        return await this.requireStripe().createPortalSession(customerId);
     }
 
     /**
@@ -192,6 +194,21 @@ export class BillingService {
         return this.store.getCreditTransactions(orgId, limit);
     }
 
+    /**
+     * Store the latest subscription state reported by Stripe.
+     * Returns the previously stored state so callers can detect transitions.
+     */
+    async syncSubscription(orgId: string, data: SubscriptionSync): Promise<{
+        subscription: Subscription;
+        previous: Subscription | null;
+    }> {
+        const previous = await this.store.getSubscription(orgId);
+        const subscription = previous
+            ? await this.store.updateSubscription(previous.id, data)
+            : await this.store.createSubscription({ ...data, org_id: orgId });
+        return { subscription, previous };
+    }
+
     /**
      * Cancel subscription at period end
      */
@@ -201,7 +218,7 @@ export class BillingService {
             throw new Error("No active subscription found");
         }
 
-        await this.stripe.cancelSubscription(sub.stripe_subscription_id);
+        await this.requireStripe().cancelSubscription(sub.stripe_subscription_id);
         await this.store.updateSubscription(sub.id, {
             cancel_at_period_end: true
         });
@@ -216,7 +233,7 @@ export class BillingService {
             throw new Error("No subscription found");
         }
 
-        await this.stripe.reactivateSubscription(sub.stripe_subscription_id);
+        await this.requireStripe().reactivateSubscription(sub.stripe_subscription_id);
         await this.store.updateSubscription(sub.id, {
             cancel_at_period_end: false
         });
@@ -237,4 +254,11 @@ export class BillingService {
             description: `Monthly allocation - ${plan.name} plan`
         });
     }
+
+    private requireStripe(): StripeService {
+        if (!this.stripe) {
+            throw new Error("Stripe is not configured");
+        }
+        return this.stripe;
+    }
 }
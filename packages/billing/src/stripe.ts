@@ -11,6 +11,7 @@ export interface StripeConfig {
     webhookSecret?: string;
     successUrl: string;
     cancelUrl: string;
+    apiBase?: string;          // Override the API host (e.g. a local Stripe stub)
 }
 
 export class StripeService {
@@ -19,8 +20,16 @@ export class StripeService {
 
     constructor(config: StripeConfig) {
         this.config = config;
+        const apiBase = config.apiBase ? new URL(config.apiBase) : null;
         this.stripe = new Stripe(config.secretKey, {
-            apiVersion: "2023-10-16"
+            apiVersion: "2023-10-16",
+            ...(apiBase
+                ? {
+                    host: apiBase.hostname,
+                    port: apiBase.port ? Number(apiBase.port) : undefined,
+                    protocol: apiBase.protocol.replace(":", "") as "http" | "https"
+                }
+                : {})
         });
     }
 
@@ -33,7 +42,8 @@ export class StripeService {
             secretKey,
             webhookSecret: process.env.STRIPE_WEBHOOK_SECRET,
             successUrl: process.env.STRIPE_SUCCESS_URL ?? "https://trcoder.io/billing/success",
-            cancelUrl: process.env.STRIPE_CANCEL_URL ?? "https://trcoder.io/billing/cancel"
+            cancelUrl: process.env.STRIPE_CANCEL_URL ?? "https://trcoder.io/billing/cancel",
+            apiBase: process.env.STRIPE_API_BASE
         });
     }
 
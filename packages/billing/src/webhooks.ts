@@ -4,12 +4,14 @@
 
 import Stripe from "stripe";
 import { StripeService } from "./stripe";
-import { BillingService } from "./billing-service";
+import { BillingService, SubscriptionSync } from "./billing-service";
 import { getPlan } from "./plans";
+import { Subscription } from "./types";
 
 export interface WebhookHandlerConfig {
     stripeService: StripeService;
     billingService: BillingService;
+    creditsForPlan?: (planId: string) => number | null;   // Defaults to PLANS credits_monthly
     onSubscriptionCreated?: (orgId: string, planId: string) => Promise<void>;
     onSubscriptionCanceled?: (orgId: string) => Promise<void>;
     onCreditsPurchased?: (orgId: string, credits: number) => Promise<void>;
@@ -59,7 +61,11 @@ export class WebhookHandler {
         }
     }
 
-    private async processEvent(event: Stripe.Event): Promise<void> {
+    /**
+     * Process an event that was already verified with StripeService.verifyWebhook.
+     * Throws on failure so callers can retry instead of recording the event.
+     */
+    async processEvent(event: Stripe.Event): Promise<void> {
         switch (event.type) {
             case "checkout.session.completed":
                 await this.handleCheckoutComplete(event.data.object as Stripe.Checkout.Session);
@@ -121,50 +127,50 @@ export class WebhookHandler {
     }
 
     private async handleSubscriptionUpdate(subscription: Stripe.Subscription): Promise<void> {
-        const customerId = subscription.customer as string;
         const planId = subscription.metadata?.plan_id;
-
         if (!planId) return;
 
-        // Get org from customer metadata
-        const stripe = this.config.stripeService.getStripe();
-        const customer = await stripe.customers.retrieve(customerId);
-
-        if (customer.deleted) return;
-
-        const orgId = customer.metadata?.org_id;
+        const orgId = await this.resolveOrgId(subscription.customer);
         if (!orgId) return;
 
-        // Update subscription in database
-        // This would typically call a store method
-
-        // Allocate credits for new subscription
-        if (subscription.status === "active") {
-            const plan = getPlan(planId);
-            if (plan) {
-                await this.config.billingService.addCredits(orgId, plan.credits_monthly, {
-                    type: "allocation",
-                    description: `Subscription activated - ${plan.name} plan`
-                });
-            }
+        const { previous } = await this.config.billingService.syncSubscription(
+            orgId,
+            toSubscriptionSync(subscription, planId)
+        );
+
+        // Allocate credits only when the subscription becomes active or changes plan,
+        // not on every update Stripe sends for an active subscription
+        const activated = subscription.status === "active" &&
+            (previous?.status !== "active" || previous.plan_id !== planId);
+        if (!activated) return;
+
+        const credits = this.config.creditsForPlan
+            ? this.config.creditsForPlan(planId)
+            : getPlan(planId)?.credits_monthly ?? null;
+        if (credits && credits > 0) {
+            await this.config.billingService.addCredits(orgId, credits, {
+                type: "allocation",
+                description: `Subscription activated - ${getPlan(planId)?.name ?? planId} plan`
+            });
+        }
 
-            if (this.config.onSubscriptionCreated) {
-                await this.config.onSubscriptionCreated(orgId, planId);
-            }
+        if (this.config.onSubscriptionCreated) {
+            await this.config.onSubscriptionCreated(orgId, planId);
         }
     }
 
     private async handleSubscriptionDeleted(subscription: Stripe.Subscription): Promise<void> {
-        const customerId = subscription.customer as string;
-
-        const stripe = this.config.stripeService.getStripe();
-        const customer = await stripe.customers.retrieve(customerId);
-
-        if (customer.deleted) return;
-
-        const orgId = customer.metadata?.org_id;
+        const orgId = await this.resolveOrgId(subscription.customer);
         if (!orgId) return;
 
+        const planId = subscription.metadata?.plan_id;
+        if (planId) {
+            await this.config.billingService.syncSubscription(orgId, {
+                ...toSubscriptionSync(subscription, planId),
+                status: "canceled"
+            });
+        }
+
         // Downgrade to free plan
         if (this.config.onSubscriptionCanceled) {
             await this.config.onSubscriptionCanceled(orgId);
@@ -177,18 +183,59 @@ export class WebhookHandler {
     }
 
     private async handlePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
-        const customerId = invoice.customer as string;
-
-        const stripe = this.config.stripeService.getStripe();
-        const customer = await stripe.customers.retrieve(customerId);
+        if (!invoice.customer) return;
 
-        if (customer.deleted) return;
-
-        const orgId = customer.metadata?.org_id;
+        const orgId = await this.resolveOrgId(invoice.customer);
         if (!orgId) return;
 
         if (this.config.onPaymentFailed) {
             await this.config.onPaymentFailed(orgId, "Payment failed");
         }
     }
+
+    /**
+     * Get org from customer metadata
+     */
+    private async resolveOrgId(
+        customer: string | Stripe.Customer | Stripe.DeletedCustomer
+    ): Promise<string | null> {
+        const customerId = typeof customer === "string" ? customer : customer.id;
+        const stripe = this.config.stripeService.getStripe();
+        const retrieved = await stripe.customers.retrieve(customerId);
+
+        if (retrieved.deleted) return null;
+        return retrieved.metadata?.org_id ?? null;
+    }
+}
+
+function toSubscriptionStatus(status: Stripe.Subscription.Status): Subscription["status"] {
+    switch (status) {
+        case "active":
+        case "trialing":
+        case "past_due":
+        case "canceled":
+        case "incomplete":
+            return status;
+        case "incomplete_expired":
+            return "canceled";
+        default:
+            // unpaid / paused
+            return "past_due";
+    }
+}
+
+function toSubscriptionSync(subscription: Stripe.Subscription, planId: string): SubscriptionSync {
+    const interval = subscription.items?.data?.[0]?.price?.recurring?.interval;
+    return {
+        plan_id: planId,
+        status: toSubscriptionStatus(subscription.status),
+        billing_cycle: interval === "year" ? "yearly" : "monthly",
+        current_period_start: new Date(subscription.current_period_start * 1000).toISOString(),
+        current_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
+        cancel_at_period_end: subscription.cancel_at_period_end,
+        stripe_subscription_id: subscription.id,
+        stripe_customer_id: typeof subscription.customer === "string"
+            ? subscription.customer
+            : subscription.customer.id
+    };
 }
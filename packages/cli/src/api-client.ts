@@ -1,34 +1,66 @@
+import { getCliAuthHeader, refreshCliAuth } from "./auth";
 import { CliConfig } from "./config-store";
 
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    // Parsed JSON error body when the server sent one ({ error, ... })
+    readonly body?: Record<string, unknown>
+  ) {
+    super(message);
+  }
+
+  get code(): string | undefined {
+    return typeof this.body?.error === "string" ? this.body.error : undefined;
+  }
+}
+
+function parseErrorBody(text: string): Record<string, unknown> | undefined {
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 export class ApiClient {
   constructor(private config: CliConfig) {}
 
-  private headers() {
+  private async headers() {
     return {
-      Authorization: `Bearer ${this.config.api_key}`,
+      Authorization: await getCliAuthHeader(this.config),
       "Content-Type": "application/json"
     } as Record<string, string>;
   }
 
+  // An expired access token gets one refresh-and-retry before the 401 reaches the caller
+  private async send(path: string, init: RequestInit): Promise<Response> {
+    const res = await fetch(`${this.config.server_url}${path}`, { ...init, headers: await this.headers() });
+    if (res.status !== 401 || !(await refreshCliAuth(this.config))) {
+      return res;
+    }
+    return fetch(`${this.config.server_url}${path}`, { ...init, headers: await this.headers() });
+  }
+
   async get<T>(path: string): Promise<T> {
-    const res = await fetch(`${this.config.server_url}${path}`, {
-      headers: this.headers()
-    });
+    const res = await this.send(path, {});
     if (!res.ok) {
-      throw new Error(`GET ${path} failed: ${res.status}`);
+      const text = await res.text();
+      throw new ApiError(`GET ${path} failed: ${res.status}`, res.status, parseErrorBody(text));
     }
     return (await res.json()) as T;
   }
 
   async post<T>(path: string, body?: unknown): Promise<T> {
-    const res = await fetch(`${this.config.server_url}${path}`, {
+    const res = await this.send(path, {
       method: "POST",
-      headers: this.headers(),
       body: body ? JSON.stringify(body) : undefined
     });
     if (!res.ok) {
       const text = await res.text();
-      throw new Error(`POST ${path} failed: ${res.status} ${text}`);
+      throw new ApiError(`POST ${path} failed: ${res.status} ${text}`, res.status, parseErrorBody(text));
     }
     return (await res.json()) as T;
   }
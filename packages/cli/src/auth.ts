@@ -3,6 +3,9 @@
  * Handles login, logout, and account management
  */
 
+import readline from "readline";
+import { Writable } from "stream";
+import { CliConfig } from "./config-store";
 import { SecretStorage, getSecretStorage } from "./keychain";
 
 // Simple output helpers with ANSI colors
@@ -17,6 +20,11 @@ const output = {
 
 const CONFIG_KEY = "trcoder_auth";
 const API_KEY_PREFIX = "trc_";
+// Refresh access tokens this long before they expire so in-flight requests don't race the expiry
+const REFRESH_SKEW_MS = 60_000;
+
+/** Reads one answer from the user; secret answers are not echoed. */
+export type LoginPrompt = (question: string, secret?: boolean) => Promise<string>;
 
 export interface AuthConfig {
     apiKey?: string;
@@ -26,14 +34,29 @@ export interface AuthConfig {
     orgId?: string;
     email?: string;
     serverUrl?: string;
+    /** Access token expiry (epoch ms) */
+    expiresAt?: number;
+}
+
+/** Token response of /v1/auth/login and /v1/auth/refresh */
+interface TokenResponse {
+    user: { id: string; email: string };
+    org: { id: string };
+    access_token: string;
+    refresh_token: string;
+    expires_in: number;
 }
 
 export class AuthManager {
     private secrets: SecretStorage | null = null;
     private serverUrl: string;
+    // Parsed keychain entry; undefined until first read
+    private cached: AuthConfig | null | undefined;
+    private refreshing: Promise<boolean> | null = null;
 
-    constructor(serverUrl?: string) {
+    constructor(serverUrl?: string, secrets?: SecretStorage) {
         this.serverUrl = serverUrl ?? process.env.TRCODER_SERVER_URL ?? "https://api.trcoder.io";
+        this.secrets = secrets ?? null;
     }
 
     private async getSecrets(): Promise<SecretStorage> {
@@ -43,6 +66,24 @@ export class AuthManager {
         return this.secrets;
     }
 
+    private async saveAuth(auth: AuthConfig): Promise<void> {
+        const secrets = await this.getSecrets();
+        await secrets.set(CONFIG_KEY, JSON.stringify(auth));
+        this.cached = auth;
+    }
+
+    private async saveTokens(data: TokenResponse): Promise<void> {
+        await this.saveAuth({
+            accessToken: data.access_token,
+            refreshToken: data.refresh_token,
+            userId: data.user.id,
+            orgId: data.org.id,
+            email: data.user.email,
+            serverUrl: this.serverUrl,
+            expiresAt: Date.now() + data.expires_in * 1000
+        });
+    }
+
     /**
      * Login with API key
      */
@@ -54,42 +95,35 @@ export class AuthManager {
 
         // Validate key with server
         try {
-            const res = await fetch(`${this.serverUrl}/v1/auth/validate`, {
-                method: "POST",
-                headers: {
-                    "Authorization": `Bearer ${apiKey}`,
-                    "Content-Type": "application/json"
-                }
+            const res = await fetch(`${this.serverUrl}/v1/whoami`, {
+                headers: { "Authorization": `Bearer ${apiKey}` }
             });
 
             if (!res.ok) {
                 const data = await res.json().catch(() => ({}));
-                output.error(data.message || "Invalid API key");
+                output.error(data.message || data.error || "Invalid API key");
                 return false;
             }
 
             const data = await res.json();
 
             // Store credentials
-            const secrets = await this.getSecrets();
-            await secrets.set(CONFIG_KEY, JSON.stringify({
+            await this.saveAuth({
                 apiKey,
                 userId: data.user_id,
                 orgId: data.org_id,
-                email: data.email,
                 serverUrl: this.serverUrl
-            }));
+            });
 
-            output.success(`Logged in as ${data.email || data.org_id}`);
+            output.success(`Logged in to ${data.org_id}`);
             return true;
         } catch (err) {
             // If server is not reachable, still save the key (offline mode)
             output.warn("Could not validate key with server. Saving for offline use.");
-            const secrets = await this.getSecrets();
-            await secrets.set(CONFIG_KEY, JSON.stringify({
+            await this.saveAuth({
                 apiKey,
                 serverUrl: this.serverUrl
-            }));
+            });
             return true;
         }
     }
@@ -111,17 +145,8 @@ export class AuthManager {
                 return false;
             }
 
-            const data = await res.json();
-
-            const secrets = await this.getSecrets();
-            await secrets.set(CONFIG_KEY, JSON.stringify({
-                accessToken: data.accessToken,
-                refreshToken: data.refreshToken,
-                userId: data.user.id,
-                orgId: data.org.id,
-                email: data.user.email,
-                serverUrl: this.serverUrl
-            }));
+            const data = (await res.json()) as TokenResponse;
+            await this.saveTokens(data);
 
             output.success(`Logged in as ${data.user.email}`);
             return true;
@@ -132,74 +157,19 @@ export class AuthManager {
     }
 
     /**
-     * Interactive browser login (device flow)
+     * Interactive login: an API key, or an email followed by its password
      */
-    async loginWithBrowser(): Promise<boolean> {
-        try {
-            // Request device code
-            const res = await fetch(`${this.serverUrl}/v1/auth/device/code`, {
-                method: "POST"
-            });
-
-            if (!res.ok) {
-                output.error("Failed to start browser login");
-                return false;
-            }
-
-            const { device_code, user_code, verification_url, expires_in, interval } = await res.json();
-
-            output.info(`\nOpen this URL in your browser:\n`);
-            output.highlight(`  ${verification_url}\n`);
-            output.info(`Enter this code: `);
-            output.highlight(`  ${user_code}\n`);
-            output.muted(`\nWaiting for authentication (expires in ${expires_in}s)...`);
-
-            // Poll for completion
-            const startTime = Date.now();
-            const pollInterval = (interval || 5) * 1000;
-
-            while (Date.now() - startTime < expires_in * 1000) {
-                await sleep(pollInterval);
-
-                const tokenRes = await fetch(`${this.serverUrl}/v1/auth/device/token`, {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({ device_code })
-                });
-
-                if (tokenRes.ok) {
-                    const data = await tokenRes.json();
-
-                    const secrets = await this.getSecrets();
-                    await secrets.set(CONFIG_KEY, JSON.stringify({
-                        accessToken: data.accessToken,
-                        refreshToken: data.refreshToken,
-                        userId: data.user.id,
-                        orgId: data.org.id,
-                        email: data.user.email,
-                        serverUrl: this.serverUrl
-                    }));
-
-                    output.success(`\nLogged in as ${data.user.email}`);
-                    return true;
-                }
-
-                const errorData = await tokenRes.json().catch(() => ({}));
-                if (errorData.error === "authorization_pending") {
-                    continue;
-                }
-                if (errorData.error === "expired_token") {
-                    output.error("Login expired. Please try again.");
-                    return false;
-                }
-            }
-
-            output.error("Login timed out. Please try again.");
-            return false;
-        } catch (err) {
-            output.error(`Browser login failed: ${err}`);
+    async loginInteractive(prompt: LoginPrompt): Promise<boolean> {
+        const identity = (await prompt("API key or email: ")).trim();
+        if (!identity) {
+            output.error("Login cancelled");
             return false;
         }
+        if (identity.startsWith(API_KEY_PREFIX)) {
+            return this.loginWithApiKey(identity);
+        }
+        const password = await prompt("Password: ", true);
+        return this.loginWithCredentials(identity, password);
     }
 
     /**
@@ -208,6 +178,7 @@ export class AuthManager {
     async logout(): Promise<void> {
         const secrets = await this.getSecrets();
         await secrets.delete(CONFIG_KEY);
+        this.cached = null;
         output.success("Logged out successfully");
     }
 
@@ -215,33 +186,69 @@ export class AuthManager {
      * Get current auth config
      */
     async getAuth(): Promise<AuthConfig | null> {
+        if (this.cached !== undefined) return this.cached;
         try {
             const secrets = await this.getSecrets();
             const data = await secrets.get(CONFIG_KEY);
-            if (!data) return null;
-            return JSON.parse(data);
+            this.cached = data ? JSON.parse(data) : null;
         } catch (err: unknown) {
-            return null;
+            this.cached = null;
         }
+        return this.cached ?? null;
     }
 
     /**
-     * Get authorization header for API calls
+     * Get authorization header for API calls.
+     * Credentials saved for a different server are never sent; access tokens
+     * close to expiry are refreshed first.
      */
     async getAuthHeader(): Promise<string | null> {
-        const auth = await this.getAuth();
+        let auth = await this.getAuth();
         if (!auth) return null;
+        if (auth.serverUrl && auth.serverUrl !== this.serverUrl) return null;
 
         if (auth.apiKey) {
             return `Bearer ${auth.apiKey}`;
         }
         if (auth.accessToken) {
-            // TODO: Check expiry and refresh if needed
+            if (auth.expiresAt && Date.now() >= auth.expiresAt - REFRESH_SKEW_MS && (await this.refresh())) {
+                auth = (await this.getAuth()) ?? auth;
+            }
             return `Bearer ${auth.accessToken}`;
         }
         return null;
     }
 
+    /**
+     * Exchange the refresh token for a new token pair. The server rotates the
+     * refresh token on every call, so concurrent callers share one request.
+     */
+    async refresh(): Promise<boolean> {
+        if (!this.refreshing) {
+            this.refreshing = this.rotateTokens().finally(() => {
+                this.refreshing = null;
+            });
+        }
+        return this.refreshing;
+    }
+
+    private async rotateTokens(): Promise<boolean> {
+        const auth = await this.getAuth();
+        if (!auth?.refreshToken || (auth.serverUrl && auth.serverUrl !== this.serverUrl)) return false;
+        try {
+            const res = await fetch(`${this.serverUrl}/v1/auth/refresh`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ refresh_token: auth.refreshToken })
+            });
+            if (!res.ok) return false;
+            await this.saveTokens((await res.json()) as TokenResponse);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
     /**
      * Check if authenticated
      */
@@ -261,32 +268,87 @@ export class AuthManager {
         if (!header) return null;
 
         try {
-            const res = await fetch(`${auth.serverUrl || this.serverUrl}/v1/account`, {
+            const res = await fetch(`${this.serverUrl}/v1/whoami`, {
                 headers: { "Authorization": header }
             });
 
             if (!res.ok) return { email: auth.email, orgId: auth.orgId };
 
-            return await res.json();
+            const data = await res.json();
+            return { email: auth.email, orgId: data.org_id, plan: data.plan_id };
         } catch {
             return { email: auth.email, orgId: auth.orgId };
         }
     }
 }
 
-function sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+function terminalPrompt(question: string, secret = false): Promise<string> {
+    const rl = readline.createInterface({
+        input: process.stdin,
+        output: secret ? new Writable({ write: (_chunk, _encoding, done) => done() }) : process.stdout,
+        terminal: true
+    });
+    if (secret) process.stdout.write(question);
+    return new Promise((resolve) => {
+        rl.question(secret ? "" : question, (answer) => {
+            rl.close();
+            if (secret) process.stdout.write("\n");
+            resolve(answer);
+        });
+    });
+}
+
+// One manager per server so the CLI's clients share cached credentials and token refreshes
+const managers = new Map<string, AuthManager>();
+
+export function getAuthManager(serverUrl: string): AuthManager {
+    let manager = managers.get(serverUrl);
+    if (!manager) {
+        manager = new AuthManager(serverUrl);
+        managers.set(serverUrl, manager);
+    }
+    return manager;
+}
+
+/**
+ * Authorization header for API, SSE and runner connections. Keychain credentials
+ * from `trcoder login` win; the api_key in cli.json remains the fallback for the
+ * local dev server.
+ */
+export async function getCliAuthHeader(config: CliConfig): Promise<string> {
+    const header = await getAuthManager(config.server_url).getAuthHeader();
+    return header ?? `Bearer ${config.api_key}`;
+}
+
+/**
+ * Called after a 401: rotate the stored tokens. Returns true when a retry may succeed.
+ */
+export async function refreshCliAuth(config: CliConfig): Promise<boolean> {
+    return getAuthManager(config.server_url).refresh();
 }
 
 // CLI command handlers
-export async function handleLoginCommand(args: string[]): Promise<void> {
-    const auth = new AuthManager();
+
+/**
+ * `login` with flags logs in directly; without them it prompts, when a prompt
+ * is available (an interactive terminal by default).
+ */
+export async function handleLoginCommand(
+    args: string[],
+    serverUrl: string,
+    prompt: LoginPrompt | null = process.stdin.isTTY ? terminalPrompt : null
+): Promise<boolean> {
+    const auth = getAuthManager(serverUrl);
+
+    if (args.includes("--browser")) {
+        output.error("Browser login is not supported. Use --api-key <key> or --email <email> --password <password>.");
+        return false;
+    }
 
     // Check for --api-key flag
     const apiKeyIndex = args.indexOf("--api-key");
     if (apiKeyIndex !== -1 && args[apiKeyIndex + 1]) {
-        await auth.loginWithApiKey(args[apiKeyIndex + 1]);
-        return;
+        return auth.loginWithApiKey(args[apiKeyIndex + 1]);
     }
 
     // Check for --email and --password flags
@@ -296,22 +358,23 @@ export async function handleLoginCommand(args: string[]): Promise<void> {
         const email = args[emailIndex + 1];
         const password = args[passwordIndex + 1];
         if (email && password) {
-            await auth.loginWithCredentials(email, password);
-            return;
+            return auth.loginWithCredentials(email, password);
         }
     }
 
-    // Default: browser login
-    await auth.loginWithBrowser();
+    if (!prompt) {
+        output.error("Usage: login --api-key <key> | --email <email> --password <password>");
+        return false;
+    }
+    return auth.loginInteractive(prompt);
 }
 
-export async function handleLogoutCommand(): Promise<void> {
-    const auth = new AuthManager();
-    await auth.logout();
+export async function handleLogoutCommand(serverUrl: string): Promise<void> {
+    await getAuthManager(serverUrl).logout();
 }
 
-export async function handleAccountCommand(): Promise<void> {
-    const auth = new AuthManager();
+export async function handleAccountCommand(serverUrl: string): Promise<void> {
+    const auth = getAuthManager(serverUrl);
 
     const isAuth = await auth.isAuthenticated();
     if (!isAuth) {
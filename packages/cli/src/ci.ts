@@ -0,0 +1,375 @@
+import fs from "fs";
+import { ApiClient, ApiError } from "./api-client";
+import { getCliAuthHeader } from "./auth";
+import { CliConfig, loadConfig, saveConfig } from "./config-store";
+import { connectRepo } from "./connect";
+import { formatPatchCheck } from "./diff-view";
+import { ensureLocalServerRunning } from "./local-server";
+import { loadPermissionPolicy } from "./permissions";
+import { getRepoCommit } from "./repo";
+import { RunnerClient } from "./runner-client";
+
+// Exit codes for scripted use (CI, cron). Keep in sync with docs/ux-cli.md.
+export const EXIT_CODES = {
+  OK: 0,
+  FAILED: 1,
+  USAGE: 2,
+  NEEDS_CONFIRMATION: 3,
+  PAUSED: 4
+} as const;
+
+export const CI_COMMANDS = ["plan", "run", "verify", "apply", "usage"];
+
+const RUNNER_CONNECT_TIMEOUT_MS = 10_000;
+const RUN_POLL_INTERVAL_MS = 2_000;
+
+export interface CiArgs {
+  positionals: string[];
+  flags: Record<string, string | true>;
+  // Repeatable flags (e.g. --pin a --pin b) in the order given
+  lists: Record<string, string[]>;
+}
+
+const BOOLEAN_FLAGS = new Set(["json", "yes", "wait", "strict", "local", "staged", "check", "rebase"]);
+
+export function parseCiArgs(args: string[]): CiArgs {
+  const parsed: CiArgs = { positionals: [], flags: {}, lists: {} };
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) {
+      parsed.positionals.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf("=");
+    const name = eq === -1 ? arg.slice(2) : arg.slice(2, eq);
+    let value: string | true = true;
+    if (eq !== -1) {
+      value = arg.slice(eq + 1);
+    } else if (!BOOLEAN_FLAGS.has(name) && args[i + 1] !== undefined && !args[i + 1].startsWith("--")) {
+      value = args[i + 1];
+      i += 1;
+    }
+    parsed.flags[name] = value;
+    if (typeof value === "string") {
+      (parsed.lists[name] ??= []).push(value);
+    }
+  }
+  return parsed;
+}
+
+export function exitCodeForRunState(state: string | undefined): number {
+  if (state === "DONE") return EXIT_CODES.OK;
+  if (state === "PAUSED") return EXIT_CODES.PAUSED;
+  return EXIT_CODES.FAILED;
+}
+
+class CiUsageError extends Error {}
+
+function stringFlag(args: CiArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  if (value === true) {
+    throw new CiUsageError(`--${name} requires a value`);
+  }
+  return value;
+}
+
+interface CiContext {
+  config: CliConfig;
+  api: ApiClient;
+  args: CiArgs;
+}
+
+interface CiResult {
+  code: number;
+  data: Record<string, unknown>;
+  text: string[];
+}
+
+function log(message: string): void {
+  // stdout is reserved for the command result so it can be piped into jq
+  process.stderr.write(`${message}\n`);
+}
+
+async function withRunner<T>(ctx: CiContext, fn: () => Promise<T>): Promise<T> {
+  const runner = new RunnerClient({
+    serverUrl: ctx.config.server_url,
+    getAuthHeader: () => getCliAuthHeader(ctx.config),
+    projectId: "",
+    permissions: loadPermissionPolicy(),
+    // Nobody is there to answer prompts; --yes is the only way to allow "ask" actions
+    confirm: async () => ctx.args.flags.yes === true,
+    log
+  });
+  runner.setProjectId(ctx.config.project_id ?? "");
+  try {
+    const deadline = Date.now() + RUNNER_CONNECT_TIMEOUT_MS;
+    while (!runner.getStatus().session_id && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    if (!runner.getStatus().session_id) {
+      log(`Runner not connected: ${runner.getStatus().last_error ?? "timeout"}`);
+    }
+    return await fn();
+  } finally {
+    runner.close();
+  }
+}
+
+function requireRunId(ctx: CiContext): string {
+  const runId = stringFlag(ctx.args, "run") ?? ctx.config.last_run_id;
+  if (!runId) {
+    throw new CiUsageError("No run found. Pass --run <run_id> or start one with `trcoder run`.");
+  }
+  return runId;
+}
+
+async function ciPlan(ctx: CiContext): Promise<CiResult> {
+  const projectPath = `/v1/projects/${ctx.config.project_id}`;
+  if (ctx.args.positionals[0] === "approve") {
+    const status = await ctx.api.get<any>(`${projectPath}/plan/status`);
+    const planId =
+      stringFlag(ctx.args, "plan") ?? status.latest_plan_id ?? status.approved_plan_id ?? ctx.config.last_plan_id;
+    if (!planId) {
+      return { code: EXIT_CODES.FAILED, data: { error: "no_plan" }, text: ["No plan to approve."] };
+    }
+    await ctx.api.post(`${projectPath}/plan/approve`, { plan_id: planId, repo_commit: await getRepoCommit() });
+    return { code: EXIT_CODES.OK, data: { plan_id: planId, approved: true }, text: [`Plan approved: ${planId}`] };
+  }
+  if (ctx.args.positionals.length > 0) {
+    throw new CiUsageError(`Unknown plan subcommand: ${ctx.args.positionals[0]}`);
+  }
+
+  const from = stringFlag(ctx.args, "from");
+  const text = stringFlag(ctx.args, "text");
+  if (!from && !text) {
+    throw new CiUsageError("Usage: trcoder plan --from <file> | --text <request>");
+  }
+  const pins = [...(ctx.config.pins ?? []), ...(ctx.args.lists.pin ?? [])];
+  let input: { text?: string; files?: Array<{ path: string; content: string }> };
+  if (from) {
+    if (!fs.existsSync(from)) {
+      throw new CiUsageError(`File not found: ${from}`);
+    }
+    input = { files: [{ path: from, content: fs.readFileSync(from, "utf8") }], text };
+    if (!pins.includes(from)) {
+      pins.push(from);
+    }
+  } else {
+    input = { text };
+  }
+
+  const res = await withRunner(ctx, () =>
+    ctx.api.post<any>(`${projectPath}/plan`, {
+      input,
+      pins,
+      lane: ctx.config.lane,
+      risk: ctx.config.risk,
+      budget_cap_usd: ctx.config.budget_cap_usd
+    })
+  );
+  ctx.config.last_plan_id = res.plan_id;
+  saveConfig(ctx.config);
+  return {
+    code: EXIT_CODES.OK,
+    data: res,
+    text: [`Plan created: ${res.plan_id}`, "Approve it with `trcoder plan approve`."]
+  };
+}
+
+async function ciRun(ctx: CiContext): Promise<CiResult> {
+  const yes = ctx.args.flags.yes === true;
+  const timeoutRaw = stringFlag(ctx.args, "timeout");
+  const timeoutSec = timeoutRaw === undefined ? undefined : Number(timeoutRaw);
+  if (timeoutSec !== undefined && (!Number.isFinite(timeoutSec) || timeoutSec <= 0)) {
+    throw new CiUsageError("--timeout must be a positive number of seconds");
+  }
+
+  return withRunner(ctx, async () => {
+    let res: any;
+    try {
+      res = await ctx.api.post<any>(`/v1/projects/${ctx.config.project_id}/runs/start`, {
+        lane: ctx.config.lane,
+        risk: ctx.config.risk,
+        budget_cap_usd: ctx.config.budget_cap_usd,
+        context_budget: ctx.config.context_override,
+        task_id: stringFlag(ctx.args, "task"),
+        confirm_high_risk: yes,
+        confirm_stale: yes
+      });
+    } catch (err) {
+      if (err instanceof ApiError && (err.code === "plan_stale" || err.code === "high_risk_confirmation_required")) {
+        return {
+          code: EXIT_CODES.NEEDS_CONFIRMATION,
+          data: { error: err.code, exit_code: EXIT_CODES.NEEDS_CONFIRMATION },
+          text: [`Run needs confirmation (${err.code}). Re-run with --yes to proceed.`]
+        };
+      }
+      throw err;
+    }
+
+    const runId = res.run_id as string;
+    ctx.config.last_run_id = runId;
+    saveConfig(ctx.config);
+
+    let state: string = res.state;
+    let status: any = res;
+    if (ctx.args.flags.wait === true) {
+      const deadline = timeoutSec === undefined ? undefined : Date.now() + timeoutSec * 1000;
+      while (state === "INIT" || state === "RUNNING") {
+        if (deadline !== undefined && Date.now() >= deadline) {
+          return {
+            code: EXIT_CODES.FAILED,
+            data: { run_id: runId, state, error: "timeout", exit_code: EXIT_CODES.FAILED },
+            text: [`Run ${runId} still ${state} after ${timeoutSec}s.`]
+          };
+        }
+        await new Promise((resolve) => setTimeout(resolve, RUN_POLL_INTERVAL_MS));
+        status = await ctx.api.get<any>(`/v1/runs/${runId}/status`);
+        state = status.state;
+      }
+    }
+
+    const completed = status.tasks_completed ?? 0;
+    const total = status.tasks_total ?? status.tasks_scheduled ?? 0;
+    return {
+      // Without --wait a run that is still going counts as a successful start
+      code: state === "INIT" || state === "RUNNING" ? EXIT_CODES.OK : exitCodeForRunState(state),
+      data: { ...status, run_id: runId, state },
+      text: [`Run ${runId}: ${state} (${completed}/${total} tasks)`]
+    };
+  });
+}
+
+async function ciVerify(ctx: CiContext): Promise<CiResult> {
+  const runId = requireRunId(ctx);
+  const res = await withRunner(ctx, () =>
+    ctx.api.post<any>(`/v1/runs/${runId}/verify`, {
+      mode: ctx.args.flags.strict === true ? "strict" : undefined,
+      target: stringFlag(ctx.args, "target")
+    })
+  );
+  return {
+    code: res.status === "pass" ? EXIT_CODES.OK : EXIT_CODES.FAILED,
+    data: { run_id: runId, ...res },
+    text: [`Verify: ${res.status}`, ...(res.report_path ? [`Report: ${res.report_path}`] : [])]
+  };
+}
+
+async function ciCheckPatch(ctx: CiContext, runId: string): Promise<CiResult> {
+  const text: string[] = [];
+  const check = await withRunner(ctx, async () => {
+    const first = await ctx.api.post<any>(`/v1/runs/${runId}/patch/check`, {});
+    text.push(formatPatchCheck(first));
+    if (!first.rebase_available) return first;
+    if (ctx.args.flags.rebase !== true) {
+      text.push("Re-run with --rebase to regenerate the patch against the current HEAD.");
+      return first;
+    }
+    const rebased = await ctx.api.post<any>(`/v1/runs/${runId}/patch/rebase`, { task_id: first.task_id });
+    text.push(`Patch regenerated: ${rebased.patch_path}`);
+    if (rebased.status) text.push(formatPatchCheck(rebased));
+    return rebased;
+  });
+  return {
+    code: check.status === "clean" || check.status === "three_way" ? EXIT_CODES.OK : EXIT_CODES.FAILED,
+    data: { run_id: runId, ...check },
+    text
+  };
+}
+
+async function ciApply(ctx: CiContext): Promise<CiResult> {
+  const runId = requireRunId(ctx);
+  // A dry run changes nothing in the repository, so it needs no --yes
+  if (ctx.args.flags.check === true) {
+    return ciCheckPatch(ctx, runId);
+  }
+  if (ctx.args.flags.yes !== true) {
+    return {
+      code: EXIT_CODES.NEEDS_CONFIRMATION,
+      data: { error: "confirmation_required", exit_code: EXIT_CODES.NEEDS_CONFIRMATION },
+      text: ["Apply changes the repository. Re-run with --yes to confirm."]
+    };
+  }
+  if (ctx.args.flags.local === true && ctx.args.flags.staged === true) {
+    throw new CiUsageError("--local and --staged cannot be combined");
+  }
+  const mode = ctx.args.flags.staged === true ? "staged" : ctx.args.flags.local === true ? "branch" : "pr";
+  const branch = stringFlag(ctx.args, "branch");
+  const res = await withRunner(ctx, () => ctx.api.post<any>(`/v1/runs/${runId}/apply`, { mode, branch }));
+  let text = `PR created: ${res.pr_url ?? "n/a"}`;
+  if (res.mode === "staged") {
+    text = `Staged ${res.files?.length ?? 0} file(s) in the working tree.`;
+  } else if (res.mode === "branch") {
+    text = `Committed ${res.commit_sha ?? ""} on local branch ${res.branch}.`;
+  }
+  return {
+    code: EXIT_CODES.OK,
+    data: { run_id: runId, ...res },
+    text: [text]
+  };
+}
+
+async function ciUsage(ctx: CiContext): Promise<CiResult> {
+  const period = ctx.args.positionals[0] ?? "month";
+  if (period !== "month" && period !== "today") {
+    throw new CiUsageError("Usage: trcoder usage [month|today] [--json]");
+  }
+  const usage = await ctx.api.get<Record<string, unknown>>(`/v1/usage/${period}`);
+  return { code: EXIT_CODES.OK, data: usage, text: [JSON.stringify(usage, null, 2)] };
+}
+
+const HANDLERS: Record<string, (ctx: CiContext) => Promise<CiResult>> = {
+  plan: ciPlan,
+  run: ciRun,
+  verify: ciVerify,
+  apply: ciApply,
+  usage: ciUsage
+};
+
+function emit(json: boolean, result: CiResult): void {
+  if (json) {
+    process.stdout.write(`${JSON.stringify(result.data)}\n`);
+    return;
+  }
+  for (const line of result.text) {
+    process.stdout.write(`${line}\n`);
+  }
+}
+
+// Entry point for `trcoder <plan|run|verify|apply|usage>`; returns the process exit code
+export async function runCiCommand(cmd: string, rawArgs: string[]): Promise<number> {
+  const args = parseCiArgs(rawArgs);
+  const json = args.flags.json === true;
+  const fail = (code: number, error: string, message: string): number => {
+    emit(json, { code, data: { error, message, exit_code: code }, text: [] });
+    if (!json) {
+      log(`Error: ${message}`);
+    }
+    return code;
+  };
+
+  const handler = HANDLERS[cmd];
+  if (!handler) {
+    return fail(EXIT_CODES.USAGE, "unknown_command", `Unknown command: ${cmd}`);
+  }
+
+  const config = loadConfig();
+  const api = new ApiClient(config);
+  try {
+    await ensureLocalServerRunning({ serverUrl: config.server_url, apiKey: config.api_key, log });
+    const projectId = await connectRepo(api);
+    if (config.project_id !== projectId) {
+      config.project_id = projectId;
+      saveConfig(config);
+    }
+    const result = await handler({ config, api, args });
+    emit(json, result);
+    return result.code;
+  } catch (err) {
+    if (err instanceof CiUsageError) {
+      return fail(EXIT_CODES.USAGE, "usage", err.message);
+    }
+    const code = err instanceof ApiError ? err.code ?? `http_${err.status}` : "error";
+    return fail(EXIT_CODES.FAILED, code, (err as Error).message);
+  }
+}
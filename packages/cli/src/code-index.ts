@@ -0,0 +1,436 @@
+import fs from "fs";
+import path from "path";
+import {
+  CodeSearchHit,
+  CodeSearchRelated,
+  CodeSearchRequest,
+  CodeSearchResult
+} from "@trcoder/shared";
+
+export type SymbolKind = "function" | "class" | "interface" | "type" | "enum" | "variable";
+
+export interface CodeSymbol {
+  name: string;
+  kind: SymbolKind;
+  line: number;
+  exported: boolean;
+}
+
+interface IndexedFile {
+  path: string;
+  mtimeMs: number;
+  size: number;
+  lines: number;
+  symbols: CodeSymbol[];
+  specifiers: string[];
+  // Repo-relative import edges in both directions, resolved after every refresh
+  imports: string[];
+  importedBy: string[];
+  terms: Map<string, number>;
+  length: number;
+}
+
+const MAX_INDEX_FILES = 5000;
+const MAX_FILE_BYTES = 512 * 1024;
+const MAX_SNIPPET_CHARS = 200;
+const SKIP_DIRS = new Set(["node_modules", ".git", "dist", "build", "coverage", ".next", ".turbo", ".trcoder"]);
+const SCRIPT_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
+const TEXT_EXTENSIONS = new Set([
+  ...SCRIPT_EXTENSIONS,
+  ".json",
+  ".md",
+  ".yaml",
+  ".yml",
+  ".py",
+  ".go",
+  ".rs",
+  ".java",
+  ".css",
+  ".html",
+  ".sql",
+  ".sh",
+  ".toml",
+  ".txt"
+]);
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Path tokens count as this many occurrences, so file names rank above passing mentions
+const PATH_TERM_WEIGHT = 3;
+const SYMBOL_DEFINITION_BOOST = 10;
+// Widely imported files can pull in most of the repo through their dependents
+const MAX_RELATED_FILES = 500;
+
+const NAME = "(?<name>[A-Za-z_$][\\w$]*)";
+const SCRIPT_SYMBOL_PATTERNS: Array<[RegExp, SymbolKind]> = [
+  [new RegExp(`^\\s*(export\\s+)?(default\\s+)?(async\\s+)?function\\s*\\*?\\s*${NAME}`), "function"],
+  [new RegExp(`^\\s*(export\\s+)?(default\\s+)?(abstract\\s+)?class\\s+${NAME}`), "class"],
+  [new RegExp(`^\\s*(export\\s+)?(declare\\s+)?interface\\s+${NAME}`), "interface"],
+  [new RegExp(`^\\s*(export\\s+)?(declare\\s+)?type\\s+${NAME}\\s*(<[^=]*>)?\\s*=`), "type"],
+  [new RegExp(`^\\s*(export\\s+)?(declare\\s+)?(const\\s+)?enum\\s+${NAME}`), "enum"],
+  // Only top-level bindings; locals would drown out real definitions
+  [new RegExp(`^(export\\s+)?(const|let|var)\\s+${NAME}`), "variable"]
+];
+const PYTHON_SYMBOL_PATTERNS: Array<[RegExp, SymbolKind]> = [
+  [new RegExp(`^\\s*(async\\s+)?def\\s+${NAME}`), "function"],
+  [new RegExp(`^class\\s+${NAME}`), "class"]
+];
+const IMPORT_PATTERNS = [
+  /\bimport\s+(?:type\s+)?(?:[\w*${}\s,]+?\s+from\s+)?["']([^"']+)["']/g,
+  /\bexport\s+(?:type\s+)?(?:\*(?:\s+as\s+[\w$]+)?|\{[^}]*\})\s+from\s+["']([^"']+)["']/g,
+  /\brequire\(\s*["']([^"']+)["']\s*\)/g,
+  /\bimport\(\s*["']([^"']+)["']\s*\)/g
+];
+// Python modules come back as dotted names ("pkg.mod", ".sibling", "..parent.mod")
+const PYTHON_IMPORT_PATTERNS = [/^\s*from\s+(\.*[\w.]*)\s+import\b/gm, /^\s*import\s+([\w.]+(?:\s*,\s*[\w.]+)*)/gm];
+
+export function globToRegex(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  // Swap "**" out first so the single-star rule does not rewrite its ".*"
+  const regex = `^${escaped.replace(/\*\*/g, "\0").replace(/\*/g, "[^/]*").replace(/\0/g, ".*")}$`;
+  return new RegExp(regex, "i");
+}
+
+// Fold plurals so "invoices" finds "invoice"; applied to documents and queries alike
+function stem(term: string): string {
+  if (term.length > 4 && term.endsWith("ies")) return `${term.slice(0, -3)}y`;
+  if (term.length > 3 && term.endsWith("s") && !term.endsWith("ss")) return term.slice(0, -1);
+  return term;
+}
+
+/**
+ * Split text into lowercase search terms. Identifiers are split on camelCase and
+ * underscores and also kept whole, so both "buildContextPack" and "context" match.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[A-Za-z0-9_$]+/g) ?? []) {
+    const parts = word
+      .split(/[_$]+/)
+      .flatMap((part) => part.split(/(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/));
+    for (const part of parts) {
+      const term = part.toLowerCase();
+      if (term.length >= 2 && !/^\d+$/.test(term)) terms.push(stem(term));
+    }
+    if (parts.length > 1) terms.push(stem(word.toLowerCase()));
+  }
+  return terms;
+}
+
+export function extractSymbols(filePath: string, content: string): CodeSymbol[] {
+  const ext = path.extname(filePath);
+  const patterns = SCRIPT_EXTENSIONS.includes(ext)
+    ? SCRIPT_SYMBOL_PATTERNS
+    : ext === ".py"
+      ? PYTHON_SYMBOL_PATTERNS
+      : [];
+  if (patterns.length === 0) return [];
+
+  const symbols: CodeSymbol[] = [];
+  content.split(/\r?\n/).forEach((line, index) => {
+    for (const [pattern, kind] of patterns) {
+      const name = pattern.exec(line)?.groups?.name;
+      if (name) {
+        symbols.push({ name, kind, line: index + 1, exported: /^\s*export\b/.test(line) });
+        break;
+      }
+    }
+  });
+  return symbols;
+}
+
+export function extractImportSpecifiers(filePath: string, content: string): string[] {
+  const ext = path.extname(filePath);
+  const specifiers = new Set<string>();
+  if (SCRIPT_EXTENSIONS.includes(ext)) {
+    for (const pattern of IMPORT_PATTERNS) {
+      for (const match of content.matchAll(pattern)) {
+        specifiers.add(match[1]);
+      }
+    }
+  } else if (ext === ".py") {
+    for (const pattern of PYTHON_IMPORT_PATTERNS) {
+      for (const match of content.matchAll(pattern)) {
+        for (const name of match[1].split(",")) {
+          if (name.trim()) specifiers.add(name.trim());
+        }
+      }
+    }
+  }
+  return [...specifiers];
+}
+
+function normalizeScope(root: string, entry: string): string {
+  const rel = path.isAbsolute(entry) ? path.relative(root, entry) : entry;
+  return rel.replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/$/, "");
+}
+
+function matchesScope(filePath: string, scope: string): boolean {
+  if (scope === "" || scope === ".") return true;
+  if (scope.includes("*")) return globToRegex(scope).test(filePath);
+  return filePath === scope || filePath.startsWith(`${scope}/`);
+}
+
+/**
+ * Local index of a repository for context retrieval: files, declared symbols,
+ * relative import edges and BM25 term statistics. refresh() only re-parses
+ * files whose size or mtime changed, so it is cheap to call before every search.
+ */
+export class CodeIndex {
+  private files = new Map<string, IndexedFile>();
+  private documentFrequency = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(readonly root: string) {}
+
+  get size(): number {
+    return this.files.size;
+  }
+
+  refresh(): void {
+    const seen = new Set<string>();
+    let changed = false;
+
+    const walk = (dir: string) => {
+      if (seen.size >= MAX_INDEX_FILES) return;
+      const entries = fs.readdirSync(dir, { withFileTypes: true });
+      for (const entry of entries) {
+        if (seen.size >= MAX_INDEX_FILES) return;
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          if (!SKIP_DIRS.has(entry.name)) walk(full);
+          continue;
+        }
+        if (!entry.isFile() || !TEXT_EXTENSIONS.has(path.extname(entry.name))) continue;
+        const stat = fs.statSync(full);
+        if (stat.size > MAX_FILE_BYTES) continue;
+        const rel = path.relative(this.root, full).replace(/\\/g, "/");
+        seen.add(rel);
+        const existing = this.files.get(rel);
+        if (existing && existing.mtimeMs === stat.mtimeMs && existing.size === stat.size) continue;
+        this.files.set(rel, this.parseFile(rel, full, stat));
+        changed = true;
+      }
+    };
+    walk(this.root);
+
+    for (const rel of this.files.keys()) {
+      if (!seen.has(rel)) {
+        this.files.delete(rel);
+        changed = true;
+      }
+    }
+    if (changed) this.recompute();
+  }
+
+  getFile(
+    filePath: string
+  ): { path: string; lines: number; symbols: CodeSymbol[]; imports: string[]; importedBy: string[] } | undefined {
+    const file = this.files.get(filePath);
+    if (!file) return undefined;
+    const { path: rel, lines, symbols, imports, importedBy } = file;
+    return { path: rel, lines, symbols, imports, importedBy };
+  }
+
+  search(request: CodeSearchRequest): CodeSearchResult {
+    const scopes = (request.paths ?? []).map((entry) => normalizeScope(this.root, entry));
+    const excludes = (request.exclude_paths ?? []).map((entry) => normalizeScope(this.root, entry));
+    const isExcluded = (filePath: string) => excludes.some((scope) => matchesScope(filePath, scope));
+    const symbols = (request.symbols ?? []).filter(Boolean);
+    const queryTerms = [...new Set([...tokenize(request.query ?? ""), ...symbols.flatMap((symbol) => tokenize(symbol))])];
+    const scopeOnly = queryTerms.length === 0 && scopes.length > 0;
+    const total = this.files.size;
+
+    const scored: Array<{ file: IndexedFile; score: number; defined: CodeSymbol[]; matched: string[] }> = [];
+    for (const file of this.files.values()) {
+      if (isExcluded(file.path)) continue;
+      if (scopes.length > 0 && !scopes.some((scope) => matchesScope(file.path, scope))) continue;
+
+      let score = 0;
+      const matched: string[] = [];
+      for (const term of queryTerms) {
+        const tf = file.terms.get(term);
+        if (!tf) continue;
+        const df = this.documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+        const norm = K1 * (1 - B + (B * file.length) / (this.averageLength || 1));
+        score += (idf * tf * (K1 + 1)) / (tf + norm);
+        matched.push(term);
+      }
+      const defined = file.symbols.filter((symbol) => symbols.includes(symbol.name));
+      for (const symbol of defined) {
+        score += SYMBOL_DEFINITION_BOOST + (symbol.exported ? 2 : 0);
+      }
+      if (score > 0 || scopeOnly) {
+        scored.push({ file, score, defined, matched });
+      }
+    }
+
+    scored.sort((a, b) => b.score - a.score || a.file.path.localeCompare(b.file.path));
+    const hits: CodeSearchHit[] = scored.slice(0, Math.max(1, request.top_k)).map(({ file, score, defined, matched }) => {
+      const { line, snippet } = this.locate(file, defined, matched);
+      let why = "in task scope";
+      if (defined.length > 0) {
+        why = `defines ${defined.map((symbol) => symbol.name).join(", ")}`;
+      } else if (matched.length > 0) {
+        why = `matches ${matched.slice(0, 3).join(", ")}`;
+      }
+      return { path: file.path, score: Number(score.toFixed(4)), line, snippet, lines: file.lines, why };
+    });
+
+    // Seeds (pinned files) are graph roots even when they do not match the query
+    const seeds = (request.seeds ?? [])
+      .map((entry) => normalizeScope(this.root, entry))
+      .filter((seed) => this.files.has(seed) && !isExcluded(seed));
+    const roots = [...new Set([...seeds, ...hits.map((hit) => hit.path)])];
+
+    return {
+      hits,
+      related: this.expandGraph(roots, request.graph_depth ?? 0, isExcluded),
+      indexed_files: total
+    };
+  }
+
+  // Breadth-first walk over import edges in both directions, nearest files first
+  private expandGraph(
+    start: string[],
+    depth: number,
+    isExcluded: (filePath: string) => boolean
+  ): CodeSearchRelated[] {
+    const visited = new Set(start);
+    const related: CodeSearchRelated[] = [];
+    let frontier = start;
+    for (let level = 1; level <= depth && frontier.length > 0; level += 1) {
+      const next: string[] = [];
+      for (const from of frontier) {
+        const file = this.files.get(from);
+        const edges = [
+          ...(file?.imports ?? []).map((target) => ({
+            target,
+            direction: "dependency" as const,
+            why: `imported by ${from}`
+          })),
+          ...(file?.importedBy ?? []).map((target) => ({ target, direction: "dependent" as const, why: `imports ${from}` }))
+        ];
+        for (const { target, direction, why } of edges) {
+          if (related.length >= MAX_RELATED_FILES) return related;
+          if (visited.has(target) || isExcluded(target)) continue;
+          visited.add(target);
+          next.push(target);
+          related.push({ path: target, lines: this.files.get(target)?.lines ?? 0, why, direction, depth: level });
+        }
+      }
+      frontier = next;
+    }
+    return related;
+  }
+
+  private locate(file: IndexedFile, defined: CodeSymbol[], matched: string[]): { line: number; snippet: string } {
+    let lines: string[];
+    try {
+      lines = fs.readFileSync(path.join(this.root, file.path), "utf8").split(/\r?\n/);
+    } catch {
+      return { line: 1, snippet: "" };
+    }
+    let index = defined.length > 0 ? defined[0].line - 1 : -1;
+    if (index < 0 && matched.length > 0) {
+      const wanted = new Set(matched);
+      index = lines.findIndex((text) => tokenize(text).some((term) => wanted.has(term)));
+    }
+    index = Math.max(index, 0);
+    return { line: index + 1, snippet: (lines[index] ?? "").trim().slice(0, MAX_SNIPPET_CHARS) };
+  }
+
+  private parseFile(rel: string, full: string, stat: fs.Stats): IndexedFile {
+    const content = fs.readFileSync(full, "utf8");
+    const terms = new Map<string, number>();
+    for (const term of tokenize(content)) {
+      terms.set(term, (terms.get(term) ?? 0) + 1);
+    }
+    for (const term of new Set(tokenize(rel))) {
+      terms.set(term, (terms.get(term) ?? 0) + PATH_TERM_WEIGHT);
+    }
+    let length = 0;
+    for (const count of terms.values()) length += count;
+
+    return {
+      path: rel,
+      mtimeMs: stat.mtimeMs,
+      size: stat.size,
+      lines: content.split(/\r?\n/).length,
+      symbols: extractSymbols(rel, content),
+      specifiers: extractImportSpecifiers(rel, content),
+      imports: [],
+      importedBy: [],
+      terms,
+      length
+    };
+  }
+
+  private recompute(): void {
+    this.documentFrequency.clear();
+    let totalLength = 0;
+    for (const file of this.files.values()) {
+      totalLength += file.length;
+      for (const term of file.terms.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+      }
+      file.importedBy = [];
+    }
+    for (const file of this.files.values()) {
+      file.imports = [
+        ...new Set(
+          file.specifiers
+            .map((specifier) => this.resolveImport(file.path, specifier))
+            .filter((target): target is string => Boolean(target))
+        )
+      ];
+      for (const target of file.imports) {
+        this.files.get(target)?.importedBy.push(file.path);
+      }
+    }
+    this.averageLength = this.files.size > 0 ? totalLength / this.files.size : 0;
+  }
+
+  private resolveImport(from: string, specifier: string): string | undefined {
+    return from.endsWith(".py") ? this.resolvePythonImport(from, specifier) : this.resolveScriptImport(from, specifier);
+  }
+
+  // Only relative specifiers resolve to repo files; packages are outside the index
+  private resolveScriptImport(from: string, specifier: string): string | undefined {
+    if (!specifier.startsWith(".")) return undefined;
+    const base = path.posix.normalize(path.posix.join(path.posix.dirname(from), specifier));
+    // TS sources import siblings as "./x.js"
+    const stripped = base.replace(/\.(m|c)?jsx?$/, "");
+    const candidates = [
+      base,
+      ...SCRIPT_EXTENSIONS.map((ext) => `${stripped}${ext}`),
+      ...SCRIPT_EXTENSIONS.map((ext) => `${base}/index${ext}`)
+    ];
+    return candidates.find((candidate) => candidate !== from && this.files.has(candidate));
+  }
+
+  // Relative modules resolve from the importing package; absolute ones from the repo
+  // root or the importing directory. Third-party modules are simply not found.
+  private resolvePythonImport(from: string, specifier: string): string | undefined {
+    const dots = /^\.*/.exec(specifier)?.[0].length ?? 0;
+    const modulePath = specifier.slice(dots).split(".").filter(Boolean).join("/");
+    let bases: string[];
+    if (dots > 0) {
+      let dir = path.posix.dirname(from);
+      for (let i = 1; i < dots; i += 1) dir = path.posix.dirname(dir);
+      bases = [dir];
+    } else {
+      bases = [".", path.posix.dirname(from)];
+    }
+    for (const base of bases) {
+      const target = path.posix.normalize(path.posix.join(base, modulePath));
+      const found = [`${target}.py`, `${target}/__init__.py`].find(
+        (candidate) => candidate !== from && this.files.has(candidate)
+      );
+      if (found) return found;
+    }
+    return undefined;
+  }
+}
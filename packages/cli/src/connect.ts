@@ -4,6 +4,17 @@ import { CliConfig, loadConfig, saveConfig } from "./config-store";
 import { ensureLocalServerRunning } from "./local-server";
 import { getRepoIdentityHash } from "./repo";
 
+// Register the repo in the current directory with the server and return its project id
+export async function connectRepo(api: ApiClient): Promise<string> {
+  const repo_name = path.basename(process.cwd());
+  const repo_root_hash = await getRepoIdentityHash();
+  const res = await api.post<{ project_id: string }>("/v1/projects/connect", {
+    repo_name,
+    repo_root_hash
+  });
+  return res.project_id;
+}
+
 export async function connectCommand(args: string[]): Promise<void> {
   const config = loadConfig();
   for (let i = 0; i < args.length; i += 1) {
@@ -23,19 +34,13 @@ export async function connectCommand(args: string[]): Promise<void> {
     log: (message) => console.log(message)
   });
 
-  const api = new ApiClient(config as CliConfig);
-  const repo_name = path.basename(process.cwd());
-  const repo_root_hash = await getRepoIdentityHash();
-  const res = await api.post<{ project_id: string }>("/v1/projects/connect", {
-    repo_name,
-    repo_root_hash
-  });
+  const projectId = await connectRepo(new ApiClient(config as CliConfig));
 
-  config.project_id = res.project_id;
+  config.project_id = projectId;
   config.storage = config.storage ?? { method: "file", encrypted: false };
   saveConfig(config);
 
-  console.log(`Connected project: ${res.project_id}`);
+  console.log(`Connected project: ${projectId}`);
   if (config.storage.method === "file" && !config.storage.encrypted) {
     console.log(
       "Security note: API key is stored locally in plain text. Prefer OS keychain storage when available."
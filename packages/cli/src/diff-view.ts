@@ -0,0 +1,161 @@
+import { DiffFile, DiffHunk, parseUnifiedDiff } from "@trcoder/shared";
+import { styleText } from "./theme";
+
+// Body lines per /diff page; a hunk longer than this still gets a page of its own
+const DIFF_PAGE_LINES = 80;
+
+const STATUS_MARK: Record<DiffFile["status"], string> = {
+  added: "A",
+  deleted: "D",
+  modified: "M",
+  renamed: "R"
+};
+
+interface HunkRef {
+  file: number;
+  hunk: number;
+}
+
+function formatCounts(additions: number, deletions: number): string {
+  return `${styleText(`+${additions}`, "added")} ${styleText(`-${deletions}`, "removed")}`;
+}
+
+export function formatDiffLine(line: string): string {
+  if (line.startsWith("+")) return styleText(line, "added");
+  if (line.startsWith("-")) return styleText(line, "removed");
+  if (line.startsWith("\\")) return styleText(line, "muted");
+  return line;
+}
+
+export function formatDiffStat(files: DiffFile[]): string {
+  if (files.length === 0) {
+    return "Empty patch.";
+  }
+  const width = Math.max(...files.map((file) => file.path.length));
+  const lines = files.map((file) => {
+    const name = file.status === "renamed" ? `${file.old_path} -> ${file.path}` : file.path.padEnd(width);
+    const counts = file.binary ? styleText("binary", "muted") : formatCounts(file.additions, file.deletions);
+    return ` ${STATUS_MARK[file.status]} ${name}  ${counts}`;
+  });
+  const additions = files.reduce((sum, file) => sum + file.additions, 0);
+  const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+  const hunks = files.reduce((sum, file) => sum + file.hunks.length, 0);
+  lines.push(`${files.length} file(s) changed, ${hunks} hunk(s), ${formatCounts(additions, deletions)}`);
+  return lines.join("\n");
+}
+
+export interface PatchCheckReport {
+  status: "clean" | "three_way" | "conflict";
+  conflicts: Array<{ path: string; reason: string; line?: number; three_way?: string }>;
+}
+
+const CHECK_SUMMARY: Record<PatchCheckReport["status"], string> = {
+  clean: "Patch applies cleanly to the current HEAD.",
+  three_way: "Patch applies to the current HEAD with a 3-way merge.",
+  conflict: "Patch conflicts with the current HEAD."
+};
+
+// Per-file result of /v1/runs/:run_id/patch/check
+export function formatPatchCheck(check: PatchCheckReport): string {
+  const lines = [styleText(CHECK_SUMMARY[check.status], check.status === "conflict" ? "removed" : "added")];
+  for (const conflict of check.conflicts) {
+    const at = conflict.line !== undefined ? `:${conflict.line}` : "";
+    const threeWay = conflict.three_way ? ` (3-way: ${conflict.three_way})` : "";
+    lines.push(` ${conflict.path}${at}  ${conflict.reason.replace(/_/g, " ")}${threeWay}`);
+  }
+  return lines.join("\n");
+}
+
+function formatFileHeader(file: DiffFile): string {
+  const counts = file.binary ? "binary" : `+${file.additions} -${file.deletions}`;
+  return styleText(`=== ${file.path} (${file.status}, ${counts}) ===`, "header");
+}
+
+function formatHunk(hunk: DiffHunk, label: string): string {
+  return [styleText(`${hunk.header}  ${label}`, "hunk"), ...hunk.lines.map(formatDiffLine)].join("\n");
+}
+
+/**
+ * Pages through a unified diff hunk by hunk for /diff. Pages are cut on hunk
+ * boundaries so a hunk is never split across two pages.
+ */
+export class DiffView {
+  readonly files: DiffFile[];
+  private refs: HunkRef[] = [];
+  private pages: number[] = [];
+  private page = -1;
+
+  constructor(text: string, readonly source: string, pageLines = DIFF_PAGE_LINES) {
+    this.files = parseUnifiedDiff(text);
+    this.files.forEach((file, fileIndex) => {
+      file.hunks.forEach((_, hunkIndex) => this.refs.push({ file: fileIndex, hunk: hunkIndex }));
+    });
+    let used = 0;
+    this.refs.forEach((ref, index) => {
+      const size = this.files[ref.file].hunks[ref.hunk].lines.length + 1;
+      if (index === 0 || used + size > pageLines) {
+        this.pages.push(index);
+        used = 0;
+      }
+      used += size;
+    });
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  stat(): string {
+    return [styleText(`Patch: ${this.source}`, "label"), formatDiffStat(this.files)].join("\n");
+  }
+
+  next(): string | null {
+    if (this.page + 1 >= this.pages.length) return null;
+    this.page += 1;
+    return this.renderPage();
+  }
+
+  prev(): string | null {
+    if (this.page <= 0) return null;
+    this.page -= 1;
+    return this.renderPage();
+  }
+
+  // Match the full path first, then a unique path suffix (e.g. "invoice.ts")
+  findFile(query: string): DiffFile | DiffFile[] | null {
+    const exact = this.files.find((file) => file.path === query || file.old_path === query);
+    if (exact) return exact;
+    const matches = this.files.filter((file) => file.path.endsWith(`/${query}`) || file.path.endsWith(query));
+    if (matches.length === 1) return matches[0];
+    return matches.length > 1 ? matches : null;
+  }
+
+  renderFile(file: DiffFile): string {
+    const out = [formatFileHeader(file)];
+    if (file.binary) {
+      out.push(styleText("Binary file; contents not shown.", "muted"));
+    }
+    file.hunks.forEach((hunk, index) => out.push(formatHunk(hunk, `[${index + 1}/${file.hunks.length}]`)));
+    return out.join("\n");
+  }
+
+  private renderPage(): string {
+    const start = this.pages[this.page];
+    const end = this.pages[this.page + 1] ?? this.refs.length;
+    const out: string[] = [];
+    let lastFile = -1;
+    for (let index = start; index < end; index += 1) {
+      const ref = this.refs[index];
+      const file = this.files[ref.file];
+      if (ref.file !== lastFile) {
+        out.push(formatFileHeader(file));
+        lastFile = ref.file;
+      }
+      out.push(formatHunk(file.hunks[ref.hunk], `[${ref.hunk + 1}/${file.hunks.length}]`));
+    }
+    const more = this.page + 1 < this.pages.length ? " | /diff next" : "";
+    const back = this.page > 0 ? " | /diff prev" : "";
+    out.push(styleText(`-- page ${this.page + 1}/${this.pages.length}${more}${back} | /diff --file <path> --`, "muted"));
+    return out.join("\n");
+  }
+}
@@ -4,7 +4,10 @@ export const HELP_MAP: Record<string, string> = {
   clear: "/clear",
   exit: "/exit",
   whoami: "/whoami",
-  plan: "/plan (enter plan mode) | /plan from @file | /plan status | /plan diff | /plan approve (latest) | /plan exit",
+  login: "/login --api-key <key> | --email <email> --password <password>",
+  logout: "/logout",
+  plan:
+    "/plan (enter plan mode) | /plan from @file | /plan status | /plan diff [<from> [<to>]] | /plan estimate [--lane L] [--risk R] [--budget USD] | /plan revisions | /plan add|rm|move|edit|split|merge ... | /plan approve [--revision N] | /plan exit",
   start: "/start [--task <task_id>]",
   run: "/run status | /run pause | /run resume | /run cancel",
   tasks: "/tasks",
@@ -13,9 +16,10 @@ export const HELP_MAP: Record<string, string> = {
     "/context show | /context expand|trim [--max-lines N --max-files N --depth N --topk N] [--include docs|tests] [--drop docs|tests] [--keep paths=...] [--hydrate] | /context rebuild",
   pins: "/pins add @<file> | /pins rm @<file> | /pins list | /pins clear",
   verify: "/verify [--target <path|package>] [--strict]",
-  fix: "/fix",
-  diff: "/diff",
-  apply: "/apply",
+  fix: "/fix [--stack] [--max N]",
+  diff: "/diff [<run_id> [task_id]] [--stat] [--file <path>] | /diff next | /diff prev",
+  review: "/review [<run_id> [task_id]] (keep, drop or edit hunks; saves a patch revision)",
+  apply: "/apply [--local [--branch <name>] | --staged] | /apply --check (PR by default; --local commits to a local branch, --staged stages in the working tree)",
   usage: "/usage month | /usage today",
   export: "/export ledger",
   invoice: "/invoice preview",
@@ -27,7 +31,7 @@ export const HELP_MAP: Record<string, string> = {
   doctor: "/doctor",
   logs: "/logs tail [--run <id>]",
   project: "/project status | /project connect",
-  pr: "/pr status",
+  pr: "/pr status | /pr open [#N] | /pr merge [#N] [--squash|--merge|--rebase] | /pr close [#N]",
   init: "/init [--portable] [--refresh]",
   next: "/next"
 };
@@ -40,10 +44,20 @@ export function getHelpLines(): string[] {
     "/clear",
     "/exit",
     "/whoami",
+    "/login",
+    "/logout",
     "/plan [from @file]",
     "/plan status",
-    "/plan diff",
-    "/plan approve (approves latest plan)",
+    "/plan diff [<from> [<to>]]",
+    "/plan estimate [--lane <lane>] [--risk <risk>] [--budget <usd>]",
+    "/plan revisions",
+    '/plan add "<title>" [--after <id> | --first] [--phase <id>] [--type <t>] [--risk <r>]',
+    "/plan rm <task_id>",
+    "/plan move <task_id> --after <id> | --first [--phase <id>]",
+    "/plan edit <task_id> [--title] [--type] [--risk] [--deps a,b] [--scope <path>]... [--accept <text>]...",
+    '/plan split <task_id> "<title>" "<title>"...',
+    '/plan merge <task_id> <task_id>... [--title "..."]',
+    "/plan approve [--revision N] (approves latest plan)",
     "/plan exit",
     "/start",
     "/start --task <task_id>",
@@ -60,8 +74,19 @@ export function getHelpLines(): string[] {
     "/verify --target <path|package>",
     "/verify --strict",
     "/fix",
+    "/fix --stack",
+    "/fix --max N",
     "/diff",
+    "/diff --stat",
+    "/diff --file <path>",
+    "/diff next|prev",
+    "/diff <run_id> [task_id]",
+    "/review",
+    "/review <run_id> [task_id]",
     "/apply",
+    "/apply --local [--branch <name>]",
+    "/apply --staged",
+    "/apply --check",
     "/usage month",
     "/usage today",
     "/invoice preview",
@@ -77,6 +102,9 @@ export function getHelpLines(): string[] {
     "/project status",
     "/project connect",
     "/pr status",
+    "/pr open [#N]",
+    "/pr merge [#N]",
+    "/pr close [#N]",
     "/init"
   ];
 }
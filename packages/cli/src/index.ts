@@ -1,5 +1,8 @@
 import { Shell } from "./shell";
 import { connectCommand } from "./connect";
+import { handleAccountCommand, handleLoginCommand, handleLogoutCommand } from "./auth";
+import { loadConfig } from "./config-store";
+import { CI_COMMANDS, runCiCommand } from "./ci";
 
 async function main() {
   const args = process.argv.slice(2);
@@ -16,12 +19,33 @@ async function main() {
     return;
   }
 
+  if (cmd === "login") {
+    const ok = await handleLoginCommand(args.slice(1), loadConfig().server_url);
+    process.exitCode = ok ? 0 : 1;
+    return;
+  }
+
+  if (cmd === "logout") {
+    await handleLogoutCommand(loadConfig().server_url);
+    return;
+  }
+
+  if (cmd === "account") {
+    await handleAccountCommand(loadConfig().server_url);
+    return;
+  }
+
+  if (CI_COMMANDS.includes(cmd)) {
+    process.exitCode = await runCiCommand(cmd, args.slice(1));
+    return;
+  }
+
   if (cmd === "doctor") {
     console.log("TRCODER CLI ok.");
     return;
   }
 
-  console.log("Unknown command. Try: trcoder shell");
+  console.log(`Unknown command. Try: trcoder shell | login | ${CI_COMMANDS.join(" | ")}`);
 }
 
 main().catch((err) => {
@@ -26,6 +26,12 @@ export function formatStage(data: any): string {
   return styleText(`[${ts}] ${data.stage}: ${data.message}`, "stage");
 }
 
+// Live model output; chat answers print as-is, patch/plan output is dimmed
+export function formatLlmDelta(data: any): string {
+  const text = String(data?.delta ?? "");
+  return data?.source === "chat" ? text : styleText(text, "muted");
+}
+
 export function formatTaskResult(data: any): string {
   const tokenLine = data.tokens ? `Tokens: in ${data.tokens.input} | out ${data.tokens.output}` : "Tokens: n/a";
   const riskLine = data.risk_notes ? `Risk Notes: ${data.risk_notes.join(", ")}` : "Risk Notes: n/a";
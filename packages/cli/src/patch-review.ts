@@ -0,0 +1,161 @@
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { DiffFile, DiffHunk } from "@trcoder/shared";
+import { formatDiffLine } from "./diff-view";
+import { styleText } from "./theme";
+
+export interface PatchReviewIo {
+  ask(question: string): Promise<string>;
+  // Returns the edited text, or null when the editor failed
+  edit(text: string): Promise<string | null>;
+  print(message: string): void;
+}
+
+export interface PatchReviewResult {
+  files: DiffFile[];
+  kept: number;
+  dropped: number;
+  edited: number;
+}
+
+const HUNK_HELP = [
+  "y - keep this hunk",
+  "n - drop this hunk",
+  "e - edit this hunk in $EDITOR",
+  "a - keep this and the remaining hunks of the file",
+  "d - drop this and the remaining hunks of the file",
+  "q - quit without saving a revision",
+  "? - show this help"
+].join("\n");
+
+const EDIT_PREAMBLE = [
+  "# Edit the hunk below. Lines starting with # are ignored.",
+  "# To drop a '-' line, turn it into context by replacing '-' with a space.",
+  "# To drop a '+' line, delete it. Leave no '+' or '-' lines to drop the hunk."
+];
+
+function recount(hunk: DiffHunk): DiffHunk {
+  return {
+    ...hunk,
+    additions: hunk.lines.filter((line) => line.startsWith("+")).length,
+    deletions: hunk.lines.filter((line) => line.startsWith("-")).length
+  };
+}
+
+// Parse editor output back into hunk lines; null when nothing is left to change
+export function parseEditedHunk(hunk: DiffHunk, edited: string): DiffHunk | null {
+  const lines = edited
+    .split(/\r?\n/)
+    .filter((line) => !line.startsWith("#") && !line.startsWith("@@"))
+    .filter((line) => line === "" || /^[ +\-\\]/.test(line));
+  while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+  const updated = recount({ ...hunk, lines });
+  return updated.additions + updated.deletions > 0 ? updated : null;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Walk a patch hunk by hunk (like `git add -p`) and return the files the
+ * reviewer kept. Resolves null when the review was abandoned.
+ */
+export async function reviewPatch(files: DiffFile[], io: PatchReviewIo): Promise<PatchReviewResult | null> {
+  const result: PatchReviewResult = { files: [], kept: 0, dropped: 0, edited: 0 };
+
+  for (const file of files) {
+    io.print(styleText(`=== ${file.path} (${file.status}, +${file.additions} -${file.deletions}) ===`, "header"));
+
+    if (file.hunks.length === 0) {
+      // Binary changes and pure renames can only be taken as a whole
+      const answer = (await io.ask(`Keep ${file.path}? [y,n,q]`)).trim().toLowerCase();
+      if (answer === "q") return null;
+      if (answer === "y") {
+        result.files.push(file);
+        result.kept += 1;
+      } else {
+        result.dropped += 1;
+      }
+      continue;
+    }
+
+    const hunks: DiffHunk[] = [];
+    let rest: "keep" | "drop" | null = null;
+    for (let index = 0; index < file.hunks.length; index += 1) {
+      const hunk = file.hunks[index];
+      if (rest) {
+        if (rest === "keep") {
+          hunks.push(hunk);
+          result.kept += 1;
+        } else {
+          result.dropped += 1;
+        }
+        continue;
+      }
+
+      io.print([styleText(hunk.header, "hunk"), ...hunk.lines.map(formatDiffLine)].join("\n"));
+      const answer = (await io.ask(`Keep hunk ${index + 1}/${file.hunks.length}? [y,n,e,a,d,q,?]`))
+        .trim()
+        .toLowerCase();
+      if (answer === "q") return null;
+      if (answer === "y" || answer === "a") {
+        hunks.push(hunk);
+        result.kept += 1;
+        if (answer === "a") rest = "keep";
+      } else if (answer === "n" || answer === "d") {
+        result.dropped += 1;
+        if (answer === "d") rest = "drop";
+      } else if (answer === "e") {
+        const edited = await io.edit([...EDIT_PREAMBLE, hunk.header, ...hunk.lines, ""].join("\n"));
+        if (edited === null) {
+          io.print("Editor failed; asking again.");
+          index -= 1;
+          continue;
+        }
+        const updated = parseEditedHunk(hunk, edited);
+        if (!updated) {
+          result.dropped += 1;
+        } else if (sameLines(updated.lines, hunk.lines)) {
+          hunks.push(hunk);
+          result.kept += 1;
+        } else {
+          hunks.push(updated);
+          result.edited += 1;
+        }
+      } else {
+        io.print(HUNK_HELP);
+        index -= 1;
+      }
+    }
+
+    // A new or deleted file without its hunk would be an empty add/remove; drop the file instead
+    if (hunks.length > 0 || file.status === "renamed") {
+      result.files.push({
+        ...file,
+        hunks,
+        additions: hunks.reduce((sum, hunk) => sum + hunk.additions, 0),
+        deletions: hunks.reduce((sum, hunk) => sum + hunk.deletions, 0)
+      });
+    }
+  }
+  return result;
+}
+
+// Open text in $VISUAL/$EDITOR and return what was saved, or null if the editor failed
+export function editInEditor(text: string): string | null {
+  const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === "win32" ? "notepad" : "vi");
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "trcoder-hunk-"));
+  const file = path.join(dir, "hunk.diff");
+  try {
+    fs.writeFileSync(file, text, "utf8");
+    // EDITOR may carry arguments ("code --wait"), so let the shell split it
+    const res = spawnSync(`${editor} "${file}"`, { stdio: "inherit", shell: true });
+    if (res.status !== 0) return null;
+    return fs.readFileSync(file, "utf8");
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
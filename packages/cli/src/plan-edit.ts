@@ -0,0 +1,133 @@
+import { PlanDiff, PlanEditOp, PlanTaskFields, PlanTaskPosition, RiskLevel } from "@trcoder/shared";
+import { styleText } from "./theme";
+
+export const PLAN_EDIT_COMMANDS = ["add", "rm", "move", "edit", "split", "merge"];
+
+const PLAN_EDIT_USAGE: Record<string, string> = {
+  add: '/plan add "<title>" [--after <task_id> | --first] [--phase <id>] [--type <type>] [--risk <risk>]',
+  rm: "/plan rm <task_id>",
+  move: "/plan move <task_id> --after <task_id> | --first [--phase <id>]",
+  edit: "/plan edit <task_id> [--title <title>] [--type <type>] [--risk <risk>] [--deps a,b] [--scope <path>]... [--accept <text>]...",
+  split: '/plan split <task_id> "<title>" "<title>" [...]',
+  merge: '/plan merge <task_id> <task_id> [...] [--title "..."]'
+};
+
+const BOOLEAN_FLAGS = new Set(["first"]);
+
+interface EditArgs {
+  positionals: string[];
+  flags: Record<string, string[]>;
+}
+
+function parseEditArgs(args: string[]): EditArgs {
+  const parsed: EditArgs = { positionals: [], flags: {} };
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) {
+      parsed.positionals.push(arg);
+      continue;
+    }
+    const name = arg.slice(2);
+    const value = BOOLEAN_FLAGS.has(name) || args[i + 1] === undefined ? "" : args[(i += 1)];
+    (parsed.flags[name] ??= []).push(value);
+  }
+  return parsed;
+}
+
+function last(args: EditArgs, name: string): string | undefined {
+  const values = args.flags[name];
+  return values ? values[values.length - 1] : undefined;
+}
+
+function taskFields(args: EditArgs): PlanTaskFields {
+  const fields: PlanTaskFields = {};
+  const title = last(args, "title");
+  if (title !== undefined) fields.title = title;
+  const type = last(args, "type");
+  if (type !== undefined) fields.type = type;
+  const risk = last(args, "risk");
+  if (risk !== undefined) fields.risk = risk as RiskLevel;
+  const deps = last(args, "deps");
+  if (deps !== undefined) fields.deps = deps.split(",").map((dep) => dep.trim()).filter(Boolean);
+  if (args.flags.scope) fields.scope = { paths: args.flags.scope.filter(Boolean) };
+  if (args.flags.accept) fields.acceptance = args.flags.accept.filter(Boolean);
+  return fields;
+}
+
+function position(args: EditArgs): { after?: string | null; phase_id?: string } {
+  const out: { after?: string | null; phase_id?: string } = {};
+  if (args.flags.first) out.after = null;
+  const after = last(args, "after");
+  if (after) out.after = after;
+  const phase = last(args, "phase");
+  if (phase) out.phase_id = phase;
+  return out;
+}
+
+export function planEditUsage(command: string): string {
+  return `Usage: ${PLAN_EDIT_USAGE[command] ?? "/plan add|rm|move|edit|split|merge ..."}`;
+}
+
+/** Turn `/plan <add|rm|move|edit|split|merge> ...` into one edit op; null when the arguments do not fit. */
+export function parsePlanEditCommand(command: string, rawArgs: string[]): PlanEditOp | null {
+  const args = parseEditArgs(rawArgs);
+  const [first, ...rest] = args.positionals;
+  switch (command) {
+    case "add":
+      if (!first) return null;
+      return { op: "add_task", task: { ...taskFields(args), title: first }, ...position(args) };
+    case "rm":
+      return first ? { op: "remove_task", task_id: first } : null;
+    case "move": {
+      const target = position(args);
+      if (!first || (target.after === undefined && !target.phase_id)) return null;
+      return { op: "move_task", task_id: first, ...target };
+    }
+    case "edit": {
+      const changes = taskFields(args);
+      if (!first || Object.keys(changes).length === 0) return null;
+      return { op: "update_task", task_id: first, changes };
+    }
+    case "split":
+      if (!first || rest.length < 2) return null;
+      return { op: "split_task", task_id: first, parts: rest.map((title) => ({ title })) };
+    case "merge": {
+      if (args.positionals.length < 2) return null;
+      const title = last(args, "title");
+      return { op: "merge_tasks", task_ids: args.positionals, ...(title ? { title } : {}) };
+    }
+    default:
+      return null;
+  }
+}
+
+function formatPosition(position: PlanTaskPosition): string {
+  return `${position.phase_id}#${position.index + 1}`;
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.join(", ")}]`;
+  if (value && typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/** Render a task-level plan diff, one line per added/removed/moved task and per changed field. */
+export function formatPlanDiff(diff: PlanDiff): string {
+  const lines: string[] = [];
+  for (const task of diff.added) {
+    lines.push(styleText(`+ ${task.task_id} ${task.title} (${formatPosition(task.position)})`, "added"));
+  }
+  for (const task of diff.removed) {
+    lines.push(styleText(`- ${task.task_id} ${task.title}`, "removed"));
+  }
+  for (const change of diff.changed) {
+    lines.push(`~ ${change.task_id}`);
+    for (const [field, values] of Object.entries(change.fields)) {
+      lines.push(`    ${field}: ${formatValue(values.from)} -> ${formatValue(values.to)}`);
+    }
+  }
+  for (const move of diff.moved) {
+    lines.push(styleText(`> ${move.task_id} ${formatPosition(move.from)} -> ${formatPosition(move.to)}`, "hunk"));
+  }
+  return lines.length > 0 ? lines.join("\n") : "No task changes.";
+}
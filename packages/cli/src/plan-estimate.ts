@@ -0,0 +1,99 @@
+import { styleText } from "./theme";
+
+export interface PlanEstimateReport {
+  plan_id: string;
+  approved: boolean;
+  lane: string;
+  risk: string;
+  tasks: Array<{
+    task_id: string;
+    title: string;
+    model: string;
+    tier: string;
+    cost_p50_usd: number;
+    cost_p90_usd: number;
+    duration_p90_sec: number;
+    wave: number;
+    critical: boolean;
+    budget_violation: boolean;
+  }>;
+  critical_path: { task_ids: string[]; duration_p50_sec: number; duration_p90_sec: number };
+  phase_waves: string[][];
+  totals: {
+    cost_p50_usd: number;
+    cost_p90_usd: number;
+    charge_p50_usd: number;
+    charge_p90_usd: number;
+    serial_duration_p50_sec: number;
+    serial_duration_p90_sec: number;
+  };
+  budget: {
+    budget_cap_usd: number;
+    credits_remaining_usd: number;
+    within_budget_p50: boolean;
+    within_budget_p90: boolean;
+    credits_cover_p50: boolean;
+    credits_cover_p90: boolean;
+  };
+}
+
+const FLAGS: Record<string, string> = { "--lane": "lane", "--risk": "risk", "--budget": "budget_cap_usd" };
+
+/** Query for /plan estimate [--lane L] [--risk R] [--budget USD]; shell settings fill what is not given. */
+export function planEstimateQuery(
+  args: string[],
+  defaults: { lane?: string; risk?: string; budget_cap_usd?: number }
+): URLSearchParams {
+  const values: Record<string, string | undefined> = {
+    lane: defaults.lane,
+    risk: defaults.risk,
+    budget_cap_usd: defaults.budget_cap_usd !== undefined ? String(defaults.budget_cap_usd) : undefined
+  };
+  for (let i = 0; i < args.length; i += 1) {
+    const key = FLAGS[args[i]];
+    if (key && args[i + 1] !== undefined) values[key] = args[(i += 1)];
+  }
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) params.set(key, value);
+  }
+  return params;
+}
+
+function usd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function duration(seconds: number): string {
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, "0")}s` : `${seconds}s`;
+}
+
+function verdict(ok: boolean, label: string): string {
+  return styleText(ok ? label : `NOT ${label}`, ok ? "added" : "removed");
+}
+
+export function formatPlanEstimate(estimate: PlanEstimateReport): string {
+  const lines = [
+    styleText(
+      `=== ESTIMATE ${estimate.plan_id}${estimate.approved ? " (approved)" : ""} | lane ${estimate.lane} | risk ${estimate.risk} ===`,
+      "header"
+    )
+  ];
+  for (const task of estimate.tasks) {
+    const marker = task.critical ? "*" : " ";
+    const warn = task.budget_violation ? styleText(" over budget", "removed") : "";
+    lines.push(
+      `${marker} w${task.wave + 1} ${task.task_id} ${task.model} (${task.tier}) ${usd(task.cost_p50_usd)}-${usd(task.cost_p90_usd)} ~${duration(task.duration_p90_sec)}${warn}  ${task.title}`
+    );
+  }
+  const { totals, budget, critical_path } = estimate;
+  lines.push(
+    styleText(`Critical path (*): ${critical_path.task_ids.join(" -> ")}`, "label"),
+    `Duration: critical path ${duration(critical_path.duration_p50_sec)}-${duration(critical_path.duration_p90_sec)} | serial ${duration(totals.serial_duration_p50_sec)}-${duration(totals.serial_duration_p90_sec)}`,
+    `Parallel phases: ${estimate.phase_waves.map((wave) => wave.join(" + ")).join(" -> ")}`,
+    `Provider cost: ${usd(totals.cost_p50_usd)}-${usd(totals.cost_p90_usd)} | Charge: ${usd(totals.charge_p50_usd)}-${usd(totals.charge_p90_usd)}`,
+    `Budget ${usd(budget.budget_cap_usd)}: p50 ${verdict(budget.within_budget_p50, "within")}, p90 ${verdict(budget.within_budget_p90, "within")}`,
+    `Credits ${usd(budget.credits_remaining_usd)}: p50 ${verdict(budget.credits_cover_p50, "covered")}, p90 ${verdict(budget.credits_cover_p90, "covered")}`
+  );
+  return lines.join("\n");
+}
@@ -4,10 +4,12 @@ import { spawn } from "child_process";
 import fs from "fs";
 import path from "path";
 import crypto from "crypto";
+import { CodeIndex, globToRegex } from "./code-index";
 
 interface RunnerClientOptions {
   serverUrl: string;
-  apiKey: string;
+  // Resolved per connection attempt so refreshed tokens are picked up on reconnect
+  getAuthHeader: () => Promise<string>;
   projectId: string;
   orgId?: string;
   userId?: string;
@@ -78,12 +80,6 @@ function readFileRange(filePath: string, range?: { start_line: number; end_line:
   return lines.slice(start, end).join("\n");
 }
 
-function globToRegex(glob: string): RegExp {
-  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&");
-  const regex = `^${escaped.replace(/\*\*/g, ".*").replace(/\*/g, "[^/]*")}$`;
-  return new RegExp(regex, "i");
-}
-
 function listFiles(
   root: string,
   glob?: string,
@@ -121,32 +117,28 @@ const MAX_GREP_MATCHES = 200;
 
 async function grepInPath(query: string, scope: string): Promise<string> {
   const results: string[] = [];
-  const stat = fs.statSync(scope);
-  if (stat.isFile()) {
-    const content = fs.readFileSync(scope, "utf8");
-    if (content.includes(query)) {
-      results.push(`${scope}:1:${query}`);
-    }
-    return results.join("\n");
-  }
 
-  const entries = fs.readdirSync(scope);
-  for (const entry of entries) {
-    const full = path.join(scope, entry);
-    const sub = fs.statSync(full);
-    if (sub.isDirectory()) {
-      results.push(await grepInPath(query, full));
-    } else if (sub.isFile()) {
-      const content = fs.readFileSync(full, "utf8");
-      if (content.includes(query)) {
-        results.push(`${full}:1:${query}`);
+  const visit = (target: string) => {
+    if (results.length >= MAX_GREP_MATCHES) return;
+    const stat = fs.statSync(target);
+    if (stat.isDirectory()) {
+      for (const entry of fs.readdirSync(target)) {
+        if (entry === "node_modules" || entry === ".git") continue;
+        visit(path.join(target, entry));
       }
+      return;
     }
-    if (results.filter(Boolean).length >= MAX_GREP_MATCHES) {
-      break;
+    if (!stat.isFile()) return;
+    const lines = fs.readFileSync(target, "utf8").split(/\r?\n/);
+    for (let i = 0; i < lines.length && results.length < MAX_GREP_MATCHES; i += 1) {
+      if (lines[i].includes(query)) {
+        results.push(`${target}:${i + 1}:${lines[i].trim()}`);
+      }
     }
-  }
-  return results.filter(Boolean).join("\n");
+  };
+
+  visit(scope);
+  return results.join("\n");
 }
 
 export class RunnerClient {
@@ -157,6 +149,9 @@ export class RunnerClient {
   private lastError?: string;
   private reconnectTimer?: NodeJS.Timeout;
   private reconnectAttempts = 0;
+  // Bumped on every (re)connect and close; a pending openSocket() checks it after awaiting credentials
+  private generation = 0;
+  private indexes = new Map<string, CodeIndex>();
 
   constructor(options: RunnerClientOptions) {
     this.options = options;
@@ -188,7 +183,32 @@ export class RunnerClient {
     } catch {
       // ignore
     }
-    this.openSocket();
+    this.startSocket();
+  }
+
+  // Disconnect for good; used by one-shot CLI commands so the process can exit
+  close(): void {
+    this.options.projectId = "";
+    this.generation += 1;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    const existing = this.socket;
+    this.socket = undefined;
+    this.connected = false;
+    existing?.close();
+  }
+
+  // One index per repo root, refreshed incrementally before each search
+  private getIndex(root: string): CodeIndex {
+    let index = this.indexes.get(root);
+    if (!index) {
+      index = new CodeIndex(root);
+      this.indexes.set(root, index);
+    }
+    index.refresh();
+    return index;
   }
 
   private scheduleReconnect(): void {
@@ -198,15 +218,32 @@ export class RunnerClient {
     this.reconnectAttempts += 1;
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = undefined;
-      this.openSocket();
+      this.startSocket();
     }, delay);
   }
 
-  private openSocket(): void {
+  private startSocket(): void {
+    this.openSocket().catch((err) => {
+      this.lastError = (err as Error).message;
+    });
+  }
+
+  private async openSocket(): Promise<void> {
+    const generation = ++this.generation;
+    let authorization: string;
+    try {
+      authorization = await this.options.getAuthHeader();
+    } catch (err) {
+      if (generation !== this.generation) return;
+      this.lastError = (err as Error).message;
+      this.scheduleReconnect();
+      return;
+    }
+    if (generation !== this.generation) return;
     const wsUrl = this.options.serverUrl.replace("http", "ws") + "/v1/runner/ws";
     const socket = new WebSocket(wsUrl, {
       headers: {
-        Authorization: `Bearer ${this.options.apiKey}`,
+        Authorization: authorization,
         "X-TRCODER-Project": this.options.projectId
       }
     });
@@ -405,6 +442,36 @@ export class RunnerClient {
         return;
       }
 
+      if (message.type === "RUNNER_SEARCH") {
+        try {
+          const result = this.getIndex(message.root ?? process.cwd()).search(message.request);
+          this.socket?.send(
+            JSON.stringify({
+              type: "RUNNER_RESULT",
+              request_id: message.request_id,
+              runner_session_id: this.sessionId,
+              exit_code: 0,
+              stdout: JSON.stringify(result),
+              stderr: "",
+              duration_ms: 0
+            })
+          );
+        } catch (err) {
+          this.socket?.send(
+            JSON.stringify({
+              type: "RUNNER_RESULT",
+              request_id: message.request_id,
+              runner_session_id: this.sessionId,
+              exit_code: 1,
+              stdout: "",
+              stderr: (err as Error).message,
+              duration_ms: 0
+            })
+          );
+        }
+        return;
+      }
+
       if (message.type === "RUNNER_LIST") {
         try {
           const items = listFiles(
@@ -1,19 +1,26 @@
 import readline from "readline";
+import crypto from "crypto";
 import fs from "fs";
 import os from "os";
 import path from "path";
-import { PermissionsConfig, loadRiskPolicy } from "@trcoder/shared";
+import { PermissionsConfig, formatUnifiedDiff, loadRiskPolicy, parseUnifiedDiff } from "@trcoder/shared";
 import { ApiClient } from "./api-client";
+import { getCliAuthHeader, handleLoginCommand, handleLogoutCommand } from "./auth";
 import { CliConfig, loadConfig, saveConfig } from "./config-store";
-import { streamRunEvents } from "./sse-client";
+import { RunEvent, openRunEventStream, streamRunEvents } from "./sse-client";
 import {
   formatAnomaly,
+  formatLlmDelta,
   formatRunBanner,
   formatSessionStats,
   formatStage,
   formatTaskHeader,
   formatTaskResult
 } from "./output";
+import { DiffView, formatDiffStat, formatPatchCheck } from "./diff-view";
+import { editInEditor, reviewPatch } from "./patch-review";
+import { PLAN_EDIT_COMMANDS, formatPlanDiff, parsePlanEditCommand, planEditUsage } from "./plan-edit";
+import { PlanEstimateReport, formatPlanEstimate, planEstimateQuery } from "./plan-estimate";
 import { getHelpLines, HELP_MAP } from "./help";
 import { loadPermissionPolicy } from "./permissions";
 import { RunnerClient } from "./runner-client";
@@ -28,9 +35,13 @@ export class Shell {
   private api: ApiClient;
   private runner: RunnerClient;
   private streamingRuns = new Set<string>();
+  // True while LLM_DELTA output is mid-line on stdout
+  private deltaLineOpen = false;
   private permissions: PermissionsConfig;
   private planMode = false;
   private chatHistory: Array<{ role: "user" | "assistant"; content: string }> = [];
+  // Patch opened by /diff; /diff next|prev page through it
+  private diffView?: DiffView;
 
   constructor() {
     this.config = loadConfig();
@@ -40,7 +51,7 @@ export class Shell {
     this.rl = readline.createInterface({ input: process.stdin, output: process.stdout });
     this.runner = new RunnerClient({
       serverUrl: this.config.server_url,
-      apiKey: this.config.api_key,
+      getAuthHeader: () => getCliAuthHeader(this.config),
       projectId: this.config.project_id ?? "",
       permissions,
       confirm: (question) => this.promptYesNo(question),
@@ -153,6 +164,14 @@ export class Shell {
       case "whoami":
         await this.cmdWhoami();
         break;
+      case "login":
+        await this.cmdLogin(tokens);
+        break;
+      case "logout":
+        await handleLogoutCommand(this.config.server_url);
+        // Fall back to the configured api_key for the runner connection as well
+        this.runner.connect();
+        break;
       case "plan":
         await this.cmdPlan(tokens);
         break;
@@ -178,13 +197,16 @@ export class Shell {
         await this.cmdVerify(tokens);
         break;
       case "fix":
-        await this.cmdFix();
+        await this.cmdFix(tokens);
         break;
       case "diff":
-        this.cmdDiff();
+        await this.cmdDiff(tokens);
+        break;
+      case "review":
+        await this.cmdReview(tokens);
         break;
       case "apply":
-        await this.cmdApply();
+        await this.cmdApply(tokens);
         break;
       case "usage":
         await this.cmdUsage(tokens);
@@ -208,7 +230,7 @@ export class Shell {
         this.cmdBudget(tokens);
         break;
       case "permissions":
-        this.cmdPermissions(tokens);
+        await this.cmdPermissions(tokens);
         break;
       case "doctor":
         await this.cmdDoctor();
@@ -220,7 +242,7 @@ export class Shell {
         await this.cmdProject(tokens);
         break;
       case "pr":
-        this.cmdPr(tokens);
+        await this.cmdPr(tokens);
         break;
       case "init":
         await this.cmdInit(tokens);
@@ -268,14 +290,56 @@ export class Shell {
     }
 
     if (args[0] === "diff") {
+      // /plan diff [<from> [<to>]]: defaults to approved plan vs latest revision
+      const params = new URLSearchParams();
+      if (args[1]) params.set("from", args[1]);
+      if (args[2]) params.set("to", args[2]);
+      const query = params.toString() ? `?${params.toString()}` : "";
+      const res = await this.api.get<any>(`/v1/projects/${this.config.project_id}/plan/diff${query}`);
+      console.log(styleText(`Plan diff: ${res.from} -> ${res.to}`, "label"));
+      console.log(formatPlanDiff(res.diff));
+      return;
+    }
+
+    if (args[0] === "estimate") {
+      const query = planEstimateQuery(args.slice(1), this.config).toString();
+      const res = await this.api.get<PlanEstimateReport>(
+        `/v1/projects/${this.config.project_id}/plan/estimate${query ? `?${query}` : ""}`
+      );
+      console.log(formatPlanEstimate(res));
+      return;
+    }
+
+    if (args[0] === "revisions") {
+      const res = await this.api.get<any>(`/v1/projects/${this.config.project_id}/plan/revisions`);
+      for (const revision of res.revisions ?? []) {
+        const approved = revision.approved_at ? styleText(" (approved)", "added") : "";
+        const ops = revision.ops?.length ? ` ${revision.ops.join(", ")}` : " generated";
+        console.log(`r${revision.revision} ${revision.plan_id}${ops}${approved}`);
+      }
+      return;
+    }
+
+    if (PLAN_EDIT_COMMANDS.includes(args[0])) {
+      const op = parsePlanEditCommand(args[0], args.slice(1));
+      if (!op) {
+        console.log(planEditUsage(args[0]));
+        return;
+      }
       const status = await this.api.get<any>(`/v1/projects/${this.config.project_id}/plan/status`);
-      if (status.latest_plan_id === status.approved_plan_id) {
-        console.log("No plan diff: latest plan is approved.");
-      } else {
-        console.log(
-          `Plan diff: latest=${status.latest_plan_id ?? "n/a"} approved=${status.approved_plan_id ?? "n/a"}`
-        );
+      if (!status.latest_plan_id) {
+        console.log("No plan to edit. Create one with /plan first.");
+        return;
       }
+      const res = await this.api.post<any>(`/v1/projects/${this.config.project_id}/plan/revisions`, {
+        plan_id: status.latest_plan_id,
+        ops: [op]
+      });
+      this.config.last_plan_id = res.plan_id;
+      saveConfig(this.config);
+      console.log(`Plan revision ${res.revision}: ${res.plan_id}`);
+      console.log(formatPlanDiff(res.diff));
+      console.log("Approve it with /plan approve.");
       return;
     }
 
@@ -286,12 +350,19 @@ export class Shell {
         console.log("No plan to approve.");
         return;
       }
+      const revisionIdx = args.indexOf("--revision");
+      const revision = revisionIdx !== -1 ? Number(args[revisionIdx + 1]) : undefined;
+      if (revision !== undefined && !Number.isInteger(revision)) {
+        console.log("Usage: /plan approve [--revision N]");
+        return;
+      }
       const commit = await getRepoCommit();
-      await this.api.post(`/v1/projects/${this.config.project_id}/plan/approve`, {
+      const res = await this.api.post<any>(`/v1/projects/${this.config.project_id}/plan/approve`, {
         plan_id: planId,
-        repo_commit: commit
+        repo_commit: commit,
+        revision
       });
-      console.log(`Plan approved: ${planId}`);
+      console.log(`Plan approved: ${res.plan_id ?? planId} (revision ${res.revision ?? 0})`);
       return;
     }
 
@@ -319,13 +390,19 @@ export class Shell {
       input = { text: args.join(" ") };
     }
 
-    const res = await this.api.post<any>(`/v1/projects/${this.config.project_id}/plan`, {
-      input,
-      pins,
-      lane: this.config.lane,
-      risk: this.config.risk,
-      budget_cap_usd: this.config.budget_cap_usd
-    });
+    const res = await this.withDeltaStream(
+      (event) => this.handleRunEvent(event),
+      (stream_id) =>
+        this.api.post<any>(`/v1/projects/${this.config.project_id}/plan`, {
+          input,
+          pins,
+          lane: this.config.lane,
+          risk: this.config.risk,
+          budget_cap_usd: this.config.budget_cap_usd,
+          stream_id
+        })
+    );
+    this.endDeltaLine();
     this.config.last_plan_id = res.plan_id;
     saveConfig(this.config);
     this.printPlanResponse(res);
@@ -334,17 +411,37 @@ export class Shell {
 
   private async submitChatText(text: string): Promise<void> {
     const nextMessages = [...this.chatHistory, { role: "user" as const, content: text }];
-    const res = await this.api.post<any>(`/v1/projects/${this.config.project_id}/chat`, {
-      messages: nextMessages,
-      lane: this.config.lane,
-      risk: this.config.risk,
-      budget_cap_usd: this.config.budget_cap_usd
-    });
+    let printed = "";
+    const res = await this.withDeltaStream(
+      (event) => {
+        if (event.type !== "LLM_DELTA") return;
+        if (!printed) {
+          process.stdout.write(`${styleText("assistant>", "stage")} `);
+        }
+        printed += String(event.data?.delta ?? "");
+        this.handleRunEvent(event);
+      },
+      (stream_id) =>
+        this.api.post<any>(`/v1/projects/${this.config.project_id}/chat`, {
+          messages: nextMessages,
+          lane: this.config.lane,
+          risk: this.config.risk,
+          budget_cap_usd: this.config.budget_cap_usd,
+          stream_id
+        })
+    );
 
     const assistantText = String(res.message ?? "");
     this.chatHistory = [...nextMessages, { role: "assistant" as const, content: assistantText }].slice(-20);
 
-    console.log(styleText("assistant>", "stage"), assistantText);
+    if (printed && assistantText.startsWith(printed)) {
+      // The response can arrive before the last deltas; print whatever the stream missed
+      process.stdout.write(assistantText.slice(printed.length));
+      this.deltaLineOpen = true;
+      this.endDeltaLine();
+    } else {
+      console.log(styleText("assistant>", "stage"), assistantText);
+    }
     if (res.model || res.provider) {
       const meta = `(${res.provider ?? "provider"} / ${res.model ?? "model"})`;
       console.log(styleText(meta, "muted"));
@@ -359,12 +456,38 @@ export class Shell {
       risk: this.config.risk,
       budget_cap_usd: this.config.budget_cap_usd
     };
-    const res = await this.api.post<any>(`/v1/projects/${this.config.project_id}/plan`, payload);
+    const res = await this.withDeltaStream(
+      (event) => this.handleRunEvent(event),
+      (stream_id) => this.api.post<any>(`/v1/projects/${this.config.project_id}/plan`, { ...payload, stream_id })
+    );
+    this.endDeltaLine();
     this.config.last_plan_id = res.plan_id;
     saveConfig(this.config);
     this.printPlanResponse(res);
   }
 
+  // Subscribe to a one-off stream id before sending the request so LLM_DELTA output
+  // shows while the model is generating. Without a stream the request runs as before.
+  private async withDeltaStream<T>(
+    onEvent: (event: RunEvent) => void,
+    request: (streamId: string | undefined) => Promise<T>
+  ): Promise<T> {
+    const streamId = `cli_${crypto.randomUUID()}`;
+    const stream = await openRunEventStream(this.config, streamId, onEvent).catch(() => null);
+    try {
+      return await request(stream ? streamId : undefined);
+    } finally {
+      stream?.close();
+    }
+  }
+
+  private endDeltaLine(): void {
+    if (this.deltaLineOpen) {
+      process.stdout.write("\n");
+      this.deltaLineOpen = false;
+    }
+  }
+
   private looksLikeShellCommand(input: string): boolean {
     const token = input.trim().split(/\s+/)[0]?.toLowerCase();
     if (!token) return false;
@@ -458,6 +581,15 @@ export class Shell {
     );
   }
 
+  private async cmdLogin(args: string[]): Promise<void> {
+    // The shell owns stdin, so /login takes its credentials as flags only
+    const ok = await handleLoginCommand(args, this.config.server_url, null);
+    if (ok) {
+      // Reconnect the runner with the new credentials
+      this.runner.connect();
+    }
+  }
+
   private async cmdStart(args: string[]): Promise<void> {
     const status = await this.api.get<any>(`/v1/projects/${this.config.project_id}/plan/status`);
     let confirmStale = false;
@@ -479,7 +611,7 @@ export class Shell {
     const taskId = taskIndex !== -1 ? args[taskIndex + 1] : undefined;
 
     const riskPolicy = this.loadRiskPolicySafe();
-    const taskMeta = await this.getTaskMeta(taskId);
+    const tasksMeta = await this.getTasksMeta(taskId);
     let requiresConfirm = false;
     const reasons: string[] = [];
     const riskLevel = this.config.risk ?? "standard";
@@ -487,17 +619,19 @@ export class Shell {
       requiresConfirm = true;
       reasons.push(`risk level ${riskLevel}`);
     }
-    if (taskMeta?.risk === "high") {
+    if (tasksMeta.some((task) => task?.risk === "high")) {
       requiresConfirm = true;
       reasons.push("task risk high");
     }
-    if (taskMeta?.type && riskPolicy?.high_risk_task_types?.includes(taskMeta.type)) {
+    if (tasksMeta.some((task) => task?.type && riskPolicy?.high_risk_task_types?.includes(task.type))) {
       requiresConfirm = true;
       reasons.push("high risk task type");
     }
-    if (taskMeta?.scope?.paths && riskPolicy?.high_risk_path_patterns?.length) {
-      const matched = taskMeta.scope.paths.some((p: string) =>
-        riskPolicy.high_risk_path_patterns.some((pattern: string) => this.globMatch(pattern, p))
+    if (riskPolicy?.high_risk_path_patterns?.length) {
+      const matched = tasksMeta.some((task) =>
+        (task?.scope?.paths ?? []).some((p: string) =>
+          riskPolicy.high_risk_path_patterns.some((pattern: string) => this.globMatch(pattern, p))
+        )
       );
       if (matched) {
         requiresConfirm = true;
@@ -516,26 +650,55 @@ export class Shell {
       confirmHighRisk = true;
     }
 
-    const res = await this.api.post<any>(`/v1/projects/${this.config.project_id}/runs/start`, {
-      lane: this.config.lane,
-      risk: this.config.risk,
-      budget_cap_usd: this.config.budget_cap_usd,
-      context_budget: this.config.context_override,
-      task_id: taskId,
-      confirm_high_risk: confirmHighRisk,
-      confirm_stale: confirmStale
-    });
+    // Runs start synchronously, so subscribe first to see the run (and its LLM output) live
+    const streamId = `cli_${crypto.randomUUID()}`;
+    const liveStream = await openRunEventStream(this.config, streamId, (event) => this.handleRunEvent(event)).catch(
+      () => null
+    );
+    let res: any;
+    try {
+      res = await this.api.post<any>(`/v1/projects/${this.config.project_id}/runs/start`, {
+        lane: this.config.lane,
+        risk: this.config.risk,
+        budget_cap_usd: this.config.budget_cap_usd,
+        context_budget: this.config.context_override,
+        task_id: taskId,
+        confirm_high_risk: confirmHighRisk,
+        confirm_stale: confirmStale,
+        stream_id: liveStream ? streamId : undefined
+      });
+    } catch (err) {
+      liveStream?.close();
+      throw err;
+    }
     const runId = res.run_id as string;
     this.config.last_run_id = runId;
     saveConfig(this.config);
 
-    if (!this.streamingRuns.has(runId)) {
+    if (liveStream) {
+      // The linked stream keeps receiving this run's events; no need to attach again
+      this.streamingRuns.add(runId);
+      liveStream.done
+        .catch(() => undefined)
+        // Once the linked stream drops, follow the run itself from where it stopped
+        .then(() =>
+          streamRunEvents(this.config, runId, (event) => this.handleRunEvent(event), {
+            lastEventId: liveStream.lastEventId
+          })
+        )
+        .catch((err) => {
+          console.log(`stream error: ${err.message}`);
+        });
+    } else if (!this.streamingRuns.has(runId)) {
       this.streamingRuns.add(runId);
       streamRunEvents(this.config, runId, (event) => this.handleRunEvent(event)).catch((err) => {
         console.log(`stream error: ${err.message}`);
       });
     }
     console.log(`Run started: ${runId}`);
+    if (res.state) {
+      console.log(`Run state: ${res.state} (${res.tasks_completed ?? 0}/${res.tasks_scheduled ?? 0} tasks)`);
+    }
   }
 
   private loadRiskPolicySafe(): ReturnType<typeof loadRiskPolicy> | null {
@@ -567,20 +730,27 @@ export class Shell {
     return process.cwd();
   }
 
-  private async getTaskMeta(taskId?: string): Promise<any | null> {
+  private async getTasksMeta(taskId?: string): Promise<any[]> {
     try {
       const tasks = await this.api.get<any>(`/v1/projects/${this.config.project_id}/plan/tasks`);
       const allTasks = tasks.phases?.flatMap((phase: any) => phase.tasks) ?? [];
       if (taskId) {
-        return allTasks.find((task: any) => task.id === taskId) ?? null;
+        return allTasks.filter((task: any) => task.id === taskId);
       }
-      return allTasks[0] ?? null;
+      return allTasks;
     } catch {
-      return null;
+      return [];
     }
   }
 
-  private handleRunEvent(event: { type: string; ts: string; data: any }): void {
+  private handleRunEvent(event: RunEvent): void {
+    if (event.type === "LLM_DELTA") {
+      const delta = String(event.data?.delta ?? "");
+      process.stdout.write(formatLlmDelta(event.data));
+      this.deltaLineOpen = delta.length > 0 ? !delta.endsWith("\n") : this.deltaLineOpen;
+      return;
+    }
+    this.endDeltaLine();
     if (event.type === "RUN_BANNER") {
       console.log(formatRunBanner(event.data));
       if (typeof event.data?.fix_loop_max_iters === "number") {
@@ -616,6 +786,8 @@ export class Shell {
       }
     } else if (event.type === "VERIFY_FINISHED") {
       console.log(`Verify: ${event.data.status} (${event.data.verify_report ?? "no report"})`);
+    } else if (event.type === "TASK_FAILED") {
+      console.log(`Task failed: ${event.data?.task_id ?? "task"} (${event.data?.error ?? "unknown error"})`);
     } else if (event.type === "ANOMALY") {
       console.log(formatAnomaly(event.data));
     } else if (event.type === "PERMISSION_DENIED") {
@@ -642,8 +814,8 @@ export class Shell {
       return;
     }
     if (action === "pause" || action === "resume" || action === "cancel") {
-      await this.api.post(`/v1/runs/${this.config.last_run_id}/${action}`);
-      console.log(`Run ${action}d.`);
+      const result = await this.api.post<any>(`/v1/runs/${this.config.last_run_id}/${action}`);
+      console.log(action === "resume" && result?.state ? `Run resumed: ${result.state}.` : `Run ${action}d.`);
       return;
     }
     console.log("Usage: /run status|pause|resume|cancel");
@@ -817,43 +989,180 @@ export class Shell {
     console.log(`Verify: ${res.status}`);
   }
 
-  private async cmdFix(): Promise<void> {
+  private async cmdFix(args: string[]): Promise<void> {
     if (!this.config.last_run_id) {
       console.log("No active run.");
       return;
     }
-    const maxIters = this.config.fix_loop_max_iters ?? 3;
-    const taskId = this.config.last_task_id;
-    for (let i = 0; i < maxIters; i += 1) {
-      const verify = await this.api.post<any>(`/v1/runs/${this.config.last_run_id}/verify`, {});
-      if (verify.status === "pass") {
-        console.log("Fix loop complete.");
+    const maxIdx = args.findIndex((arg) => arg === "--max");
+    const maxIters = maxIdx !== -1 ? Number(args[maxIdx + 1]) : undefined;
+    if (maxIters !== undefined && (!Number.isInteger(maxIters) || maxIters < 1)) {
+      console.log("--max must be a positive integer.");
+      return;
+    }
+    const res = await this.api.post<any>(`/v1/runs/${this.config.last_run_id}/fix`, {
+      task_id: this.config.last_task_id,
+      max_iters: maxIters,
+      mode: args.includes("--stack") ? "stack" : "replace"
+    });
+    if (res.stop_reason === "pass") {
+      console.log(`Fix loop complete: verify pass after ${res.iterations} iteration(s).`);
+    } else if (res.stop_reason === "budget") {
+      console.log(`Fix loop stopped: budget exhausted after ${res.iterations} iteration(s).`);
+    } else if (res.stop_reason === "provider_failed") {
+      console.log(`Fix loop stopped: provider failed after ${res.iterations} iteration(s).`);
+    } else {
+      console.log(`Fix loop reached max iterations (${res.iterations}/${res.max_iters}). Verify: ${res.status}`);
+    }
+  }
+
+  private async cmdDiff(args: string[]): Promise<void> {
+    if (args[0] === "next" || args[0] === "prev") {
+      if (!this.diffView) {
+        console.log("No diff open. Run /diff first.");
         return;
       }
-      if (!taskId) {
-        console.log("No task id available for fix loop.");
+      const page = args[0] === "next" ? this.diffView.next() : this.diffView.prev();
+      console.log(page ?? (args[0] === "next" ? "End of patch." : "Already at the first page."));
+      return;
+    }
+
+    const fileIdx = args.findIndex((arg) => arg === "--file");
+    const fileQuery = fileIdx !== -1 ? args[fileIdx + 1] : undefined;
+    if (fileIdx !== -1 && !fileQuery) {
+      console.log(`Usage: ${HELP_MAP.diff}`);
+      return;
+    }
+    const positionals = args.filter((arg, index) => !arg.startsWith("--") && index !== fileIdx + 1);
+
+    let view = this.diffView;
+    if (positionals[0]) {
+      // A stored patch artifact: /diff <run_id> [task_id]
+      const query = positionals[1] ? `?task_id=${encodeURIComponent(positionals[1])}` : "";
+      const res = await this.api.get<any>(`/v1/runs/${positionals[0]}/patch${query}`);
+      view = new DiffView(res.patch_text ?? "", res.patch_path ?? `${positionals[0]}/${res.task_id ?? "all tasks"}`);
+    } else if (!fileQuery || !view) {
+      // --file on an already open diff keeps its paging position
+      if (!this.config.last_patch?.text) {
+        console.log("No patch available.");
         return;
       }
-      console.log(`Verify failed. Starting fix iteration ${i + 1}/${maxIters}...`);
-      await this.cmdStart(["--task", taskId]);
+      view = new DiffView(
+        this.config.last_patch.text,
+        this.config.last_patch.path ?? this.config.last_patch.summary ?? "last patch"
+      );
     }
-    console.log("Fix loop reached max iterations.");
+    this.diffView = view;
+
+    if (fileQuery) {
+      const match = view.findFile(fileQuery);
+      if (!match) {
+        console.log(`No file matching ${fileQuery} in this patch.`);
+      } else if (Array.isArray(match)) {
+        console.log(`Ambiguous file ${fileQuery}: ${match.map((file) => file.path).join(", ")}`);
+      } else {
+        console.log(view.renderFile(match));
+      }
+      return;
+    }
+
+    console.log(view.stat());
+    if (args.includes("--stat") || view.pageCount === 0) {
+      return;
+    }
+    console.log(view.next());
   }
 
-  private cmdDiff(): void {
-    if (!this.config.last_patch?.text) {
+  private async cmdReview(args: string[]): Promise<void> {
+    const runId = args[0] ?? this.config.last_run_id;
+    if (!runId) {
+      console.log("No active run.");
+      return;
+    }
+    const query = args[1] ? `?task_id=${encodeURIComponent(args[1])}` : "";
+    const patch = await this.api.get<any>(`/v1/runs/${runId}/patch${query}`);
+    const files = parseUnifiedDiff(patch.patch_text ?? "");
+    if (files.length === 0) {
       console.log("No patch available.");
       return;
     }
-    const lines = this.config.last_patch.text.split(/\r?\n/).slice(0, 12);
-    console.log(lines.join("\n"));
+    if (!patch.task_id) {
+      // Revisions are saved per task; a multi-task run is reviewed one task at a time
+      const taskIds = (patch.tasks ?? []).map((task: any) => task.task_id).join(", ");
+      console.log(`Run ${runId} has patches for several tasks (${taskIds}). Review one: /review ${runId} <task_id>`);
+      return;
+    }
+    console.log(`Reviewing ${runId}/${patch.task_id} (revision ${patch.revision ?? 0})`);
+
+    const result = await reviewPatch(files, {
+      ask: (question) =>
+        new Promise((resolve) => {
+          this.rl.question(`${question} `, resolve);
+        }),
+      edit: async (text) => {
+        // Hand the terminal to the editor while it runs
+        this.rl.pause();
+        const rawMode = process.stdin.isTTY ? process.stdin.isRaw : false;
+        if (rawMode) process.stdin.setRawMode(false);
+        try {
+          return editInEditor(text);
+        } finally {
+          if (rawMode) process.stdin.setRawMode(true);
+          this.rl.resume();
+        }
+      },
+      print: (message) => console.log(message)
+    });
+    if (!result) {
+      console.log("Review cancelled; no revision saved.");
+      return;
+    }
+    if (result.dropped === 0 && result.edited === 0) {
+      console.log("All hunks kept; the patch is unchanged.");
+      return;
+    }
+    if (result.files.length === 0) {
+      console.log("Every hunk was dropped; nothing left to apply. No revision saved.");
+      return;
+    }
+
+    console.log(formatDiffStat(result.files));
+    console.log(`Kept ${result.kept}, dropped ${result.dropped}, edited ${result.edited} hunk(s).`);
+    if (!(await this.promptYesNo("Save as a new patch revision?"))) {
+      console.log("Review discarded.");
+      return;
+    }
+    const patchText = formatUnifiedDiff(result.files);
+    const saved = await this.api.post<any>(`/v1/runs/${runId}/patch/revisions`, {
+      task_id: patch.task_id,
+      patch_text: patchText,
+      base_revision: patch.revision ?? 0,
+      dropped_hunks: result.dropped,
+      edited_hunks: result.edited
+    });
+    this.config.last_patch = { path: saved.patch_path, text: patchText, summary: saved.patch_path };
+    saveConfig(this.config);
+    this.diffView = undefined;
+    console.log(`Patch revision ${saved.revision} saved: ${saved.patch_path}`);
+    console.log("/apply will apply this revision.");
   }
 
-  private async cmdApply(): Promise<void> {
+  private async cmdApply(args: string[]): Promise<void> {
     if (!this.config.last_run_id) {
       console.log("No patch available to apply.");
       return;
     }
+    if (args.includes("--check")) {
+      await this.checkPatch(this.config.last_run_id);
+      return;
+    }
+    if (args.includes("--local") && args.includes("--staged")) {
+      console.log("Usage: /apply [--local [--branch <name>] | --staged]");
+      return;
+    }
+    const mode = args.includes("--staged") ? "staged" : args.includes("--local") ? "branch" : "pr";
+    const branchIdx = args.findIndex((arg) => arg === "--branch");
+    const branch = branchIdx !== -1 ? args[branchIdx + 1] : undefined;
 
     const confirmed = await this.promptExact("TYPE: APPLY to confirm", "APPLY");
     if (!confirmed) {
@@ -861,8 +1170,37 @@ export class Shell {
       return;
     }
 
-    const res = await this.api.post<any>(`/v1/runs/${this.config.last_run_id}/apply`, {});
-    console.log(`PR created: ${res.pr_url ?? "n/a"}`);
+    const res = await this.api.post<any>(`/v1/runs/${this.config.last_run_id}/apply`, { mode, branch });
+    if (res.mode === "staged") {
+      console.log(`Staged ${res.files?.length ?? 0} file(s) in the working tree. Review with git diff --cached.`);
+    } else if (res.mode === "branch") {
+      console.log(`Committed ${res.commit_sha ?? ""} on local branch ${res.branch} (from ${res.base_branch}).`);
+    } else {
+      console.log(`PR created: ${res.pr_url ?? "n/a"}`);
+      console.log("Track it with /pr status.");
+    }
+  }
+
+  private async checkPatch(runId: string): Promise<void> {
+    const check = await this.api.post<any>(`/v1/runs/${runId}/patch/check`, {});
+    console.log(formatPatchCheck(check));
+    if (!check.rebase_available) {
+      return;
+    }
+    if (!(await this.promptYesNo("Regenerate the patch against the current HEAD?"))) {
+      console.log("Patch left as is. Rebase it yourself or re-run the task.");
+      return;
+    }
+    const rebased = await this.api.post<any>(`/v1/runs/${runId}/patch/rebase`, { task_id: check.task_id });
+    if (!rebased.rebased) {
+      console.log(formatPatchCheck(rebased));
+      return;
+    }
+    console.log(`Patch regenerated: ${rebased.patch_path}`);
+    if (rebased.status) {
+      console.log(formatPatchCheck(rebased));
+    }
+    console.log("Review it with /diff before running /apply.");
   }
 
   private async cmdUsage(args: string[]): Promise<void> {
@@ -912,6 +1250,13 @@ export class Shell {
     const query = runId ? `run_id=${runId}` : `task_id=${taskId}`;
     const res = await this.api.get<any>(`/v1/cost/explain?${query}`);
     console.log(JSON.stringify(res, null, 2));
+    if (res.cache?.llm_calls > 0) {
+      const { tokens_cached_in, tokens_in, cache_hit_rate, cache_savings_usd } = res.cache;
+      console.log(
+        `Prompt cache: ${tokens_cached_in}/${tokens_in} input tokens cached (${Math.round(cache_hit_rate * 100)}%), ` +
+          `saved $${cache_savings_usd.toFixed(4)}`
+      );
+    }
   }
 
   private cmdLane(args: string[]): void {
@@ -953,7 +1298,7 @@ export class Shell {
     console.log(`Budget cap set to $${value}`);
   }
 
-  private cmdPermissions(args: string[]): void {
+  private async cmdPermissions(args: string[]): Promise<void> {
     const filePath = path.join(os.homedir(), ".trcoder", "permissions.json");
     if (!args[0]) {
       const effective = loadPermissionPolicy();
@@ -972,6 +1317,14 @@ export class Shell {
       override[action] = Array.from(new Set([...(override[action] ?? []), cmd]));
       fs.writeFileSync(filePath, JSON.stringify(override, null, 2));
       console.log(`Permissions updated: ${action} ${cmd}`);
+      if (this.config.project_id) {
+        // Local overrides still apply if the server is unreachable; the audit record is best-effort
+        try {
+          await this.api.post(`/v1/projects/${this.config.project_id}/permissions`, { decision: action, command: cmd });
+        } catch (err) {
+          console.log(`Audit record not saved: ${(err as Error).message}`);
+        }
+      }
       return;
     }
     console.log("Usage: /permissions [allow|ask|deny] \"<cmd>\"");
@@ -1084,12 +1437,75 @@ export class Shell {
     console.log(JSON.stringify(status, null, 2));
   }
 
-  private cmdPr(args: string[]): void {
-    if (args[0] !== "status") {
-      console.log("Usage: /pr status");
+  private async cmdPr(args: string[]): Promise<void> {
+    const action = args[0];
+    if (!action || !["status", "open", "merge", "close"].includes(action)) {
+      console.log(`Usage: ${HELP_MAP.pr}`);
+      return;
+    }
+
+    const list = await this.api.get<{ prs: any[] }>(`/v1/projects/${this.config.project_id}/prs`);
+    if (list.prs.length === 0) {
+      console.log("No pull requests tracked for this project.");
+      return;
+    }
+
+    if (action === "status") {
+      for (const tracked of list.prs) {
+        let pr = tracked;
+        if (tracked.state === "open") {
+          try {
+            pr = (await this.api.post<any>(`/v1/prs/${tracked.id}/refresh`, {})).pr;
+          } catch (err) {
+            console.log(styleText(`refresh failed for #${tracked.number}: ${(err as Error).message}`, "muted"));
+          }
+        }
+        console.log(`#${pr.number} ${String(pr.state).toUpperCase()} ${pr.title} (${pr.branch} -> ${pr.base_branch})`);
+        console.log(`  ${pr.url}`);
+      }
+      return;
+    }
+
+    // Defaults to the most recently opened PR
+    const numberArg = args.slice(1).find((arg) => /^#?\d+$/.test(arg));
+    const pr = numberArg
+      ? list.prs.find((item) => item.number === Number(numberArg.replace("#", "")))
+      : list.prs[0];
+    if (!pr) {
+      console.log(`Unknown PR: ${numberArg}`);
+      return;
+    }
+
+    if (action === "open") {
+      console.log(pr.url);
+      const { spawn } = await import("child_process");
+      const opener =
+        process.platform === "darwin" ? "open" : process.platform === "win32" ? "explorer" : "xdg-open";
+      const child = spawn(opener, [pr.url], { detached: true, stdio: "ignore", windowsHide: true });
+      child.on("error", () => undefined);
+      child.unref();
+      return;
+    }
+
+    if (action === "merge") {
+      const method = args.includes("--merge") ? "merge" : args.includes("--rebase") ? "rebase" : "squash";
+      const confirmed = await this.promptExact(`TYPE: MERGE to merge #${pr.number} (${method})`, "MERGE");
+      if (!confirmed) {
+        console.log("Merge cancelled.");
+        return;
+      }
+      const res = await this.api.post<any>(`/v1/prs/${pr.id}/merge`, { method });
+      console.log(`PR #${res.pr.number} merged.`);
+      return;
+    }
+
+    const confirmed = await this.promptExact(`TYPE: CLOSE to close #${pr.number}`, "CLOSE");
+    if (!confirmed) {
+      console.log("Close cancelled.");
       return;
     }
-    console.log("PR adapter not implemented in V1.");
+    const res = await this.api.post<any>(`/v1/prs/${pr.id}/close`, {});
+    console.log(`PR #${res.pr.number} closed.`);
   }
 
   private async cmdInit(args: string[]): Promise<void> {
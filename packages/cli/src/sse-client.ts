@@ -1,19 +1,116 @@
+import { getCliAuthHeader, refreshCliAuth } from "./auth";
 import { CliConfig } from "./config-store";
 
-export async function streamRunEvents(
+export type RunEvent = { type: string; ts: string; data: any };
+
+export interface RunEventStream {
+  done: Promise<void>;
+  close(): void;
+  // Id of the last event received; resume from it with Last-Event-ID
+  readonly lastEventId: string | undefined;
+}
+
+export interface RunEventStreamOptions {
+  lastEventId?: string;
+}
+
+const MAX_RECONNECT_ATTEMPTS = 10;
+
+class SseConnectError extends Error {
+  constructor(readonly status: number) {
+    super(`SSE connect failed: ${status}`);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Subscribe to /v1/runs/:id/stream. Resolves once the server accepted the
+ * subscription, so requests that stream into this id can be sent afterwards.
+ */
+export async function openRunEventStream(
   config: CliConfig,
   runId: string,
-  onEvent: (event: { type: string; ts: string; data: any }) => void
-): Promise<void> {
+  onEvent: (event: RunEvent) => void,
+  options?: RunEventStreamOptions
+): Promise<RunEventStream> {
+  const controller = new AbortController();
+  const headers: Record<string, string> = { Authorization: await getCliAuthHeader(config) };
+  if (options?.lastEventId) {
+    headers["Last-Event-ID"] = options.lastEventId;
+  }
   const res = await fetch(`${config.server_url}/v1/runs/${runId}/stream`, {
-    headers: { Authorization: `Bearer ${config.api_key}` }
+    headers,
+    signal: controller.signal
   });
 
   if (!res.ok || !res.body) {
-    throw new Error(`SSE connect failed: ${res.status}`);
+    throw new SseConnectError(res.status);
   }
 
-  const reader = res.body.getReader();
+  let lastEventId = options?.lastEventId;
+  const done = readEvents(res.body, (event, id) => {
+    if (id) lastEventId = id;
+    onEvent(event);
+  }).catch((err) => {
+    if (controller.signal.aborted) return;
+    throw err;
+  });
+  return {
+    done,
+    close: () => controller.abort(),
+    get lastEventId() {
+      return lastEventId;
+    }
+  };
+}
+
+/**
+ * Follow a run's events. When the connection drops (server restart, proxy
+ * timeout) it reconnects with Last-Event-ID, so only missed events are replayed.
+ */
+export async function streamRunEvents(
+  config: CliConfig,
+  runId: string,
+  onEvent: (event: RunEvent) => void,
+  options?: RunEventStreamOptions
+): Promise<void> {
+  let lastEventId = options?.lastEventId;
+  let attempts = 0;
+  let refreshedAuth = false;
+
+  while (true) {
+    try {
+      const stream = await openRunEventStream(config, runId, onEvent, { lastEventId });
+      attempts = 0;
+      refreshedAuth = false;
+      try {
+        await stream.done;
+      } finally {
+        lastEventId = stream.lastEventId;
+      }
+    } catch (err) {
+      // An expired access token is retried once it has been refreshed
+      if (err instanceof SseConnectError && err.status === 401 && !refreshedAuth && (await refreshCliAuth(config))) {
+        refreshedAuth = true;
+        continue;
+      }
+      // Auth and not-found errors will not go away by retrying
+      if (err instanceof SseConnectError && err.status >= 400 && err.status < 500) throw err;
+      if (attempts >= MAX_RECONNECT_ATTEMPTS) throw err;
+    }
+    await sleep(Math.min(10000, 1000 + attempts * 1000));
+    attempts += 1;
+  }
+}
+
+async function readEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: RunEvent, id: string | undefined) => void
+): Promise<void> {
+  const reader = body.getReader();
   const decoder = new TextDecoder();
   let buffer = "";
 
@@ -27,7 +124,9 @@ export async function streamRunEvents(
       const rawEvent = buffer.slice(0, idx).trim();
       buffer = buffer.slice(idx + 2);
 
+      // Comment lines (": heartbeat") only keep the connection alive
       const lines = rawEvent.split(/\n/);
+      const id = lines.find((line) => line.startsWith("id:"))?.replace(/^id:\s?/, "");
       const dataLines = lines
         .filter((line) => line.startsWith("data:"))
         .map((line) => line.replace(/^data:\s?/, ""));
@@ -35,8 +134,8 @@ export async function streamRunEvents(
       if (dataLines.length > 0) {
         const dataStr = dataLines.join("\n");
         try {
-          const event = JSON.parse(dataStr) as { type: string; ts: string; data: any };
-          onEvent(event);
+          const event = JSON.parse(dataStr) as RunEvent;
+          onEvent(event, id);
         } catch {
           // ignore parse errors
         }
@@ -1,5 +1,5 @@
 type ThemeMode = "matrix" | "none";
-type StyleKind = "prompt" | "header" | "label" | "stage" | "muted";
+type StyleKind = "prompt" | "header" | "label" | "stage" | "muted" | "added" | "removed" | "hunk";
 
 const THEME: ThemeMode = (process.env.TRCODER_THEME ?? "matrix") as ThemeMode;
 const USE_COLOR = Boolean(process.stdout.isTTY && !process.env.NO_COLOR && THEME !== "none");
@@ -8,6 +8,8 @@ const ANSI = {
   reset: "\x1b[0m",
   brightGreen: "\x1b[92m",
   green: "\x1b[32m",
+  red: "\x1b[31m",
+  cyan: "\x1b[36m",
   dim: "\x1b[2m"
 };
 
@@ -24,6 +26,12 @@ export function styleText(text: string, kind: StyleKind): string {
       return `${ANSI.dim}${text}${ANSI.reset}`;
     case "muted":
       return `${ANSI.dim}${text}${ANSI.reset}`;
+    case "added":
+      return `${ANSI.green}${text}${ANSI.reset}`;
+    case "removed":
+      return `${ANSI.red}${text}${ANSI.reset}`;
+    case "hunk":
+      return `${ANSI.cyan}${text}${ANSI.reset}`;
     default:
       return text;
   }
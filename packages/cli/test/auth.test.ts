@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import http from "http";
+import { AddressInfo } from "net";
+import { AuthManager } from "../src/auth";
+import { SecretStorage } from "../src/keychain";
+
+class MemoryStorage implements SecretStorage {
+  values = new Map<string, string>();
+  async get(key: string) {
+    return this.values.get(key) ?? null;
+  }
+  async set(key: string, value: string) {
+    this.values.set(key, value);
+  }
+  async delete(key: string) {
+    this.values.delete(key);
+  }
+  async has(key: string) {
+    return this.values.has(key);
+  }
+}
+
+let server: http.Server;
+let serverUrl: string;
+let refreshCalls = 0;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      if (req.url === "/v1/auth/login") {
+        const { email, password } = JSON.parse(body);
+        const ok = email === "dev@example.com" && password === "Passw0rd";
+        res.writeHead(ok ? 200 : 401, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify(
+            ok
+              ? {
+                  user: { id: "user_1", email },
+                  org: { id: "org_1" },
+                  access_token: "access_login",
+                  refresh_token: "refresh_login",
+                  expires_in: 3600
+                }
+              : { error: "invalid_credentials" }
+          )
+        );
+        return;
+      }
+      if (req.url !== "/v1/auth/refresh" || JSON.parse(body).refresh_token !== `refresh_${refreshCalls}`) {
+        res.writeHead(401, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "invalid_token" }));
+        return;
+      }
+      refreshCalls += 1;
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          user: { id: "user_1", email: "dev@example.com" },
+          org: { id: "org_1" },
+          access_token: `access_${refreshCalls}`,
+          refresh_token: `refresh_${refreshCalls}`,
+          expires_in: 3600
+        })
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("auth manager", () => {
+  it("refreshes an expiring access token once and stores the rotated refresh token", async () => {
+    const storage = new MemoryStorage();
+    await storage.set(
+      "trcoder_auth",
+      JSON.stringify({ accessToken: "access_0", refreshToken: "refresh_0", serverUrl, expiresAt: Date.now() + 1000 })
+    );
+    const auth = new AuthManager(serverUrl, storage);
+
+    const headers = await Promise.all([auth.getAuthHeader(), auth.getAuthHeader()]);
+    expect(headers).toEqual(["Bearer access_1", "Bearer access_1"]);
+    expect(refreshCalls).toBe(1);
+    const stored = JSON.parse((await storage.get("trcoder_auth")) ?? "{}");
+    expect(stored).toMatchObject({ accessToken: "access_1", refreshToken: "refresh_1", orgId: "org_1" });
+    expect(stored.expiresAt).toBeGreaterThan(Date.now() + 3_500_000);
+
+    // A fresh token is used as-is
+    expect(await auth.getAuthHeader()).toBe("Bearer access_1");
+    expect(refreshCalls).toBe(1);
+  });
+
+  it("never sends credentials saved for another server", async () => {
+    const storage = new MemoryStorage();
+    await storage.set("trcoder_auth", JSON.stringify({ apiKey: "trc_live_abc", serverUrl: "https://api.example.com" }));
+    expect(await new AuthManager(serverUrl, storage).getAuthHeader()).toBeNull();
+    expect(await new AuthManager("https://api.example.com", storage).getAuthHeader()).toBe("Bearer trc_live_abc");
+  });
+
+  it("prompts for an email and a secret password when login has no flags", async () => {
+    const storage = new MemoryStorage();
+    const asked: Array<{ question: string; secret: boolean }> = [];
+    const answers = ["dev@example.com", "Passw0rd"];
+    const prompt = async (question: string, secret = false) => {
+      asked.push({ question, secret });
+      return answers.shift() ?? "";
+    };
+
+    expect(await new AuthManager(serverUrl, storage).loginInteractive(prompt)).toBe(true);
+    expect(asked).toEqual([
+      { question: "API key or email: ", secret: false },
+      { question: "Password: ", secret: true }
+    ]);
+    expect(JSON.parse((await storage.get("trcoder_auth")) ?? "{}")).toMatchObject({
+      accessToken: "access_login",
+      email: "dev@example.com"
+    });
+  });
+});
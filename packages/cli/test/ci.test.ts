@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { EXIT_CODES, exitCodeForRunState, parseCiArgs } from "../src/ci";
+
+describe("non-interactive commands", () => {
+  it("parses positionals, value flags, boolean flags and repeated pins", () => {
+    expect(parseCiArgs(["approve", "--plan", "plan_1", "--json"])).toEqual({
+      positionals: ["approve"],
+      flags: { plan: "plan_1", json: true },
+      lists: { plan: ["plan_1"] }
+    });
+    const parsed = parseCiArgs(["--from=docs/prd.md", "--pin", "a.ts", "--pin", "b.ts", "--wait", "extra"]);
+    expect(parsed.flags).toEqual({ from: "docs/prd.md", pin: "b.ts", wait: true });
+    expect(parsed.lists.pin).toEqual(["a.ts", "b.ts"]);
+    // Boolean flags never swallow the next argument
+    expect(parsed.positionals).toEqual(["extra"]);
+    expect(parseCiArgs(["--task"]).flags).toEqual({ task: true });
+  });
+
+  it("maps final run states to exit codes", () => {
+    expect(exitCodeForRunState("DONE")).toBe(EXIT_CODES.OK);
+    expect(exitCodeForRunState("PAUSED")).toBe(EXIT_CODES.PAUSED);
+    expect(exitCodeForRunState("FAILED")).toBe(EXIT_CODES.FAILED);
+    expect(exitCodeForRunState("CANCELLED")).toBe(EXIT_CODES.FAILED);
+  });
+});
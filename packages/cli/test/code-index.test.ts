@@ -0,0 +1,105 @@
+import { afterAll, describe, expect, it } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { CodeIndex, extractImportSpecifiers, extractSymbols, tokenize } from "../src/code-index";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "trcoder-index-"));
+
+function write(rel: string, content: string) {
+  const full = path.join(root, rel);
+  fs.mkdirSync(path.dirname(full), { recursive: true });
+  fs.writeFileSync(full, content);
+}
+
+write(
+  "src/billing/invoice.ts",
+  [
+    'import { formatMoney } from "../util/money.js";',
+    'import type { Plan } from "./plan";',
+    "",
+    "export function buildInvoice(plan: Plan, credits: number) {",
+    "  // invoice total from plan credits",
+    "  return formatMoney(plan.price * credits);",
+    "}"
+  ].join("\n")
+);
+write("src/billing/plan.ts", "export interface Plan {\n  price: number;\n}\n");
+write("src/util/money.ts", 'import { round } from "./math";\nexport const formatMoney = (n: number) => `$${round(n)}`;\n');
+write("src/util/math.ts", "export function round(n: number) {\n  return Math.round(n * 100) / 100;\n}\n");
+write("src/server.ts", 'const handler = require("./billing/invoice");\nexport class Server {}\n');
+write("docs/billing.md", "# Billing\nInvoices are built monthly.\n");
+write("node_modules/dep/index.js", "export function buildInvoice() {}\n");
+write("tools/report/__init__.py", "");
+write("tools/report/render.py", "from .fmt import money\nimport json, tools.report.fmt\n\ndef render(rows):\n    return money(rows)\n");
+write("tools/report/fmt.py", "def money(rows):\n    return rows\n");
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("code index", () => {
+  it("splits identifiers into terms", () => {
+    expect(tokenize("buildContextPack(top_k)")).toEqual(["build", "context", "pack", "buildcontextpack", "top", "top_k"]);
+  });
+
+  it("extracts symbols and import specifiers", () => {
+    const source = fs.readFileSync(path.join(root, "src/billing/invoice.ts"), "utf8");
+    expect(extractSymbols("invoice.ts", source)).toEqual([
+      { name: "buildInvoice", kind: "function", line: 4, exported: true }
+    ]);
+    expect(extractImportSpecifiers("invoice.ts", source)).toEqual(["../util/money.js", "./plan"]);
+    expect(extractImportSpecifiers("server.ts", 'export * from "./a";\nconst b = require("./b");')).toEqual([
+      "./a",
+      "./b"
+    ]);
+  });
+
+  it("ranks files by symbols and BM25 and follows imports", () => {
+    const index = new CodeIndex(root);
+    index.refresh();
+    expect(index.size).toBe(9);
+    expect(index.getFile("src/billing/invoice.ts")?.imports).toEqual(["src/util/money.ts", "src/billing/plan.ts"]);
+    expect(index.getFile("src/billing/invoice.ts")?.importedBy).toEqual(["src/server.ts"]);
+
+    const result = index.search({ query: "invoice", symbols: ["buildInvoice"], top_k: 1, graph_depth: 2 });
+    expect(result.hits[0]).toMatchObject({ path: "src/billing/invoice.ts", line: 4, why: "defines buildInvoice" });
+    expect(result.hits[0].snippet).toBe("export function buildInvoice(plan: Plan, credits: number) {");
+    expect(result.hits.map((hit) => hit.path)).not.toContain("node_modules/dep/index.js");
+    expect(result.related).toEqual([
+      { path: "src/util/money.ts", lines: 3, why: "imported by src/billing/invoice.ts", direction: "dependency", depth: 1 },
+      { path: "src/billing/plan.ts", lines: 4, why: "imported by src/billing/invoice.ts", direction: "dependency", depth: 1 },
+      { path: "src/server.ts", lines: 3, why: "imports src/billing/invoice.ts", direction: "dependent", depth: 1 },
+      { path: "src/util/math.ts", lines: 4, why: "imported by src/util/money.ts", direction: "dependency", depth: 2 }
+    ]);
+
+    const scoped = index.search({ query: "invoice", paths: ["docs"], top_k: 5 });
+    expect(scoped.hits.map((hit) => hit.path)).toEqual(["docs/billing.md"]);
+    const excluded = index.search({ query: "invoice", exclude_paths: ["src/**"], top_k: 5 });
+    expect(excluded.hits.map((hit) => hit.path)).toEqual(["docs/billing.md"]);
+  });
+
+  it("expands the graph from seeds and resolves Python imports", () => {
+    const index = new CodeIndex(root);
+    index.refresh();
+    expect(index.getFile("tools/report/render.py")?.imports).toEqual(["tools/report/fmt.py"]);
+
+    const seeded = index.search({ top_k: 5, graph_depth: 1, seeds: ["src/util/math.ts", "docs/**"] });
+    expect(seeded.hits).toEqual([]);
+    expect(seeded.related).toEqual([
+      { path: "src/util/money.ts", lines: 3, why: "imports src/util/math.ts", direction: "dependent", depth: 1 }
+    ]);
+  });
+
+  it("re-parses only changed files on refresh", () => {
+    const index = new CodeIndex(root);
+    index.refresh();
+    expect(index.search({ query: "refund", top_k: 5 }).hits).toEqual([]);
+    write("src/billing/refund.ts", "export function issueRefund() {}\n");
+    index.refresh();
+    expect(index.search({ query: "refund", top_k: 5 }).hits.map((hit) => hit.path)).toEqual(["src/billing/refund.ts"]);
+    fs.rmSync(path.join(root, "src/billing/refund.ts"));
+    index.refresh();
+    expect(index.size).toBe(9);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { DiffView, formatDiffStat, formatPatchCheck } from "../src/diff-view";
+
+function hunk(start: number, body: string[]): string[] {
+  const oldLines = body.filter((line) => !line.startsWith("+")).length;
+  const newLines = body.filter((line) => !line.startsWith("-")).length;
+  return [`@@ -${start},${oldLines} +${start},${newLines} @@`, ...body];
+}
+
+const PATCH = [
+  "diff --git a/src/billing/invoice.ts b/src/billing/invoice.ts",
+  "--- a/src/billing/invoice.ts",
+  "+++ b/src/billing/invoice.ts",
+  ...hunk(1, ["-a", "+b"]),
+  ...hunk(20, [" c", "+d"]),
+  "diff --git a/src/util/money.ts b/src/util/money.ts",
+  "--- a/src/util/money.ts",
+  "+++ b/src/util/money.ts",
+  ...hunk(5, ["-e", "+f", "+g"])
+].join("\n");
+
+describe("diff viewer", () => {
+  it("summarizes files with +/- counts", () => {
+    const view = new DiffView(PATCH, "run_1/task_1");
+    expect(formatDiffStat(view.files).split("\n")).toEqual([
+      " M src/billing/invoice.ts  +2 -1",
+      " M src/util/money.ts       +2 -1",
+      "2 file(s) changed, 3 hunk(s), +4 -2"
+    ]);
+  });
+
+  it("pages through hunks without splitting them", () => {
+    const view = new DiffView(PATCH, "run_1/task_1", 6);
+    expect(view.pageCount).toBe(2);
+    const first = view.next() ?? "";
+    expect(first).toContain("=== src/billing/invoice.ts (modified, +2 -1) ===");
+    expect(first).toContain("@@ -20,1 +20,2 @@  [2/2]");
+    expect(first).not.toContain("money.ts");
+    expect(view.next()).toContain("=== src/util/money.ts");
+    expect(view.next()).toBeNull();
+    expect(view.prev()).toContain("page 1/2");
+  });
+
+  it("finds files by path suffix", () => {
+    const view = new DiffView(PATCH, "last patch");
+    const match = view.findFile("money.ts");
+    expect(Array.isArray(match) ? null : match?.path).toBe("src/util/money.ts");
+    expect(view.findFile(".ts")).toHaveLength(2);
+    expect(view.findFile("nope.ts")).toBeNull();
+  });
+
+  it("lists per-file conflicts of a patch check", () => {
+    const text = formatPatchCheck({
+      status: "conflict",
+      conflicts: [
+        { path: "src/app.ts", reason: "does_not_apply", line: 12, three_way: "clean" },
+        { path: "src/gone.ts", reason: "missing", three_way: "failed" }
+      ]
+    });
+    expect(text).toContain("Patch conflicts with the current HEAD.");
+    expect(text).toContain("src/app.ts:12  does not apply (3-way: clean)");
+    expect(text).toContain("src/gone.ts  missing (3-way: failed)");
+    expect(formatPatchCheck({ status: "clean", conflicts: [] })).toContain("applies cleanly");
+  });
+});
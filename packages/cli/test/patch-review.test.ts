@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { formatUnifiedDiff, parseUnifiedDiff } from "@trcoder/shared";
+import { reviewPatch } from "../src/patch-review";
+
+const PATCH = [
+  "diff --git a/src/a.ts b/src/a.ts",
+  "--- a/src/a.ts",
+  "+++ b/src/a.ts",
+  "@@ -1,2 +1,2 @@",
+  " one",
+  "-two",
+  "+TWO",
+  "@@ -10,1 +10,3 @@",
+  " ten",
+  "+eleven",
+  "+twelve",
+  "diff --git a/src/b.ts b/src/b.ts",
+  "new file mode 100644",
+  "--- /dev/null",
+  "+++ b/src/b.ts",
+  "@@ -0,0 +1 @@",
+  "+export const b = 1;"
+].join("\n");
+
+function scripted(answers: string[], edited?: string) {
+  const questions: string[] = [];
+  return {
+    questions,
+    io: {
+      ask: async (question: string) => {
+        questions.push(question);
+        return answers.shift() ?? "q";
+      },
+      edit: async () => edited ?? null,
+      print: () => undefined
+    }
+  };
+}
+
+describe("patch review", () => {
+  it("keeps, drops and edits hunks", async () => {
+    const { io, questions } = scripted(["?", "y", "e", "n"], "# comment\n@@ -10,1 +10,3 @@\n ten\n+eleven\n");
+    const result = await reviewPatch(parseUnifiedDiff(PATCH), io);
+    expect(questions[0]).toBe("Keep hunk 1/2? [y,n,e,a,d,q,?]");
+    expect(result).toMatchObject({ kept: 1, dropped: 1, edited: 1 });
+    // The new file lost its only hunk, so it is dropped entirely
+    expect(result?.files.map((file) => file.path)).toEqual(["src/a.ts"]);
+    expect(formatUnifiedDiff(result?.files ?? [])).toContain("@@ -10,1 +10,2 @@\n ten\n+eleven");
+  });
+
+  it("applies a/d to the rest of a file and q abandons the review", async () => {
+    const rest = await reviewPatch(parseUnifiedDiff(PATCH), scripted(["d", "a"]).io);
+    expect(rest).toMatchObject({ kept: 1, dropped: 2, edited: 0 });
+    expect(rest?.files.map((file) => file.path)).toEqual(["src/b.ts"]);
+
+    expect(await reviewPatch(parseUnifiedDiff(PATCH), scripted(["y", "q"]).io)).toBeNull();
+  });
+});
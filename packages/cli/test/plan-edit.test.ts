@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { formatPlanDiff, parsePlanEditCommand, planEditUsage } from "../src/plan-edit";
+
+describe("plan edit commands", () => {
+  it("parses each edit command into an op", () => {
+    expect(parsePlanEditCommand("add", ["Write docs", "--after", "task-002", "--type", "documentation"])).toEqual({
+      op: "add_task",
+      task: { title: "Write docs", type: "documentation" },
+      after: "task-002"
+    });
+    expect(parsePlanEditCommand("move", ["task-003", "--first", "--phase", "p2"])).toEqual({
+      op: "move_task",
+      task_id: "task-003",
+      after: null,
+      phase_id: "p2"
+    });
+    expect(
+      parsePlanEditCommand("edit", ["task-001", "--risk", "high", "--deps", "a, b", "--scope", "src/", "--accept", "ok"])
+    ).toEqual({
+      op: "update_task",
+      task_id: "task-001",
+      changes: { risk: "high", deps: ["a", "b"], scope: { paths: ["src/"] }, acceptance: ["ok"] }
+    });
+    expect(parsePlanEditCommand("split", ["task-002", "Schema", "Routes"])).toEqual({
+      op: "split_task",
+      task_id: "task-002",
+      parts: [{ title: "Schema" }, { title: "Routes" }]
+    });
+    expect(parsePlanEditCommand("merge", ["task-002", "task-003", "--title", "Backend"])).toEqual({
+      op: "merge_tasks",
+      task_ids: ["task-002", "task-003"],
+      title: "Backend"
+    });
+  });
+
+  it("rejects incomplete commands", () => {
+    expect(parsePlanEditCommand("rm", [])).toBeNull();
+    expect(parsePlanEditCommand("move", ["task-001"])).toBeNull();
+    expect(parsePlanEditCommand("edit", ["task-001"])).toBeNull();
+    expect(parsePlanEditCommand("split", ["task-001", "Only one"])).toBeNull();
+    expect(planEditUsage("rm")).toBe("Usage: /plan rm <task_id>");
+  });
+
+  it("formats a plan diff", () => {
+    const text = formatPlanDiff({
+      added: [{ task_id: "task-007", title: "Write docs", position: { phase_id: "p1", index: 2 } }],
+      removed: [{ task_id: "task-004", title: "Old step", position: { phase_id: "p2", index: 0 } }],
+      changed: [{ task_id: "task-002", fields: { risk: { from: "low", to: "high" } } }],
+      moved: [{ task_id: "task-003", from: { phase_id: "p1", index: 0 }, to: { phase_id: "p1", index: 1 } }]
+    });
+    expect(text.split("\n")).toEqual([
+      "+ task-007 Write docs (p1#3)",
+      "- task-004 Old step",
+      "~ task-002",
+      "    risk: low -> high",
+      "> task-003 p1#1 -> p1#2"
+    ]);
+    expect(formatPlanDiff({ added: [], removed: [], changed: [], moved: [] })).toBe("No task changes.");
+  });
+});
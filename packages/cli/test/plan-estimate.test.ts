@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { formatPlanEstimate, planEstimateQuery } from "../src/plan-estimate";
+
+describe("plan estimate", () => {
+  it("builds the query from flags and shell settings", () => {
+    expect(planEstimateQuery(["--risk", "high", "--budget", "2.5"], { lane: "speed", risk: "low" }).toString()).toBe(
+      "lane=speed&risk=high&budget_cap_usd=2.5"
+    );
+    expect(planEstimateQuery([], {}).toString()).toBe("");
+  });
+
+  it("formats tasks, the critical path and budget verdicts", () => {
+    const text = formatPlanEstimate({
+      plan_id: "plan_1",
+      approved: true,
+      lane: "balanced",
+      risk: "standard",
+      tasks: [
+        {
+          task_id: "task-001",
+          title: "Design",
+          model: "claude-opus-4.5",
+          tier: "premium",
+          cost_p50_usd: 0.3,
+          cost_p90_usd: 0.42,
+          duration_p90_sec: 84,
+          wave: 0,
+          critical: true,
+          budget_violation: false
+        }
+      ],
+      critical_path: { task_ids: ["task-001"], duration_p50_sec: 59, duration_p90_sec: 84 },
+      phase_waves: [["phase-1"]],
+      totals: {
+        cost_p50_usd: 0.3,
+        cost_p90_usd: 0.42,
+        charge_p50_usd: 0.44,
+        charge_p90_usd: 0.61,
+        serial_duration_p50_sec: 59,
+        serial_duration_p90_sec: 84
+      },
+      budget: {
+        budget_cap_usd: 0.5,
+        credits_remaining_usd: 0,
+        within_budget_p50: true,
+        within_budget_p90: false,
+        credits_cover_p50: false,
+        credits_cover_p90: false
+      }
+    });
+    const lines = text.split("\n");
+    expect(lines[0]).toBe("=== ESTIMATE plan_1 (approved) | lane balanced | risk standard ===");
+    expect(lines[1]).toBe("* w1 task-001 claude-opus-4.5 (premium) $0.30-$0.42 ~1m24s  Design");
+    expect(lines).toContain("Critical path (*): task-001");
+    expect(lines).toContain("Budget $0.50: p50 within, p90 NOT within");
+  });
+});
@@ -0,0 +1,179 @@
+import { randomUUID } from "crypto";
+import { ApiKey, ApiKeyStore, hashApiKey } from "@trcoder/auth";
+import { IDb } from "./db";
+import { parseJsonValue } from "./utils/json";
+
+export const DEFAULT_PLAN_ID = "pro_solo";
+
+const DEV_KEY = "dev";
+const DEV_KEY_ID = "key_dev";
+
+// Plaintext keys carried full access, so migrated keys keep it
+const LEGACY_KEY_SCOPES = ["admin"];
+
+export interface StoredApiKey extends ApiKey {
+  plan_id: string;
+}
+
+const COLUMNS =
+  "id, key_hash, key_prefix, name, org_id, user_id, plan_id, scopes_json, last_used_at, expires_at, created_at, revoked_at";
+
+// Postgres returns TIMESTAMPTZ columns as Date objects
+function toIsoString(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function toApiKey(row: Record<string, unknown>): StoredApiKey {
+  return {
+    id: String(row.id),
+    key_hash: String(row.key_hash),
+    key_prefix: String(row.key_prefix ?? ""),
+    name: String(row.name ?? ""),
+    org_id: String(row.org_id),
+    user_id: String(row.user_id),
+    plan_id: String(row.plan_id ?? DEFAULT_PLAN_ID),
+    scopes: parseJsonValue<string[]>(row.scopes_json, []),
+    last_used_at: toIsoString(row.last_used_at),
+    expires_at: toIsoString(row.expires_at),
+    created_at: toIsoString(row.created_at) ?? "",
+    revoked_at: toIsoString(row.revoked_at)
+  };
+}
+
+/**
+ * IDb-backed store for @trcoder/auth's ApiKeyManager. Only key hashes are
+ * persisted; plan_id is copied from the organization when one exists and
+ * carried per key for orgs that predate the organizations table.
+ */
+export class DbApiKeyStore implements ApiKeyStore {
+  constructor(private db: IDb) {}
+
+  async create(key: Omit<ApiKey, "id" | "created_at">): Promise<StoredApiKey> {
+    const id = `key_${randomUUID()}`;
+    const created_at = new Date().toISOString();
+    const plan_id = (await this.findPlanForOrg(key.org_id)) ?? DEFAULT_PLAN_ID;
+    await this.db.exec(
+      `INSERT INTO auth_api_keys (${COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        key.key_hash,
+        key.key_prefix,
+        key.name,
+        key.org_id,
+        key.user_id,
+        plan_id,
+        JSON.stringify(key.scopes),
+        null,
+        key.expires_at ?? null,
+        created_at,
+        null
+      ]
+    );
+    return { ...key, id, plan_id, created_at };
+  }
+
+  async findByHash(keyHash: string): Promise<StoredApiKey | null> {
+    const row = (await this.db.query<Record<string, unknown>>(
+      `SELECT ${COLUMNS} FROM auth_api_keys WHERE key_hash = ?`,
+      [keyHash]
+    ))[0];
+    return row ? toApiKey(row) : null;
+  }
+
+  async findByOrg(orgId: string): Promise<StoredApiKey[]> {
+    const rows = await this.db.query<Record<string, unknown>>(
+      `SELECT ${COLUMNS} FROM auth_api_keys WHERE org_id = ? ORDER BY created_at DESC`,
+      [orgId]
+    );
+    return rows.map(toApiKey);
+  }
+
+  async findById(id: string): Promise<StoredApiKey | null> {
+    const row = (await this.db.query<Record<string, unknown>>(
+      `SELECT ${COLUMNS} FROM auth_api_keys WHERE id = ?`,
+      [id]
+    ))[0];
+    return row ? toApiKey(row) : null;
+  }
+
+  async updateLastUsed(id: string): Promise<void> {
+    await this.db.exec("UPDATE auth_api_keys SET last_used_at = ? WHERE id = ?", [new Date().toISOString(), id]);
+  }
+
+  async revoke(id: string): Promise<void> {
+    await this.db.exec("UPDATE auth_api_keys SET revoked_at = ? WHERE id = ?", [new Date().toISOString(), id]);
+  }
+
+  async findOrganizationPlan(orgId: string): Promise<string | null> {
+    const org = (await this.db.query<{ plan_id?: string }>("SELECT plan_id FROM organizations WHERE id = ?", [orgId]))[0];
+    return org?.plan_id ?? null;
+  }
+
+  async findPlanForOrg(orgId: string): Promise<string | null> {
+    const orgPlan = await this.findOrganizationPlan(orgId);
+    if (orgPlan) return orgPlan;
+    const row = (await this.db.query<{ plan_id?: string }>(
+      "SELECT plan_id FROM auth_api_keys WHERE org_id = ? AND revoked_at IS NULL ORDER BY created_at ASC LIMIT 1",
+      [orgId]
+    ))[0];
+    return row?.plan_id ?? null;
+  }
+}
+
+/**
+ * Moves plaintext rows from the legacy api_keys table into auth_api_keys as
+ * hashes and deletes the plaintext copies. Returns the number migrated.
+ */
+export async function migrateLegacyApiKeys(db: IDb): Promise<number> {
+  const legacy = await db.query<{ key: string; org_id: string; user_id: string; plan_id?: string; created_at?: unknown }>(
+    "SELECT key, org_id, user_id, plan_id, created_at FROM api_keys"
+  );
+  for (const row of legacy) {
+    const key_hash = hashApiKey(row.key);
+    const existing = (await db.query("SELECT id FROM auth_api_keys WHERE key_hash = ?", [key_hash]))[0];
+    if (!existing) {
+      await db.exec(
+        `INSERT INTO auth_api_keys (${COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          row.key === DEV_KEY ? DEV_KEY_ID : `key_${randomUUID()}`,
+          key_hash,
+          `${row.key.slice(0, 4)}...`,
+          "migrated",
+          row.org_id,
+          row.user_id,
+          row.plan_id ?? DEFAULT_PLAN_ID,
+          JSON.stringify(LEGACY_KEY_SCOPES),
+          null,
+          null,
+          toIsoString(row.created_at) ?? new Date().toISOString(),
+          null
+        ]
+      );
+    }
+    await db.exec("DELETE FROM api_keys WHERE key = ?", [row.key]);
+  }
+  return legacy.length;
+}
+
+export async function ensureDevKey(db: IDb): Promise<void> {
+  const existing = (await db.query("SELECT id FROM auth_api_keys WHERE id = ?", [DEV_KEY_ID]))[0];
+  if (existing) return;
+  await db.exec(
+    `INSERT INTO auth_api_keys (${COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      DEV_KEY_ID,
+      hashApiKey(DEV_KEY),
+      "dev",
+      "dev",
+      "org_demo",
+      "user_demo",
+      DEFAULT_PLAN_ID,
+      JSON.stringify(LEGACY_KEY_SCOPES),
+      null,
+      null,
+      new Date().toISOString(),
+      null
+    ]
+  );
+}
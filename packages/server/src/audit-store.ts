@@ -0,0 +1,142 @@
+import { AuditEntry, AuditQueryFilters, AuditStore, hashAuditEntry, verifyAuditChain } from "@trcoder/auth";
+import { IDb } from "./db";
+import { parseJsonValue } from "./utils/json";
+
+const COLUMNS =
+  "id, seq, timestamp, action, user_id, org_id, target_type, target_id, ip_address, user_agent, metadata, status, reason, prev_hash, entry_hash";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+// Postgres returns TIMESTAMPTZ columns as Date objects
+function toIsoString(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function optional(value: unknown): string | undefined {
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+function toEntry(row: Record<string, unknown>): AuditEntry {
+  return {
+    id: String(row.id),
+    timestamp: toIsoString(row.timestamp),
+    action: row.action as AuditEntry["action"],
+    userId: optional(row.user_id),
+    orgId: optional(row.org_id),
+    targetType: optional(row.target_type),
+    targetId: optional(row.target_id),
+    ipAddress: optional(row.ip_address),
+    userAgent: optional(row.user_agent),
+    metadata: parseJsonValue<Record<string, unknown> | undefined>(row.metadata, undefined),
+    status: row.status as AuditEntry["status"],
+    reason: optional(row.reason),
+    prevHash: optional(row.prev_hash),
+    hash: optional(row.entry_hash)
+  };
+}
+
+/**
+ * IDb-backed AuditStore. Every entry stores the hash of its predecessor, so
+ * rewriting or deleting a row breaks the chain checked by verify(). Saves are
+ * serialized within the process to keep the chain linear.
+ */
+export class DbAuditStore implements AuditStore {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(private db: IDb) {}
+
+  save(entry: AuditEntry): Promise<void> {
+    const next = this.tail.then(() => this.append(entry));
+    this.tail = next.catch(() => undefined);
+    return next;
+  }
+
+  async query(filters: AuditQueryFilters): Promise<AuditEntry[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (filters.userId) {
+      conditions.push("user_id = ?");
+      params.push(filters.userId);
+    }
+    if (filters.orgId) {
+      conditions.push("org_id = ?");
+      params.push(filters.orgId);
+    }
+    if (filters.action) {
+      const actions = Array.isArray(filters.action) ? filters.action : [filters.action];
+      conditions.push(`action IN (${actions.map(() => "?").join(", ")})`);
+      params.push(...actions);
+    }
+    if (filters.startDate) {
+      conditions.push("timestamp >= ?");
+      params.push(filters.startDate.toISOString());
+    }
+    if (filters.endDate) {
+      conditions.push("timestamp <= ?");
+      params.push(filters.endDate.toISOString());
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const limit = Math.min(Math.max(Math.floor(filters.limit ?? DEFAULT_LIMIT), 1), MAX_LIMIT);
+    const offset = Math.max(Math.floor(filters.offset ?? 0), 0);
+    const rows = await this.db.query<Record<string, unknown>>(
+      `SELECT ${COLUMNS} FROM audit_logs ${where} ORDER BY seq DESC LIMIT ${limit} OFFSET ${offset}`,
+      params
+    );
+    return rows.map(toEntry);
+  }
+
+  /**
+   * Check the chain. With orgId only that org's entries are checked and reported:
+   * each must hash correctly and link to whatever entry precedes it in the chain,
+   * so an edit or deletion just before one of them still shows up.
+   */
+  async verify(orgId?: string): Promise<{ valid: boolean; checked: number; brokenAt?: string }> {
+    await this.tail;
+    const rows = await this.db.query<Record<string, unknown>>(`SELECT ${COLUMNS} FROM audit_logs ORDER BY seq ASC`);
+    const entries = rows.map(toEntry);
+    if (!orgId) {
+      return verifyAuditChain(entries);
+    }
+    let checked = 0;
+    for (const [index, entry] of entries.entries()) {
+      if (entry.orgId !== orgId) continue;
+      const prevHash = index > 0 ? entries[index - 1].hash ?? null : null;
+      if ((entry.prevHash ?? null) !== prevHash || entry.hash !== hashAuditEntry(entry, prevHash)) {
+        return { valid: false, checked, brokenAt: entry.id };
+      }
+      checked += 1;
+    }
+    return { valid: true, checked };
+  }
+
+  private async append(entry: AuditEntry): Promise<void> {
+    const last = (await this.db.query<{ seq: unknown; entry_hash: string | null }>(
+      "SELECT seq, entry_hash FROM audit_logs ORDER BY seq DESC LIMIT 1"
+    ))[0];
+    const seq = last ? Number(last.seq) + 1 : 1;
+    const prevHash = last?.entry_hash ?? null;
+    const hash = hashAuditEntry(entry, prevHash);
+    await this.db.exec(
+      `INSERT INTO audit_logs (${COLUMNS}, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.id,
+        seq,
+        entry.timestamp,
+        entry.action,
+        entry.userId ?? null,
+        entry.orgId ?? null,
+        entry.targetType ?? null,
+        entry.targetId ?? null,
+        entry.ipAddress ?? null,
+        entry.userAgent ?? null,
+        entry.metadata ? JSON.stringify(entry.metadata) : null,
+        entry.status,
+        entry.reason ?? null,
+        prevHash,
+        hash,
+        new Date().toISOString()
+      ]
+    );
+  }
+}
@@ -0,0 +1,339 @@
+import { randomUUID } from "crypto";
+import {
+  BillingStore,
+  CreditTransaction,
+  IdempotencyStore,
+  Invoice,
+  Subscription,
+  UsageSummary
+} from "@trcoder/billing";
+import { IDb } from "./db";
+import { listLedgerEvents } from "./ledger-store";
+
+const SUBSCRIPTION_COLUMNS =
+  "id, org_id, plan_id, status, billing_cycle, current_period_start, current_period_end, cancel_at_period_end, stripe_subscription_id, stripe_customer_id, created_at, updated_at";
+const INVOICE_COLUMNS =
+  "id, org_id, subscription_id, amount_usd, credits_purchased, status, stripe_invoice_id, stripe_payment_intent_id, pdf_url, period_start, period_end, due_date, paid_at, created_at";
+const TRANSACTION_COLUMNS = "id, org_id, type, amount, balance_after, description, run_id, invoice_id, created_at";
+
+const SUBSCRIPTION_UPDATABLE: Array<keyof Subscription> = [
+  "plan_id",
+  "status",
+  "billing_cycle",
+  "current_period_start",
+  "current_period_end",
+  "cancel_at_period_end",
+  "stripe_subscription_id",
+  "stripe_customer_id"
+];
+const INVOICE_UPDATABLE: Array<keyof Invoice> = [
+  "amount_usd",
+  "credits_purchased",
+  "status",
+  "stripe_invoice_id",
+  "stripe_payment_intent_id",
+  "pdf_url",
+  "due_date",
+  "paid_at"
+];
+
+// Postgres returns TIMESTAMPTZ columns as Date objects and NUMERIC columns as strings
+function toIsoString(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function optional(value: unknown): string | undefined {
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+function toSubscription(row: Record<string, unknown>): Subscription {
+  return {
+    id: String(row.id),
+    org_id: String(row.org_id),
+    plan_id: String(row.plan_id),
+    status: row.status as Subscription["status"],
+    billing_cycle: row.billing_cycle as Subscription["billing_cycle"],
+    current_period_start: toIsoString(row.current_period_start) ?? "",
+    current_period_end: toIsoString(row.current_period_end) ?? "",
+    cancel_at_period_end: Number(row.cancel_at_period_end) === 1,
+    stripe_subscription_id: optional(row.stripe_subscription_id),
+    stripe_customer_id: optional(row.stripe_customer_id),
+    created_at: toIsoString(row.created_at) ?? "",
+    updated_at: toIsoString(row.updated_at) ?? ""
+  };
+}
+
+function toInvoice(row: Record<string, unknown>): Invoice {
+  return {
+    id: String(row.id),
+    org_id: String(row.org_id),
+    subscription_id: optional(row.subscription_id),
+    amount_usd: Number(row.amount_usd ?? 0),
+    credits_purchased: row.credits_purchased === null ? undefined : Number(row.credits_purchased),
+    status: row.status as Invoice["status"],
+    stripe_invoice_id: optional(row.stripe_invoice_id),
+    stripe_payment_intent_id: optional(row.stripe_payment_intent_id),
+    pdf_url: optional(row.pdf_url),
+    period_start: toIsoString(row.period_start) ?? "",
+    period_end: toIsoString(row.period_end) ?? "",
+    due_date: toIsoString(row.due_date),
+    paid_at: toIsoString(row.paid_at),
+    created_at: toIsoString(row.created_at) ?? ""
+  };
+}
+
+function toTransaction(row: Record<string, unknown>): CreditTransaction {
+  return {
+    id: String(row.id),
+    org_id: String(row.org_id),
+    type: row.type as CreditTransaction["type"],
+    amount: Number(row.amount ?? 0),
+    balance_after: Number(row.balance_after ?? 0),
+    description: String(row.description ?? ""),
+    run_id: optional(row.run_id),
+    invoice_id: optional(row.invoice_id),
+    created_at: toIsoString(row.created_at) ?? ""
+  };
+}
+
+// Booleans are stored as 0/1 so the same statements work on sql.js and Postgres
+function toColumnValue(value: unknown): unknown {
+  if (typeof value === "boolean") return value ? 1 : 0;
+  return value ?? null;
+}
+
+/**
+ * IDb-backed BillingStore. The credit balance lives on organizations.credits_balance,
+ * so orgs without an organizations row (API-key-only dev orgs) have no balance.
+ */
+export class DbBillingStore implements BillingStore {
+  constructor(private db: IDb) {}
+
+  async hasAccount(orgId: string): Promise<boolean> {
+    const row = (await this.db.query("SELECT id FROM organizations WHERE id = ?", [orgId]))[0];
+    return Boolean(row);
+  }
+
+  async getSubscription(orgId: string): Promise<Subscription | null> {
+    const row = (await this.db.query<Record<string, unknown>>(
+      `SELECT ${SUBSCRIPTION_COLUMNS} FROM subscriptions WHERE org_id = ?`,
+      [orgId]
+    ))[0];
+    return row ? toSubscription(row) : null;
+  }
+
+  async createSubscription(sub: Omit<Subscription, "id" | "created_at" | "updated_at">): Promise<Subscription> {
+    const now = new Date().toISOString();
+    const created: Subscription = { ...sub, id: `sub_${randomUUID()}`, created_at: now, updated_at: now };
+    await this.db.exec(
+      `INSERT INTO subscriptions (${SUBSCRIPTION_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        created.id,
+        created.org_id,
+        created.plan_id,
+        created.status,
+        created.billing_cycle,
+        created.current_period_start,
+        created.current_period_end,
+        toColumnValue(created.cancel_at_period_end),
+        created.stripe_subscription_id ?? null,
+        created.stripe_customer_id ?? null,
+        now,
+        now
+      ]
+    );
+    return created;
+  }
+
+  async updateSubscription(id: string, data: Partial<Subscription>): Promise<Subscription> {
+    const keys = SUBSCRIPTION_UPDATABLE.filter((key) => key in data);
+    if (keys.length > 0) {
+      await this.db.exec(
+        `UPDATE subscriptions SET ${keys.map((key) => `${key} = ?`).join(", ")}, updated_at = ? WHERE id = ?`,
+        [...keys.map((key) => toColumnValue(data[key])), new Date().toISOString(), id]
+      );
+    }
+    const row = (await this.db.query<Record<string, unknown>>(
+      `SELECT ${SUBSCRIPTION_COLUMNS} FROM subscriptions WHERE id = ?`,
+      [id]
+    ))[0];
+    if (!row) {
+      throw new Error(`Subscription not found: ${id}`);
+    }
+    return toSubscription(row);
+  }
+
+  async getInvoices(orgId: string, limit = 12): Promise<Invoice[]> {
+    const rows = await this.db.query<Record<string, unknown>>(
+      `SELECT ${INVOICE_COLUMNS} FROM invoices WHERE org_id = ? ORDER BY created_at DESC LIMIT ${Math.max(1, Math.floor(limit))}`,
+      [orgId]
+    );
+    return rows.map(toInvoice);
+  }
+
+  async createInvoice(invoice: Omit<Invoice, "id" | "created_at">): Promise<Invoice> {
+    const created: Invoice = { ...invoice, id: `inv_${randomUUID()}`, created_at: new Date().toISOString() };
+    await this.db.exec(
+      `INSERT INTO invoices (${INVOICE_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        created.id,
+        created.org_id,
+        created.subscription_id ?? null,
+        created.amount_usd,
+        created.credits_purchased ?? null,
+        created.status,
+        created.stripe_invoice_id ?? null,
+        created.stripe_payment_intent_id ?? null,
+        created.pdf_url ?? null,
+        created.period_start,
+        created.period_end,
+        created.due_date ?? null,
+        created.paid_at ?? null,
+        created.created_at
+      ]
+    );
+    return created;
+  }
+
+  async updateInvoice(id: string, data: Partial<Invoice>): Promise<Invoice> {
+    const keys = INVOICE_UPDATABLE.filter((key) => key in data);
+    if (keys.length > 0) {
+      await this.db.exec(`UPDATE invoices SET ${keys.map((key) => `${key} = ?`).join(", ")} WHERE id = ?`, [
+        ...keys.map((key) => toColumnValue(data[key])),
+        id
+      ]);
+    }
+    const row = (await this.db.query<Record<string, unknown>>(`SELECT ${INVOICE_COLUMNS} FROM invoices WHERE id = ?`, [
+      id
+    ]))[0];
+    if (!row) {
+      throw new Error(`Invoice not found: ${id}`);
+    }
+    return toInvoice(row);
+  }
+
+  async getCreditsBalance(orgId: string): Promise<number> {
+    const row = (await this.db.query<{ credits_balance: unknown }>(
+      "SELECT credits_balance FROM organizations WHERE id = ?",
+      [orgId]
+    ))[0];
+    return Number(row?.credits_balance ?? 0);
+  }
+
+  async updateCreditsBalance(orgId: string, balance: number): Promise<void> {
+    await this.db.exec("UPDATE organizations SET credits_balance = ?, updated_at = ? WHERE id = ?", [
+      balance,
+      new Date().toISOString(),
+      orgId
+    ]);
+  }
+
+  async addCreditTransaction(tx: Omit<CreditTransaction, "id" | "created_at">): Promise<CreditTransaction> {
+    const created: CreditTransaction = { ...tx, id: `ctx_${randomUUID()}`, created_at: new Date().toISOString() };
+    await this.db.exec(`INSERT INTO credit_transactions (${TRANSACTION_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`, [
+      created.id,
+      created.org_id,
+      created.type,
+      created.amount,
+      created.balance_after,
+      created.description,
+      created.run_id ?? null,
+      created.invoice_id ?? null,
+      created.created_at
+    ]);
+    return created;
+  }
+
+  async getCreditTransactions(orgId: string, limit = 50): Promise<CreditTransaction[]> {
+    const rows = await this.db.query<Record<string, unknown>>(
+      `SELECT ${TRANSACTION_COLUMNS} FROM credit_transactions WHERE org_id = ? ORDER BY created_at DESC LIMIT ${Math.max(1, Math.floor(limit))}`,
+      [orgId]
+    );
+    return rows.map(toTransaction);
+  }
+
+  async getRunCreditsBilled(orgId: string, runId: string): Promise<number> {
+    const rows = await this.db.query<{ amount: unknown }>(
+      "SELECT amount FROM credit_transactions WHERE org_id = ? AND run_id = ? AND type = ?",
+      [orgId, runId, "usage"]
+    );
+    return -rows.reduce((sum, row) => sum + Number(row.amount ?? 0), 0);
+  }
+
+  async listCreditTransactionsInRange(orgId: string, start: Date, end: Date): Promise<CreditTransaction[]> {
+    const rows = await this.db.query<Record<string, unknown>>(
+      `SELECT ${TRANSACTION_COLUMNS} FROM credit_transactions WHERE org_id = ? AND created_at >= ? AND created_at < ? ORDER BY created_at ASC`,
+      [orgId, start.toISOString(), end.toISOString()]
+    );
+    return rows.map(toTransaction);
+  }
+
+  async getUsageSummary(orgId: string, periodStart: Date, periodEnd: Date): Promise<UsageSummary> {
+    const events = (await listLedgerEvents(this.db, periodStart.toISOString(), periodEnd.toISOString())).filter(
+      (event) => event.org_id === orgId
+    );
+    const transactions = await this.listCreditTransactionsInRange(orgId, periodStart, periodEnd);
+    const org = (await this.db.query<{ credits_included: unknown }>(
+      "SELECT credits_included FROM organizations WHERE id = ?",
+      [orgId]
+    ))[0];
+
+    const models = new Map<string, { credits: number; runs: Set<string> }>();
+    let overage = 0;
+    for (const event of events.filter((e) => e.event_type === "LLM_CALL_FINISHED")) {
+      const payload = event.payload as Record<string, unknown>;
+      const model = String(payload.model ?? "unknown");
+      const entry = models.get(model) ?? { credits: 0, runs: new Set<string>() };
+      entry.credits += Number(payload.credits_applied_usd ?? 0);
+      if (event.run_id) entry.runs.add(event.run_id);
+      models.set(model, entry);
+      overage += Number(payload.our_charge_usd ?? 0);
+    }
+
+    return {
+      org_id: orgId,
+      period_start: periodStart.toISOString(),
+      period_end: periodEnd.toISOString(),
+      credits_used: -transactions.filter((tx) => tx.type === "usage").reduce((sum, tx) => sum + tx.amount, 0),
+      credits_included: Number(org?.credits_included ?? 0),
+      credits_purchased: transactions.filter((tx) => tx.type === "purchase").reduce((sum, tx) => sum + tx.amount, 0),
+      overage_cost_usd: overage,
+      total_runs: new Set(events.filter((e) => e.event_type === "BILLING_POSTED").map((e) => e.run_id)).size,
+      total_tasks: events.filter((e) => e.event_type === "TASK_COMPLETED").length,
+      top_models: Array.from(models.entries())
+        .map(([model, entry]) => ({ model, credits: entry.credits, runs: entry.runs.size }))
+        .sort((a, b) => b.credits - a.credits)
+        .slice(0, 5)
+    };
+  }
+}
+
+/**
+ * Persists processed webhook event ids so retries are ignored across restarts.
+ */
+export class DbIdempotencyStore implements IdempotencyStore {
+  constructor(private db: IDb) {}
+
+  async has(eventId: string): Promise<boolean> {
+    const row = (await this.db.query("SELECT event_id FROM webhook_events WHERE event_id = ?", [eventId]))[0];
+    return Boolean(row);
+  }
+
+  async add(eventId: string, processedAt: Date): Promise<void> {
+    if (await this.has(eventId)) return;
+    await this.db.exec("INSERT INTO webhook_events (event_id, processed_at, created_at) VALUES (?, ?, ?)", [
+      eventId,
+      processedAt.toISOString(),
+      new Date().toISOString()
+    ]);
+  }
+
+  async cleanup(olderThan: Date): Promise<number> {
+    const rows = await this.db.query("SELECT event_id FROM webhook_events WHERE processed_at < ?", [
+      olderThan.toISOString()
+    ]);
+    await this.db.exec("DELETE FROM webhook_events WHERE processed_at < ?", [olderThan.toISOString()]);
+    return rows.length;
+  }
+}
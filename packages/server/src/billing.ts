@@ -1,6 +1,8 @@
 import { PricingConfig } from "@trcoder/shared";
 import { IDb } from "./db";
+import { DbBillingStore } from "./billing-store";
 import { listLedgerEvents } from "./ledger-store";
+import { parseJsonValue } from "./utils/json";
 
 function startOfMonth(date: Date): Date {
   return new Date(date.getFullYear(), date.getMonth(), 1, 0, 0, 0, 0);
@@ -14,6 +16,8 @@ export async function computeUsageForRange(input: {
   db: IDb;
   pricing: PricingConfig;
   plan_id: string;
+  /** Only count this org's calls; omitted sums every org in the ledger. */
+  org_id?: string;
   start: Date;
   end: Date;
 }) {
@@ -21,7 +25,7 @@ export async function computeUsageForRange(input: {
   const end = input.end.toISOString();
 
   const events = (await listLedgerEvents(input.db, start, end)).filter(
-    (event) => event.event_type === "LLM_CALL_FINISHED"
+    (event) => event.event_type === "LLM_CALL_FINISHED" && (!input.org_id || event.org_id === input.org_id)
   );
 
   let provider_cost_total = 0;
@@ -32,6 +36,7 @@ export async function computeUsageForRange(input: {
 
   for (const event of events) {
     const payload = event.payload as Record<string, unknown>;
+    // Figures as priced at call time (payload.price_effective_from), like run costs and credit debits
     const provider_cost = Number(payload.provider_cost_usd ?? 0);
     const charge = Number(payload.our_charge_usd ?? 0);
     const credits_applied = Number(payload.credits_applied_usd ?? 0);
@@ -81,6 +86,7 @@ export async function computeUsageForMonth(input: {
   db: IDb;
   pricing: PricingConfig;
   plan_id: string;
+  org_id?: string;
   month?: Date;
 }) {
   const monthDate = input.month ?? new Date();
@@ -98,6 +104,7 @@ export async function computeInvoicePreview(input: {
   db: IDb;
   pricing: PricingConfig;
   plan_id: string;
+  org_id?: string;
   month?: Date;
 }) {
   const usage = await computeUsageForMonth(input);
@@ -117,3 +124,123 @@ export async function computeInvoicePreview(input: {
     total_usd: total
   };
 }
+
+const DEFAULT_BILLING_PLAN_MAP: Record<string, string> = {
+  pro_monthly: "pro_solo",
+  pro_yearly: "pro_solo",
+  team_monthly: "team",
+  team_yearly: "team",
+  enterprise: "enterprise"
+};
+
+// Credits are compared as floats derived from provider costs; ignore rounding noise
+const RECONCILE_TOLERANCE = 1e-6;
+
+/**
+ * Map a Stripe/billing plan id (e.g. "pro_monthly") to a pricing.v1 plan id.
+ * TRCODER_BILLING_PLAN_MAP ("billing_id=pricing_id,...") overrides the defaults.
+ */
+export function resolvePricingPlanId(billingPlanId: string, pricing: PricingConfig): string | null {
+  const overrides = Object.fromEntries(
+    (process.env.TRCODER_BILLING_PLAN_MAP ?? "")
+      .split(",")
+      .map((pair) => pair.split("=").map((part) => part.trim()))
+      .filter((pair) => pair.length === 2 && pair[0] && pair[1])
+  ) as Record<string, string>;
+  const mapped = overrides[billingPlanId] ?? DEFAULT_BILLING_PLAN_MAP[billingPlanId] ?? billingPlanId;
+  return pricing.plans[mapped] ? mapped : null;
+}
+
+/**
+ * Included credits (TRC) consumed by a run, summed from its LLM_CALL_FINISHED events.
+ */
+export async function computeRunCredits(db: IDb, run_id: string): Promise<number> {
+  const rows = await db.query<{ payload_json: unknown }>(
+    "SELECT payload_json FROM ledger_events WHERE run_id = ? AND event_type = ?",
+    [run_id, "LLM_CALL_FINISHED"]
+  );
+  return rows.reduce(
+    (sum, row) => sum + Number(parseJsonValue<Record<string, unknown>>(row.payload_json, {}).credits_applied_usd ?? 0),
+    0
+  );
+}
+
+export interface CreditReconciliation {
+  org_id: string;
+  period_start: string;
+  period_end: string;
+  ledger_credits: number;
+  billed_credits: number;
+  difference: number;
+  balanced: boolean;
+  mismatched_runs: Array<{ run_id: string; ledger_credits: number; billed_credits: number }>;
+}
+
+/**
+ * Compare credits the ledger says each billed run consumed with the usage
+ * transactions recorded in the billing store for the same period.
+ */
+export async function reconcileCredits(input: {
+  db: IDb;
+  store: DbBillingStore;
+  org_id: string;
+  start: Date;
+  end: Date;
+}): Promise<CreditReconciliation> {
+  const events = (await listLedgerEvents(input.db, input.start.toISOString(), input.end.toISOString())).filter(
+    (event) => event.org_id === input.org_id && event.run_id
+  );
+  const billedRuns = new Set(
+    events.filter((event) => event.event_type === "BILLING_POSTED").map((event) => event.run_id as string)
+  );
+
+  const ledgerByRun = new Map<string, number>();
+  for (const event of events) {
+    if (event.event_type !== "LLM_CALL_FINISHED" || !billedRuns.has(event.run_id as string)) continue;
+    const credits = Number((event.payload as Record<string, unknown>).credits_applied_usd ?? 0);
+    ledgerByRun.set(event.run_id as string, (ledgerByRun.get(event.run_id as string) ?? 0) + credits);
+  }
+
+  const billedByRun = new Map<string, number>();
+  const transactions = await input.store.listCreditTransactionsInRange(input.org_id, input.start, input.end);
+  for (const tx of transactions) {
+    if (tx.type !== "usage" || !tx.run_id) continue;
+    billedByRun.set(tx.run_id, (billedByRun.get(tx.run_id) ?? 0) - tx.amount);
+  }
+
+  const runIds = new Set([...ledgerByRun.keys(), ...billedByRun.keys()]);
+  const mismatched_runs = Array.from(runIds)
+    .map((run_id) => ({
+      run_id,
+      ledger_credits: ledgerByRun.get(run_id) ?? 0,
+      billed_credits: billedByRun.get(run_id) ?? 0
+    }))
+    .filter((run) => Math.abs(run.ledger_credits - run.billed_credits) > RECONCILE_TOLERANCE);
+
+  const ledger_credits = Array.from(ledgerByRun.values()).reduce((sum, value) => sum + value, 0);
+  const billed_credits = Array.from(billedByRun.values()).reduce((sum, value) => sum + value, 0);
+  return {
+    org_id: input.org_id,
+    period_start: input.start.toISOString(),
+    period_end: input.end.toISOString(),
+    ledger_credits,
+    billed_credits,
+    difference: ledger_credits - billed_credits,
+    balanced: mismatched_runs.length === 0,
+    mismatched_runs
+  };
+}
+
+/**
+ * Calendar month range for a "YYYY-MM" string (current month when omitted); null when malformed.
+ */
+export function monthRange(month?: string): { start: Date; end: Date } | null {
+  if (!month) {
+    const now = new Date();
+    return { start: startOfMonth(now), end: startOfNextMonth(now) };
+  }
+  const match = /^(\d{4})-(\d{2})$/.exec(month);
+  if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, 1);
+  return { start: startOfMonth(date), end: startOfNextMonth(date) };
+}
@@ -46,3 +46,16 @@ export async function updateContextPack(db: IDb, manifest: ContextPackManifest):
     manifest.pack_id
   ]);
 }
+
+export async function getLatestContextPackForTask(
+  db: IDb,
+  runId: string,
+  taskId: string
+): Promise<ContextPackManifest | null> {
+  const row = (await db.query<{ manifest_json?: unknown }>(
+    "SELECT manifest_json FROM context_packs WHERE run_id = ? AND task_id = ? ORDER BY created_at DESC LIMIT 1",
+    [runId, taskId]
+  ))[0];
+  if (!row?.manifest_json) return null;
+  return parseJsonValue<ContextPackManifest | null>(row.manifest_json, null);
+}
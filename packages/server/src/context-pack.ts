@@ -1,10 +1,19 @@
-import { ContextPackManifest, ContextPackFileEntry, ContextBudget } from "@trcoder/shared";
+import { ContextPackManifest, ContextPackFileEntry, ContextBudget, TaskScope } from "@trcoder/shared";
+
+// A retrieved file offered to the pack; candidates come ranked, best first
+export interface ContextCandidate {
+  path: string;
+  why: string;
+  lines: number;
+}
 
 export function buildContextPack(input: {
   runId: string;
   taskId: string;
   budgets: ContextBudget;
   pins: string[];
+  scope?: TaskScope;
+  candidates?: ContextCandidate[];
   summary?: string;
   signals?: ContextPackManifest["signals"];
 }): ContextPackManifest {
@@ -15,6 +24,22 @@ export function buildContextPack(input: {
     why: "pinned"
   }));
 
+  // Pins are always included; retrieved files fill what is left of max_files/max_lines
+  const included = new Set(input.pins);
+  let linesLeft = input.budgets.max_lines;
+  for (const candidate of input.candidates ?? []) {
+    if (file_entries.length >= input.budgets.max_files || linesLeft <= 0) break;
+    if (included.has(candidate.path)) continue;
+    const lines = Math.min(Math.max(candidate.lines, 1), linesLeft);
+    file_entries.push({
+      path: candidate.path,
+      why: candidate.why,
+      range: { start_line: 1, end_line: lines }
+    });
+    included.add(candidate.path);
+    linesLeft -= lines;
+  }
+
   const signals = {
     ...(input.signals ?? {}),
     diff_summary: input.summary ?? input.signals?.diff_summary
@@ -29,6 +54,7 @@ export function buildContextPack(input: {
     file_entries,
     signals,
     budgets: input.budgets,
+    scope: input.scope,
     redaction_stats: { masked_entries: 0, masked_chars: 0 }
   };
 }
@@ -2,6 +2,7 @@ import fs from "fs";
 import path from "path";
 import initSqlJs, { Database } from "sql.js";
 import { createPgDb } from "./pg-db";
+import { ensureDevKey, migrateLegacyApiKeys } from "../api-key-store";
 
 export type DbDriver = "sqljs" | "postgres";
 
@@ -87,6 +88,7 @@ export class SqlJsDb implements IDb {
     await this.exec(`
       CREATE TABLE IF NOT EXISTS projects (
         id TEXT PRIMARY KEY,
+        org_id TEXT,
         repo_name TEXT,
         repo_root_hash TEXT,
         created_at TEXT
@@ -155,6 +157,7 @@ export class SqlJsDb implements IDb {
         created_at TEXT
       );
 
+      -- Legacy plaintext keys; migrated into auth_api_keys on startup
       CREATE TABLE IF NOT EXISTS api_keys (
         key TEXT PRIMARY KEY,
         org_id TEXT,
@@ -162,7 +165,192 @@ export class SqlJsDb implements IDb {
         plan_id TEXT,
         created_at TEXT
       );
+
+      CREATE TABLE IF NOT EXISTS auth_api_keys (
+        id TEXT PRIMARY KEY,
+        key_hash TEXT UNIQUE,
+        key_prefix TEXT,
+        name TEXT,
+        org_id TEXT,
+        user_id TEXT,
+        plan_id TEXT,
+        scopes_json TEXT,
+        last_used_at TEXT,
+        expires_at TEXT,
+        created_at TEXT,
+        revoked_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS pull_requests (
+        id TEXT PRIMARY KEY,
+        project_id TEXT,
+        run_id TEXT,
+        task_id TEXT,
+        provider TEXT,
+        remote_host TEXT,
+        owner TEXT,
+        repo TEXT,
+        number INTEGER,
+        url TEXT,
+        branch TEXT,
+        base_branch TEXT,
+        title TEXT,
+        state TEXT,
+        created_at TEXT,
+        updated_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        email TEXT UNIQUE,
+        name TEXT,
+        avatar_url TEXT,
+        provider TEXT,
+        provider_id TEXT,
+        password_hash TEXT,
+        email_verified INTEGER,
+        created_at TEXT,
+        updated_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS organizations (
+        id TEXT PRIMARY KEY,
+        name TEXT,
+        slug TEXT UNIQUE,
+        owner_id TEXT,
+        plan_id TEXT,
+        credits_balance REAL,
+        credits_included REAL,
+        billing_email TEXT,
+        stripe_customer_id TEXT,
+        stripe_subscription_id TEXT,
+        created_at TEXT,
+        updated_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS org_members (
+        org_id TEXT,
+        user_id TEXT,
+        role TEXT,
+        joined_at TEXT,
+        PRIMARY KEY (org_id, user_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS audit_logs (
+        id TEXT PRIMARY KEY,
+        seq INTEGER UNIQUE,
+        timestamp TEXT NOT NULL,
+        action TEXT NOT NULL,
+        user_id TEXT,
+        org_id TEXT,
+        target_type TEXT,
+        target_id TEXT,
+        ip_address TEXT,
+        user_agent TEXT,
+        metadata TEXT,
+        status TEXT NOT NULL,
+        reason TEXT,
+        prev_hash TEXT,
+        entry_hash TEXT,
+        created_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS subscriptions (
+        id TEXT PRIMARY KEY,
+        org_id TEXT UNIQUE,
+        plan_id TEXT,
+        status TEXT,
+        billing_cycle TEXT,
+        current_period_start TEXT,
+        current_period_end TEXT,
+        cancel_at_period_end INTEGER,
+        stripe_subscription_id TEXT,
+        stripe_customer_id TEXT,
+        created_at TEXT,
+        updated_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS invoices (
+        id TEXT PRIMARY KEY,
+        org_id TEXT,
+        subscription_id TEXT,
+        amount_usd REAL,
+        credits_purchased REAL,
+        status TEXT,
+        stripe_invoice_id TEXT,
+        stripe_payment_intent_id TEXT,
+        pdf_url TEXT,
+        period_start TEXT,
+        period_end TEXT,
+        due_date TEXT,
+        paid_at TEXT,
+        created_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS credit_transactions (
+        id TEXT PRIMARY KEY,
+        org_id TEXT,
+        type TEXT,
+        amount REAL,
+        balance_after REAL,
+        description TEXT,
+        run_id TEXT,
+        invoice_id TEXT,
+        created_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS webhook_events (
+        event_id TEXT PRIMARY KEY,
+        processed_at TEXT,
+        created_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS run_events (
+        run_id TEXT,
+        seq INTEGER,
+        type TEXT,
+        ts TEXT,
+        data_json TEXT,
+        PRIMARY KEY (run_id, seq)
+      );
+
+      CREATE TABLE IF NOT EXISTS patch_revisions (
+        id TEXT PRIMARY KEY,
+        run_id TEXT,
+        task_id TEXT,
+        revision INTEGER,
+        base_patch_sha256 TEXT,
+        patch_path TEXT,
+        patch_text TEXT,
+        summary_json TEXT,
+        created_by TEXT,
+        created_at TEXT,
+        UNIQUE (run_id, task_id, revision)
+      );
+
+      CREATE TABLE IF NOT EXISTS plan_revisions (
+        plan_id TEXT PRIMARY KEY,
+        root_plan_id TEXT,
+        parent_plan_id TEXT,
+        revision INTEGER,
+        ops_json TEXT,
+        diff_json TEXT,
+        created_by TEXT,
+        created_at TEXT,
+        UNIQUE (root_plan_id, revision)
+      );
     `);
+
+    // Databases created before projects were scoped to an org; owners are backfilled from the ledger
+    const projectColumns = await this.query<{ name: string }>("PRAGMA table_info(projects)");
+    if (!projectColumns.some((column) => column.name === "org_id")) {
+      await this.exec("ALTER TABLE projects ADD COLUMN org_id TEXT");
+      await this.exec(`
+        UPDATE projects SET org_id = (
+          SELECT org_id FROM ledger_events WHERE ledger_events.project_id = projects.id ORDER BY ts ASC LIMIT 1
+        ) WHERE org_id IS NULL
+      `);
+    }
   }
 
   async close(): Promise<void> {
@@ -227,20 +415,11 @@ function resolveDriver(raw?: string): DbDriver {
   return "sqljs";
 }
 
-async function ensureDevKey(db: IDb): Promise<void> {
-  const hasDevKey = (await db.query("SELECT key FROM api_keys WHERE key = ?", ["dev"]))[0];
-  if (!hasDevKey) {
-    await db.exec(
-      "INSERT INTO api_keys (key, org_id, user_id, plan_id, created_at) VALUES (?, ?, ?, ?, ?)",
-      ["dev", "org_demo", "user_demo", "pro_solo", new Date().toISOString()]
-    );
-  }
-}
-
 export async function createDb(pathOverride?: string): Promise<IDb> {
   const driver = resolveDriver(process.env.TRCODER_DB_DRIVER);
   if (driver === "postgres") {
     const db = await createPgDb();
+    await migrateLegacyApiKeys(db);
     await ensureDevKey(db);
     return db;
   }
@@ -248,6 +427,7 @@ export async function createDb(pathOverride?: string): Promise<IDb> {
   const dbPath = pathOverride || process.env.TRCODER_DB_PATH;
   const db = await SqlJsDb.create(dbPath && dbPath !== ":memory:" ? dbPath : undefined);
   await db.migrate();
+  await migrateLegacyApiKeys(db);
   await ensureDevKey(db);
   return db;
 }
@@ -1,13 +1,18 @@
 import { Pool, PoolConfig } from "pg";
+import { AUDIT_LOGS_MIGRATION } from "@trcoder/auth";
+import { WEBHOOK_EVENTS_MIGRATION } from "@trcoder/billing";
 import { IDb } from "./index";
 
 const MIGRATION_SCHEMA = `
   CREATE TABLE IF NOT EXISTS projects (
     id TEXT PRIMARY KEY,
+    org_id TEXT,
     repo_name TEXT,
     repo_root_hash TEXT,
     created_at TIMESTAMPTZ
   );
+  -- Databases created before projects were scoped to an org; backfilled from the ledger below
+  ALTER TABLE projects ADD COLUMN IF NOT EXISTS org_id TEXT;
 
   CREATE TABLE IF NOT EXISTS plans (
     id TEXT PRIMARY KEY,
@@ -76,6 +81,7 @@ const MIGRATION_SCHEMA = `
     created_at TIMESTAMPTZ
   );
 
+  -- Legacy plaintext keys; migrated into auth_api_keys on startup
   CREATE TABLE IF NOT EXISTS api_keys (
     key TEXT PRIMARY KEY,
     org_id TEXT,
@@ -85,6 +91,172 @@ const MIGRATION_SCHEMA = `
   );
 
   CREATE INDEX IF NOT EXISTS idx_api_keys_org ON api_keys(org_id);
+
+  CREATE TABLE IF NOT EXISTS auth_api_keys (
+    id TEXT PRIMARY KEY,
+    key_hash TEXT UNIQUE,
+    key_prefix TEXT,
+    name TEXT,
+    org_id TEXT,
+    user_id TEXT,
+    plan_id TEXT,
+    scopes_json JSONB,
+    last_used_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_auth_api_keys_org ON auth_api_keys(org_id);
+
+  CREATE TABLE IF NOT EXISTS pull_requests (
+    id TEXT PRIMARY KEY,
+    project_id TEXT REFERENCES projects(id),
+    run_id TEXT REFERENCES runs(id),
+    task_id TEXT,
+    provider TEXT,
+    remote_host TEXT,
+    owner TEXT,
+    repo TEXT,
+    number INTEGER,
+    url TEXT,
+    branch TEXT,
+    base_branch TEXT,
+    title TEXT,
+    state TEXT,
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_pull_requests_project ON pull_requests(project_id);
+  CREATE INDEX IF NOT EXISTS idx_pull_requests_run ON pull_requests(run_id);
+
+  CREATE TABLE IF NOT EXISTS run_events (
+    run_id TEXT,
+    seq BIGINT,
+    type TEXT,
+    ts TIMESTAMPTZ,
+    data_json JSONB,
+    PRIMARY KEY (run_id, seq)
+  );
+
+  CREATE TABLE IF NOT EXISTS patch_revisions (
+    id TEXT PRIMARY KEY,
+    run_id TEXT,
+    task_id TEXT,
+    revision INTEGER,
+    base_patch_sha256 TEXT,
+    patch_path TEXT,
+    patch_text TEXT,
+    summary_json JSONB,
+    created_by TEXT,
+    created_at TIMESTAMPTZ,
+    UNIQUE (run_id, task_id, revision)
+  );
+
+  CREATE TABLE IF NOT EXISTS plan_revisions (
+    plan_id TEXT PRIMARY KEY,
+    root_plan_id TEXT,
+    parent_plan_id TEXT,
+    revision INTEGER,
+    ops_json JSONB,
+    diff_json JSONB,
+    created_by TEXT,
+    created_at TIMESTAMPTZ,
+    UNIQUE (root_plan_id, revision)
+  );
+
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    email TEXT UNIQUE,
+    name TEXT,
+    avatar_url TEXT,
+    provider TEXT,
+    provider_id TEXT,
+    password_hash TEXT,
+    email_verified INTEGER,
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_users_provider ON users(provider, provider_id);
+
+  CREATE TABLE IF NOT EXISTS organizations (
+    id TEXT PRIMARY KEY,
+    name TEXT,
+    slug TEXT UNIQUE,
+    owner_id TEXT REFERENCES users(id),
+    plan_id TEXT,
+    credits_balance NUMERIC(14, 4),
+    credits_included NUMERIC(14, 4),
+    billing_email TEXT,
+    stripe_customer_id TEXT,
+    stripe_subscription_id TEXT,
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ
+  );
+
+  CREATE TABLE IF NOT EXISTS org_members (
+    org_id TEXT REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+    role TEXT,
+    joined_at TIMESTAMPTZ,
+    PRIMARY KEY (org_id, user_id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_org_members_user ON org_members(user_id);
+
+  CREATE TABLE IF NOT EXISTS subscriptions (
+    id TEXT PRIMARY KEY,
+    org_id TEXT UNIQUE REFERENCES organizations(id),
+    plan_id TEXT,
+    status TEXT,
+    billing_cycle TEXT,
+    current_period_start TIMESTAMPTZ,
+    current_period_end TIMESTAMPTZ,
+    cancel_at_period_end INTEGER,
+    stripe_subscription_id TEXT,
+    stripe_customer_id TEXT,
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ
+  );
+
+  CREATE TABLE IF NOT EXISTS invoices (
+    id TEXT PRIMARY KEY,
+    org_id TEXT REFERENCES organizations(id),
+    subscription_id TEXT,
+    amount_usd NUMERIC(10, 4),
+    credits_purchased NUMERIC(14, 4),
+    status TEXT,
+    stripe_invoice_id TEXT,
+    stripe_payment_intent_id TEXT,
+    pdf_url TEXT,
+    period_start TIMESTAMPTZ,
+    period_end TIMESTAMPTZ,
+    due_date TIMESTAMPTZ,
+    paid_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_invoices_org ON invoices(org_id);
+
+  CREATE TABLE IF NOT EXISTS credit_transactions (
+    id TEXT PRIMARY KEY,
+    org_id TEXT REFERENCES organizations(id),
+    type TEXT,
+    amount NUMERIC(14, 4),
+    balance_after NUMERIC(14, 4),
+    description TEXT,
+    run_id TEXT,
+    invoice_id TEXT,
+    created_at TIMESTAMPTZ
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_credit_transactions_org ON credit_transactions(org_id, created_at);
+
+  UPDATE projects SET org_id = (
+    SELECT org_id FROM ledger_events WHERE ledger_events.project_id = projects.id ORDER BY ts ASC LIMIT 1
+  ) WHERE org_id IS NULL;
 `;
 
 export interface PgDbOptions {
@@ -183,6 +355,8 @@ export class PgDb implements IDb {
     const client = await this.pool.connect();
     try {
       await client.query(MIGRATION_SCHEMA);
+      await client.query(AUDIT_LOGS_MIGRATION);
+      await client.query(WEBHOOK_EVENTS_MIGRATION);
       this.migrated = true;
     } finally {
       client.release();
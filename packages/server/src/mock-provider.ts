@@ -2,9 +2,19 @@ import {
   IModelProvider,
   ChatCompletionRequest,
   ChatCompletionResponse,
-  ProviderHealth
+  PatchRequest,
+  ProviderHealth,
+  StreamChunk
 } from "./providers/provider.interface";
 
+// Emit text the way real providers do: several small deltas, then a finish chunk
+function streamText(text: string, onChunk: (chunk: StreamChunk) => void): void {
+  for (const piece of text.match(/\S+\s*|\s+/g) ?? []) {
+    onChunk({ delta: piece, finish_reason: null });
+  }
+  onChunk({ delta: "", finish_reason: "stop" });
+}
+
 export class MockModelProvider implements IModelProvider {
   readonly name = "mock";
   readonly models = ["mock"];
@@ -19,11 +29,19 @@ export class MockModelProvider implements IModelProvider {
     };
   }
 
-  async generatePatch(input: {
-    task_id: string;
-    instructions?: string;
-    context?: string;
-  }): Promise<{ patchText: string; summary: string; changedFiles: number; usage: ChatCompletionResponse["usage"] }> {
+  async chatStream(
+    request: ChatCompletionRequest,
+    onChunk: (chunk: StreamChunk) => void
+  ): Promise<ChatCompletionResponse> {
+    const response = await this.chat(request);
+    streamText(response.content, onChunk);
+    return response;
+  }
+
+  async generatePatch(
+    input: PatchRequest,
+    onChunk?: (chunk: StreamChunk) => void
+  ): Promise<{ patchText: string; summary: string; changedFiles: number; usage: ChatCompletionResponse["usage"] }> {
     const filePath = `.trcoder/patches/${input.task_id}.txt`;
     const contentLine = `Mock patch for ${input.task_id}`;
     const patchText = [
@@ -36,6 +54,9 @@ export class MockModelProvider implements IModelProvider {
       `+${contentLine}`,
       ""
     ].join("\n");
+    if (onChunk) {
+      streamText(patchText, onChunk);
+    }
 
     return {
       patchText,
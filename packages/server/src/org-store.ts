@@ -0,0 +1,158 @@
+import { randomUUID } from "crypto";
+import { OrgMember, OrgStore, Organization } from "@trcoder/auth";
+import { IDb } from "./db";
+
+const COLUMNS =
+  "id, name, slug, owner_id, plan_id, credits_balance, credits_included, billing_email, stripe_customer_id, stripe_subscription_id, created_at, updated_at";
+
+const UPDATABLE: Array<keyof Organization> = [
+  "name",
+  "slug",
+  "owner_id",
+  "plan_id",
+  "credits_balance",
+  "credits_included",
+  "billing_email",
+  "stripe_customer_id",
+  "stripe_subscription_id"
+];
+
+export interface OrgMemberRecord extends OrgMember {
+  email: string;
+  name?: string;
+}
+
+// Postgres returns TIMESTAMPTZ columns as Date objects
+function toIsoString(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function toOrganization(row: Record<string, unknown>): Organization {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    slug: String(row.slug),
+    owner_id: String(row.owner_id),
+    plan_id: String(row.plan_id),
+    credits_balance: Number(row.credits_balance ?? 0),
+    credits_included: Number(row.credits_included ?? 0),
+    billing_email: (row.billing_email as string | null) ?? undefined,
+    stripe_customer_id: (row.stripe_customer_id as string | null) ?? undefined,
+    stripe_subscription_id: (row.stripe_subscription_id as string | null) ?? undefined,
+    created_at: toIsoString(row.created_at),
+    updated_at: toIsoString(row.updated_at)
+  };
+}
+
+function toMember(row: Record<string, unknown>): OrgMember {
+  return {
+    org_id: String(row.org_id),
+    user_id: String(row.user_id),
+    role: row.role as OrgMember["role"],
+    joined_at: toIsoString(row.joined_at)
+  };
+}
+
+export class DbOrgStore implements OrgStore {
+  constructor(private db: IDb) {}
+
+  async create(org: Omit<Organization, "id" | "created_at" | "updated_at">): Promise<Organization> {
+    const now = new Date().toISOString();
+    const created: Organization = { ...org, id: `org_${randomUUID()}`, created_at: now, updated_at: now };
+    await this.db.exec(`INSERT INTO organizations (${COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`, [
+      created.id,
+      created.name,
+      created.slug,
+      created.owner_id,
+      created.plan_id,
+      created.credits_balance,
+      created.credits_included,
+      created.billing_email ?? null,
+      created.stripe_customer_id ?? null,
+      created.stripe_subscription_id ?? null,
+      now,
+      now
+    ]);
+    return created;
+  }
+
+  async findById(id: string): Promise<Organization | null> {
+    const row = (await this.db.query<Record<string, unknown>>(`SELECT ${COLUMNS} FROM organizations WHERE id = ?`, [
+      id
+    ]))[0];
+    return row ? toOrganization(row) : null;
+  }
+
+  async findBySlug(slug: string): Promise<Organization | null> {
+    const row = (await this.db.query<Record<string, unknown>>(`SELECT ${COLUMNS} FROM organizations WHERE slug = ?`, [
+      slug
+    ]))[0];
+    return row ? toOrganization(row) : null;
+  }
+
+  async findByUserId(userId: string): Promise<Organization[]> {
+    const rows = await this.db.query<Record<string, unknown>>(
+      `SELECT ${COLUMNS.split(", ").map((column) => `o.${column}`).join(", ")}
+       FROM organizations o JOIN org_members m ON m.org_id = o.id
+       WHERE m.user_id = ? ORDER BY m.joined_at ASC`,
+      [userId]
+    );
+    return rows.map(toOrganization);
+  }
+
+  async update(id: string, data: Partial<Organization>): Promise<Organization> {
+    const keys = UPDATABLE.filter((key) => key in data);
+    if (keys.length > 0) {
+      const assignments = keys.map((key) => `${key} = ?`).join(", ");
+      await this.db.exec(`UPDATE organizations SET ${assignments}, updated_at = ? WHERE id = ?`, [
+        ...keys.map((key) => data[key] ?? null),
+        new Date().toISOString(),
+        id
+      ]);
+    }
+    const org = await this.findById(id);
+    if (!org) {
+      throw new Error(`Organization not found: ${id}`);
+    }
+    return org;
+  }
+
+  async addMember(orgId: string, userId: string, role: OrgMember["role"]): Promise<void> {
+    await this.db.exec("INSERT INTO org_members (org_id, user_id, role, joined_at) VALUES (?, ?, ?, ?)", [
+      orgId,
+      userId,
+      role,
+      new Date().toISOString()
+    ]);
+  }
+
+  async getMember(orgId: string, userId: string): Promise<OrgMember | null> {
+    const row = (await this.db.query<Record<string, unknown>>(
+      "SELECT org_id, user_id, role, joined_at FROM org_members WHERE org_id = ? AND user_id = ?",
+      [orgId, userId]
+    ))[0];
+    return row ? toMember(row) : null;
+  }
+
+  async listMembers(orgId: string): Promise<OrgMemberRecord[]> {
+    const rows = await this.db.query<Record<string, unknown>>(
+      `SELECT m.org_id, m.user_id, m.role, m.joined_at, u.email, u.name
+       FROM org_members m JOIN users u ON u.id = m.user_id
+       WHERE m.org_id = ? ORDER BY m.joined_at ASC`,
+      [orgId]
+    );
+    return rows.map((row) => ({
+      ...toMember(row),
+      email: String(row.email),
+      name: (row.name as string | null) ?? undefined
+    }));
+  }
+
+  async updateMemberRole(orgId: string, userId: string, role: OrgMember["role"]): Promise<void> {
+    await this.db.exec("UPDATE org_members SET role = ? WHERE org_id = ? AND user_id = ?", [role, orgId, userId]);
+  }
+
+  async removeMember(orgId: string, userId: string): Promise<void> {
+    await this.db.exec("DELETE FROM org_members WHERE org_id = ? AND user_id = ?", [orgId, userId]);
+  }
+}
@@ -0,0 +1,88 @@
+export type PatchCheckStatus = "clean" | "three_way" | "conflict";
+
+export type PatchConflictReason = "does_not_apply" | "missing" | "already_exists" | "other";
+
+export interface PatchConflict {
+  path: string;
+  reason: PatchConflictReason;
+  // First line of the hunk git could not place, when it says
+  line?: number;
+  message: string;
+  // Outcome of the `git apply --3way` fallback for this file
+  three_way?: "clean" | "conflict" | "failed";
+}
+
+export interface PatchCheckResult {
+  status: PatchCheckStatus;
+  conflicts: PatchConflict[];
+}
+
+function conflictFor(conflicts: Map<string, PatchConflict>, path: string, message: string): PatchConflict {
+  let conflict = conflicts.get(path);
+  if (!conflict) {
+    conflict = { path, reason: "other", message };
+    conflicts.set(path, conflict);
+  }
+  return conflict;
+}
+
+/**
+ * Collect the files `git apply --check` refused, one entry per file. git
+ * reports a file in several "error:" lines; the most specific one wins.
+ */
+export function parseApplyErrors(output: string): PatchConflict[] {
+  const conflicts = new Map<string, PatchConflict>();
+  for (const raw of output.split(/\r?\n/)) {
+    const line = raw.trim();
+    const failed = /^error: patch failed: (.+):(\d+)$/.exec(line);
+    if (failed) {
+      const conflict = conflictFor(conflicts, failed[1], line);
+      conflict.reason = "does_not_apply";
+      conflict.line = Number(failed[2]);
+      continue;
+    }
+    const fileError = /^error: (.+?): (.+)$/.exec(line);
+    if (!fileError || fileError[1] === "while searching for") continue;
+    const [, path, reason] = fileError;
+    const conflict = conflictFor(conflicts, path, line);
+    if (/no such file|does not exist/i.test(reason)) {
+      conflict.reason = "missing";
+      conflict.message = line;
+    } else if (/already exists/i.test(reason)) {
+      conflict.reason = "already_exists";
+      conflict.message = line;
+    } else if (/patch does not apply/i.test(reason)) {
+      conflict.reason = "does_not_apply";
+      conflict.message = line;
+    }
+  }
+  return [...conflicts.values()];
+}
+
+/**
+ * Fold the output of `git apply --check --3way` into the conflicts of the
+ * plain check. git can report "with conflicts" and still exit 0 under
+ * --check, so the per-file lines decide, not the exit code alone.
+ */
+export function resolveThreeWay(conflicts: PatchConflict[], output: string, exitCode: number): PatchCheckResult {
+  const outcomes = new Map<string, "clean" | "conflict" | "failed">();
+  for (const raw of output.split(/\r?\n/)) {
+    const line = raw.trim();
+    const applied = /^Applied patch to '(.+)' (cleanly|with conflicts)\.$/.exec(line);
+    if (applied) {
+      outcomes.set(applied[1], applied[2] === "cleanly" ? "clean" : "conflict");
+      continue;
+    }
+    const fileError = /^error: (.+?): (.+)$/.exec(line);
+    if (fileError && fileError[1] !== "patch failed" && fileError[1] !== "while searching for") {
+      outcomes.set(fileError[1], "failed");
+    }
+  }
+
+  const resolved = conflicts.map((conflict) => ({
+    ...conflict,
+    three_way: outcomes.get(conflict.path) ?? (exitCode === 0 ? "clean" : "failed")
+  }));
+  const allClean = resolved.length > 0 && resolved.every((conflict) => conflict.three_way === "clean");
+  return { status: allClean ? "three_way" : "conflict", conflicts: resolved };
+}
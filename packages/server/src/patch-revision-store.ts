@@ -0,0 +1,68 @@
+import { IDb } from "./db";
+import { parseJsonValue } from "./utils/json";
+
+export interface PatchRevisionSummary {
+  files: number;
+  hunks: number;
+  additions: number;
+  deletions: number;
+  // Hunks of the base patch the reviewer rejected or edited
+  dropped_hunks?: number;
+  edited_hunks?: number;
+}
+
+export interface PatchRevision {
+  id: string;
+  run_id: string;
+  task_id: string;
+  revision: number;
+  // sha256 of tasks.patch_text the revision was reviewed against; a newer generated patch supersedes it
+  base_patch_sha256: string;
+  patch_path: string;
+  patch_text: string;
+  summary: PatchRevisionSummary;
+  created_by: string;
+  created_at: string;
+}
+
+const COLUMNS =
+  "id, run_id, task_id, revision, base_patch_sha256, patch_path, patch_text, summary_json, created_by, created_at";
+
+function toRevision(row: Record<string, unknown>): PatchRevision {
+  return {
+    id: String(row.id),
+    run_id: String(row.run_id),
+    task_id: String(row.task_id),
+    revision: Number(row.revision),
+    base_patch_sha256: String(row.base_patch_sha256),
+    patch_path: String(row.patch_path),
+    patch_text: String(row.patch_text),
+    summary: parseJsonValue<PatchRevisionSummary>(row.summary_json, { files: 0, hunks: 0, additions: 0, deletions: 0 }),
+    created_by: String(row.created_by),
+    // Postgres returns TIMESTAMPTZ columns as Date objects
+    created_at: row.created_at instanceof Date ? row.created_at.toISOString() : String(row.created_at)
+  };
+}
+
+export async function savePatchRevision(db: IDb, revision: PatchRevision): Promise<void> {
+  await db.exec(`INSERT INTO patch_revisions (${COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`, [
+    revision.id,
+    revision.run_id,
+    revision.task_id,
+    revision.revision,
+    revision.base_patch_sha256,
+    revision.patch_path,
+    revision.patch_text,
+    JSON.stringify(revision.summary),
+    revision.created_by,
+    revision.created_at
+  ]);
+}
+
+export async function getLatestPatchRevision(db: IDb, runId: string, taskId: string): Promise<PatchRevision | null> {
+  const rows = await db.query<Record<string, unknown>>(
+    `SELECT ${COLUMNS} FROM patch_revisions WHERE run_id = ? AND task_id = ? ORDER BY revision DESC LIMIT 1`,
+    [runId, taskId]
+  );
+  return rows[0] ? toRevision(rows[0]) : null;
+}
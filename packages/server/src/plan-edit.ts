@@ -0,0 +1,334 @@
+import {
+  PlanDiff,
+  PlanEditOp,
+  PlanTaskFields,
+  PlanTaskPosition,
+  RiskLevel,
+  TaskDefinition,
+  TaskScope,
+  TasksFileV1,
+  TasksPhase
+} from "@trcoder/shared";
+import { buildTaskDefinition, makeTaskId } from "./planner";
+import { flattenPlanTasks, orderPlanTasks } from "./task-graph";
+
+export class PlanEditError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | "invalid_op"
+      | "unknown_task"
+      | "unknown_phase"
+      | "duplicate_task"
+      | "invalid_task_type"
+      | "invalid_risk",
+    public readonly task_ids: string[] = []
+  ) {
+    super(message);
+    this.name = "PlanEditError";
+  }
+}
+
+const RISK_LEVELS: RiskLevel[] = ["low", "standard", "high"];
+
+// Fields compared by diffPlanTasks and editable through update_task
+const DIFF_FIELDS = ["title", "type", "risk", "deps", "scope", "acceptance"] as const;
+
+interface Located {
+  phase: TasksPhase;
+  index: number;
+  task: TaskDefinition;
+}
+
+function locate(plan: TasksFileV1, taskId: string): Located {
+  for (const phase of plan.phases) {
+    const index = phase.tasks.findIndex((task) => task.id === taskId);
+    if (index !== -1) return { phase, index, task: phase.tasks[index] };
+  }
+  throw new PlanEditError(`Unknown task ${taskId}`, "unknown_task", [taskId]);
+}
+
+function findPhase(plan: TasksFileV1, phaseId: string): TasksPhase {
+  const phase = plan.phases.find((candidate) => candidate.id === phaseId);
+  if (!phase) {
+    throw new PlanEditError(`Unknown phase ${phaseId}`, "unknown_phase");
+  }
+  return phase;
+}
+
+function unique<T>(items: T[]): T[] {
+  return [...new Set(items)];
+}
+
+function nextTaskId(plan: TasksFileV1): string {
+  const taken = new Set(flattenPlanTasks(plan).map((task) => task.id));
+  let n = taken.size + 1;
+  while (taken.has(makeTaskId(n))) n += 1;
+  return makeTaskId(n);
+}
+
+function assertNewId(plan: TasksFileV1, id: string): void {
+  if (flattenPlanTasks(plan).some((task) => task.id === id)) {
+    throw new PlanEditError(`Task ${id} already exists`, "duplicate_task", [id]);
+  }
+}
+
+// after: undefined appends, null puts the task first, an id places it behind that task
+function insertTask(phase: TasksPhase, task: TaskDefinition, after: string | null | undefined): void {
+  if (after === undefined) {
+    phase.tasks.push(task);
+    return;
+  }
+  if (after === null) {
+    phase.tasks.unshift(task);
+    return;
+  }
+  const index = phase.tasks.findIndex((candidate) => candidate.id === after);
+  if (index === -1) {
+    throw new PlanEditError(`Task ${after} is not in phase ${phase.id}`, "invalid_op", [after]);
+  }
+  phase.tasks.splice(index + 1, 0, task);
+}
+
+// Phase named by the op, else the phase of the "after" task, else the fallback
+function targetPhase(
+  plan: TasksFileV1,
+  phaseId: string | undefined,
+  after: string | null | undefined,
+  fallback: TasksPhase
+): TasksPhase {
+  if (phaseId) return findPhase(plan, phaseId);
+  if (after) return locate(plan, after).phase;
+  return fallback;
+}
+
+function validateFields(fields: PlanTaskFields, allowedTaskTypes: string[], taskId: string): void {
+  if (fields.title !== undefined && (typeof fields.title !== "string" || !fields.title.trim())) {
+    throw new PlanEditError(`Task ${taskId} needs a non-empty title`, "invalid_op", [taskId]);
+  }
+  if (fields.type !== undefined && allowedTaskTypes.length > 0 && !allowedTaskTypes.includes(fields.type)) {
+    throw new PlanEditError(`Unknown task type ${fields.type}`, "invalid_task_type", [taskId]);
+  }
+  if (fields.risk !== undefined && !RISK_LEVELS.includes(fields.risk)) {
+    throw new PlanEditError(`Unknown risk ${fields.risk}`, "invalid_risk", [taskId]);
+  }
+  for (const key of ["deps", "acceptance"] as const) {
+    const value = fields[key];
+    if (value !== undefined && (!Array.isArray(value) || value.some((item) => typeof item !== "string"))) {
+      throw new PlanEditError(`Task ${taskId}: ${key} must be a list of strings`, "invalid_op", [taskId]);
+    }
+  }
+  if (fields.deps?.includes(taskId)) {
+    throw new PlanEditError(`Task ${taskId} cannot depend on itself`, "invalid_op", [taskId]);
+  }
+}
+
+// Point every dependency on one of `removed` at `replacement` instead
+function rewireDeps(plan: TasksFileV1, removed: string[], replacement: string[]): void {
+  for (const task of flattenPlanTasks(plan)) {
+    if (!task.deps.some((dep) => removed.includes(dep))) continue;
+    task.deps = unique([...task.deps.filter((dep) => !removed.includes(dep)), ...replacement]).filter(
+      (dep) => dep !== task.id
+    );
+  }
+}
+
+function newTask(id: string, fields: PlanTaskFields & { title: string }, base?: TaskDefinition): TaskDefinition {
+  const built = buildTaskDefinition({
+    id,
+    title: fields.title.trim(),
+    type: fields.type ?? base?.type ?? "backend_development",
+    risk: fields.risk ?? base?.risk ?? "standard",
+    deps: fields.deps ?? [],
+    scope: { ...(base?.scope ?? {}), ...(fields.scope ?? {}) },
+    acceptance: fields.acceptance ?? base?.acceptance ?? ["Acceptance criteria pending"]
+  });
+  return base ? { ...built, execution: { ...base.execution } } : built;
+}
+
+function mergeScopes(scopes: TaskScope[]): TaskScope {
+  const merged: TaskScope = {};
+  for (const key of ["paths", "exclude_paths", "symbols", "queries"] as const) {
+    const values = unique(scopes.flatMap((scope) => scope[key] ?? []));
+    if (values.length > 0) merged[key] = values;
+  }
+  return merged;
+}
+
+function applyOp(plan: TasksFileV1, op: PlanEditOp, allowedTaskTypes: string[]): void {
+  switch (op.op) {
+    case "add_task": {
+      if (!op.task || typeof op.task.title !== "string") {
+        throw new PlanEditError("add_task needs task.title", "invalid_op");
+      }
+      const id = op.task.id ?? nextTaskId(plan);
+      assertNewId(plan, id);
+      validateFields(op.task, allowedTaskTypes, id);
+      const phase = targetPhase(plan, op.phase_id, op.after, plan.phases[plan.phases.length - 1]);
+      insertTask(phase, newTask(id, op.task), op.after);
+      return;
+    }
+    case "remove_task": {
+      const { phase, index, task } = locate(plan, op.task_id);
+      phase.tasks.splice(index, 1);
+      // Dependents keep their ordering by inheriting the removed task's deps
+      rewireDeps(plan, [task.id], task.deps);
+      return;
+    }
+    case "move_task": {
+      const { phase, index, task } = locate(plan, op.task_id);
+      if (op.after === task.id) {
+        throw new PlanEditError(`Task ${task.id} cannot move after itself`, "invalid_op", [task.id]);
+      }
+      phase.tasks.splice(index, 1);
+      insertTask(targetPhase(plan, op.phase_id, op.after, phase), task, op.after);
+      return;
+    }
+    case "update_task": {
+      const { task } = locate(plan, op.task_id);
+      const changes = op.changes ?? {};
+      validateFields(changes, allowedTaskTypes, task.id);
+      if (changes.title !== undefined) task.title = changes.title.trim();
+      if (changes.type !== undefined) task.type = changes.type;
+      if (changes.risk !== undefined) task.risk = changes.risk;
+      if (changes.deps !== undefined) task.deps = unique(changes.deps);
+      if (changes.acceptance !== undefined) task.acceptance = changes.acceptance;
+      if (changes.scope !== undefined) task.scope = { ...task.scope, ...changes.scope };
+      return;
+    }
+    case "split_task": {
+      const { phase, index, task } = locate(plan, op.task_id);
+      if (!Array.isArray(op.parts) || op.parts.length < 2) {
+        throw new PlanEditError(`Splitting ${task.id} needs at least two parts`, "invalid_op", [task.id]);
+      }
+      // Parts run in the given order: the first inherits the deps, each later part waits for the previous one
+      const parts = op.parts.map((part, partIndex) => {
+        const id = `${task.id}-${partIndex + 1}`;
+        validateFields(part, allowedTaskTypes, id);
+        return newTask(id, part, task);
+      });
+      phase.tasks.splice(index, 1);
+      for (const part of parts) assertNewId(plan, part.id);
+      parts.forEach((part, partIndex) => {
+        part.deps = partIndex === 0 ? op.parts[0].deps ?? [...task.deps] : [parts[partIndex - 1].id];
+      });
+      phase.tasks.splice(index, 0, ...parts);
+      rewireDeps(plan, [task.id], [parts[parts.length - 1].id]);
+      return;
+    }
+    case "merge_tasks": {
+      const ids = unique(op.task_ids ?? []);
+      if (ids.length < 2) {
+        throw new PlanEditError("merge_tasks needs at least two task ids", "invalid_op", ids);
+      }
+      const located = ids.map((id) => locate(plan, id));
+      const order = flattenPlanTasks(plan).map((task) => task.id);
+      located.sort((a, b) => order.indexOf(a.task.id) - order.indexOf(b.task.id));
+      // The merged task takes the place and id of the earliest one
+      const target = located[0].task;
+      const others = located.slice(1).map((entry) => entry.task);
+      const tasks = [target, ...others];
+      if (op.title !== undefined) validateFields({ title: op.title }, allowedTaskTypes, target.id);
+      target.title = op.title?.trim() || tasks.map((task) => task.title).join(" + ");
+      target.risk = RISK_LEVELS[Math.max(...tasks.map((task) => RISK_LEVELS.indexOf(task.risk)))];
+      target.deps = unique(tasks.flatMap((task) => task.deps)).filter((dep) => !ids.includes(dep));
+      target.scope = mergeScopes(tasks.map((task) => task.scope));
+      target.acceptance = unique(tasks.flatMap((task) => task.acceptance));
+      for (const other of others) {
+        const { phase, index } = locate(plan, other.id);
+        phase.tasks.splice(index, 1);
+      }
+      rewireDeps(plan, others.map((task) => task.id), [target.id]);
+      return;
+    }
+    default:
+      throw new PlanEditError(`Unknown op ${(op as { op?: string }).op}`, "invalid_op");
+  }
+}
+
+/**
+ * Apply edit ops in order to a copy of the plan. Throws PlanEditError for a
+ * bad op and TaskGraphError when the result has a dependency cycle or points
+ * at a task that no longer exists.
+ */
+export function applyPlanEdits(tasks: TasksFileV1, ops: PlanEditOp[], allowedTaskTypes: string[]): TasksFileV1 {
+  const plan = JSON.parse(JSON.stringify(tasks)) as TasksFileV1;
+  for (const task of flattenPlanTasks(plan)) task.deps = task.deps ?? [];
+  for (const op of ops) {
+    applyOp(plan, op, allowedTaskTypes);
+  }
+  orderPlanTasks(plan);
+  return plan;
+}
+
+function positions(plan: TasksFileV1): Map<string, { task: TaskDefinition; position: PlanTaskPosition }> {
+  const map = new Map<string, { task: TaskDefinition; position: PlanTaskPosition }>();
+  for (const phase of plan.phases) {
+    phase.tasks.forEach((task, index) => map.set(task.id, { task, position: { phase_id: phase.id, index } }));
+  }
+  return map;
+}
+
+// Longest common subsequence of two id lists; tasks outside it are the ones that moved
+function stableIds(before: string[], after: string[]): Set<string> {
+  const table = before.map(() => new Array<number>(after.length + 1).fill(0));
+  table.push(new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i -= 1) {
+    for (let j = after.length - 1; j >= 0; j -= 1) {
+      table[i][j] = before[i] === after[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  const kept = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      kept.add(before[i]);
+      i += 1;
+      j += 1;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i += 1;
+    } else {
+      j += 1;
+    }
+  }
+  return kept;
+}
+
+/** Task-level diff between two plans: added, removed, changed fields and moved tasks. */
+export function diffPlanTasks(before: TasksFileV1, after: TasksFileV1): PlanDiff {
+  const from = positions(before);
+  const to = positions(after);
+  const diff: PlanDiff = { added: [], removed: [], changed: [], moved: [] };
+
+  for (const [id, entry] of to) {
+    if (!from.has(id)) diff.added.push({ task_id: id, title: entry.task.title, position: entry.position });
+  }
+  for (const [id, entry] of from) {
+    if (!to.has(id)) diff.removed.push({ task_id: id, title: entry.task.title, position: entry.position });
+  }
+
+  const common = [...to.keys()].filter((id) => from.has(id));
+  for (const id of common) {
+    const a = from.get(id)!.task;
+    const b = to.get(id)!.task;
+    const fields: Record<string, { from: unknown; to: unknown }> = {};
+    for (const field of DIFF_FIELDS) {
+      if (JSON.stringify(a[field] ?? null) !== JSON.stringify(b[field] ?? null)) {
+        fields[field] = { from: a[field] ?? null, to: b[field] ?? null };
+      }
+    }
+    if (Object.keys(fields).length > 0) diff.changed.push({ task_id: id, fields });
+  }
+
+  const kept = stableIds(
+    [...from.keys()].filter((id) => to.has(id)),
+    common
+  );
+  for (const id of common) {
+    const a = from.get(id)!.position;
+    const b = to.get(id)!.position;
+    if (!kept.has(id) || a.phase_id !== b.phase_id) diff.moved.push({ task_id: id, from: a, to: b });
+  }
+  return diff;
+}
@@ -0,0 +1,307 @@
+import {
+  Lane,
+  LanePolicyConfig,
+  ModelStackConfig,
+  ModelTier,
+  PricingConfig,
+  RiskLevel,
+  RiskPolicyConfig,
+  TasksFileV1,
+  calculateCost,
+  decideRouter
+} from "@trcoder/shared";
+import { orderPlanTasks } from "./task-graph";
+
+// Rough generation speed per tier; only used to rank and size durations, not to bill
+const OUTPUT_TOKENS_PER_SEC: Record<ModelTier, number> = {
+  economy: 120,
+  standard: 80,
+  premium: 50,
+  premium_reasoning: 30
+};
+// Share of a call's tokens the model writes; the same split billing uses when usage is missing
+const OUTPUT_TOKEN_SHARE = 0.3;
+// p90 is the router's expected spend and p50 this share of it, the same range TASK_STARTED reports during a run
+const P50_SHARE = 0.7;
+
+export const DEFAULT_RUN_BUDGET_USD = 10;
+
+export interface TaskEstimate {
+  task_id: string;
+  title: string;
+  phase_id: string;
+  type: string;
+  deps: string[];
+  model: string;
+  tier: ModelTier;
+  expected_tokens: number;
+  // cost is the provider cost, charge what the org pays after plan credits and markup
+  cost_p50_usd: number;
+  cost_p90_usd: number;
+  charge_p50_usd: number;
+  charge_p90_usd: number;
+  duration_p50_sec: number;
+  duration_p90_sec: number;
+  // Earliest wave the task can start in when independent tasks run side by side
+  wave: number;
+  critical: boolean;
+  downgrade_applied: boolean;
+  budget_violation: boolean;
+  reasons: string[];
+}
+
+export interface PlanEstimate {
+  lane: Lane;
+  risk: RiskLevel;
+  tasks: TaskEstimate[];
+  critical_path: { task_ids: string[]; cost_p50_usd: number; duration_p50_sec: number; duration_p90_sec: number };
+  // Tasks per wave; tasks in one wave only depend on earlier waves
+  task_waves: string[][];
+  // Phases per wave; phases in one wave only depend on earlier waves, or on each other when their tasks interleave
+  phase_waves: string[][];
+  totals: {
+    cost_p50_usd: number;
+    cost_p90_usd: number;
+    charge_p50_usd: number;
+    charge_p90_usd: number;
+    // How long /start takes today, running tasks one after another
+    serial_duration_p50_sec: number;
+    serial_duration_p90_sec: number;
+  };
+  budget: {
+    budget_cap_usd: number;
+    credits_remaining_usd: number;
+    // Runs debit the charge against the cap; credits cover provider cost
+    within_budget_p50: boolean;
+    within_budget_p90: boolean;
+    credits_cover_p50: boolean;
+    credits_cover_p90: boolean;
+  };
+}
+
+function round(value: number, digits = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Groups nodes that reach each other (Tarjan); each node maps to the first member of its group
+function stronglyConnected(nodes: string[], edges: Map<string, Set<string>>): Map<string, string> {
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const group = new Map<string, string>();
+  const visit = (node: string) => {
+    index.set(node, index.size);
+    low.set(node, index.get(node)!);
+    stack.push(node);
+    onStack.add(node);
+    for (const next of edges.get(node) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        low.set(node, Math.min(low.get(node)!, low.get(next)!));
+      } else if (onStack.has(next)) {
+        low.set(node, Math.min(low.get(node)!, index.get(next)!));
+      }
+    }
+    if (low.get(node) !== index.get(node)) return;
+    const members: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      members.push(member);
+    } while (member !== node);
+    const first = nodes.find((candidate) => members.includes(candidate))!;
+    for (const id of members) group.set(id, first);
+  };
+  for (const node of nodes) {
+    if (!index.has(node)) visit(node);
+  }
+  return group;
+}
+
+/**
+ * Preview what running a plan would cost and how long it would take: the
+ * router decision per task (same inputs /start uses), the task DAG split
+ * into waves, the critical path by duration, and phase-level parallelism.
+ */
+export function estimatePlan(input: {
+  tasks: TasksFileV1;
+  lane: Lane;
+  risk: RiskLevel;
+  budgetCapUsd: number;
+  creditsRemainingUsd: number;
+  pricingPlanId: string;
+  pricing: PricingConfig;
+  modelStack: ModelStackConfig;
+  lanePolicy: LanePolicyConfig;
+  riskPolicy: RiskPolicyConfig;
+}): PlanEstimate {
+  const ordered = orderPlanTasks(input.tasks);
+  const phaseOf = new Map<string, string>();
+  for (const phase of input.tasks.phases) {
+    for (const task of phase.tasks) phaseOf.set(task.id, phase.id);
+  }
+
+  const lanePolicy = input.lanePolicy.lanes[input.lane] ?? input.lanePolicy.lanes.balanced;
+
+  const estimates = new Map<string, TaskEstimate>();
+  let spent = 0;
+  const credits = { p50: input.creditsRemainingUsd, p90: input.creditsRemainingUsd };
+  // Credits absorb provider cost first; the rest is charged with the plan's markup for the model tier
+  const charge = (model: string, providerCostUsd: number, creditsRemaining: number) => {
+    const { markup_rate } = calculateCost({
+      model,
+      tokens_in: 0,
+      tokens_out: 0,
+      pricing: input.pricing,
+      modelStack: input.modelStack,
+      plan_id: input.pricingPlanId
+    });
+    const credits_applied_usd = Math.min(providerCostUsd, Math.max(0, creditsRemaining));
+    return { credits_applied_usd, our_charge_usd: (providerCostUsd - credits_applied_usd) * (1 + markup_rate) };
+  };
+  for (const task of ordered) {
+    // Runs debit the budget task by task, so later tasks route with what is left after the earlier ones
+    const decision = decideRouter({
+      taskType: task.type,
+      lane: input.lane,
+      risk: input.risk,
+      budgetRemainingUsd: Math.max(0, input.budgetCapUsd - spent),
+      contextBudget: lanePolicy.context_budget,
+      modelStack: input.modelStack,
+      lanePolicy: input.lanePolicy,
+      riskPolicy: input.riskPolicy,
+      pricing: input.pricing
+    });
+    const costP90 = decision.expected_cost_usd;
+    const costP50 = costP90 * P50_SHARE;
+    const p50 = charge(decision.selected_model, costP50, credits.p50);
+    const p90 = charge(decision.selected_model, costP90, credits.p90);
+    credits.p50 -= p50.credits_applied_usd;
+    credits.p90 -= p90.credits_applied_usd;
+    spent += p50.our_charge_usd;
+
+    const tier = input.modelStack.models[decision.selected_model]?.tier ?? "standard";
+    const durationSec = (decision.expected_tokens * OUTPUT_TOKEN_SHARE) / OUTPUT_TOKENS_PER_SEC[tier];
+    const wave = Math.max(-1, ...task.deps.map((dep) => estimates.get(dep)?.wave ?? -1)) + 1;
+    estimates.set(task.id, {
+      task_id: task.id,
+      title: task.title,
+      phase_id: phaseOf.get(task.id) ?? "",
+      type: task.type,
+      deps: task.deps,
+      model: decision.selected_model,
+      tier,
+      expected_tokens: decision.expected_tokens,
+      cost_p50_usd: round(costP50),
+      cost_p90_usd: round(costP90),
+      charge_p50_usd: round(p50.our_charge_usd),
+      charge_p90_usd: round(p90.our_charge_usd),
+      duration_p50_sec: Math.round(durationSec * P50_SHARE),
+      duration_p90_sec: Math.round(durationSec),
+      wave,
+      critical: false,
+      downgrade_applied: decision.downgrade_applied,
+      budget_violation: decision.budget_violation,
+      reasons: decision.reasons
+    });
+  }
+
+  // Longest chain by p50 duration; ties keep the plan order
+  const finish = new Map<string, { total: number; via?: string }>();
+  for (const task of ordered) {
+    const own = estimates.get(task.id)!;
+    let best: { total: number; via?: string } = { total: 0 };
+    for (const dep of task.deps) {
+      const depFinish = finish.get(dep)!;
+      if (depFinish.total > best.total) best = { total: depFinish.total, via: dep };
+    }
+    finish.set(task.id, { total: best.total + own.duration_p50_sec, via: best.via });
+  }
+  let end: string | undefined;
+  for (const task of ordered) {
+    if (!end || finish.get(task.id)!.total > finish.get(end)!.total) end = task.id;
+  }
+  const criticalIds: string[] = [];
+  for (let cursor = end; cursor; cursor = finish.get(cursor)!.via) criticalIds.unshift(cursor);
+  for (const id of criticalIds) estimates.get(id)!.critical = true;
+  const critical = criticalIds.map((id) => estimates.get(id)!);
+
+  const taskWaves: string[][] = [];
+  for (const estimate of estimates.values()) {
+    (taskWaves[estimate.wave] ??= []).push(estimate.task_id);
+  }
+
+  // A phase waits for every phase one of its tasks depends on
+  const phaseDeps = new Map<string, Set<string>>();
+  for (const phase of input.tasks.phases) {
+    const deps = new Set<string>();
+    for (const task of phase.tasks) {
+      for (const dep of task.deps) {
+        const depPhase = phaseOf.get(dep);
+        if (depPhase && depPhase !== phase.id) deps.add(depPhase);
+      }
+    }
+    phaseDeps.set(phase.id, deps);
+  }
+  // Task deps are acyclic, but two phases can still depend on each other through different tasks.
+  // Neither finishes before the other, so such phases are collapsed into one group and share a wave.
+  const phaseIds = input.tasks.phases.map((phase) => phase.id);
+  const groupOf = stronglyConnected(phaseIds, phaseDeps);
+  const groupDeps = new Map<string, Set<string>>();
+  for (const phaseId of phaseIds) {
+    const group = groupOf.get(phaseId)!;
+    const deps = groupDeps.get(group) ?? new Set<string>();
+    for (const dep of phaseDeps.get(phaseId) ?? []) {
+      if (groupOf.get(dep) !== group) deps.add(groupOf.get(dep)!);
+    }
+    groupDeps.set(group, deps);
+  }
+  const groupWave = new Map<string, number>();
+  const resolveGroupWave = (group: string): number => {
+    const known = groupWave.get(group);
+    if (known !== undefined) return known;
+    const wave = Math.max(-1, ...[...groupDeps.get(group)!].map(resolveGroupWave)) + 1;
+    groupWave.set(group, wave);
+    return wave;
+  };
+  const phaseWaves: string[][] = [];
+  for (const phaseId of phaseIds) {
+    (phaseWaves[resolveGroupWave(groupOf.get(phaseId)!)] ??= []).push(phaseId);
+  }
+
+  const all = [...estimates.values()];
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const totals = {
+    cost_p50_usd: round(sum(all.map((task) => task.cost_p50_usd))),
+    cost_p90_usd: round(sum(all.map((task) => task.cost_p90_usd))),
+    charge_p50_usd: round(sum(all.map((task) => task.charge_p50_usd))),
+    charge_p90_usd: round(sum(all.map((task) => task.charge_p90_usd))),
+    serial_duration_p50_sec: sum(all.map((task) => task.duration_p50_sec)),
+    serial_duration_p90_sec: sum(all.map((task) => task.duration_p90_sec))
+  };
+  return {
+    lane: input.lane,
+    risk: input.risk,
+    tasks: all,
+    critical_path: {
+      task_ids: criticalIds,
+      cost_p50_usd: round(sum(critical.map((task) => task.cost_p50_usd))),
+      duration_p50_sec: sum(critical.map((task) => task.duration_p50_sec)),
+      duration_p90_sec: sum(critical.map((task) => task.duration_p90_sec))
+    },
+    task_waves: taskWaves.filter(Boolean),
+    phase_waves: phaseWaves.filter(Boolean),
+    totals,
+    budget: {
+      budget_cap_usd: input.budgetCapUsd,
+      credits_remaining_usd: round(input.creditsRemainingUsd),
+      within_budget_p50: totals.charge_p50_usd <= input.budgetCapUsd,
+      within_budget_p90: totals.charge_p90_usd <= input.budgetCapUsd,
+      credits_cover_p50: totals.cost_p50_usd <= input.creditsRemainingUsd,
+      credits_cover_p90: totals.cost_p90_usd <= input.creditsRemainingUsd
+    }
+  };
+}
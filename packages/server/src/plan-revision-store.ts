@@ -0,0 +1,60 @@
+import { PlanDiff, PlanEditOp } from "@trcoder/shared";
+import { IDb } from "./db";
+import { parseJsonValue } from "./utils/json";
+
+export interface PlanRevision {
+  // plans.id of this revision
+  plan_id: string;
+  // The generated plan this revision descends from; it is revision 0 and has no row here
+  root_plan_id: string;
+  parent_plan_id: string;
+  revision: number;
+  ops: PlanEditOp[];
+  diff: PlanDiff;
+  created_by: string;
+  created_at: string;
+}
+
+const COLUMNS = "plan_id, root_plan_id, parent_plan_id, revision, ops_json, diff_json, created_by, created_at";
+
+function toRevision(row: Record<string, unknown>): PlanRevision {
+  return {
+    plan_id: String(row.plan_id),
+    root_plan_id: String(row.root_plan_id),
+    parent_plan_id: String(row.parent_plan_id),
+    revision: Number(row.revision),
+    ops: parseJsonValue<PlanEditOp[]>(row.ops_json, []),
+    diff: parseJsonValue<PlanDiff>(row.diff_json, { added: [], removed: [], changed: [], moved: [] }),
+    created_by: String(row.created_by),
+    // Postgres returns TIMESTAMPTZ columns as Date objects
+    created_at: row.created_at instanceof Date ? row.created_at.toISOString() : String(row.created_at)
+  };
+}
+
+export async function savePlanRevision(db: IDb, revision: PlanRevision): Promise<void> {
+  await db.exec(`INSERT INTO plan_revisions (${COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`, [
+    revision.plan_id,
+    revision.root_plan_id,
+    revision.parent_plan_id,
+    revision.revision,
+    JSON.stringify(revision.ops),
+    JSON.stringify(revision.diff),
+    revision.created_by,
+    revision.created_at
+  ]);
+}
+
+export async function getPlanRevision(db: IDb, planId: string): Promise<PlanRevision | null> {
+  const rows = await db.query<Record<string, unknown>>(`SELECT ${COLUMNS} FROM plan_revisions WHERE plan_id = ?`, [
+    planId
+  ]);
+  return rows[0] ? toRevision(rows[0]) : null;
+}
+
+export async function listPlanRevisions(db: IDb, rootPlanId: string): Promise<PlanRevision[]> {
+  const rows = await db.query<Record<string, unknown>>(
+    `SELECT ${COLUMNS} FROM plan_revisions WHERE root_plan_id = ? ORDER BY revision ASC`,
+    [rootPlanId]
+  );
+  return rows.map(toRevision);
+}
@@ -0,0 +1,104 @@
+import { TasksFileV1 } from "@trcoder/shared";
+import { TaskGraphError, flattenPlanTasks, orderPlanTasks } from "./task-graph";
+
+/** The subset of JSON Schema (draft-07) that schemas/tasks.v1.schema.json uses. */
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema["type"]>): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function validateNode(value: unknown, schema: JsonSchema, at: string, errors: string[]): void {
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push(`${at}: must be ${JSON.stringify(schema.const)} (got ${JSON.stringify(value)})`);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${at}: must be one of ${schema.enum.join(", ")} (got ${JSON.stringify(value)})`);
+    return;
+  }
+  if (schema.type && !matchesType(value, schema.type)) {
+    errors.push(`${at}: must be ${schema.type} (got ${typeOf(value)})`);
+    return;
+  }
+
+  if (schema.type === "object" || schema.properties || schema.required) {
+    if (typeOf(value) !== "object") return;
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) errors.push(`${at}.${key}: is required`);
+    }
+    for (const [key, child] of Object.entries(schema.properties ?? {})) {
+      if (record[key] !== undefined) validateNode(record[key], child, `${at}.${key}`, errors);
+    }
+  }
+  if (schema.items && Array.isArray(value)) {
+    value.forEach((item, index) => validateNode(item, schema.items as JsonSchema, `${at}[${index}]`, errors));
+  }
+}
+
+/** Validate a value against a JSON schema; errors are `path: problem` strings rooted at `$`. */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema): string[] {
+  const errors: string[] = [];
+  validateNode(value, schema, "$", errors);
+  return errors;
+}
+
+/**
+ * Checks the schema cannot express: duplicate task ids, task types the
+ * model stack does not route, deps on tasks that do not exist, and cycles.
+ */
+export function validatePlanGraph(tasks: TasksFileV1, allowedTaskTypes: string[]): string[] {
+  const errors: string[] = [];
+  const allTasks = flattenPlanTasks(tasks);
+  const ids = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const task of allTasks) {
+    if (ids.has(task.id)) duplicates.add(task.id);
+    ids.add(task.id);
+  }
+  for (const id of duplicates) {
+    errors.push(`task ${id}: duplicate task id`);
+  }
+  for (const task of allTasks) {
+    if (!allowedTaskTypes.includes(task.type)) {
+      errors.push(`task ${task.id}: type "${task.type}" is not allowed (use one of ${allowedTaskTypes.join(", ")})`);
+    }
+    for (const dep of task.deps) {
+      if (!ids.has(dep)) errors.push(`task ${task.id}: depends on unknown task "${dep}"`);
+    }
+  }
+
+  // Cycles are only meaningful once every id is unique and every dep resolves
+  if (errors.length === 0) {
+    try {
+      orderPlanTasks(tasks);
+    } catch (err) {
+      if (!(err instanceof TaskGraphError)) throw err;
+      errors.push(`dependency cycle between ${err.task_ids.join(", ")}`);
+    }
+  }
+  return errors;
+}
+
+/** Everything wrong with a candidate tasks.v1 file; empty when it can be used as-is. */
+export function validateTasksFile(value: unknown, schema: JsonSchema, allowedTaskTypes: string[]): string[] {
+  const schemaErrors = validateAgainstSchema(value, schema);
+  if (schemaErrors.length > 0) return schemaErrors;
+  return validatePlanGraph(value as TasksFileV1, allowedTaskTypes);
+}
@@ -1,5 +1,11 @@
 import { Lane, RiskLevel, TasksFileV1, TaskDefinition, TaskScope } from "@trcoder/shared";
-import { ChatCompletionResponse, IModelProvider } from "./providers/provider.interface";
+import {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  IModelProvider,
+  StreamChunk
+} from "./providers/provider.interface";
+import { JsonSchema, validateTasksFile } from "./plan-validation";
 import { redactText } from "./redaction";
 
 type PlanInputFile = { path: string; content: string };
@@ -13,7 +19,7 @@ function normalizeWhitespace(text: string): string {
   return text.replace(/\s+/g, " ").trim();
 }
 
-function makeTaskId(n: number): string {
+export function makeTaskId(n: number): string {
   return `task-${String(n).padStart(3, "0")}`;
 }
 
@@ -26,7 +32,7 @@ function baseScope(): TaskScope {
   };
 }
 
-function task(input: {
+export function buildTaskDefinition(input: {
   id: string;
   title: string;
   type: string;
@@ -106,7 +112,7 @@ function buildHeuristicTasks(input: {
   const tasks: TaskDefinition[] = [];
 
   tasks.push(
-    task({
+    buildTaskDefinition({
       id: t1,
       title: `Architecture + API outline: ${shortTitle}`,
       type: "architecture_design",
@@ -118,7 +124,7 @@ function buildHeuristicTasks(input: {
 
   if (wantsDatabase(input.requestText)) {
     tasks.push(
-      task({
+      buildTaskDefinition({
         id: t2,
         title: `Database schema + persistence: ${shortTitle}`,
         type: "database_code",
@@ -129,7 +135,7 @@ function buildHeuristicTasks(input: {
     );
   } else {
     tasks.push(
-      task({
+      buildTaskDefinition({
         id: t2,
         title: `Persistence layer (in-memory/file) + interfaces: ${shortTitle}`,
         type: "backend_development",
@@ -141,7 +147,7 @@ function buildHeuristicTasks(input: {
   }
 
   tasks.push(
-    task({
+    buildTaskDefinition({
       id: t3,
       title: `Backend implementation (endpoints + logic): ${shortTitle}`,
       type: "backend_development",
@@ -155,7 +161,7 @@ function buildHeuristicTasks(input: {
 
   if (wantsFrontend(input.requestText)) {
     tasks.push(
-      task({
+      buildTaskDefinition({
         id: t4,
         title: `Frontend UI: ${shortTitle}`,
         type: "frontend_development",
@@ -168,7 +174,7 @@ function buildHeuristicTasks(input: {
     );
   } else {
     tasks.push(
-      task({
+      buildTaskDefinition({
         id: t4,
         title: `API documentation + examples: ${shortTitle}`,
         type: "api_docs",
@@ -180,7 +186,7 @@ function buildHeuristicTasks(input: {
   }
 
   tasks.push(
-    task({
+    buildTaskDefinition({
       id: t5,
       title: `Tests (unit + integration): ${shortTitle}`,
       type: "integration_tests",
@@ -191,7 +197,7 @@ function buildHeuristicTasks(input: {
   );
 
   tasks.push(
-    task({
+    buildTaskDefinition({
       id: t6,
       title: `Review + hardening: ${shortTitle}`,
       type: reviewType,
@@ -237,42 +243,38 @@ function ensureArray<T>(value: unknown, fallback: T[] = []): T[] {
   return Array.isArray(value) ? (value as T[]) : fallback;
 }
 
+// Fill the fields the model may omit, but keep whatever it did send so validation can name the mistakes
 function normalizeTasksFile(input: {
   raw: any;
   planId: string;
   projectName: string;
   defaultRisk: RiskLevel;
-  allowedTaskTypes: string[];
 }): TasksFileV1 {
   const raw = input.raw ?? {};
 
+  let taskCount = 0;
   const phasesRaw = Array.isArray(raw.phases) ? raw.phases : Array.isArray(raw) ? raw : [];
   const phases = phasesRaw.map((p: any, phaseIdx: number) => {
     const tasksRaw = ensureArray<any>(p?.tasks);
-    const tasks = tasksRaw.map((t: any, taskIdx: number) => {
-      const id = typeof t?.id === "string" && t.id.trim() ? t.id.trim() : makeTaskId(taskIdx + 1);
+    const tasks = tasksRaw.map((t: any) => {
+      taskCount += 1;
+      const id = typeof t?.id === "string" && t.id.trim() ? t.id.trim() : makeTaskId(taskCount);
       const title =
         typeof t?.title === "string" && t.title.trim()
           ? t.title.trim()
           : `Task ${id} (${input.projectName})`;
-      const type =
-        typeof t?.type === "string" && input.allowedTaskTypes.includes(t.type)
-          ? t.type
-          : "backend_development";
-      const risk =
-        t?.risk === "low" || t?.risk === "standard" || t?.risk === "high" ? (t.risk as RiskLevel) : input.defaultRisk;
-      const deps = ensureArray<string>(t?.deps).filter((d) => typeof d === "string");
-      const scope = t?.scope && typeof t.scope === "object" ? t.scope : {};
-      const acceptance = ensureArray<string>(t?.acceptance).filter((a) => typeof a === "string" && a.trim());
-
-      return task({
+      const acceptance = Array.isArray(t?.acceptance)
+        ? t.acceptance.filter((a: unknown) => typeof a !== "string" || a.trim())
+        : t?.acceptance;
+
+      return buildTaskDefinition({
         id,
         title,
-        type,
-        risk,
-        deps,
-        scope,
-        acceptance: acceptance.length > 0 ? acceptance : ["Acceptance criteria pending"]
+        type: t?.type ?? "backend_development",
+        risk: t?.risk ?? input.defaultRisk,
+        deps: t?.deps ?? [],
+        scope: t?.scope && typeof t.scope === "object" ? t.scope : {},
+        acceptance: acceptance === undefined || acceptance.length === 0 ? ["Acceptance criteria pending"] : acceptance
       });
     });
 
@@ -297,6 +299,50 @@ function normalizeTasksFile(input: {
   };
 }
 
+export const MAX_PLAN_REPAIRS = 2;
+
+export interface PlannerAttempt {
+  // 0 is the initial plan, 1.. are repair rounds
+  attempt: number;
+  usage?: ChatCompletionResponse["usage"];
+  // Validation errors in this attempt's output; empty when it was accepted
+  errors: string[];
+}
+
+function parsePlannerOutput(
+  content: string,
+  input: { planId: string; projectName: string; risk: RiskLevel; allowedTaskTypes: string[]; schema: JsonSchema }
+): { tasks: TasksFileV1 | null; errors: string[] } {
+  const jsonText = extractJson(content) ?? content.trim();
+  let tasks: TasksFileV1;
+  try {
+    tasks = normalizeTasksFile({
+      raw: JSON.parse(jsonText),
+      planId: input.planId,
+      projectName: input.projectName,
+      defaultRisk: input.risk
+    });
+  } catch (err) {
+    return { tasks: null, errors: [`output is not usable tasks JSON: ${(err as Error).message}`] };
+  }
+  const errors = validateTasksFile(tasks, input.schema, input.allowedTaskTypes);
+  return errors.length > 0 ? { tasks: null, errors } : { tasks, errors };
+}
+
+export function buildPlanRepairPrompt(errors: string[]): string {
+  const shown = errors.slice(0, 20);
+  return [
+    "Your tasks JSON failed validation:",
+    ...shown.map((error) => `- ${error}`),
+    errors.length > shown.length ? `- ... and ${errors.length - shown.length} more` : null,
+    "",
+    "Fix every error above and return the complete corrected tasks.v1 JSON.",
+    "Return ONLY valid JSON, no markdown, no prose."
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
+}
+
 export async function generateTasksForPlan(input: {
   provider: IModelProvider;
   model: string;
@@ -307,13 +353,18 @@ export async function generateTasksForPlan(input: {
   lane: Lane;
   risk: RiskLevel;
   allowedTaskTypes: string[];
+  schema: JsonSchema;
+  maxRepairs?: number;
+  onChunk?: (chunk: StreamChunk) => void;
 }): Promise<{
   tasks: TasksFileV1;
   source: "model" | "heuristic";
   warnings: string[];
-  usage?: ChatCompletionResponse["usage"];
+  // One entry per model call, in order; each is billed separately
+  attempts: PlannerAttempt[];
 }> {
   const warnings: string[] = [];
+  const attempts: PlannerAttempt[] = [];
 
   const safeRequest = clampString(redactText(input.requestText).text, 12000);
   const safeFiles = input.inputFiles
@@ -324,19 +375,18 @@ export async function generateTasksForPlan(input: {
     }))
     .filter((f) => f.path && f.content);
 
+  const heuristic = () =>
+    buildHeuristicTasks({
+      planId: input.planId,
+      projectName: input.projectName,
+      requestText: safeRequest,
+      lane: input.lane,
+      risk: input.risk
+    });
+
   // In mock mode we want deterministic behavior without pretending to be an LLM planner.
   if (input.provider.name === "mock") {
-    return {
-      tasks: buildHeuristicTasks({
-        planId: input.planId,
-        projectName: input.projectName,
-        requestText: safeRequest,
-        lane: input.lane,
-        risk: input.risk
-      }),
-      source: "heuristic",
-      warnings
-    };
+    return { tasks: heuristic(), source: "heuristic", warnings, attempts };
   }
 
   const system = [
@@ -344,6 +394,7 @@ export async function generateTasksForPlan(input: {
     "Return ONLY valid JSON, no markdown, no prose.",
     'Output must conform to "tasks.v1" structure with: version, project{name}, plan_id, phases[].',
     "Each task must include: id, title, type, risk (low|standard|high), deps[], scope{}, acceptance[], execution{}, outputs{}.",
+    "Task ids must be unique, deps must name tasks of this plan, and deps must not form a cycle.",
     `Allowed task types: ${input.allowedTaskTypes.join(", ")}.`
   ].join("\n");
 
@@ -360,56 +411,50 @@ export async function generateTasksForPlan(input: {
     .filter((line) => line !== null)
     .join("\n");
 
-  try {
-    const completion = await input.provider.chat({
-      model: input.model,
-      messages: [
-        { role: "system", content: system },
-        { role: "user", content: user }
-      ],
-      temperature: 0.2,
-      max_tokens: 4096
-    });
+  // Repair rounds resend the same request, so it is marked for the provider's prompt cache
+  const messages: ChatCompletionRequest["messages"] = [
+    { role: "system", content: system },
+    { role: "user", content: user, cache: true }
+  ];
+  const maxRepairs = input.maxRepairs ?? MAX_PLAN_REPAIRS;
 
-    const jsonText = extractJson(completion.content) ?? completion.content.trim();
+  for (let attempt = 0; attempt <= maxRepairs; attempt += 1) {
+    let completion: ChatCompletionResponse;
     try {
-      const parsed = JSON.parse(jsonText);
-      const tasks = normalizeTasksFile({
-        raw: parsed,
-        planId: input.planId,
-        projectName: input.projectName,
-        defaultRisk: input.risk,
-        allowedTaskTypes: input.allowedTaskTypes
-      });
-      return { tasks, source: "model", warnings, usage: completion.usage };
-    } catch (err) {
-      warnings.push(`Planner JSON parse/normalize failed; falling back to heuristic. (${(err as Error).message})`);
-      return {
-        tasks: buildHeuristicTasks({
-          planId: input.planId,
-          projectName: input.projectName,
-          requestText: safeRequest,
-          lane: input.lane,
-          risk: input.risk
-        }),
-        source: "heuristic",
-        warnings,
-        usage: completion.usage
+      const request: ChatCompletionRequest = {
+        model: input.model,
+        messages: [...messages],
+        temperature: 0.2,
+        max_tokens: 4096
       };
+      completion =
+        input.onChunk && input.provider.chatStream
+          ? await input.provider.chatStream(request, input.onChunk)
+          : await input.provider.chat(request);
+    } catch (err) {
+      warnings.push(`Planner model call failed; falling back to heuristic. (${(err as Error).message})`);
+      return { tasks: heuristic(), source: "heuristic", warnings, attempts };
     }
-  } catch (err) {
-    warnings.push(`Planner model call failed; falling back to heuristic. (${(err as Error).message})`);
-    return {
-      tasks: buildHeuristicTasks({
-        planId: input.planId,
-        projectName: input.projectName,
-        requestText: safeRequest,
-        lane: input.lane,
-        risk: input.risk
-      }),
-      source: "heuristic",
-      warnings
-    };
+
+    const result = parsePlannerOutput(completion.content, input);
+    attempts.push({ attempt, usage: completion.usage, errors: result.errors });
+    if (result.tasks) {
+      if (attempt > 0) warnings.push(`Planner output repaired after ${attempt} attempt(s).`);
+      return { tasks: result.tasks, source: "model", warnings, attempts };
+    }
+
+    // Show the model its own answer and the exact errors, then ask for the whole file again
+    messages.push(
+      { role: "assistant", content: clampString(completion.content, 16000) },
+      { role: "user", content: buildPlanRepairPrompt(result.errors) }
+    );
   }
-}
 
+  const lastErrors = attempts[attempts.length - 1]?.errors ?? [];
+  warnings.push(
+    `Planner output failed validation after ${maxRepairs} repair attempt(s); falling back to heuristic. (${lastErrors
+      .slice(0, 3)
+      .join("; ")})`
+  );
+  return { tasks: heuristic(), source: "heuristic", warnings, attempts };
+}
@@ -0,0 +1,354 @@
+/**
+ * Bitbucket Cloud PR Adapter
+ *
+ * Pull request implementation for bitbucket.org (API 2.0)
+ */
+
+import {
+    IPrAdapter,
+    PrAdapterConfig,
+    PullRequestData,
+    PullRequestResult,
+    BranchResult,
+    CommitResult,
+    FileChange,
+    PrAdapterError,
+    RateLimitExceededError,
+    AuthenticationFailedError,
+    ResourceNotFoundError,
+    ConflictError
+} from "./pr-adapter.interface";
+import { patchToFileChanges } from "./patch-files";
+
+const DEFAULT_BASE_URL = "https://api.bitbucket.org/2.0";
+const DEFAULT_TIMEOUT = 30000;
+
+interface BitbucketApiConfig extends PrAdapterConfig {
+    /** When set, token is an app password and Basic auth is used */
+    username?: string;
+}
+
+interface BitbucketPullRequest {
+    id: number;
+    title: string;
+    state: string;
+    source: { branch: { name: string } };
+    destination: { branch: { name: string } };
+    reviewers?: Array<{ uuid?: string; account_id?: string }>;
+    links: { self: { href: string }; html: { href: string } };
+    created_on: string;
+    updated_on: string;
+}
+
+export class BitbucketAdapter implements IPrAdapter {
+    readonly name = "bitbucket";
+    private config: BitbucketApiConfig;
+    private defaultBranch?: string;
+
+    constructor(config: BitbucketApiConfig) {
+        this.config = {
+            baseUrl: DEFAULT_BASE_URL,
+            timeout: DEFAULT_TIMEOUT,
+            ...config
+        };
+    }
+
+    /**
+     * Uses BITBUCKET_TOKEN (repository/workspace access token) or
+     * BITBUCKET_USERNAME + BITBUCKET_APP_PASSWORD.
+     */
+    static fromEnv(workspace: string, repo: string): BitbucketAdapter {
+        const username = process.env.BITBUCKET_USERNAME;
+        const token = username ? process.env.BITBUCKET_APP_PASSWORD : process.env.BITBUCKET_TOKEN;
+        if (!token) {
+            throw new Error("BITBUCKET_TOKEN or BITBUCKET_USERNAME + BITBUCKET_APP_PASSWORD environment variables are required");
+        }
+        return new BitbucketAdapter({
+            token,
+            username,
+            owner: workspace,
+            repo,
+            baseUrl: process.env.BITBUCKET_API_URL
+        });
+    }
+
+    private get repoPath(): string {
+        return `/repositories/${this.config.owner}/${this.config.repo}`;
+    }
+
+    private async request<T>(
+        method: string,
+        endpoint: string,
+        body?: Record<string, unknown> | FormData
+    ): Promise<T> {
+        const url = `${this.config.baseUrl}${endpoint}`;
+        const headers: Record<string, string> = {
+            Authorization: this.config.username
+                ? `Basic ${Buffer.from(`${this.config.username}:${this.config.token}`).toString("base64")}`
+                : `Bearer ${this.config.token}`,
+            Accept: "application/json"
+        };
+
+        const isForm = body instanceof FormData;
+        if (body && !isForm) {
+            headers["Content-Type"] = "application/json";
+        }
+
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), this.config.timeout);
+
+        try {
+            const response = await fetch(url, {
+                method,
+                headers,
+                body: isForm ? body : body ? JSON.stringify(body) : undefined,
+                signal: controller.signal
+            });
+
+            if (!response.ok) {
+                await this.handleError(response);
+            }
+
+            const text = await response.text();
+            return (text ? JSON.parse(text) : {}) as T;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+
+    private async handleError(response: Response): Promise<never> {
+        const body = await response.text();
+
+        if (response.status === 429) {
+            const retryAfter = response.headers.get("retry-after");
+            const retryMs = retryAfter ? parseInt(retryAfter, 10) * 1000 : 60000;
+            throw new RateLimitExceededError("bitbucket", retryMs);
+        }
+
+        if (response.status === 401 || response.status === 403) {
+            throw new AuthenticationFailedError("bitbucket");
+        }
+
+        if (response.status === 404) {
+            throw new ResourceNotFoundError("bitbucket", "Resource");
+        }
+
+        // Bitbucket reports merge conflicts and invalid state transitions as 400/409
+        if (response.status === 400 || response.status === 409) {
+            throw new ConflictError("bitbucket", `Conflict: ${body}`);
+        }
+
+        throw new PrAdapterError(
+            `Bitbucket API error: ${body}`,
+            "bitbucket",
+            response.status,
+            response.status >= 500
+        );
+    }
+
+    private mapPullRequest(pr: BitbucketPullRequest): PullRequestResult {
+        const state: PullRequestResult["state"] =
+            pr.state === "MERGED" ? "merged" : pr.state === "OPEN" ? "open" : "closed";
+        return {
+            id: pr.id,
+            number: pr.id,
+            url: pr.links.self.href,
+            htmlUrl: pr.links.html.href,
+            state,
+            title: pr.title,
+            headBranch: pr.source.branch.name,
+            baseBranch: pr.destination.branch.name,
+            createdAt: pr.created_on,
+            updatedAt: pr.updated_on
+        };
+    }
+
+    // Bitbucket identifies users by {uuid} or account_id; usernames are no longer accepted
+    private toReviewer(id: string): { uuid: string } | { account_id: string } {
+        return id.startsWith("{") ? { uuid: id } : { account_id: id };
+    }
+
+    async getDefaultBranch(): Promise<string> {
+        if (this.defaultBranch) return this.defaultBranch;
+
+        const repo = await this.request<{ mainbranch: { name: string } }>("GET", this.repoPath);
+        this.defaultBranch = repo.mainbranch.name;
+        return this.defaultBranch;
+    }
+
+    async getBranchSha(branchName: string): Promise<string> {
+        const branch = await this.request<{ target: { hash: string } }>(
+            "GET",
+            `${this.repoPath}/refs/branches/${encodeURIComponent(branchName)}`
+        );
+        return branch.target.hash;
+    }
+
+    async branchExists(branchName: string): Promise<boolean> {
+        try {
+            await this.getBranchSha(branchName);
+            return true;
+        } catch (error) {
+            if (error instanceof ResourceNotFoundError) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    async createBranch(branchName: string, fromBranch?: string): Promise<BranchResult> {
+        const sourceBranch = fromBranch ?? await this.getDefaultBranch();
+        const sha = await this.getBranchSha(sourceBranch);
+
+        const branch = await this.request<{ name: string; target: { hash: string } }>(
+            "POST",
+            `${this.repoPath}/refs/branches`,
+            { name: branchName, target: { hash: sha } }
+        );
+
+        return {
+            name: branch.name,
+            sha: branch.target.hash,
+            protected: false
+        };
+    }
+
+    async deleteBranch(branchName: string): Promise<void> {
+        await this.request<void>(
+            "DELETE",
+            `${this.repoPath}/refs/branches/${encodeURIComponent(branchName)}`
+        );
+    }
+
+    async createOrUpdateFile(
+        branchName: string,
+        path: string,
+        content: string,
+        message: string
+    ): Promise<CommitResult> {
+        return this.commitFiles(branchName, [{ path, content }], message);
+    }
+
+    async commitFiles(
+        branchName: string,
+        files: FileChange[],
+        message: string
+    ): Promise<CommitResult> {
+        // The src endpoint takes one form field per file path and answers 201 without a body
+        const form = new FormData();
+        form.append("message", message);
+        form.append("branch", branchName);
+        for (const file of files) {
+            const content = file.encoding === "base64" ? Buffer.from(file.content, "base64") : Buffer.from(file.content);
+            form.append(file.path, new Blob([content]), file.path);
+        }
+
+        await this.request<void>("POST", `${this.repoPath}/src`, form);
+        const sha = await this.getBranchSha(branchName);
+
+        return {
+            sha,
+            message,
+            url: `${this.repoPath}/commit/${sha}`
+        };
+    }
+
+    async applyPatch(
+        branchName: string,
+        patchText: string,
+        commitMessage: string
+    ): Promise<CommitResult> {
+        const files = patchToFileChanges(patchText);
+
+        if (files.length === 0) {
+            throw new PrAdapterError("No file changes found in patch", "bitbucket", 400, false);
+        }
+
+        return this.commitFiles(branchName, files, commitMessage);
+    }
+
+    async createPullRequest(data: PullRequestData): Promise<PullRequestResult> {
+        // Bitbucket Cloud has no labels or assignees on pull requests
+        const pr = await this.request<BitbucketPullRequest>("POST", `${this.repoPath}/pullrequests`, {
+            title: data.title,
+            description: data.body,
+            source: { branch: { name: data.sourceBranch } },
+            destination: { branch: { name: data.targetBranch } },
+            draft: data.draft ?? false,
+            ...(data.reviewers?.length && { reviewers: data.reviewers.map((id) => this.toReviewer(id)) })
+        });
+
+        return this.mapPullRequest(pr);
+    }
+
+    async getPullRequest(prNumber: number): Promise<PullRequestResult> {
+        const pr = await this.request<BitbucketPullRequest>(
+            "GET",
+            `${this.repoPath}/pullrequests/${prNumber}`
+        );
+        return this.mapPullRequest(pr);
+    }
+
+    async updatePullRequest(
+        prNumber: number,
+        data: Partial<PullRequestData>
+    ): Promise<PullRequestResult> {
+        const current = await this.request<BitbucketPullRequest>(
+            "GET",
+            `${this.repoPath}/pullrequests/${prNumber}`
+        );
+        const pr = await this.request<BitbucketPullRequest>(
+            "PUT",
+            `${this.repoPath}/pullrequests/${prNumber}`,
+            {
+                // title is required on every update
+                title: data.title ?? current.title,
+                ...(data.body && { description: data.body }),
+                ...(data.targetBranch && { destination: { branch: { name: data.targetBranch } } })
+            }
+        );
+        return this.mapPullRequest(pr);
+    }
+
+    async addReviewers(prNumber: number, reviewers: string[]): Promise<void> {
+        // reviewers replaces the list, so keep the ones already requested
+        const current = await this.request<BitbucketPullRequest>(
+            "GET",
+            `${this.repoPath}/pullrequests/${prNumber}`
+        );
+        const merged = [
+            ...(current.reviewers ?? []),
+            ...reviewers.map((id) => this.toReviewer(id))
+        ];
+        await this.request<void>("PUT", `${this.repoPath}/pullrequests/${prNumber}`, {
+            title: current.title,
+            reviewers: merged
+        });
+    }
+
+    async mergePullRequest(
+        prNumber: number,
+        mergeMethod: "merge" | "squash" | "rebase" = "squash"
+    ): Promise<void> {
+        const strategy =
+            mergeMethod === "merge" ? "merge_commit" : mergeMethod === "squash" ? "squash" : "fast_forward";
+        await this.request<void>(
+            "POST",
+            `${this.repoPath}/pullrequests/${prNumber}/merge`,
+            { merge_strategy: strategy }
+        );
+    }
+
+    async closePullRequest(prNumber: number): Promise<void> {
+        await this.request<void>("POST", `${this.repoPath}/pullrequests/${prNumber}/decline`);
+    }
+
+    async healthCheck(): Promise<{ healthy: boolean; rateLimitRemaining?: number }> {
+        try {
+            await this.request<unknown>("GET", this.repoPath);
+            return { healthy: true };
+        } catch {
+            return { healthy: false };
+        }
+    }
+}
@@ -0,0 +1,368 @@
+/**
+ * Gitea PR Adapter
+ *
+ * Pull request implementation for Gitea and Forgejo instances (API v1)
+ */
+
+import {
+    IPrAdapter,
+    PrAdapterConfig,
+    PullRequestData,
+    PullRequestResult,
+    BranchResult,
+    CommitResult,
+    FileChange,
+    PrAdapterError,
+    RateLimitExceededError,
+    AuthenticationFailedError,
+    ResourceNotFoundError,
+    ConflictError
+} from "./pr-adapter.interface";
+import { patchToFileChanges } from "./patch-files";
+
+const DEFAULT_TIMEOUT = 30000;
+
+interface GiteaPullRequest {
+    id: number;
+    number: number;
+    url: string;
+    html_url: string;
+    state: string;
+    merged: boolean;
+    title: string;
+    head: { ref: string };
+    base: { ref: string };
+    created_at: string;
+    updated_at: string;
+}
+
+export class GiteaAdapter implements IPrAdapter {
+    readonly name = "gitea";
+    private config: PrAdapterConfig;
+    private defaultBranch?: string;
+
+    constructor(config: PrAdapterConfig) {
+        if (!config.baseUrl) {
+            throw new Error("Gitea adapter requires baseUrl");
+        }
+        this.config = {
+            timeout: DEFAULT_TIMEOUT,
+            ...config
+        };
+    }
+
+    /**
+     * There is no public default instance, so the API base comes from
+     * GITEA_API_URL or https://<host>/api/v1.
+     */
+    static fromEnv(owner: string, repo: string, host: string): GiteaAdapter {
+        const token = process.env.GITEA_TOKEN;
+        if (!token) {
+            throw new Error("GITEA_TOKEN environment variable is required");
+        }
+        return new GiteaAdapter({
+            token,
+            owner,
+            repo,
+            baseUrl: process.env.GITEA_API_URL ?? `https://${host}/api/v1`
+        });
+    }
+
+    private get repoPath(): string {
+        return `/repos/${this.config.owner}/${this.config.repo}`;
+    }
+
+    private async request<T>(
+        method: string,
+        endpoint: string,
+        body?: Record<string, unknown>
+    ): Promise<T> {
+        const url = `${this.config.baseUrl}${endpoint}`;
+        const headers: Record<string, string> = {
+            Authorization: `token ${this.config.token}`,
+            Accept: "application/json"
+        };
+
+        if (body) {
+            headers["Content-Type"] = "application/json";
+        }
+
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), this.config.timeout);
+
+        try {
+            const response = await fetch(url, {
+                method,
+                headers,
+                body: body ? JSON.stringify(body) : undefined,
+                signal: controller.signal
+            });
+
+            if (!response.ok) {
+                await this.handleError(response);
+            }
+
+            const text = await response.text();
+            return (text ? JSON.parse(text) : {}) as T;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+
+    private async handleError(response: Response): Promise<never> {
+        const body = await response.text();
+
+        if (response.status === 429) {
+            const retryAfter = response.headers.get("retry-after");
+            const retryMs = retryAfter ? parseInt(retryAfter, 10) * 1000 : 60000;
+            throw new RateLimitExceededError("gitea", retryMs);
+        }
+
+        if (response.status === 401 || response.status === 403) {
+            throw new AuthenticationFailedError("gitea");
+        }
+
+        if (response.status === 404) {
+            throw new ResourceNotFoundError("gitea", "Resource");
+        }
+
+        // Gitea answers 405 when a pull request is not mergeable
+        if (response.status === 405 || response.status === 409 || response.status === 422) {
+            throw new ConflictError("gitea", `Conflict: ${body}`);
+        }
+
+        throw new PrAdapterError(
+            `Gitea API error: ${body}`,
+            "gitea",
+            response.status,
+            response.status >= 500
+        );
+    }
+
+    private mapPullRequest(pr: GiteaPullRequest): PullRequestResult {
+        return {
+            id: pr.id,
+            number: pr.number,
+            url: pr.url,
+            htmlUrl: pr.html_url,
+            state: pr.merged ? "merged" : pr.state === "closed" ? "closed" : "open",
+            title: pr.title,
+            headBranch: pr.head.ref,
+            baseBranch: pr.base.ref,
+            createdAt: pr.created_at,
+            updatedAt: pr.updated_at
+        };
+    }
+
+    private async resolveLabelIds(names: string[]): Promise<number[]> {
+        // Labels are referenced by id; names that do not exist in the repo are skipped
+        const labels = await this.request<Array<{ id: number; name: string }>>("GET", `${this.repoPath}/labels`);
+        return labels.filter((label) => names.includes(label.name)).map((label) => label.id);
+    }
+
+    private async fileSha(branchName: string, path: string): Promise<string | undefined> {
+        try {
+            const file = await this.request<{ sha: string }>(
+                "GET",
+                `${this.repoPath}/contents/${path.split("/").map(encodeURIComponent).join("/")}?ref=${encodeURIComponent(branchName)}`
+            );
+            return file.sha;
+        } catch (error) {
+            if (error instanceof ResourceNotFoundError) {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    async getDefaultBranch(): Promise<string> {
+        if (this.defaultBranch) return this.defaultBranch;
+
+        const repo = await this.request<{ default_branch: string }>("GET", this.repoPath);
+        this.defaultBranch = repo.default_branch;
+        return this.defaultBranch;
+    }
+
+    async getBranchSha(branchName: string): Promise<string> {
+        const branch = await this.request<{ commit: { id: string } }>(
+            "GET",
+            `${this.repoPath}/branches/${encodeURIComponent(branchName)}`
+        );
+        return branch.commit.id;
+    }
+
+    async branchExists(branchName: string): Promise<boolean> {
+        try {
+            await this.getBranchSha(branchName);
+            return true;
+        } catch (error) {
+            if (error instanceof ResourceNotFoundError) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    async createBranch(branchName: string, fromBranch?: string): Promise<BranchResult> {
+        const sourceBranch = fromBranch ?? await this.getDefaultBranch();
+
+        const branch = await this.request<{
+            name: string;
+            protected: boolean;
+            commit: { id: string };
+        }>("POST", `${this.repoPath}/branches`, {
+            new_branch_name: branchName,
+            old_branch_name: sourceBranch
+        });
+
+        return {
+            name: branch.name,
+            sha: branch.commit.id,
+            protected: branch.protected
+        };
+    }
+
+    async deleteBranch(branchName: string): Promise<void> {
+        await this.request<void>(
+            "DELETE",
+            `${this.repoPath}/branches/${encodeURIComponent(branchName)}`
+        );
+    }
+
+    async createOrUpdateFile(
+        branchName: string,
+        path: string,
+        content: string,
+        message: string
+    ): Promise<CommitResult> {
+        return this.commitFiles(branchName, [{ path, content }], message);
+    }
+
+    async commitFiles(
+        branchName: string,
+        files: FileChange[],
+        message: string
+    ): Promise<CommitResult> {
+        // The multi-file contents API needs the current blob sha for updates
+        const changes = [];
+        for (const file of files) {
+            const sha = await this.fileSha(branchName, file.path);
+            changes.push({
+                operation: sha ? "update" : "create",
+                path: file.path,
+                content: file.encoding === "base64" ? file.content : Buffer.from(file.content).toString("base64"),
+                ...(sha && { sha })
+            });
+        }
+
+        const result = await this.request<{ commit: { sha: string; message: string; html_url: string } }>(
+            "POST",
+            `${this.repoPath}/contents`,
+            {
+                branch: branchName,
+                message,
+                files: changes
+            }
+        );
+
+        return {
+            sha: result.commit.sha,
+            message: result.commit.message,
+            url: result.commit.html_url
+        };
+    }
+
+    async applyPatch(
+        branchName: string,
+        patchText: string,
+        commitMessage: string
+    ): Promise<CommitResult> {
+        const files = patchToFileChanges(patchText);
+
+        if (files.length === 0) {
+            throw new PrAdapterError("No file changes found in patch", "gitea", 400, false);
+        }
+
+        return this.commitFiles(branchName, files, commitMessage);
+    }
+
+    async createPullRequest(data: PullRequestData): Promise<PullRequestResult> {
+        const labelIds = data.labels?.length ? await this.resolveLabelIds(data.labels) : [];
+
+        const pr = await this.request<GiteaPullRequest>("POST", `${this.repoPath}/pulls`, {
+            // Gitea marks work-in-progress pull requests by title prefix
+            title: data.draft ? `WIP: ${data.title}` : data.title,
+            body: data.body,
+            head: data.sourceBranch,
+            base: data.targetBranch,
+            ...(labelIds.length && { labels: labelIds }),
+            ...(data.assignees?.length && { assignees: data.assignees })
+        });
+
+        if (data.reviewers?.length) {
+            await this.addReviewers(pr.number, data.reviewers);
+        }
+
+        return this.mapPullRequest(pr);
+    }
+
+    async getPullRequest(prNumber: number): Promise<PullRequestResult> {
+        const pr = await this.request<GiteaPullRequest>(
+            "GET",
+            `${this.repoPath}/pulls/${prNumber}`
+        );
+        return this.mapPullRequest(pr);
+    }
+
+    async updatePullRequest(
+        prNumber: number,
+        data: Partial<PullRequestData>
+    ): Promise<PullRequestResult> {
+        const pr = await this.request<GiteaPullRequest>(
+            "PATCH",
+            `${this.repoPath}/pulls/${prNumber}`,
+            {
+                ...(data.title && { title: data.title }),
+                ...(data.body && { body: data.body }),
+                ...(data.targetBranch && { base: data.targetBranch })
+            }
+        );
+        return this.mapPullRequest(pr);
+    }
+
+    async addReviewers(prNumber: number, reviewers: string[]): Promise<void> {
+        await this.request<void>(
+            "POST",
+            `${this.repoPath}/pulls/${prNumber}/requested_reviewers`,
+            { reviewers }
+        );
+    }
+
+    async mergePullRequest(
+        prNumber: number,
+        mergeMethod: "merge" | "squash" | "rebase" = "squash"
+    ): Promise<void> {
+        await this.request<void>(
+            "POST",
+            `${this.repoPath}/pulls/${prNumber}/merge`,
+            { Do: mergeMethod }
+        );
+    }
+
+    async closePullRequest(prNumber: number): Promise<void> {
+        await this.request<void>(
+            "PATCH",
+            `${this.repoPath}/pulls/${prNumber}`,
+            { state: "closed" }
+        );
+    }
+
+    async healthCheck(): Promise<{ healthy: boolean; rateLimitRemaining?: number }> {
+        try {
+            await this.request<unknown>("GET", "/version");
+            return { healthy: true };
+        } catch {
+            return { healthy: false };
+        }
+    }
+}
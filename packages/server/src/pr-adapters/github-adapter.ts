@@ -18,6 +18,7 @@ import {
     ResourceNotFoundError,
     ConflictError
 } from "./pr-adapter.interface";
+import { patchToFileChanges } from "./patch-files";
 
 const DEFAULT_BASE_URL = "https://api.github.com";
 const DEFAULT_TIMEOUT = 30000;
@@ -294,7 +295,7 @@ export class GitHubAdapter implements IPrAdapter {
         commitMessage: string
     ): Promise<CommitResult> {
         // Parse the patch to extract file changes
-        const files = this.parsePatch(patchText);
+        const files = patchToFileChanges(patchText);
 
         if (files.length === 0) {
             throw new PrAdapterError("No file changes found in patch", "github", 400, false);
@@ -303,51 +304,6 @@ export class GitHubAdapter implements IPrAdapter {
         return this.commitFiles(branchName, files, commitMessage);
     }
 
-    private parsePatch(patchText: string): FileChange[] {
-        const files: FileChange[] = [];
-        const diffRegex = /^diff --git a\/(.+?) b\/(.+?)$/gm;
-        const chunks = patchText.split(/(?=^diff --git)/m).filter(Boolean);
-
-        for (const chunk of chunks) {
-            const match = /^diff --git a\/(.+?) b\/(.+?)$/m.exec(chunk);
-            if (!match) continue;
-
-            const filePath = match[2];
-
-            // Extract the new content (simplified - in production, use proper patch parsing)
-            const newFileMatch = /^\+\+\+ b\/(.+?)$/m.exec(chunk);
-            if (!newFileMatch) continue;
-
-            // Extract added lines
-            const lines = chunk.split("\n");
-            const contentLines: string[] = [];
-            let inHunk = false;
-
-            for (const line of lines) {
-                if (line.startsWith("@@")) {
-                    inHunk = true;
-                    continue;
-                }
-                if (inHunk) {
-                    if (line.startsWith("+") && !line.startsWith("+++")) {
-                        contentLines.push(line.slice(1));
-                    } else if (!line.startsWith("-")) {
-                        contentLines.push(line.startsWith(" ") ? line.slice(1) : line);
-                    }
-                }
-            }
-
-            if (contentLines.length > 0) {
-                files.push({
-                    path: filePath,
-                    content: contentLines.join("\n")
-                });
-            }
-        }
-
-        return files;
-    }
-
     async createPullRequest(data: PullRequestData): Promise<PullRequestResult> {
         const response = await this.request<{
             id: number;
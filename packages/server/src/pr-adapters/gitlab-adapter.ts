@@ -0,0 +1,398 @@
+/**
+ * GitLab PR Adapter
+ *
+ * Merge request implementation for gitlab.com and self-hosted GitLab (API v4)
+ */
+
+import {
+    IPrAdapter,
+    PrAdapterConfig,
+    PullRequestData,
+    PullRequestResult,
+    BranchResult,
+    CommitResult,
+    FileChange,
+    PrAdapterError,
+    RateLimitExceededError,
+    AuthenticationFailedError,
+    ResourceNotFoundError,
+    ConflictError
+} from "./pr-adapter.interface";
+import { patchToFileChanges } from "./patch-files";
+
+const DEFAULT_BASE_URL = "https://gitlab.com/api/v4";
+const DEFAULT_TIMEOUT = 30000;
+
+interface GitLabMergeRequest {
+    id: number;
+    iid: number;
+    web_url: string;
+    state: string;
+    title: string;
+    source_branch: string;
+    target_branch: string;
+    created_at: string;
+    updated_at: string;
+    reviewers?: Array<{ id: number }>;
+}
+
+export class GitLabAdapter implements IPrAdapter {
+    readonly name = "gitlab";
+    private config: PrAdapterConfig;
+    private defaultBranch?: string;
+    private lastRateLimitRemaining?: number;
+
+    constructor(config: PrAdapterConfig) {
+        this.config = {
+            baseUrl: DEFAULT_BASE_URL,
+            timeout: DEFAULT_TIMEOUT,
+            ...config
+        };
+    }
+
+    /**
+     * owner may contain subgroups ("group/subgroup"). Self-hosted instances
+     * default to https://<host>/api/v4 unless GITLAB_API_URL is set.
+     */
+    static fromEnv(owner: string, repo: string, host?: string): GitLabAdapter {
+        const token = process.env.GITLAB_TOKEN;
+        if (!token) {
+            throw new Error("GITLAB_TOKEN environment variable is required");
+        }
+        const hostUrl = host && host !== "gitlab.com" ? `https://${host}/api/v4` : undefined;
+        return new GitLabAdapter({
+            token,
+            owner,
+            repo,
+            baseUrl: process.env.GITLAB_API_URL ?? hostUrl
+        });
+    }
+
+    private get projectPath(): string {
+        return `/projects/${encodeURIComponent(`${this.config.owner}/${this.config.repo}`)}`;
+    }
+
+    private async request<T>(
+        method: string,
+        endpoint: string,
+        body?: Record<string, unknown>
+    ): Promise<T> {
+        const url = `${this.config.baseUrl}${endpoint}`;
+        const headers: Record<string, string> = {
+            "PRIVATE-TOKEN": this.config.token,
+            Accept: "application/json"
+        };
+
+        if (body) {
+            headers["Content-Type"] = "application/json";
+        }
+
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), this.config.timeout);
+
+        try {
+            const response = await fetch(url, {
+                method,
+                headers,
+                body: body ? JSON.stringify(body) : undefined,
+                signal: controller.signal
+            });
+
+            const remaining = response.headers.get("ratelimit-remaining");
+            if (remaining !== null) {
+                this.lastRateLimitRemaining = parseInt(remaining, 10);
+            }
+
+            if (!response.ok) {
+                await this.handleError(response);
+            }
+
+            if (response.status === 204) {
+                return {} as T;
+            }
+
+            const text = await response.text();
+            return (text ? JSON.parse(text) : {}) as T;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+
+    private async handleError(response: Response): Promise<never> {
+        const body = await response.text();
+
+        if (response.status === 429) {
+            const retryAfter = response.headers.get("retry-after");
+            const retryMs = retryAfter ? parseInt(retryAfter, 10) * 1000 : 60000;
+            throw new RateLimitExceededError("gitlab", retryMs);
+        }
+
+        if (response.status === 401 || response.status === 403) {
+            throw new AuthenticationFailedError("gitlab");
+        }
+
+        if (response.status === 404) {
+            throw new ResourceNotFoundError("gitlab", "Resource");
+        }
+
+        // GitLab answers 405/406 when a merge request cannot be merged or closed in its current state
+        if (response.status === 405 || response.status === 406 || response.status === 409 || response.status === 422) {
+            throw new ConflictError("gitlab", `Conflict: ${body}`);
+        }
+
+        throw new PrAdapterError(
+            `GitLab API error: ${body}`,
+            "gitlab",
+            response.status,
+            response.status >= 500
+        );
+    }
+
+    private mapMergeRequest(mr: GitLabMergeRequest): PullRequestResult {
+        const state: PullRequestResult["state"] =
+            mr.state === "merged" ? "merged" : mr.state === "closed" ? "closed" : "open";
+        return {
+            id: mr.id,
+            number: mr.iid,
+            url: `${this.config.baseUrl}${this.projectPath}/merge_requests/${mr.iid}`,
+            htmlUrl: mr.web_url,
+            state,
+            title: mr.title,
+            headBranch: mr.source_branch,
+            baseBranch: mr.target_branch,
+            createdAt: mr.created_at,
+            updatedAt: mr.updated_at
+        };
+    }
+
+    private async resolveUserIds(usernames: string[]): Promise<number[]> {
+        const ids: number[] = [];
+        for (const username of usernames) {
+            const users = await this.request<Array<{ id: number }>>(
+                "GET",
+                `/users?username=${encodeURIComponent(username)}`
+            );
+            if (users.length === 0) {
+                throw new ResourceNotFoundError("gitlab", `User ${username}`);
+            }
+            ids.push(users[0].id);
+        }
+        return ids;
+    }
+
+    private async fileExists(branchName: string, path: string): Promise<boolean> {
+        try {
+            await this.request<unknown>(
+                "GET",
+                `${this.projectPath}/repository/files/${encodeURIComponent(path)}?ref=${encodeURIComponent(branchName)}`
+            );
+            return true;
+        } catch (error) {
+            if (error instanceof ResourceNotFoundError) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    async getDefaultBranch(): Promise<string> {
+        if (this.defaultBranch) return this.defaultBranch;
+
+        const project = await this.request<{ default_branch: string }>("GET", this.projectPath);
+        this.defaultBranch = project.default_branch;
+        return this.defaultBranch;
+    }
+
+    async getBranchSha(branchName: string): Promise<string> {
+        const branch = await this.request<{ commit: { id: string } }>(
+            "GET",
+            `${this.projectPath}/repository/branches/${encodeURIComponent(branchName)}`
+        );
+        return branch.commit.id;
+    }
+
+    async branchExists(branchName: string): Promise<boolean> {
+        try {
+            await this.getBranchSha(branchName);
+            return true;
+        } catch (error) {
+            if (error instanceof ResourceNotFoundError) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    async createBranch(branchName: string, fromBranch?: string): Promise<BranchResult> {
+        const sourceBranch = fromBranch ?? await this.getDefaultBranch();
+
+        const branch = await this.request<{
+            name: string;
+            protected: boolean;
+            commit: { id: string };
+        }>("POST", `${this.projectPath}/repository/branches`, {
+            branch: branchName,
+            ref: sourceBranch
+        });
+
+        return {
+            name: branch.name,
+            sha: branch.commit.id,
+            protected: branch.protected
+        };
+    }
+
+    async deleteBranch(branchName: string): Promise<void> {
+        await this.request<void>(
+            "DELETE",
+            `${this.projectPath}/repository/branches/${encodeURIComponent(branchName)}`
+        );
+    }
+
+    async createOrUpdateFile(
+        branchName: string,
+        path: string,
+        content: string,
+        message: string
+    ): Promise<CommitResult> {
+        return this.commitFiles(branchName, [{ path, content }], message);
+    }
+
+    async commitFiles(
+        branchName: string,
+        files: FileChange[],
+        message: string
+    ): Promise<CommitResult> {
+        // The commits API needs to know whether each file is created or updated
+        const actions = [];
+        for (const file of files) {
+            actions.push({
+                action: await this.fileExists(branchName, file.path) ? "update" : "create",
+                file_path: file.path,
+                content: file.content,
+                encoding: file.encoding === "base64" ? "base64" : "text"
+            });
+        }
+
+        const commit = await this.request<{ id: string; message: string; web_url: string }>(
+            "POST",
+            `${this.projectPath}/repository/commits`,
+            {
+                branch: branchName,
+                commit_message: message,
+                actions
+            }
+        );
+
+        return {
+            sha: commit.id,
+            message: commit.message,
+            url: commit.web_url
+        };
+    }
+
+    async applyPatch(
+        branchName: string,
+        patchText: string,
+        commitMessage: string
+    ): Promise<CommitResult> {
+        const files = patchToFileChanges(patchText);
+
+        if (files.length === 0) {
+            throw new PrAdapterError("No file changes found in patch", "gitlab", 400, false);
+        }
+
+        return this.commitFiles(branchName, files, commitMessage);
+    }
+
+    async createPullRequest(data: PullRequestData): Promise<PullRequestResult> {
+        const reviewerIds = data.reviewers?.length ? await this.resolveUserIds(data.reviewers) : [];
+        const assigneeIds = data.assignees?.length ? await this.resolveUserIds(data.assignees) : [];
+
+        const mr = await this.request<GitLabMergeRequest>("POST", `${this.projectPath}/merge_requests`, {
+            title: data.draft ? `Draft: ${data.title}` : data.title,
+            description: data.body,
+            source_branch: data.sourceBranch,
+            target_branch: data.targetBranch,
+            ...(data.labels?.length && { labels: data.labels.join(",") }),
+            ...(reviewerIds.length && { reviewer_ids: reviewerIds }),
+            ...(assigneeIds.length && { assignee_ids: assigneeIds })
+        });
+
+        return this.mapMergeRequest(mr);
+    }
+
+    async getPullRequest(prNumber: number): Promise<PullRequestResult> {
+        const mr = await this.request<GitLabMergeRequest>(
+            "GET",
+            `${this.projectPath}/merge_requests/${prNumber}`
+        );
+        return this.mapMergeRequest(mr);
+    }
+
+    async updatePullRequest(
+        prNumber: number,
+        data: Partial<PullRequestData>
+    ): Promise<PullRequestResult> {
+        const mr = await this.request<GitLabMergeRequest>(
+            "PUT",
+            `${this.projectPath}/merge_requests/${prNumber}`,
+            {
+                ...(data.title && { title: data.title }),
+                ...(data.body && { description: data.body }),
+                ...(data.targetBranch && { target_branch: data.targetBranch })
+            }
+        );
+        return this.mapMergeRequest(mr);
+    }
+
+    async addReviewers(prNumber: number, reviewers: string[]): Promise<void> {
+        // reviewer_ids replaces the list, so keep the reviewers already assigned
+        const current = await this.request<GitLabMergeRequest>(
+            "GET",
+            `${this.projectPath}/merge_requests/${prNumber}`
+        );
+        const ids = new Set((current.reviewers ?? []).map((reviewer) => reviewer.id));
+        for (const id of await this.resolveUserIds(reviewers)) {
+            ids.add(id);
+        }
+        await this.request<void>("PUT", `${this.projectPath}/merge_requests/${prNumber}`, {
+            reviewer_ids: Array.from(ids)
+        });
+    }
+
+    async mergePullRequest(
+        prNumber: number,
+        mergeMethod: "merge" | "squash" | "rebase" = "squash"
+    ): Promise<void> {
+        if (mergeMethod === "rebase") {
+            // Fast-forward/rebase merges are a project setting in GitLab, not a per-request option
+            throw new PrAdapterError("Rebase merge is configured per project in GitLab", "gitlab", 400, false);
+        }
+        await this.request<void>(
+            "PUT",
+            `${this.projectPath}/merge_requests/${prNumber}/merge`,
+            { squash: mergeMethod === "squash" }
+        );
+    }
+
+    async closePullRequest(prNumber: number): Promise<void> {
+        await this.request<void>(
+            "PUT",
+            `${this.projectPath}/merge_requests/${prNumber}`,
+            { state_event: "close" }
+        );
+    }
+
+    async healthCheck(): Promise<{ healthy: boolean; rateLimitRemaining?: number }> {
+        try {
+            await this.request<unknown>("GET", this.projectPath);
+            return {
+                healthy: true,
+                rateLimitRemaining: this.lastRateLimitRemaining
+            };
+        } catch {
+            return { healthy: false };
+        }
+    }
+}
@@ -2,5 +2,74 @@
  * PR Adapters module exports
  */
 
+import { IPrAdapter } from "./pr-adapter.interface";
+import { GitHubAdapter } from "./github-adapter";
+import { GitLabAdapter } from "./gitlab-adapter";
+import { BitbucketAdapter } from "./bitbucket-adapter";
+import { GiteaAdapter } from "./gitea-adapter";
+import { GitRemote, hostName, isBitbucketHost, isGitHubHost, isGitLabHost, isGiteaHost } from "./remote";
+
 export * from "./pr-adapter.interface";
 export * from "./github-adapter";
+export * from "./gitlab-adapter";
+export * from "./bitbucket-adapter";
+export * from "./gitea-adapter";
+export * from "./remote";
+
+export type PrProvider = "github" | "gitlab" | "bitbucket" | "gitea";
+
+const PR_ADAPTER_FACTORIES: Record<PrProvider, (remote: GitRemote) => IPrAdapter> = {
+    github: (remote) => GitHubAdapter.fromEnv(remote.owner, remote.repo),
+    gitlab: (remote) => GitLabAdapter.fromEnv(remote.owner, remote.repo, remote.host),
+    bitbucket: (remote) => BitbucketAdapter.fromEnv(remote.owner, remote.repo),
+    gitea: (remote) => GiteaAdapter.fromEnv(remote.owner, remote.repo, remote.host)
+};
+
+function isPrProvider(value: string): value is PrProvider {
+    return Object.prototype.hasOwnProperty.call(PR_ADAPTER_FACTORIES, value);
+}
+
+/**
+ * TRCODER_PR_HOSTS maps self-hosted instances to a provider,
+ * e.g. "code.example.com=gitlab,git.example.com:3000=gitea".
+ */
+function configuredPrHosts(): Map<string, PrProvider> {
+    const hosts = new Map<string, PrProvider>();
+    for (const entry of (process.env.TRCODER_PR_HOSTS ?? "").split(",")) {
+        const [host, provider] = entry.split("=").map((part) => part?.trim().toLowerCase());
+        if (host && provider && isPrProvider(provider)) {
+            hosts.set(host, provider);
+        }
+    }
+    return hosts;
+}
+
+/**
+ * Configured hosts win over detection by host name. An entry without a port
+ * covers the host on any port.
+ */
+export function resolvePrProvider(host: string): PrProvider | null {
+    const hosts = configuredPrHosts();
+    const configured = hosts.get(host) ?? hosts.get(hostName(host));
+    if (configured) return configured;
+    if (isGitHubHost(host)) return "github";
+    if (isGitLabHost(host)) return "gitlab";
+    if (isBitbucketHost(host)) return "bitbucket";
+    if (isGiteaHost(host)) return "gitea";
+    return null;
+}
+
+/**
+ * Throws when the adapter's credentials are missing from the environment.
+ */
+export function createPrAdapterFor(provider: PrProvider, remote: GitRemote): IPrAdapter {
+    return PR_ADAPTER_FACTORIES[provider](remote);
+}
+
+/**
+ * Returns null for hosts no adapter handles.
+ */
+export function createPrAdapter(remote: GitRemote): IPrAdapter | null {
+    const provider = resolvePrProvider(remote.host);
+    return provider ? createPrAdapterFor(provider, remote) : null;
+}
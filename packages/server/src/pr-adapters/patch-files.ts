@@ -0,0 +1,51 @@
+/**
+ * Patch to file changes
+ *
+ * Shared by adapters that commit through a hosting API instead of git
+ */
+
+import { FileChange } from "./pr-adapter.interface";
+
+export function patchToFileChanges(patchText: string): FileChange[] {
+    const files: FileChange[] = [];
+    const chunks = patchText.split(/(?=^diff --git)/m).filter(Boolean);
+
+    for (const chunk of chunks) {
+        const match = /^diff --git a\/(.+?) b\/(.+?)$/m.exec(chunk);
+        if (!match) continue;
+
+        const filePath = match[2];
+
+        // Extract the new content (simplified - in production, use proper patch parsing)
+        const newFileMatch = /^\+\+\+ b\/(.+?)$/m.exec(chunk);
+        if (!newFileMatch) continue;
+
+        // Extract added lines
+        const lines = chunk.split("\n");
+        const contentLines: string[] = [];
+        let inHunk = false;
+
+        for (const line of lines) {
+            if (line.startsWith("@@")) {
+                inHunk = true;
+                continue;
+            }
+            if (inHunk) {
+                if (line.startsWith("+") && !line.startsWith("+++")) {
+                    contentLines.push(line.slice(1));
+                } else if (!line.startsWith("-")) {
+                    contentLines.push(line.startsWith(" ") ? line.slice(1) : line);
+                }
+            }
+        }
+
+        if (contentLines.length > 0) {
+            files.push({
+                path: filePath,
+                content: contentLines.join("\n")
+            });
+        }
+    }
+
+    return files;
+}
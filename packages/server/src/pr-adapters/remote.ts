@@ -0,0 +1,86 @@
+/**
+ * Git remote URL parsing
+ *
+ * Splits remote.origin.url into host + owner/repo for any Git hosting provider
+ */
+
+export interface GitRemote {
+    /** Includes the port of http(s) remotes ("code.internal:8443"); SSH ports are dropped */
+    host: string;
+    /** Everything between the host and the repo name; may contain nested groups (GitLab subgroups) */
+    owner: string;
+    repo: string;
+}
+
+export function parseGitRemote(remoteUrl: string): GitRemote | null {
+    const trimmed = remoteUrl.trim().replace(/\/+$/, "").replace(/\.git$/, "");
+
+    let host: string | undefined;
+    let repoPath: string | undefined;
+
+    // https://host/owner/repo, http://user@host:8080/owner/repo, ssh://git@host:2222/owner/repo
+    const urlMatch = trimmed.match(/^(https?|ssh|git):\/\/(?:[^@/]+@)?([^/:]+)(?::(\d+))?\/(.+)$/i);
+    if (urlMatch) {
+        const [, scheme, name, port] = urlMatch;
+        // A web port belongs to the instance (its API lives there too); an SSH port does not
+        host = port && /^https?$/i.test(scheme) ? `${name}:${port}` : name;
+        repoPath = urlMatch[4];
+    } else {
+        // scp-like: git@host:owner/repo
+        const scpMatch = trimmed.match(/^(?:[^@/]+@)?([^/:]+):(?!\/)(.+)$/);
+        if (scpMatch) {
+            host = scpMatch[1];
+            repoPath = scpMatch[2];
+        }
+    }
+
+    if (!host || !repoPath) {
+        return null;
+    }
+
+    const segments = repoPath.split("/").filter(Boolean);
+    if (segments.length < 2) {
+        return null;
+    }
+
+    return {
+        host: host.toLowerCase(),
+        owner: segments.slice(0, -1).join("/"),
+        repo: segments[segments.length - 1]
+    };
+}
+
+/**
+ * The host without its port, for matching by name.
+ */
+export function hostName(host: string): string {
+    return host.replace(/:\d+$/, "");
+}
+
+export function isGitHubHost(host: string): boolean {
+    return hostName(host) === "github.com";
+}
+
+/**
+ * gitlab.com and hosts named like GitLab; other self-hosted instances go in TRCODER_PR_HOSTS.
+ */
+export function isGitLabHost(host: string): boolean {
+    const name = hostName(host);
+    return name === "gitlab.com" || name.split(".").includes("gitlab");
+}
+
+export function isBitbucketHost(host: string): boolean {
+    return hostName(host) === "bitbucket.org";
+}
+
+/**
+ * Public Gitea/Forgejo instances and hosts named like either project.
+ */
+export function isGiteaHost(host: string): boolean {
+    const name = hostName(host);
+    if (name === "gitea.com" || name === "codeberg.org") {
+        return true;
+    }
+    const labels = name.split(".");
+    return labels.includes("gitea") || labels.includes("forgejo");
+}
@@ -0,0 +1,201 @@
+import { ContextPackManifest, TaskDefinition } from "@trcoder/shared";
+
+export interface PromptFile {
+  path: string;
+  why: string;
+  start_line?: number;
+  content?: string;
+}
+
+export interface PromptStats {
+  max_lines: number;
+  lines_used: number;
+  files_listed: number;
+  files_hydrated: number;
+  files_truncated: number;
+  files_omitted: number;
+}
+
+export interface FixAttempt {
+  iteration: number;
+  max_iters: number;
+  mode: "replace" | "stack";
+  failures: Array<{ gate: string; exit_code: number; output: string }>;
+  previous_patch?: string;
+}
+
+export interface RebaseAttempt {
+  // One line per file that no longer applies to the current HEAD
+  conflicts: string[];
+  previous_patch: string;
+}
+
+// Patch of a task that ran earlier in the same run; it is not applied to the files the runner reads
+export interface PriorPatch {
+  task_id: string;
+  patch_text: string;
+}
+
+export interface PatchPrompt {
+  instructions: string;
+  // Verify failures, previous patch and rebase conflicts of a fix or rebase attempt; empty otherwise
+  attempt: string;
+  // Signals, earlier tasks' patches and file content; the same on every attempt for a task
+  context: string;
+  stats: PromptStats;
+}
+
+class LineBudget {
+  readonly lines: string[] = [];
+
+  constructor(private readonly maxLines: number) {}
+
+  get remaining(): number {
+    return Math.max(0, this.maxLines - this.lines.length);
+  }
+
+  // Pushes as many lines as fit; returns how many were dropped.
+  push(lines: string[]): number {
+    const fit = lines.slice(0, this.remaining);
+    this.lines.push(...fit);
+    return lines.length - fit.length;
+  }
+}
+
+function bulletList(label: string, items: string[] | undefined): string[] {
+  if (!items || items.length === 0) return [];
+  return [`${label}:`, ...items.map((item) => `- ${item}`)];
+}
+
+export function buildTaskInstructions(task: TaskDefinition): string {
+  const scope = task.scope ?? {};
+  return [
+    `Task ${task.id}: ${task.title}`,
+    `Type: ${task.type} | Risk: ${task.risk}`,
+    ...bulletList("Acceptance criteria", task.acceptance),
+    ...bulletList("Scope paths", scope.paths),
+    ...bulletList("Excluded paths", scope.exclude_paths),
+    ...bulletList("Symbols", scope.symbols),
+    ...bulletList("Queries", scope.queries),
+    "Only touch files inside the scope. Return a single unified diff."
+  ].join("\n");
+}
+
+export function buildFixInstructions(fix: FixAttempt): string {
+  return [
+    `Fix attempt ${fix.iteration}/${fix.max_iters}: the previous patch failed the verify gates listed below.`,
+    fix.mode === "stack"
+      ? "Return only the additional changes to apply on top of the previous patch."
+      : "Return a complete replacement for the previous patch."
+  ].join("\n");
+}
+
+export function buildRebaseInstructions(rebase: RebaseAttempt): string {
+  return [
+    `The previous patch no longer applies to the current HEAD (${rebase.conflicts.length} file(s) conflict).`,
+    "Redo the same change against the file contents in the context and return a complete replacement patch."
+  ].join("\n");
+}
+
+/**
+ * Assembles the provider prompt for a task. Verify failures, previous patches
+ * and rebase conflicts change on every fix or rebase attempt, so they go into
+ * `attempt` with a line budget of their own and leave `context` unchanged
+ * between attempts. The context starts with the signals, then the patches of
+ * earlier tasks in the run, which the file content does not include yet; file
+ * content fills whatever is left of budgets.max_lines, and files that no longer
+ * fit are listed as omitted.
+ */
+export function buildPatchPrompt(input: {
+  task: TaskDefinition;
+  pack: ContextPackManifest;
+  files: PromptFile[];
+  prior_patches?: PriorPatch[];
+  fix?: FixAttempt;
+  rebase?: RebaseAttempt;
+}): PatchPrompt {
+  const maxLines = Math.max(0, input.pack.budgets.max_lines);
+  const attempt = new LineBudget(maxLines);
+  const budget = new LineBudget(maxLines);
+  const signals = input.pack.signals ?? {};
+
+  if (input.fix) {
+    for (const failure of input.fix.failures) {
+      attempt.push([`Verify gate ${failure.gate} failed (exit ${failure.exit_code}):`, ...failure.output.split(/\r?\n/)]);
+    }
+    if (input.fix.previous_patch?.trim()) {
+      attempt.push(["Previous patch:", ...input.fix.previous_patch.trim().split(/\r?\n/)]);
+    }
+  }
+  if (input.rebase) {
+    attempt.push(bulletList("Conflicts with the current HEAD", input.rebase.conflicts));
+    if (input.rebase.previous_patch.trim()) {
+      attempt.push(["Previous patch:", ...input.rebase.previous_patch.trim().split(/\r?\n/)]);
+    }
+  }
+  budget.push(bulletList("Failing tests", signals.failing_tests));
+  if (signals.diff_summary?.trim()) {
+    budget.push(["Working tree diff summary:", ...signals.diff_summary.trim().split(/\r?\n/)]);
+  }
+  budget.push(bulletList("Working tree status", signals.logs));
+  for (const prior of input.prior_patches ?? []) {
+    if (!prior.patch_text.trim()) continue;
+    budget.push([
+      `Patch from earlier task ${prior.task_id} (not yet applied to the files below):`,
+      ...prior.patch_text.trim().split(/\r?\n/)
+    ]);
+  }
+
+  const files = input.files.slice(0, input.pack.budgets.max_files);
+  const stats: PromptStats = {
+    max_lines: maxLines,
+    lines_used: 0,
+    files_listed: 0,
+    files_hydrated: 0,
+    files_truncated: 0,
+    files_omitted: input.files.length - files.length
+  };
+
+  for (const file of files) {
+    if (budget.remaining === 0) {
+      stats.files_omitted += 1;
+      continue;
+    }
+    if (file.content === undefined) {
+      budget.push([`File: ${file.path} (${file.why})`]);
+      stats.files_listed += 1;
+      continue;
+    }
+    const startLine = file.start_line ?? 1;
+    const header = `File: ${file.path} (${file.why}) from line ${startLine}`;
+    const body = file.content.split(/\r?\n/);
+    // Header, one content line and a truncation marker, or the file is not worth including.
+    if (budget.remaining < 3) {
+      stats.files_omitted += 1;
+      continue;
+    }
+    budget.push([header]);
+    const dropped = budget.push(body);
+    stats.files_hydrated += 1;
+    if (dropped > 0) {
+      stats.files_truncated += 1;
+      budget.lines[budget.lines.length - 1] = `...<truncated ${dropped + 1} lines>`;
+    }
+  }
+
+  if (stats.files_omitted > 0) {
+    // The omission note is informative only and may overrun the budget by one line.
+    budget.lines.push(`(${stats.files_omitted} more file(s) omitted: context budget exhausted)`);
+  }
+
+  stats.lines_used = budget.lines.length + attempt.lines.length;
+  const instructions = [buildTaskInstructions(input.task)];
+  if (input.fix) instructions.push(buildFixInstructions(input.fix));
+  if (input.rebase) instructions.push(buildRebaseInstructions(input.rebase));
+  return {
+    instructions: instructions.join("\n"),
+    attempt: attempt.lines.join("\n"),
+    context: budget.lines.join("\n"),
+    stats
+  };
+}
@@ -6,20 +6,34 @@ import {
     IModelProvider,
     ChatCompletionRequest,
     ChatCompletionResponse,
+    StreamChunk,
     ProviderConfig,
     ProviderHealth,
     ProviderError,
     RateLimitError,
     AuthenticationError,
-    ChatMessage
+    ChatMessage,
+    PatchRequest,
+    buildPatchMessages
 } from "./provider.interface";
 import { withRetry, CircuitBreaker, RateLimiter } from "./retry";
+import { SseMessage, readSseStream } from "./stream";
 
 const DEFAULT_BASE_URL = "https://api.anthropic.com";
 const DEFAULT_TIMEOUT = 30000;
 const DEFAULT_MAX_RETRIES = 2;
 const API_VERSION = "2024-01-01";
 
+interface AnthropicUsage {
+    // Input after the last cache breakpoint; cache reads and writes are reported apart from it
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_read_input_tokens?: number;
+    cache_creation_input_tokens?: number;
+}
+
+type AnthropicContent = string | Array<{ type: "text"; text: string; cache_control?: { type: "ephemeral" } }>;
+
 interface AnthropicConfig extends ProviderConfig {
     requestsPerMinute?: number;
 }
@@ -89,6 +103,50 @@ export class AnthropicProvider implements IModelProvider {
         }
     }
 
+    private async requestStream(
+        endpoint: string,
+        body: Record<string, unknown>,
+        onMessage: (message: SseMessage) => void
+    ): Promise<void> {
+        await this.rateLimiter.acquire();
+
+        const url = `${this.config.baseUrl}${endpoint}`;
+        const headers: Record<string, string> = {
+            "Content-Type": "application/json",
+            "x-api-key": this.config.apiKey,
+            "anthropic-version": API_VERSION
+        };
+
+        // For streams the timeout is an idle timeout, reset on every chunk
+        const controller = new AbortController();
+        let timeout = setTimeout(() => controller.abort(), this.config.timeout);
+        const touch = () => {
+            clearTimeout(timeout);
+            timeout = setTimeout(() => controller.abort(), this.config.timeout);
+        };
+
+        try {
+            const response = await fetch(url, {
+                method: "POST",
+                headers,
+                body: JSON.stringify(body),
+                signal: controller.signal
+            });
+
+            if (!response.ok) {
+                const errorBody = await response.text();
+                this.handleError(response.status, errorBody);
+            }
+            if (!response.body) {
+                throw new ProviderError("Anthropic stream returned no body", "anthropic", response.status, true);
+            }
+
+            await readSseStream(response.body, onMessage, touch);
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+
     private handleError(status: number, body: string): never {
         this.lastError = body;
         this.lastErrorTime = new Date();
@@ -124,17 +182,14 @@ export class AnthropicProvider implements IModelProvider {
                 model: string;
                 content: Array<{ type: string; text: string }>;
                 stop_reason: string;
-                usage: {
-                    input_tokens: number;
-                    output_tokens: number;
-                };
+                usage: AnthropicUsage;
             }>("/v1/messages", {
                 model,
                 max_tokens: request.max_tokens ?? 4096,
-                system: systemMessage?.content,
+                system: systemMessage ? this.toContent(systemMessage) : undefined,
                 messages: userMessages.map((m) => ({
                     role: m.role === "assistant" ? "assistant" : "user",
-                    content: m.content
+                    content: this.toContent(m)
                 })),
                 temperature: request.temperature ?? 0.7,
                 stop_sequences: request.stop
@@ -150,11 +205,7 @@ export class AnthropicProvider implements IModelProvider {
                 model: response.model,
                 content,
                 finish_reason: this.mapStopReason(response.stop_reason),
-                usage: {
-                    prompt_tokens: response.usage.input_tokens,
-                    completion_tokens: response.usage.output_tokens,
-                    total_tokens: response.usage.input_tokens + response.usage.output_tokens
-                }
+                usage: this.mapUsage(response.usage)
             };
         };
 
@@ -165,29 +216,89 @@ export class AnthropicProvider implements IModelProvider {
         );
     }
 
-    async generatePatch(input: {
-        task_id: string;
-        instructions?: string;
-        context?: string;
-    }): Promise<{ patchText: string; summary: string; changedFiles: number; usage: ChatCompletionResponse["usage"] }> {
-        const systemPrompt = `You are a code assistant that generates unified diff patches.
-Output ONLY the patch in unified diff format, nothing else.
-The patch should be minimal and focused on the requested changes.`;
-
-        const userPrompt = `Task ID: ${input.task_id}
-${input.instructions ? `Instructions: ${input.instructions}` : ""}
-${input.context ? `Context:\n${input.context}` : ""}
-
-Generate a patch to complete this task.`;
-
-        const response = await this.chat({
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
-            ],
+    async chatStream(
+        request: ChatCompletionRequest,
+        onChunk: (chunk: StreamChunk) => void
+    ): Promise<ChatCompletionResponse> {
+        const model = this.mapModel(request.model ?? "claude-sonnet-4.5");
+        const systemMessage = request.messages.find((m) => m.role === "system");
+        const userMessages = request.messages.filter((m) => m.role !== "system");
+        // Once text reached the caller a retry would repeat it, so only retry before the first delta
+        let emitted = false;
+
+        const fn = async () => {
+            let id = "";
+            let responseModel = model;
+            let content = "";
+            let stopReason = "";
+            let usage: AnthropicUsage = {};
+
+            await this.requestStream("/v1/messages", {
+                model,
+                max_tokens: request.max_tokens ?? 4096,
+                system: systemMessage ? this.toContent(systemMessage) : undefined,
+                messages: userMessages.map((m) => ({
+                    role: m.role === "assistant" ? "assistant" : "user",
+                    content: this.toContent(m)
+                })),
+                temperature: request.temperature ?? 0.7,
+                stop_sequences: request.stop,
+                stream: true
+            }, (message) => {
+                const data = JSON.parse(message.data) as {
+                    type: string;
+                    message?: { id: string; model: string; usage?: AnthropicUsage };
+                    delta?: { type?: string; text?: string; stop_reason?: string };
+                    usage?: { output_tokens?: number };
+                    error?: { type?: string; message?: string };
+                };
+
+                if (data.type === "message_start" && data.message) {
+                    id = data.message.id;
+                    responseModel = data.message.model;
+                    usage = data.message.usage ?? {};
+                } else if (data.type === "content_block_delta" && data.delta?.type === "text_delta") {
+                    const delta = data.delta.text ?? "";
+                    emitted = emitted || delta.length > 0;
+                    content += delta;
+                    onChunk({ delta, finish_reason: null });
+                } else if (data.type === "message_delta") {
+                    stopReason = data.delta?.stop_reason ?? stopReason;
+                    usage = { ...usage, output_tokens: data.usage?.output_tokens ?? usage.output_tokens };
+                    onChunk({ delta: "", finish_reason: this.mapStopReason(stopReason) });
+                } else if (data.type === "error") {
+                    throw new ProviderError(
+                        `Anthropic stream error: ${data.error?.message ?? "unknown"}`,
+                        "anthropic",
+                        undefined,
+                        data.error?.type === "overloaded_error"
+                    );
+                }
+            });
+
+            return {
+                id,
+                model: responseModel,
+                content,
+                finish_reason: this.mapStopReason(stopReason),
+                usage: this.mapUsage(usage)
+            };
+        };
+
+        return this.circuitBreaker.execute(() =>
+            withRetry(fn, { maxRetries: this.config.maxRetries }, (error) => {
+                return error instanceof ProviderError && error.retryable && !emitted;
+            })
+        );
+    }
+
+    async generatePatch(input: PatchRequest, onChunk?: (chunk: StreamChunk) => void): Promise<{ patchText: string; summary: string; changedFiles: number; usage: ChatCompletionResponse["usage"] }> {
+        const request: ChatCompletionRequest = {
+            messages: buildPatchMessages(input),
             temperature: 0.3,
             max_tokens: 8192
-        });
+        };
+        const response = onChunk ? await this.chatStream(request, onChunk) : await this.chat(request);
 
         const patchText = response.content;
         const changedFiles = (patchText.match(/^diff --git/gm) || []).length;
@@ -222,6 +333,26 @@ Generate a patch to complete this task.`;
         }
     }
 
+    /** Cacheable messages become a text block with a cache breakpoint at its end. */
+    private toContent(message: ChatMessage): AnthropicContent {
+        if (!message.cache) return message.content;
+        return [{ type: "text", text: message.content, cache_control: { type: "ephemeral" } }];
+    }
+
+    private mapUsage(usage: AnthropicUsage): ChatCompletionResponse["usage"] {
+        const cached = usage.cache_read_input_tokens ?? 0;
+        const written = usage.cache_creation_input_tokens ?? 0;
+        const prompt = (usage.input_tokens ?? 0) + cached + written;
+        const completion = usage.output_tokens ?? 0;
+        return {
+            prompt_tokens: prompt,
+            completion_tokens: completion,
+            total_tokens: prompt + completion,
+            cached_prompt_tokens: cached,
+            cache_write_tokens: written
+        };
+    }
+
     private mapModel(model: string): string {
         const modelMap: Record<string, string> = {
             "claude-opus-4.5": "claude-3-opus-20240229",
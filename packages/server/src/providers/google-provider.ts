@@ -6,19 +6,31 @@ import {
     IModelProvider,
     ChatCompletionRequest,
     ChatCompletionResponse,
+    StreamChunk,
     ProviderConfig,
     ProviderHealth,
     ProviderError,
     RateLimitError,
     AuthenticationError,
-    ModelNotFoundError
+    ModelNotFoundError,
+    PatchRequest,
+    buildPatchMessages
 } from "./provider.interface";
 import { withRetry, CircuitBreaker, RateLimiter } from "./retry";
+import { SseMessage, readSseStream } from "./stream";
 
 const DEFAULT_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
 const DEFAULT_TIMEOUT = 30000;
 const DEFAULT_MAX_RETRIES = 2;
 
+interface GoogleUsage {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+    // Part of promptTokenCount served from the cache
+    cachedContentTokenCount?: number;
+}
+
 interface GoogleConfig extends ProviderConfig {
     requestsPerMinute?: number;
 }
@@ -90,6 +102,49 @@ export class GoogleProvider implements IModelProvider {
         }
     }
 
+    private async requestStream(
+        model: string,
+        body: Record<string, unknown>,
+        onMessage: (message: SseMessage) => void
+    ): Promise<void> {
+        await this.rateLimiter.acquire();
+
+        const resolvedModel = this.mapModel(model);
+        const url = `${this.config.baseUrl}/models/${resolvedModel}:streamGenerateContent?alt=sse&key=${this.config.apiKey}`;
+        const headers: Record<string, string> = {
+            "Content-Type": "application/json"
+        };
+
+        // For streams the timeout is an idle timeout, reset on every chunk
+        const controller = new AbortController();
+        let timeout = setTimeout(() => controller.abort(), this.config.timeout);
+        const touch = () => {
+            clearTimeout(timeout);
+            timeout = setTimeout(() => controller.abort(), this.config.timeout);
+        };
+
+        try {
+            const response = await fetch(url, {
+                method: "POST",
+                headers,
+                body: JSON.stringify(body),
+                signal: controller.signal
+            });
+
+            if (!response.ok) {
+                const errorBody = await response.text();
+                this.handleError(response.status, errorBody);
+            }
+            if (!response.body) {
+                throw new ProviderError("Google stream returned no body", "google", response.status, true);
+            }
+
+            await readSseStream(response.body, onMessage, touch);
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+
     private handleError(status: number, body: string): never {
         this.lastError = body;
         this.lastErrorTime = new Date();
@@ -130,11 +185,7 @@ export class GoogleProvider implements IModelProvider {
                     content?: { parts?: Array<{ text?: string }> };
                     finishReason?: string;
                 }>;
-                usageMetadata?: {
-                    promptTokenCount?: number;
-                    candidatesTokenCount?: number;
-                    totalTokenCount?: number;
-                };
+                usageMetadata?: GoogleUsage;
             }>(resolvedModel, {
                 contents,
                 systemInstruction: systemMessage ? { parts: [{ text: systemMessage.content }] } : undefined,
@@ -156,11 +207,7 @@ export class GoogleProvider implements IModelProvider {
                 model: resolvedModel,
                 content,
                 finish_reason: this.mapFinishReason(candidate?.finishReason ?? ""),
-                usage: {
-                    prompt_tokens: usage.promptTokenCount ?? 0,
-                    completion_tokens: usage.candidatesTokenCount ?? 0,
-                    total_tokens: usage.totalTokenCount ?? 0
-                }
+                usage: this.mapUsage(usage)
             };
         };
 
@@ -171,30 +218,81 @@ export class GoogleProvider implements IModelProvider {
         );
     }
 
-    async generatePatch(input: {
-        task_id: string;
-        instructions?: string;
-        context?: string;
-    }): Promise<{ patchText: string; summary: string; changedFiles: number; usage: ChatCompletionResponse["usage"] }> {
-        const systemPrompt = `You are a code assistant that generates unified diff patches.
-Output ONLY the patch in unified diff format, nothing else.
-The patch should be minimal and focused on the requested changes.`;
-
-        const userPrompt = `Task ID: ${input.task_id}
-${input.instructions ? `Instructions: ${input.instructions}` : ""}
-${input.context ? `Context:\n${input.context}` : ""}
-
-Generate a patch to complete this task.`;
-
-        const response = await this.chat({
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
-            ],
+    async chatStream(
+        request: ChatCompletionRequest,
+        onChunk: (chunk: StreamChunk) => void
+    ): Promise<ChatCompletionResponse> {
+        const systemMessage = request.messages.find((m) => m.role === "system");
+        const conversation = request.messages.filter((m) => m.role !== "system");
+        const resolvedModel = this.mapModel(request.model ?? "gemini-1.5-pro");
+
+        const contents = conversation.map((m) => ({
+            role: m.role === "assistant" ? "model" : "user",
+            parts: [{ text: m.content }]
+        }));
+        // Once text reached the caller a retry would repeat it, so only retry before the first delta
+        let emitted = false;
+
+        const fn = async () => {
+            let content = "";
+            let finishReason = "";
+            let usage: GoogleUsage = {};
+
+            await this.requestStream(resolvedModel, {
+                contents,
+                systemInstruction: systemMessage ? { parts: [{ text: systemMessage.content }] } : undefined,
+                generationConfig: {
+                    temperature: request.temperature ?? 0.7,
+                    maxOutputTokens: request.max_tokens ?? 4096,
+                    stopSequences: request.stop
+                }
+            }, (message) => {
+                const chunk = JSON.parse(message.data) as {
+                    candidates?: Array<{
+                        content?: { parts?: Array<{ text?: string }> };
+                        finishReason?: string;
+                    }>;
+                    usageMetadata?: typeof usage;
+                };
+                // usageMetadata is cumulative, so the last chunk carries the totals
+                usage = chunk.usageMetadata ?? usage;
+                const candidate = chunk.candidates?.[0];
+                const delta = candidate?.content?.parts?.map((part) => part.text ?? "").join("") ?? "";
+                finishReason = candidate?.finishReason ?? finishReason;
+                if (delta || candidate?.finishReason) {
+                    emitted = emitted || delta.length > 0;
+                    content += delta;
+                    onChunk({
+                        delta,
+                        finish_reason: candidate?.finishReason ? this.mapFinishReason(candidate.finishReason) : null
+                    });
+                }
+            });
+
+            return {
+                id: `google-${Date.now()}`,
+                model: resolvedModel,
+                content,
+                finish_reason: this.mapFinishReason(finishReason),
+                usage: this.mapUsage(usage)
+            };
+        };
+
+        return this.circuitBreaker.execute(() =>
+            withRetry(fn, { maxRetries: this.config.maxRetries }, (error) => {
+                return error instanceof ProviderError && error.retryable && !emitted;
+            })
+        );
+    }
+
+    async generatePatch(input: PatchRequest, onChunk?: (chunk: StreamChunk) => void): Promise<{ patchText: string; summary: string; changedFiles: number; usage: ChatCompletionResponse["usage"] }> {
+        const request: ChatCompletionRequest = {
+            messages: buildPatchMessages(input),
             temperature: 0.3,
             max_tokens: 8192,
             model: "gemini-1.5-pro"
-        });
+        };
+        const response = onChunk ? await this.chatStream(request, onChunk) : await this.chat(request);
 
         const patchText = response.content;
         const changedFiles = (patchText.match(/^diff --git/gm) || []).length;
@@ -237,6 +335,21 @@ Generate a patch to complete this task.`;
         return null;
     }
 
+    /**
+     * Gemini caches repeated prompt prefixes implicitly, so there is nothing to
+     * mark on the request; generatePatch keeps the stable parts first and the
+     * cached share comes back as cachedContentTokenCount.
+     */
+    private mapUsage(usage: GoogleUsage): ChatCompletionResponse["usage"] {
+        return {
+            prompt_tokens: usage.promptTokenCount ?? 0,
+            completion_tokens: usage.candidatesTokenCount ?? 0,
+            total_tokens: usage.totalTokenCount ?? 0,
+            cached_prompt_tokens: usage.cachedContentTokenCount ?? 0,
+            cache_write_tokens: 0
+        };
+    }
+
     private mapModel(model: string): string {
         const modelMap: Record<string, string> = {
             "gemini-3.0-pro": "gemini-1.5-pro",
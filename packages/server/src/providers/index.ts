@@ -4,6 +4,7 @@
 
 export * from "./provider.interface";
 export * from "./retry";
+export * from "./stream";
 export * from "./openai-provider";
 export * from "./anthropic-provider";
 export * from "./google-provider";
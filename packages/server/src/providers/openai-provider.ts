@@ -2,6 +2,7 @@
  * OpenAI Provider Implementation
  */
 
+import crypto from "crypto";
 import {
     IModelProvider,
     ChatCompletionRequest,
@@ -12,14 +13,26 @@ import {
     ProviderError,
     RateLimitError,
     AuthenticationError,
-    ModelNotFoundError
+    ModelNotFoundError,
+    ChatMessage,
+    cacheablePrefix,
+    PatchRequest,
+    buildPatchMessages
 } from "./provider.interface";
 import { withRetry, CircuitBreaker, RateLimiter } from "./retry";
+import { SseMessage, readSseStream } from "./stream";
 
 const DEFAULT_BASE_URL = "https://api.openai.com/v1";
 const DEFAULT_TIMEOUT = 30000;
 const DEFAULT_MAX_RETRIES = 2;
 
+interface OpenAIUsage {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+}
+
 interface OpenAIConfig extends ProviderConfig {
     requestsPerMinute?: number;
 }
@@ -93,6 +106,53 @@ export class OpenAIProvider implements IModelProvider {
         }
     }
 
+    private async requestStream(
+        endpoint: string,
+        body: Record<string, unknown>,
+        onMessage: (message: SseMessage) => void
+    ): Promise<void> {
+        await this.rateLimiter.acquire();
+
+        const url = `${this.config.baseUrl}${endpoint}`;
+        const headers: Record<string, string> = {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${this.config.apiKey}`
+        };
+
+        if (this.config.organization) {
+            headers["OpenAI-Organization"] = this.config.organization;
+        }
+
+        // For streams the timeout is an idle timeout, reset on every chunk
+        const controller = new AbortController();
+        let timeout = setTimeout(() => controller.abort(), this.config.timeout);
+        const touch = () => {
+            clearTimeout(timeout);
+            timeout = setTimeout(() => controller.abort(), this.config.timeout);
+        };
+
+        try {
+            const response = await fetch(url, {
+                method: "POST",
+                headers,
+                body: JSON.stringify(body),
+                signal: controller.signal
+            });
+
+            if (!response.ok) {
+                const errorBody = await response.text();
+                this.handleError(response.status, errorBody);
+            }
+            if (!response.body) {
+                throw new ProviderError("OpenAI stream returned no body", "openai", response.status, true);
+            }
+
+            await readSseStream(response.body, onMessage, touch);
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+
     private handleError(status: number, body: string): never {
         this.lastError = body;
         this.lastErrorTime = new Date();
@@ -130,17 +190,14 @@ export class OpenAIProvider implements IModelProvider {
                     message: { content: string };
                     finish_reason: string;
                 }>;
-                usage: {
-                    prompt_tokens: number;
-                    completion_tokens: number;
-                    total_tokens: number;
-                };
+                usage: OpenAIUsage;
             }>("/chat/completions", {
                 model,
-                messages: request.messages,
+                messages: this.toMessages(request.messages),
                 temperature: request.temperature ?? 0.7,
                 max_tokens: request.max_tokens ?? 4096,
-                stop: request.stop
+                stop: request.stop,
+                prompt_cache_key: this.promptCacheKey(request.messages)
             });
 
             return {
@@ -148,7 +205,7 @@ export class OpenAIProvider implements IModelProvider {
                 model: response.model,
                 content: response.choices[0]?.message?.content ?? "",
                 finish_reason: response.choices[0]?.finish_reason as ChatCompletionResponse["finish_reason"],
-                usage: response.usage
+                usage: this.mapUsage(response.usage)
             };
         };
 
@@ -159,29 +216,75 @@ export class OpenAIProvider implements IModelProvider {
         );
     }
 
-    async generatePatch(input: {
-        task_id: string;
-        instructions?: string;
-        context?: string;
-    }): Promise<{ patchText: string; summary: string; changedFiles: number; usage: ChatCompletionResponse["usage"] }> {
-        const systemPrompt = `You are a code assistant that generates unified diff patches.
-Output ONLY the patch in unified diff format, nothing else.
-The patch should be minimal and focused on the requested changes.`;
-
-        const userPrompt = `Task ID: ${input.task_id}
-${input.instructions ? `Instructions: ${input.instructions}` : ""}
-${input.context ? `Context:\n${input.context}` : ""}
-
-Generate a patch to complete this task.`;
-
-        const response = await this.chat({
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
-            ],
+    async chatStream(
+        request: ChatCompletionRequest,
+        onChunk: (chunk: StreamChunk) => void
+    ): Promise<ChatCompletionResponse> {
+        const model = this.mapModel(request.model ?? "gpt-4o");
+        // Once text reached the caller a retry would repeat it, so only retry before the first delta
+        let emitted = false;
+
+        const fn = async () => {
+            let id = "";
+            let responseModel = model;
+            let content = "";
+            let finishReason: ChatCompletionResponse["finish_reason"] = null;
+            let usage: ChatCompletionResponse["usage"] = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+            await this.requestStream("/chat/completions", {
+                model,
+                messages: this.toMessages(request.messages),
+                temperature: request.temperature ?? 0.7,
+                max_tokens: request.max_tokens ?? 4096,
+                stop: request.stop,
+                prompt_cache_key: this.promptCacheKey(request.messages),
+                stream: true,
+                stream_options: { include_usage: true }
+            }, (message) => {
+                if (message.data === "[DONE]") return;
+                const chunk = JSON.parse(message.data) as {
+                    id?: string;
+                    model?: string;
+                    choices?: Array<{
+                        delta?: { content?: string | null };
+                        finish_reason?: string | null;
+                    }>;
+                    usage?: OpenAIUsage | null;
+                };
+                id = chunk.id ?? id;
+                responseModel = chunk.model ?? responseModel;
+                if (chunk.usage) usage = this.mapUsage(chunk.usage);
+
+                const choice = chunk.choices?.[0];
+                if (!choice) return;
+                const delta = choice.delta?.content ?? "";
+                if (choice.finish_reason) {
+                    finishReason = choice.finish_reason as ChatCompletionResponse["finish_reason"];
+                }
+                if (delta || choice.finish_reason) {
+                    emitted = emitted || delta.length > 0;
+                    content += delta;
+                    onChunk({ delta, finish_reason: finishReason });
+                }
+            });
+
+            return { id, model: responseModel, content, finish_reason: finishReason, usage };
+        };
+
+        return this.circuitBreaker.execute(() =>
+            withRetry(fn, { maxRetries: this.config.maxRetries }, (error) => {
+                return error instanceof ProviderError && error.retryable && !emitted;
+            })
+        );
+    }
+
+    async generatePatch(input: PatchRequest, onChunk?: (chunk: StreamChunk) => void): Promise<{ patchText: string; summary: string; changedFiles: number; usage: ChatCompletionResponse["usage"] }> {
+        const request: ChatCompletionRequest = {
+            messages: buildPatchMessages(input),
             temperature: 0.3,
             max_tokens: 8192
-        });
+        };
+        const response = onChunk ? await this.chatStream(request, onChunk) : await this.chat(request);
 
         const patchText = response.content;
         const changedFiles = (patchText.match(/^diff --git/gm) || []).length;
@@ -216,6 +319,32 @@ Generate a patch to complete this task.`;
         }
     }
 
+    private toMessages(messages: ChatMessage[]): Array<{ role: ChatMessage["role"]; content: string }> {
+        return messages.map((m) => ({ role: m.role, content: m.content }));
+    }
+
+    /**
+     * OpenAI caches long prompt prefixes on its own; a key derived from the
+     * marked prefix routes calls sharing it to the same cache.
+     */
+    private promptCacheKey(messages: ChatMessage[]): string | undefined {
+        const prefix = cacheablePrefix(messages);
+        if (prefix.length === 0) return undefined;
+        const hash = crypto.createHash("sha256");
+        for (const m of prefix) hash.update(`${m.role}\n${m.content}\n`);
+        return `trcoder-${hash.digest("hex").slice(0, 32)}`;
+    }
+
+    private mapUsage(usage: OpenAIUsage): ChatCompletionResponse["usage"] {
+        return {
+            prompt_tokens: usage.prompt_tokens,
+            completion_tokens: usage.completion_tokens,
+            total_tokens: usage.total_tokens,
+            cached_prompt_tokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+            cache_write_tokens: 0
+        };
+    }
+
     private mapModel(model: string): string {
         // Map internal model names to OpenAI API names
         const modelMap: Record<string, string> = {
@@ -8,6 +8,11 @@
 export interface ChatMessage {
     role: "system" | "user" | "assistant";
     content: string;
+    /**
+     * Marks the end of a prefix that repeats across calls (system prompt,
+     * context pack) so providers can serve it from their prompt cache.
+     */
+    cache?: boolean;
 }
 
 export interface ChatCompletionRequest {
@@ -28,6 +33,9 @@ export interface ChatCompletionResponse {
         prompt_tokens: number;
         completion_tokens: number;
         total_tokens: number;
+        // Parts of prompt_tokens read from / written to the provider's prompt cache
+        cached_prompt_tokens?: number;
+        cache_write_tokens?: number;
     };
 }
 
@@ -36,6 +44,15 @@ export interface StreamChunk {
     finish_reason: ChatCompletionResponse["finish_reason"];
 }
 
+export interface PatchRequest {
+    task_id: string;
+    instructions?: string;
+    // Fix or rebase attempt details; they change on every call
+    attempt?: string;
+    // Stable context of the task (signals, earlier patches, file content)
+    context?: string;
+}
+
 export interface ProviderHealth {
     healthy: boolean;
     latencyMs: number;
@@ -61,13 +78,10 @@ export interface IModelProvider {
     ): Promise<ChatCompletionResponse>;
 
     /**
-     * Generate a patch for a task (convenience method)
+     * Generate a patch for a task (convenience method). When onChunk is given
+     * the patch is streamed through chatStream as it is produced.
      */
-    generatePatch(input: {
-        task_id: string;
-        instructions?: string;
-        context?: string;
-    }): Promise<{ patchText: string; summary: string; changedFiles: number; usage: ChatCompletionResponse["usage"] }>;
+    generatePatch(input: PatchRequest, onChunk?: (chunk: StreamChunk) => void): Promise<{ patchText: string; summary: string; changedFiles: number; usage: ChatCompletionResponse["usage"] }>;
 
     /**
      * Check provider health
@@ -83,6 +97,43 @@ export interface ProviderConfig {
     organization?: string;
 }
 
+/**
+ * Messages up to and including the last one marked cacheable; empty when
+ * nothing is marked.
+ */
+export function cacheablePrefix(messages: ChatMessage[]): ChatMessage[] {
+    let end = -1;
+    messages.forEach((message, index) => {
+        if (message.cache) end = index;
+    });
+    return messages.slice(0, end + 1);
+}
+
+const PATCH_SYSTEM_PROMPT = `You are a code assistant that generates unified diff patches.
+Output ONLY the patch in unified diff format, nothing else.
+The patch should be minimal and focused on the requested changes.`;
+
+/**
+ * Chat messages for generatePatch. The system prompt and the task context form
+ * the cacheable prefix, which stays byte-identical across the fix and rebase
+ * attempts of a task; the attempt details go into the user message after it,
+ * so they never invalidate the cached prefix.
+ */
+export function buildPatchMessages(input: PatchRequest): ChatMessage[] {
+    const cachedPrompt = input.context ? `${PATCH_SYSTEM_PROMPT}\n\nContext:\n${input.context}` : PATCH_SYSTEM_PROMPT;
+    const userPrompt = [
+        `Task ID: ${input.task_id}`,
+        input.instructions ? `Instructions: ${input.instructions}` : "",
+        input.attempt ? `\n${input.attempt}` : "",
+        "",
+        "Generate a patch to complete this task."
+    ].join("\n");
+    return [
+        { role: "system", content: cachedPrompt, cache: true },
+        { role: "user", content: userPrompt }
+    ];
+}
+
 // Provider-specific model mappings for routing
 export const PROVIDER_MODELS: Record<string, string[]> = {
     openai: ["gpt-5.2-xhigh", "gpt-4o", "gpt-4-turbo"],
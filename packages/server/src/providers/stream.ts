@@ -0,0 +1,53 @@
+/**
+ * Streaming utilities shared by the provider implementations.
+ */
+
+export interface SseMessage {
+    event?: string;
+    data: string;
+}
+
+function parseSseMessage(raw: string): SseMessage | null {
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of raw.split("\n")) {
+        if (line.startsWith("event:")) {
+            event = line.slice(6).trim();
+        } else if (line.startsWith("data:")) {
+            data.push(line.slice(5).replace(/^ /, ""));
+        }
+    }
+    return data.length > 0 ? { event, data: data.join("\n") } : null;
+}
+
+/**
+ * Read a server-sent event body and hand each message to onMessage.
+ * onActivity fires for every received chunk so callers can run idle timeouts.
+ */
+export async function readSseStream(
+    body: ReadableStream<Uint8Array>,
+    onMessage: (message: SseMessage) => void,
+    onActivity?: () => void
+): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        onActivity?.();
+        buffer = (buffer + decoder.decode(value, { stream: true })).replace(/\r\n/g, "\n");
+
+        let idx = buffer.indexOf("\n\n");
+        while (idx !== -1) {
+            const message = parseSseMessage(buffer.slice(0, idx));
+            buffer = buffer.slice(idx + 2);
+            if (message) onMessage(message);
+            idx = buffer.indexOf("\n\n");
+        }
+    }
+
+    const trailing = parseSseMessage(buffer.trim());
+    if (trailing) onMessage(trailing);
+}
@@ -0,0 +1,107 @@
+import { IDb } from "./db";
+import { PrProvider } from "./pr-adapters";
+
+export type PullRequestState = "open" | "closed" | "merged";
+
+export interface PullRequestRecord {
+  id: string;
+  project_id: string;
+  run_id: string;
+  // Null when the PR carries the patches of several tasks of the run
+  task_id: string | null;
+  provider: PrProvider;
+  remote_host: string;
+  owner: string;
+  repo: string;
+  number: number;
+  url: string;
+  branch: string;
+  base_branch: string;
+  title: string;
+  state: PullRequestState;
+  created_at: string;
+  updated_at: string;
+}
+
+const COLUMNS =
+  "id, project_id, run_id, task_id, provider, remote_host, owner, repo, number, url, branch, base_branch, title, state, created_at, updated_at";
+
+// Postgres returns TIMESTAMPTZ columns as Date objects
+function toIsoString(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function toRecord(row: Record<string, unknown>): PullRequestRecord {
+  return {
+    ...(row as unknown as PullRequestRecord),
+    number: Number(row.number),
+    created_at: toIsoString(row.created_at),
+    updated_at: toIsoString(row.updated_at)
+  };
+}
+
+export async function savePullRequest(db: IDb, record: PullRequestRecord): Promise<void> {
+  await db.exec(
+    `INSERT INTO pull_requests (${COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      record.id,
+      record.project_id,
+      record.run_id,
+      record.task_id,
+      record.provider,
+      record.remote_host,
+      record.owner,
+      record.repo,
+      record.number,
+      record.url,
+      record.branch,
+      record.base_branch,
+      record.title,
+      record.state,
+      record.created_at,
+      record.updated_at
+    ]
+  );
+}
+
+export async function getPullRequestRecord(db: IDb, id: string): Promise<PullRequestRecord | null> {
+  const row = (await db.query<Record<string, unknown>>(
+    `SELECT ${COLUMNS} FROM pull_requests WHERE id = ?`,
+    [id]
+  ))[0];
+  return row ? toRecord(row) : null;
+}
+
+export async function listPullRequests(
+  db: IDb,
+  filter: { project_id: string; run_id?: string }
+): Promise<PullRequestRecord[]> {
+  const rows = filter.run_id
+    ? await db.query<Record<string, unknown>>(
+        `SELECT ${COLUMNS} FROM pull_requests WHERE project_id = ? AND run_id = ? ORDER BY created_at DESC`,
+        [filter.project_id, filter.run_id]
+      )
+    : await db.query<Record<string, unknown>>(
+        `SELECT ${COLUMNS} FROM pull_requests WHERE project_id = ? ORDER BY created_at DESC`,
+        [filter.project_id]
+      );
+  return rows.map(toRecord);
+}
+
+export async function updatePullRequestState(
+  db: IDb,
+  id: string,
+  update: { state: PullRequestState; title?: string }
+): Promise<void> {
+  const updatedAt = new Date().toISOString();
+  if (update.title) {
+    await db.exec("UPDATE pull_requests SET state = ?, title = ?, updated_at = ? WHERE id = ?", [
+      update.state,
+      update.title,
+      updatedAt,
+      id
+    ]);
+    return;
+  }
+  await db.exec("UPDATE pull_requests SET state = ?, updated_at = ? WHERE id = ?", [update.state, updatedAt, id]);
+}
@@ -0,0 +1,104 @@
+import {
+  API_KEY_SCOPES,
+  ApiKeyManager,
+  ApiKeyScope,
+  AuthError,
+  TokenManager,
+  parseAuthHeader
+} from "@trcoder/auth";
+import { DEFAULT_PLAN_ID, DbApiKeyStore, StoredApiKey } from "./api-key-store";
+
+export interface RequestAuth {
+  method: "api_key" | "jwt";
+  key_id: string | null;
+  org_id: string;
+  user_id: string;
+  plan_id: string;
+  scopes: string[];
+}
+
+export type AuthOutcome = { ok: true; auth: RequestAuth } | { ok: false; error: string };
+
+// Portal sessions act for a user; only org owners/admins get key management
+const MEMBER_SCOPES = (Object.keys(API_KEY_SCOPES) as ApiKeyScope[]).filter((scope) => scope !== "admin");
+
+const API_KEY_ERRORS: Record<string, string> = {
+  "API key has been revoked": "api_key_revoked",
+  "API key has expired": "api_key_expired"
+};
+
+function looksLikeJwt(token: string): boolean {
+  return token.split(".").length === 3;
+}
+
+export class RequestAuthenticator {
+  private apiKeys: ApiKeyManager;
+
+  constructor(private store: DbApiKeyStore, private tokens: TokenManager | null) {
+    this.apiKeys = new ApiKeyManager(store, { allowLegacyKeys: true });
+  }
+
+  get keyManager(): ApiKeyManager {
+    return this.apiKeys;
+  }
+
+  async authenticate(header: string | undefined): Promise<AuthOutcome> {
+    const { type, token } = parseAuthHeader(header);
+    if (!token) {
+      return { ok: false, error: "missing api key" };
+    }
+
+    if (type === "bearer" && looksLikeJwt(token)) {
+      return this.authenticateJwt(token);
+    }
+
+    const result = await this.apiKeys.validate(token);
+    if (!result.valid || !result.apiKey) {
+      return { ok: false, error: API_KEY_ERRORS[result.error ?? ""] ?? "invalid api key" };
+    }
+    const apiKey = result.apiKey as StoredApiKey;
+    // The org's subscription plan wins over the plan copied onto the key at creation
+    const plan_id = (await this.store.findOrganizationPlan(apiKey.org_id)) ?? apiKey.plan_id;
+    return {
+      ok: true,
+      auth: {
+        method: "api_key",
+        key_id: apiKey.id,
+        org_id: apiKey.org_id,
+        user_id: apiKey.user_id,
+        plan_id,
+        scopes: apiKey.scopes
+      }
+    };
+  }
+
+  hasScope(auth: RequestAuth, scope: ApiKeyScope): boolean {
+    return auth.scopes.includes("admin") || auth.scopes.includes(scope);
+  }
+
+  private async authenticateJwt(token: string): Promise<AuthOutcome> {
+    if (!this.tokens) {
+      return { ok: false, error: "jwt_not_configured" };
+    }
+    try {
+      const payload = this.tokens.verifyAccessToken(token);
+      const plan_id = (await this.store.findPlanForOrg(payload.org)) ?? DEFAULT_PLAN_ID;
+      return {
+        ok: true,
+        auth: {
+          method: "jwt",
+          key_id: null,
+          org_id: payload.org,
+          user_id: payload.sub,
+          plan_id,
+          scopes: payload.role === "owner" || payload.role === "admin" ? ["admin"] : MEMBER_SCOPES
+        }
+      };
+    } catch (err) {
+      if (err instanceof AuthError) {
+        return { ok: false, error: err.code === "TOKEN_EXPIRED" ? "token_expired" : "invalid_token" };
+      }
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { IDb } from "./db";
+import { parseJsonValue } from "./utils/json";
+
+export interface StoredRunEvent {
+  id: number;
+  type: string;
+  ts: string;
+  data: unknown;
+}
+
+export async function appendRunEvent(db: IDb, runId: string, event: StoredRunEvent): Promise<void> {
+  await db.exec("INSERT INTO run_events (run_id, seq, type, ts, data_json) VALUES (?, ?, ?, ?, ?)", [
+    runId,
+    event.id,
+    event.type,
+    event.ts,
+    JSON.stringify(event.data ?? null)
+  ]);
+}
+
+export async function listRunEvents(db: IDb, runId: string, afterId = 0): Promise<StoredRunEvent[]> {
+  const rows = await db.query<Record<string, unknown>>(
+    "SELECT seq, type, ts, data_json FROM run_events WHERE run_id = ? AND seq > ? ORDER BY seq ASC",
+    [runId, afterId]
+  );
+
+  return rows.map((row) => ({
+    // Postgres returns BIGINT as string and TIMESTAMPTZ as Date
+    id: Number(row.seq),
+    type: String(row.type),
+    ts: row.ts instanceof Date ? row.ts.toISOString() : String(row.ts),
+    data: parseJsonValue<unknown>(row.data_json, null)
+  }));
+}
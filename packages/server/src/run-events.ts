@@ -1,4 +1,6 @@
 import { ServerResponse } from "http";
+import { IDb } from "./db";
+import { appendRunEvent, listRunEvents, StoredRunEvent } from "./run-event-store";
 
 export interface SseEvent {
   type: string;
@@ -6,45 +8,286 @@ export interface SseEvent {
   data: unknown;
 }
 
+export interface EmitOptions {
+  // Transient events (LLM_DELTA) go to connected clients only and are not replayed on attach
+  transient?: boolean;
+}
+
+export interface RunEventHubOptions {
+  // Persist events so history survives restarts and is shared between server instances
+  db?: IDb;
+  heartbeatMs?: number;
+  // Runs without clients or new events for this long are dropped from memory
+  evictAfterMs?: number;
+  // How often attached clients pick up events written by other instances
+  pollMs?: number;
+}
+
+interface Frame {
+  id?: number;
+  payload: string;
+}
+
+interface Client {
+  res: ServerResponse;
+  lastId: number;
+  // Live frames held back while history is being replayed
+  pending: Frame[] | null;
+}
+
+interface RunState {
+  events: StoredRunEvent[];
+  touchedAt: number;
+}
+
+const DEFAULT_HEARTBEAT_MS = 15_000;
+const DEFAULT_EVICT_AFTER_MS = 10 * 60 * 1000;
+const DEFAULT_POLL_MS = 1000;
+
+function toFrame(event: SseEvent, id?: number): Frame {
+  const data = `data: ${JSON.stringify(event)}\n\n`;
+  return { id, payload: id === undefined ? data : `id: ${id}\n${data}` };
+}
+
+/**
+ * Fan-out of run events to SSE clients. Every non-transient event gets a
+ * monotonically increasing id, so reconnecting clients send Last-Event-ID and
+ * only receive what they missed. With a db, events are persisted and replayed
+ * from there, which keeps /attach working after restarts and across instances.
+ */
 export class RunEventHub {
-  private events = new Map<string, SseEvent[]>();
-  private clients = new Map<string, Set<ServerResponse>>();
-
-  emit(runId: string, event: SseEvent): void {
-    const list = this.events.get(runId) ?? [];
-    list.push(event);
-    this.events.set(runId, list);
-
-    const clients = this.clients.get(runId);
-    if (clients) {
-      const payload = `data: ${JSON.stringify(event)}\n\n`;
-      for (const client of clients) {
-        client.write(payload);
+  private readonly db?: IDb;
+  private readonly evictAfterMs: number;
+  private runs = new Map<string, RunState>();
+  private clients = new Map<string, Set<Client>>();
+  // run id -> client-chosen stream ids that also receive the run's events
+  private links = new Map<string, Set<string>>();
+  // stream id -> run id, so a reconnecting stream replays the run it was linked to
+  private linkedRuns = new Map<string, string>();
+  private lastId = 0;
+  private tail: Promise<void> = Promise.resolve();
+  private heartbeatTimer: NodeJS.Timeout;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(options: RunEventHubOptions = {}) {
+    this.db = options.db;
+    this.evictAfterMs = options.evictAfterMs ?? DEFAULT_EVICT_AFTER_MS;
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat();
+      this.evict();
+    }, options.heartbeatMs ?? DEFAULT_HEARTBEAT_MS);
+    this.heartbeatTimer.unref();
+    if (this.db) {
+      this.pollTimer = setInterval(() => {
+        void this.poll();
+      }, options.pollMs ?? DEFAULT_POLL_MS);
+      this.pollTimer.unref();
+    }
+  }
+
+  emit(runId: string, event: SseEvent, options?: EmitOptions): void {
+    let frame: Frame;
+    if (options?.transient) {
+      frame = toFrame(event);
+    } else {
+      const stored: StoredRunEvent = { id: this.nextId(), ...event };
+      const state = this.touch(runId);
+      if (this.db) {
+        this.persist(runId, stored);
+      } else {
+        state.events.push(stored);
       }
+      frame = toFrame(event, stored.id);
     }
+
+    this.write(runId, frame);
+    for (const streamId of this.links.get(runId) ?? []) {
+      this.write(streamId, frame);
+    }
+  }
+
+  /**
+   * Forward every event of runId to clients attached to streamId. Lets a client
+   * subscribe before the run id exists (runs/start only returns when it is done).
+   */
+  link(runId: string, streamId: string): void {
+    if (runId === streamId) return;
+    const set = this.links.get(runId) ?? new Set<string>();
+    set.add(streamId);
+    this.links.set(runId, set);
+    this.linkedRuns.set(streamId, runId);
+    this.touch(runId);
   }
 
-  attach(runId: string, res: ServerResponse): void {
+  /**
+   * Stream runId to res, replaying stored events after lastEventId first.
+   * Live events arriving during the replay are queued and sent afterwards.
+   */
+  async attach(runId: string, res: ServerResponse, lastEventId?: number): Promise<void> {
     res.writeHead(200, {
       "Content-Type": "text/event-stream",
       "Cache-Control": "no-cache",
       Connection: "keep-alive"
     });
+    // Send headers now so clients can start a request only once they are subscribed
+    res.flushHeaders();
 
-    const list = this.events.get(runId) ?? [];
-    for (const event of list) {
-      res.write(`data: ${JSON.stringify(event)}\n\n`);
-    }
-
+    const client: Client = { res, lastId: lastEventId ?? 0, pending: [] };
     let set = this.clients.get(runId);
     if (!set) {
       set = new Set();
       this.clients.set(runId, set);
     }
-    set.add(res);
-
+    set.add(client);
     res.on("close", () => {
-      set?.delete(res);
+      this.detach(runId, client);
     });
+
+    try {
+      const history = await this.history(this.linkedRuns.get(runId) ?? runId, client.lastId);
+      for (const event of history) {
+        this.send(client, toFrame({ type: event.type, ts: event.ts, data: event.data }, event.id));
+      }
+    } finally {
+      const pending = client.pending ?? [];
+      client.pending = null;
+      for (const frame of pending) {
+        this.send(client, frame);
+      }
+    }
+  }
+
+  /**
+   * Wait until every emitted event is persisted.
+   */
+  flush(): Promise<void> {
+    return this.tail;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.heartbeatTimer);
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    for (const set of this.clients.values()) {
+      for (const client of set) {
+        client.res.end();
+      }
+    }
+    this.clients.clear();
+    await this.flush();
+  }
+
+  // Ids are microsecond-scale timestamps so they keep increasing across restarts
+  // and instances without coordination
+  private nextId(): number {
+    this.lastId = Math.max(Date.now() * 1000, this.lastId + 1);
+    return this.lastId;
+  }
+
+  private touch(runId: string): RunState {
+    let state = this.runs.get(runId);
+    if (!state) {
+      state = { events: [], touchedAt: Date.now() };
+      this.runs.set(runId, state);
+    }
+    state.touchedAt = Date.now();
+    return state;
+  }
+
+  private persist(runId: string, event: StoredRunEvent): void {
+    const db = this.db!;
+    this.tail = this.tail
+      .then(() => appendRunEvent(db, runId, event))
+      .catch((err) => {
+        // eslint-disable-next-line no-console
+        console.error("Failed to persist run event:", err);
+      });
+  }
+
+  private async history(runId: string, afterId: number): Promise<StoredRunEvent[]> {
+    if (!this.db) {
+      return (this.runs.get(runId)?.events ?? []).filter((event) => event.id > afterId);
+    }
+    await this.flush();
+    return listRunEvents(this.db, runId, afterId);
+  }
+
+  // Pick up events other instances stored for runs that have clients here
+  private async poll(): Promise<void> {
+    if (this.polling || !this.db) return;
+    this.polling = true;
+    try {
+      await this.flush();
+      for (const [runId, set] of this.clients) {
+        if (this.linkedRuns.has(runId)) continue;
+        const ready = [...set].filter((client) => client.pending === null);
+        if (ready.length === 0) continue;
+        const afterId = Math.min(...ready.map((client) => client.lastId));
+        const events = await listRunEvents(this.db, runId, afterId);
+        for (const event of events) {
+          const frame = toFrame({ type: event.type, ts: event.ts, data: event.data }, event.id);
+          for (const client of ready) {
+            this.send(client, frame);
+          }
+        }
+      }
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error("Run event poll failed:", err);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private heartbeat(): void {
+    for (const set of this.clients.values()) {
+      for (const client of set) {
+        if (client.pending === null) client.res.write(": heartbeat\n\n");
+      }
+    }
+  }
+
+  private evict(): void {
+    const cutoff = Date.now() - this.evictAfterMs;
+    for (const [runId, state] of this.runs) {
+      if (state.touchedAt > cutoff || this.clients.has(runId)) continue;
+      const streams = this.links.get(runId) ?? new Set<string>();
+      if ([...streams].some((streamId) => this.clients.has(streamId))) continue;
+      this.runs.delete(runId);
+      this.links.delete(runId);
+      for (const streamId of streams) {
+        this.linkedRuns.delete(streamId);
+      }
+    }
+  }
+
+  private detach(runId: string, client: Client): void {
+    const set = this.clients.get(runId);
+    if (!set) return;
+    set.delete(client);
+    if (set.size === 0) {
+      this.clients.delete(runId);
+      // Clients are gone but the run may continue; start its retention period now
+      const state = this.runs.get(this.linkedRuns.get(runId) ?? runId);
+      if (state) state.touchedAt = Date.now();
+    }
+  }
+
+  private write(id: string, frame: Frame): void {
+    for (const client of this.clients.get(id) ?? []) {
+      this.send(client, frame);
+    }
+  }
+
+  private send(client: Client, frame: Frame): void {
+    if (client.pending) {
+      client.pending.push(frame);
+      return;
+    }
+    if (frame.id !== undefined) {
+      if (frame.id <= client.lastId) return;
+      client.lastId = frame.id;
+    }
+    client.res.write(frame.payload);
   }
 }
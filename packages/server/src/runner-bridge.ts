@@ -1,7 +1,10 @@
 import { randomUUID } from "crypto";
 import { IncomingMessage, Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { classifyCommand, PermissionClass, PermissionsConfig } from "@trcoder/shared";
+import { classifyCommand, CodeSearchRequest, PermissionClass, PermissionsConfig } from "@trcoder/shared";
+
+// Runners that predate RUNNER_SEARCH never answer it; retrieval must not block the run
+const SEARCH_TIMEOUT_MS = 30000;
 
 export interface RunnerResult {
   request_id: string;
@@ -168,6 +171,23 @@ export class RunnerBridge {
     });
   }
 
+  async sendSearch(input: {
+    project_id: string;
+    root?: string;
+    request: CodeSearchRequest;
+  }): Promise<RunnerResult> {
+    return this.sendRequest(
+      input.project_id,
+      {
+        type: "RUNNER_SEARCH",
+        runner_session_id: this.getConnection(input.project_id).session_id,
+        root: input.root,
+        request: input.request
+      },
+      SEARCH_TIMEOUT_MS
+    );
+  }
+
   async sendList(input: {
     project_id: string;
     glob?: string;
@@ -198,12 +218,28 @@ export class RunnerBridge {
     });
   }
 
-  private sendRequest(project_id: string, payload: Record<string, unknown>): Promise<RunnerResult> {
+  private sendRequest(
+    project_id: string,
+    payload: Record<string, unknown>,
+    timeoutMs?: number
+  ): Promise<RunnerResult> {
     const conn = this.getConnection(project_id);
     const request_id = randomUUID();
 
     const resultPromise = new Promise<RunnerResult>((resolve) => {
-      conn.pending.set(request_id, resolve);
+      if (!timeoutMs) {
+        conn.pending.set(request_id, resolve);
+        return;
+      }
+      const timer = setTimeout(() => {
+        if (conn.pending.delete(request_id)) {
+          resolve({ request_id, exit_code: 1, stdout: "", stderr: "runner timeout", duration_ms: timeoutMs });
+        }
+      }, timeoutMs);
+      conn.pending.set(request_id, (result) => {
+        clearTimeout(timer);
+        resolve(result);
+      });
     });
 
     conn.socket.send(JSON.stringify({ request_id, ...payload }));
@@ -3,44 +3,105 @@ import fs from "fs";
 import path from "path";
 import { randomUUID, createHash } from "crypto";
 import {
+  ApplyMode,
+  CodeSearchResult,
+  ContextBudget,
   ContextPackManifest,
   Lane,
+  LedgerEventType,
+  PlanEditOp,
   RiskLevel,
+  RouterDecision,
+  RunState,
+  TaskDefinition,
+  TaskScope,
   TasksFileV1,
   createLedgerEvent,
   decideRouter,
   estimateTokens,
   calculateCost,
+  loadJsonFile,
   loadLanePolicy,
   loadModelStack,
   loadPermissions,
   loadPricing,
   loadRiskPolicy,
   loadVerifyGates,
+  parseUnifiedDiff,
   validateAllConfig
 } from "@trcoder/shared";
 import { createDb } from "./db";
 import { writeArtifact, writePlanArtifact } from "./artifacts";
-import { buildContextPack } from "./context-pack";
-import { getContextPackRecord, saveContextPack, updateContextPack } from "./context-pack-store";
-import { getProviderFactory } from "./providers";
+import { buildContextPack, ContextCandidate } from "./context-pack";
+import {
+  getContextPackRecord,
+  getLatestContextPackForTask,
+  saveContextPack,
+  updateContextPack
+} from "./context-pack-store";
+import { StreamChunk, getProviderFactory } from "./providers";
 import { RunEventHub } from "./run-events";
 import { appendLedgerEvent, listLedgerEvents } from "./ledger-store";
 import { RunnerBridge } from "./runner-bridge";
-import { computeInvoicePreview, computeUsageForMonth, computeUsageForRange } from "./billing";
+import {
+  computeInvoicePreview,
+  computeRunCredits,
+  computeUsageForMonth,
+  computeUsageForRange,
+  monthRange,
+  reconcileCredits,
+  resolvePricingPlanId
+} from "./billing";
 import { redactText } from "./redaction";
 import { getArtifactsDir } from "./storage";
 import { buildOpsPackPatch } from "./ops-pack";
 import { generateTasksForPlan } from "./planner";
+import { DEFAULT_RUN_BUDGET_USD, estimatePlan } from "./plan-estimate";
+import { JsonSchema } from "./plan-validation";
+import { TaskGraphError, flattenPlanTasks, orderPlanTasks } from "./task-graph";
+import { PatchCheckResult, PatchConflict, parseApplyErrors, resolveThreeWay } from "./patch-check";
+import { PatchPrompt, PromptFile, buildPatchPrompt } from "./prompt-builder";
 import { parseJsonValue } from "./utils/json";
-import { GitHubAdapter } from "./pr-adapters";
-
-interface AuthContext {
-  api_key: string;
-  org_id: string;
-  user_id: string;
-  plan_id: string;
-}
+import {
+  API_KEY_SCOPES,
+  ApiKeyScope,
+  AuditAction,
+  AuditLogger,
+  AuditQueryFilters,
+  AuthError,
+  AuthResult,
+  AuthService,
+  OrgMember,
+  TokenManager
+} from "@trcoder/auth";
+import {
+  ConflictError,
+  IPrAdapter,
+  PrProvider,
+  PullRequestResult,
+  createPrAdapterFor,
+  parseGitRemote,
+  resolvePrProvider
+} from "./pr-adapters";
+import {
+  PullRequestRecord,
+  getPullRequestRecord,
+  listPullRequests,
+  savePullRequest,
+  updatePullRequestState
+} from "./pull-request-store";
+import { getLatestPatchRevision, savePatchRevision } from "./patch-revision-store";
+import { PlanEditError, applyPlanEdits, diffPlanTasks } from "./plan-edit";
+import { getPlanRevision, listPlanRevisions, savePlanRevision } from "./plan-revision-store";
+import { DEFAULT_PLAN_ID, DbApiKeyStore } from "./api-key-store";
+import { RequestAuth, RequestAuthenticator } from "./request-auth";
+import { DbUserStore, toPublicUser } from "./user-store";
+import { DbOrgStore } from "./org-store";
+import { DbAuditStore } from "./audit-store";
+import { BillingService, StripeService, WebhookHandler, WebhookIdempotency } from "@trcoder/billing";
+import { DbBillingStore, DbIdempotencyStore } from "./billing-store";
+
+type AuthContext = RequestAuth;
 
 function findRepoRoot(startDir: string): string {
   let current = startDir;
@@ -76,6 +137,11 @@ function resolveVerifyMode(laneMode: string, riskMode: string): "targeted" | "st
   return order[Math.max(laneIndex, riskIndex)];
 }
 
+// Client-chosen SSE channel for LLM_DELTA output of plan/chat/run requests
+const STREAM_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+// Branch names reach the runner's shell, so only characters that need no quoting get as far as git check-ref-format
+const BRANCH_NAME_PATTERN = /^[A-Za-z0-9._\/-]+$/;
+
 const MAX_CTX_CHARS = 8000;
 const MAX_LOG_LINES = 200;
 
@@ -163,23 +229,6 @@ function globMatch(pattern: string, value: string): boolean {
   return regex.test(value);
 }
 
-function parseGitHubRemote(remoteUrl: string): { owner: string; repo: string } | null {
-  const trimmed = remoteUrl.trim().replace(/\.git$/, "");
-  const httpsMatch = trimmed.match(/^https?:\/\/github\.com\/([^/]+)\/([^/]+)$/i);
-  if (httpsMatch) {
-    return { owner: httpsMatch[1], repo: httpsMatch[2] };
-  }
-  const sshMatch = trimmed.match(/^git@github\.com:([^/]+)\/([^/]+)$/i);
-  if (sshMatch) {
-    return { owner: sshMatch[1], repo: sshMatch[2] };
-  }
-  const sshUrlMatch = trimmed.match(/^ssh:\/\/git@github\.com\/([^/]+)\/([^/]+)$/i);
-  if (sshUrlMatch) {
-    return { owner: sshUrlMatch[1], repo: sshUrlMatch[2] };
-  }
-  return null;
-}
-
 export async function createServer(options?: {
   onRoute?: (route: { method: string | string[]; url: string }) => void;
 }): Promise<{
@@ -207,8 +256,11 @@ export async function createServer(options?: {
   const verifyGates = loadVerifyGates(
     process.env.TRCODER_VERIFY_GATES_PATH ?? path.join(configRoot, "config", "verify.gates.yaml")
   );
+  const tasksSchema = loadJsonFile<JsonSchema>(
+    process.env.TRCODER_TASKS_SCHEMA_PATH ?? path.join(configRoot, "schemas", "tasks.v1.schema.json")
+  );
 
-  const configValidation = validateAllConfig({ modelStack, lanePolicy, riskPolicy });
+  const configValidation = validateAllConfig({ modelStack, lanePolicy, riskPolicy, pricing });
   if (!configValidation.ok) {
     const details = configValidation.errors.map((err) => `- ${err}`).join("\n");
     throw new Error(`Config validation failed:\n${details}`);
@@ -224,10 +276,93 @@ export async function createServer(options?: {
   if (options?.onRoute) {
     app.addHook("onRoute", options.onRoute);
   }
+  const events = new RunEventHub({ db });
   app.addHook("onClose", async () => {
+    // Ends open streams and flushes pending run events while the db is still open
+    await events.close();
     await db.close();
   });
-  const events = new RunEventHub();
+  const apiKeyStore = new DbApiKeyStore(db);
+  const userStore = new DbUserStore(db);
+  const orgStore = new DbOrgStore(db);
+  // JWT sessions and account routes are only enabled when TRCODER_JWT_SECRET is configured
+  const tokens = process.env.TRCODER_JWT_SECRET ? TokenManager.fromEnv() : null;
+  const authenticator = new RequestAuthenticator(apiKeyStore, tokens);
+  const authService = tokens
+    ? new AuthService({
+        tokenManager: tokens,
+        userStore,
+        orgStore,
+        defaultPlan: DEFAULT_PLAN_ID,
+        defaultCredits: pricing.plans[DEFAULT_PLAN_ID]?.included_credits_trc ?? 0
+      })
+    : null;
+  const auditStore = new DbAuditStore(db);
+  const auditLogger = new AuditLogger({ store: auditStore });
+  const billingStore = new DbBillingStore(db);
+  // Stripe checkout and webhooks are only enabled when both Stripe secrets are configured
+  const stripeService =
+    process.env.STRIPE_SECRET_KEY && process.env.STRIPE_WEBHOOK_SECRET ? StripeService.fromEnv() : null;
+  const billingService = new BillingService({ store: billingStore, stripe: stripeService ?? undefined });
+  const webhookHandler = stripeService
+    ? new WebhookHandler({
+        stripeService,
+        billingService,
+        creditsForPlan: (planId) => {
+          const pricingPlan = resolvePricingPlanId(planId, pricing);
+          return pricingPlan ? pricing.plans[pricingPlan].included_credits_trc : null;
+        },
+        onSubscriptionCreated: async (orgId, planId) => {
+          const pricingPlan = resolvePricingPlanId(planId, pricing);
+          if (!pricingPlan) {
+            // eslint-disable-next-line no-console
+            console.warn(`Subscription plan ${planId} has no pricing plan; org ${orgId} keeps its current plan`);
+            return;
+          }
+          const org = await orgStore.findById(orgId);
+          if (!org) return;
+          await orgStore.update(orgId, { plan_id: pricingPlan });
+          await auditLogger.logSubscriptionChange({
+            userId: "system",
+            orgId,
+            action: "SUBSCRIPTION_CHANGE",
+            oldPlan: org.plan_id,
+            newPlan: pricingPlan
+          });
+        },
+        onSubscriptionCanceled: async (orgId) => {
+          const org = await orgStore.findById(orgId);
+          if (!org) return;
+          await orgStore.update(orgId, { plan_id: DEFAULT_PLAN_ID });
+          await auditLogger.logSubscriptionChange({
+            userId: "system",
+            orgId,
+            action: "SUBSCRIPTION_CANCEL",
+            oldPlan: org.plan_id,
+            newPlan: DEFAULT_PLAN_ID
+          });
+        }
+      })
+    : null;
+  // Stripe retries failed deliveries for several days, so remember event ids for a week
+  const webhookIdempotency = stripeService
+    ? new WebhookIdempotency({ ttlMs: 7 * 24 * 60 * 60 * 1000, store: new DbIdempotencyStore(db) })
+    : null;
+  const reconcileIntervalMs = Number(process.env.TRCODER_RECONCILE_INTERVAL_MS ?? 0);
+  const reconcileTimer =
+    reconcileIntervalMs > 0
+      ? setInterval(() => {
+          void reconcileAllOrgs().catch((err) => {
+            // eslint-disable-next-line no-console
+            console.error("Credit reconciliation failed:", err);
+          });
+        }, reconcileIntervalMs)
+      : null;
+  reconcileTimer?.unref();
+  app.addHook("onClose", async () => {
+    if (reconcileTimer) clearInterval(reconcileTimer);
+    webhookIdempotency?.destroy();
+  });
   const providerFactory = getProviderFactory({
     fallbackChains: modelStack.fallback_chains,
     useMock: process.env.TRCODER_USE_MOCK_PROVIDER === "true"
@@ -236,23 +371,17 @@ export async function createServer(options?: {
     app.server,
     permissions,
     async (req) => {
-      const auth = req.headers["authorization"];
       const projectHeader = req.headers["x-trcoder-project"];
-      if (!auth || !auth.toString().startsWith("Bearer ")) {
-        return null;
-      }
-      const api_key = auth.toString().slice("Bearer ".length);
-      const record = (
-        await db.query<{ org_id: string; user_id: string }>(
-          "SELECT org_id, user_id FROM api_keys WHERE key = ?",
-          [api_key]
-        )
-      )[0];
-      if (!record || !projectHeader) {
+      const outcome = await authenticator.authenticate(req.headers["authorization"]?.toString());
+      if (!outcome.ok || !authenticator.hasScope(outcome.auth, "runs:write") || !projectHeader) {
         return null;
       }
+      const record = outcome.auth;
       const project_id = projectHeader.toString();
-      const project = (await db.query("SELECT id FROM projects WHERE id = ?", [project_id]))[0];
+      const project = (await db.query("SELECT id FROM projects WHERE id = ? AND org_id = ?", [
+        project_id,
+        record.org_id
+      ]))[0];
       if (!project) {
         return null;
       }
@@ -261,19 +390,79 @@ export async function createServer(options?: {
     async (req, reason) => {
       const projectHeader = req.headers["x-trcoder-project"];
       const project_id = projectHeader ? projectHeader.toString() : "unknown";
+      // Valid credentials that lack scope or name an unknown project can still be attributed to an org
+      const outcome = await authenticator.authenticate(req.headers["authorization"]?.toString());
       await appendLedgerEvent(
         db,
         createLedgerEvent({
-          org_id: "unknown",
-          user_id: "unknown",
+          org_id: outcome.ok ? outcome.auth.org_id : "unknown",
+          user_id: outcome.ok ? outcome.auth.user_id : "unknown",
           project_id,
           event_type: "RUNNER_AUTH_FAILED",
           payload: { reason }
         })
       );
+      await auditLogger.log({
+        action: "RUNNER_AUTH_FAILED",
+        userId: outcome.ok ? outcome.auth.user_id : undefined,
+        orgId: outcome.ok ? outcome.auth.org_id : undefined,
+        targetType: "project",
+        targetId: project_id,
+        ipAddress: req.socket.remoteAddress,
+        userAgent: req.headers["user-agent"]?.toString(),
+        status: "failure",
+        reason
+      });
     }
   );
 
+  // Rank repo files against the task scope with the runner's code index, then follow
+  // imports from the hits and pinned files up to graph_depth.
+  // Without a runner, packs carry pins only.
+  async function retrieveContextCandidates(
+    projectId: string,
+    scope: TaskScope | undefined,
+    budgets: ContextBudget,
+    pins: string[]
+  ): Promise<ContextCandidate[]> {
+    if (!runnerBridge.hasRunner(projectId)) {
+      return [];
+    }
+    const query = (scope?.queries ?? []).join(" ").trim();
+    // Glob pins ("docs/**") name no single file to start the graph from
+    const seeds = budgets.graph_depth > 0 ? pins.filter((pin) => !pin.includes("*")) : [];
+    if (!query && !scope?.symbols?.length && !scope?.paths?.length && seeds.length === 0) {
+      return [];
+    }
+    try {
+      const result = await runnerBridge.sendSearch({
+        project_id: projectId,
+        root: repoRoot,
+        request: {
+          query,
+          symbols: scope?.symbols,
+          paths: scope?.paths,
+          exclude_paths: scope?.exclude_paths,
+          top_k: budgets.top_k,
+          graph_depth: budgets.graph_depth,
+          seeds
+        }
+      });
+      if (result.exit_code !== 0) {
+        return [];
+      }
+      const found = parseJsonValue<CodeSearchResult>(result.stdout, { hits: [], related: [], indexed_files: 0 });
+      return [...found.hits, ...found.related].map(({ path: filePath, why, lines }) => ({
+        path: filePath,
+        why,
+        lines
+      }));
+    } catch {
+      // retrieval is best effort; the pack still carries pins
+      return [];
+    }
+  }
+
   async function enrichContextPack(
     pack: ContextPackManifest,
     projectId: string
@@ -311,6 +500,45 @@ export async function createServer(options?: {
     return { ...pack, file_entries: updatedEntries };
   }
 
+  async function loadPromptFiles(pack: ContextPackManifest, projectId: string): Promise<PromptFile[]> {
+    const files: PromptFile[] = pack.file_entries.map((entry) => ({
+      path: entry.path,
+      why: entry.why,
+      start_line: entry.range?.start_line
+    }));
+    if (pack.mode !== "hydrated" || !runnerBridge.hasRunner(projectId)) {
+      return files;
+    }
+
+    let masked = false;
+    for (let i = 0; i < files.length; i += 1) {
+      const file = files[i];
+      const resolved = path.isAbsolute(file.path) ? file.path : path.join(repoRoot, file.path);
+      try {
+        const result = await runnerBridge.sendRead({
+          project_id: projectId,
+          path: resolved,
+          range: pack.file_entries[i].range
+        });
+        if (result.exit_code === 0) {
+          const redacted = redactText(result.stdout ?? "");
+          if (redacted.masked_count > 0) {
+            pack.redaction_stats.masked_entries += redacted.masked_count;
+            pack.redaction_stats.masked_chars += redacted.masked_chars;
+            masked = true;
+          }
+          file.content = redacted.text;
+        }
+      } catch {
+        // unreadable files stay listed without content
+      }
+    }
+    if (masked) {
+      await updateContextPack(db, pack);
+    }
+    return files;
+  }
+
   function getPlanTasksCount(tasks: TasksFileV1): number {
     return tasks.phases.reduce((total, phase) => total + phase.tasks.length, 0);
   }
@@ -424,9 +652,35 @@ export async function createServer(options?: {
     return { stale: false, reason: null as string | null };
   }
 
+  // LLM_DELTA events are transient: they reach connected clients as text is generated
+  // but are not replayed, since the full output is part of TASK_RESULT or the response.
+  function deltaEmitter(
+    channel: string | undefined,
+    data: { source: "patch" | "plan" | "chat"; model: string; run_id?: string; task_id?: string }
+  ): ((chunk: StreamChunk) => void) | undefined {
+    if (!channel) return undefined;
+    return (chunk) => {
+      if (!chunk.delta) return;
+      events.emit(
+        channel,
+        { type: "LLM_DELTA", ts: new Date().toISOString(), data: { ...data, delta: chunk.delta } },
+        { transient: true }
+      );
+    };
+  }
+
+  function readStreamId(reply: FastifyReply, value: unknown): string | null | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== "string" || !STREAM_ID_PATTERN.test(value)) {
+      reply.code(400).send({ error: "invalid_stream_id" });
+      return null;
+    }
+    return value;
+  }
+
   async function emitTaskStage(input: {
     run_id: string;
-    task_id: string;
+    task_id?: string;
     stage: string;
     message: string;
     org_id: string;
@@ -462,29 +716,240 @@ export async function createServer(options?: {
 
   async function requireAuth(
     req: FastifyRequest,
-    reply: FastifyReply
+    reply: FastifyReply,
+    scope?: ApiKeyScope
   ): Promise<AuthContext | null> {
-    const auth = req.headers["authorization"];
-    if (!auth || !auth.toString().startsWith("Bearer ")) {
-      reply.code(401).send({ error: "missing api key" });
+    const outcome = await authenticator.authenticate(req.headers["authorization"]?.toString());
+    if (!outcome.ok) {
+      reply.code(401).send({ error: outcome.error });
       return null;
     }
-    const api_key = auth.toString().slice("Bearer ".length);
-    const record = (await db.query<Record<string, string>>(
-      "SELECT * FROM api_keys WHERE key = ?",
-      [api_key]
-    ))[0] as
-      | { key: string; org_id: string; user_id: string; plan_id: string }
-      | undefined;
+    if (scope && !authenticator.hasScope(outcome.auth, scope)) {
+      reply.code(403).send({ error: "insufficient_scope", required: scope });
+      return null;
+    }
+    const foreign = await foreignRouteResource(req, outcome.auth.org_id);
+    if (foreign) {
+      // Same answer as a missing resource, so other orgs' ids cannot be probed
+      reply.code(404).send({ error: `${foreign} not found` });
+      return null;
+    }
+    return outcome.auth;
+  }
+
+  // Project, run, PR and pack ids in the route path must belong to the caller's org
+  const ROUTE_RESOURCE_ORG_SQL: Record<string, { resource: string; sql: string }> = {
+    id: { resource: "project", sql: "SELECT org_id FROM projects WHERE id = ?" },
+    run_id: {
+      resource: "run",
+      sql: "SELECT p.org_id FROM runs r JOIN projects p ON p.id = r.project_id WHERE r.id = ?"
+    },
+    pr_id: {
+      resource: "pr",
+      sql: "SELECT p.org_id FROM pull_requests pr JOIN projects p ON p.id = pr.project_id WHERE pr.id = ?"
+    },
+    pack_id: {
+      resource: "pack",
+      sql: "SELECT p.org_id FROM context_packs c JOIN projects p ON p.id = c.project_id WHERE c.pack_id = ?"
+    }
+  };
+
+  async function foreignRouteResource(req: FastifyRequest, org_id: string): Promise<string | null> {
+    const params = (req.params ?? {}) as Record<string, string | undefined>;
+    for (const [param, lookup] of Object.entries(ROUTE_RESOURCE_ORG_SQL)) {
+      const value = params[param];
+      if (value === undefined) continue;
+      const row = (await db.query<{ org_id?: string | null }>(lookup.sql, [value]))[0];
+      // Unknown ids fall through to the route's own 404
+      if (row && row.org_id !== org_id) return lookup.resource;
+    }
+    return null;
+  }
+
+  async function runInOrg(run_id: string, org_id: string): Promise<boolean> {
+    const row = (await db.query<{ org_id?: string | null }>(ROUTE_RESOURCE_ORG_SQL.run_id.sql, [run_id]))[0];
+    return !row || row.org_id === org_id;
+  }
+
+  async function audit(
+    req: FastifyRequest,
+    auth: Pick<AuthContext, "user_id" | "org_id"> | null,
+    entry: {
+      action: AuditAction;
+      targetType?: string;
+      targetId?: string;
+      metadata?: Record<string, unknown>;
+      status?: "success" | "failure";
+      reason?: string;
+    }
+  ) {
+    await auditLogger.log({
+      ...entry,
+      userId: auth?.user_id,
+      orgId: auth?.org_id,
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
+      status: entry.status ?? "success"
+    });
+  }
+
+  // Mirror the credits a billed run consumed into the billing store so org balances
+  // and credit transactions follow BILLING_POSTED. Runs can be billed more than once
+  // (resume after pause), so only the part not yet debited is charged.
+  async function debitRunCredits(
+    auth: AuthContext,
+    ids: { project_id: string; run_id: string; plan_id: string },
+    runCredits: number
+  ) {
+    if (!(await billingStore.hasAccount(auth.org_id))) return;
+    const outstanding = runCredits - (await billingStore.getRunCreditsBilled(auth.org_id, ids.run_id));
+    if (outstanding <= 0) return;
+    const result = await billingService.useCredits(auth.org_id, outstanding, ids.run_id);
+    if (result.success) return;
+    await appendLedgerEvent(
+      db,
+      createLedgerEvent({
+        org_id: auth.org_id,
+        user_id: auth.user_id,
+        project_id: ids.project_id,
+        run_id: ids.run_id,
+        plan_id: ids.plan_id,
+        event_type: "CREDITS_DEBIT_FAILED",
+        payload: { credits: outstanding, remaining: result.remaining, error: result.error }
+      })
+    );
+  }
+
+  // Every path that makes LLM calls for a run (tasks, /fix, /patch/rebase) posts its billing here,
+  // so reconciliation sees each run's calls debited.
+  async function postRunBilling(
+    auth: AuthContext,
+    ids: { project_id: string; run_id: string; plan_id: string },
+    totals: { charge_total: number; provider_total: number }
+  ) {
+    const runCredits = await computeRunCredits(db, ids.run_id);
+    await appendLedgerEvent(
+      db,
+      createLedgerEvent({
+        org_id: auth.org_id,
+        user_id: auth.user_id,
+        project_id: ids.project_id,
+        run_id: ids.run_id,
+        plan_id: ids.plan_id,
+        event_type: "BILLING_POSTED",
+        payload: { ...totals, credits_applied: runCredits }
+      })
+    );
+    await debitRunCredits(auth, ids, runCredits);
+  }
+
+  async function reconcileAllOrgs() {
+    const range = monthRange() as { start: Date; end: Date };
+    const orgs = await db.query<{ id: string }>("SELECT id FROM organizations");
+    for (const org of orgs) {
+      const report = await reconcileCredits({ db, store: billingStore, org_id: org.id, ...range });
+      await appendLedgerEvent(
+        db,
+        createLedgerEvent({
+          org_id: org.id,
+          user_id: "system",
+          project_id: "org",
+          event_type: "BILLING_RECONCILED",
+          payload: { ...report }
+        })
+      );
+    }
+  }
+
+  function requireAuthService(reply: FastifyReply): AuthService | null {
+    if (!authService) {
+      reply.code(503).send({ error: "auth_not_configured" });
+      return null;
+    }
+    return authService;
+  }
+
+  function sendAuthResult(reply: FastifyReply, result: AuthResult) {
+    reply.send({
+      user: toPublicUser(result.user),
+      org: result.org,
+      access_token: result.accessToken,
+      refresh_token: result.refreshToken,
+      expires_in: result.expiresIn
+    });
+  }
+
+  function sendAuthError(reply: FastifyReply, err: unknown) {
+    if (!(err instanceof AuthError)) throw err;
+    reply.code(err.statusCode).send({ error: err.code.toLowerCase(), message: err.message });
+  }
+
+  async function requireOrgMember(
+    req: FastifyRequest,
+    reply: FastifyReply,
+    auth: AuthContext,
+    roles?: Array<OrgMember["role"]>
+  ): Promise<OrgMember | null> {
+    const org_id = (req.params as { org_id: string }).org_id;
+    const member = await orgStore.getMember(org_id, auth.user_id);
+    if (!member) {
+      reply.code(404).send({ error: "org not found" });
+      return null;
+    }
+    if (roles && !roles.includes(member.role)) {
+      reply.code(403).send({ error: "insufficient_role", required: roles });
+      return null;
+    }
+    return member;
+  }
+
+  async function openPullRequest(
+    req: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<{ record: PullRequestRecord; adapter: IPrAdapter } | null> {
+    const pr_id = (req.params as { pr_id: string }).pr_id;
+    const record = await getPullRequestRecord(db, pr_id);
     if (!record) {
-      reply.code(401).send({ error: "invalid api key" });
+      reply.code(404).send({ error: "pr not found" });
+      return null;
+    }
+    try {
+      const adapter = createPrAdapterFor(record.provider, {
+        host: record.remote_host,
+        owner: record.owner,
+        repo: record.repo
+      });
+      return { record, adapter };
+    } catch (err) {
+      reply.code(500).send({ error: "pr_adapter_unavailable", details: (err as Error).message });
       return null;
     }
-    return { api_key, org_id: record.org_id, user_id: record.user_id, plan_id: record.plan_id };
+  }
+
+  async function appendPullRequestEvent(
+    auth: AuthContext,
+    record: PullRequestRecord,
+    event_type: LedgerEventType,
+    payload: Record<string, unknown>
+  ): Promise<void> {
+    const run = (await db.query<{ plan_id?: string }>("SELECT plan_id FROM runs WHERE id = ?", [record.run_id]))[0];
+    await appendLedgerEvent(
+      db,
+      createLedgerEvent({
+        org_id: auth.org_id,
+        user_id: auth.user_id,
+        project_id: record.project_id,
+        run_id: record.run_id,
+        plan_id: run?.plan_id,
+        task_id: record.task_id ?? undefined,
+        event_type,
+        payload: { pr_id: record.id, provider: record.provider, number: record.number, url: record.url, ...payload }
+      })
+    );
   }
 
   app.post("/v1/projects/connect", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "projects:write");
     if (!auth) return;
 
     const body = req.body as { repo_name: string; repo_root_hash: string };
@@ -495,10 +960,10 @@ export async function createServer(options?: {
       return;
     }
 
-    // Idempotent connect: repo_root_hash is treated as the stable repo identity.
+    // Idempotent connect: repo_root_hash is treated as the stable repo identity within an org.
     const existing = (await db.query<{ id: string }>(
-      "SELECT id FROM projects WHERE repo_root_hash = ? ORDER BY created_at DESC LIMIT 1",
-      [repo_root_hash]
+      "SELECT id FROM projects WHERE repo_root_hash = ? AND org_id = ? ORDER BY created_at DESC LIMIT 1",
+      [repo_root_hash, auth.org_id]
     ))[0];
     if (existing?.id) {
       reply.send({ project_id: existing.id });
@@ -507,8 +972,8 @@ export async function createServer(options?: {
 
     const project_id = randomUUID();
     await db.exec(
-      "INSERT INTO projects (id, repo_name, repo_root_hash, created_at) VALUES (?, ?, ?, ?)",
-      [project_id, repo_name, repo_root_hash, new Date().toISOString()]
+      "INSERT INTO projects (id, org_id, repo_name, repo_root_hash, created_at) VALUES (?, ?, ?, ?, ?)",
+      [project_id, auth.org_id, repo_name, repo_root_hash, new Date().toISOString()]
     );
 
     reply.send({ project_id });
@@ -518,85 +983,431 @@ export async function createServer(options?: {
     const auth = await requireAuth(req, reply);
     if (!auth) return;
 
-    const usage = await computeUsageForMonth({ db, pricing, plan_id: auth.plan_id });
+    const usage = await computeUsageForMonth({ db, pricing, plan_id: auth.plan_id, org_id: auth.org_id });
     reply.send({
       org_id: auth.org_id,
       user_id: auth.user_id,
       plan_id: auth.plan_id,
       credits_included: pricing.plans[auth.plan_id]?.included_credits_trc ?? 0,
       credits_used: usage.credits_used,
-      payg_overage: usage.payg_overage
+      payg_overage: usage.payg_overage,
+      auth_method: auth.method,
+      scopes: auth.scopes
     });
   });
 
-  app.post("/v1/projects/:id/plan", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+  app.get("/v1/api-keys", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "admin");
     if (!auth) return;
+    const keys = await authenticator.keyManager.listByOrg(auth.org_id);
+    reply.send({ keys });
+  });
 
-    const project_id = (req.params as { id: string }).id;
-    const body = (req.body ?? {}) as {
-      input?: { text?: string; files?: Array<{ path: string; content: string }> };
-      pins?: string[];
-      lane?: Lane;
-      risk?: RiskLevel;
-      budget_cap_usd?: number;
-    };
+  app.post("/v1/api-keys", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "admin");
+    if (!auth) return;
+    const body = (req.body ?? {}) as { name?: string; scopes?: string[]; expires_at?: string };
+    const name = String(body.name ?? "").trim();
+    if (!name) {
+      reply.code(400).send({ error: "name required" });
+      return;
+    }
+    const scopes = body.scopes ?? ["runs:read", "runs:write", "projects:read"];
+    const unknownScopes = scopes.filter((scope) => !(scope in API_KEY_SCOPES));
+    if (unknownScopes.length > 0) {
+      reply.code(400).send({ error: "invalid_scopes", scopes: unknownScopes });
+      return;
+    }
+    const expiresAt = body.expires_at ? new Date(body.expires_at) : undefined;
+    if (expiresAt && Number.isNaN(expiresAt.getTime())) {
+      reply.code(400).send({ error: "invalid_expires_at" });
+      return;
+    }
+    const created = await authenticator.keyManager.create({
+      name,
+      orgId: auth.org_id,
+      userId: auth.user_id,
+      scopes: scopes as ApiKeyScope[],
+      expiresAt
+    });
+    await audit(req, auth, {
+      action: "API_KEY_CREATE",
+      targetType: "api_key",
+      targetId: created.id,
+      metadata: { name, scopes, expires_at: created.expires_at }
+    });
+    reply.send(created);
+  });
 
-    const projectRow = (await db.query<{ repo_name?: string }>(
-      "SELECT repo_name FROM projects WHERE id = ?",
-      [project_id]
-    ))[0];
-    if (!projectRow) {
-      reply.code(404).send({ error: "project not found" });
+  app.post("/v1/api-keys/:key_id/revoke", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "admin");
+    if (!auth) return;
+    const key_id = (req.params as { key_id: string }).key_id;
+    const revoked = await authenticator.keyManager.revoke(key_id, auth.org_id);
+    if (!revoked) {
+      reply.code(404).send({ error: "api key not found" });
       return;
     }
+    await audit(req, auth, { action: "API_KEY_REVOKE", targetType: "api_key", targetId: key_id });
+    reply.send({ ok: true });
+  });
 
-    const plan_id = `plan_${Date.now()}`;
-    const sanitized = sanitizePins((body.pins ?? []).filter(Boolean));
-    const pins = sanitized.pins;
-    const warnings: string[] = [];
-    if (sanitized.droppedCount > 0) {
-      warnings.push(
-        `Dropped ${sanitized.droppedCount} unsafe pin(s). Pins must be repo-relative paths/globs and should not target secrets.`
-      );
+  app.post("/v1/auth/register", async (req, reply) => {
+    const service = requireAuthService(reply);
+    if (!service) return;
+    const body = (req.body ?? {}) as { email?: string; password?: string; name?: string };
+    if (!body.email || !body.password) {
+      reply.code(400).send({ error: "email and password required" });
+      return;
+    }
+    try {
+      const result = await service.register({ email: body.email, password: body.password, name: body.name });
+      await audit(req, { user_id: result.user.id, org_id: result.org.id }, { action: "REGISTER" });
+      sendAuthResult(reply, result);
+    } catch (err) {
+      sendAuthError(reply, err);
     }
+  });
 
-    const lane: Lane =
-      body.lane && lanePolicy.lanes[body.lane as Lane] ? (body.lane as Lane) : "balanced";
-    const risk: RiskLevel =
-      body.risk && riskPolicy.risk_levels[body.risk as RiskLevel]
-        ? (body.risk as RiskLevel)
-        : "standard";
-    const budget_cap_usd = typeof body.budget_cap_usd === "number" ? body.budget_cap_usd : undefined;
+  app.post("/v1/auth/login", async (req, reply) => {
+    const service = requireAuthService(reply);
+    if (!service) return;
+    const body = (req.body ?? {}) as { email?: string; password?: string };
+    if (!body.email || !body.password) {
+      reply.code(400).send({ error: "email and password required" });
+      return;
+    }
+    try {
+      const result = await service.login(body.email, body.password);
+      await auditLogger.logLogin({
+        userId: result.user.id,
+        orgId: result.org.id,
+        method: "password",
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"]
+      });
+      sendAuthResult(reply, result);
+    } catch (err) {
+      if (err instanceof AuthError) {
+        await auditLogger.logLoginFailed({
+          email: body.email,
+          reason: err.code,
+          ipAddress: req.ip,
+          userAgent: req.headers["user-agent"]
+        });
+      }
+      sendAuthError(reply, err);
+    }
+  });
 
-    const redText = redactText((body.input?.text ?? "").trim());
-    const inputText = redText.text;
-    const inputFiles = (body.input?.files ?? [])
-      .filter((f) => Boolean(f?.path))
-      .map((f) => ({
-        path: String(f.path ?? ""),
-        content: limitText(redactText(String(f.content ?? "")).text, 20000)
-      }))
-      .filter((f) => f.path);
-    const pinnedFiles = inputFiles.map((f) => f.path).filter(Boolean);
+  app.post("/v1/auth/refresh", async (req, reply) => {
+    const service = requireAuthService(reply);
+    if (!service) return;
+    const body = (req.body ?? {}) as { refresh_token?: string };
+    if (!body.refresh_token) {
+      reply.code(400).send({ error: "refresh_token required" });
+      return;
+    }
+    try {
+      sendAuthResult(reply, await service.refreshToken(body.refresh_token));
+    } catch (err) {
+      sendAuthError(reply, err);
+    }
+  });
 
-    const projectName = (projectRow.repo_name ?? "project").trim() || "project";
+  app.post("/v1/auth/switch-org", async (req, reply) => {
+    const service = requireAuthService(reply);
+    if (!service) return;
+    const auth = await requireAuth(req, reply);
+    if (!auth) return;
+    const body = (req.body ?? {}) as { org_id?: string };
+    if (!body.org_id) {
+      reply.code(400).send({ error: "org_id required" });
+      return;
+    }
+    try {
+      sendAuthResult(reply, await service.switchOrg(auth.user_id, body.org_id));
+    } catch (err) {
+      sendAuthError(reply, err);
+    }
+  });
 
-    const contextBudget = lanePolicy.lanes[lane]?.context_budget ?? lanePolicy.lanes.balanced.context_budget;
-    const plannerDecision = decideRouter({
-      taskType: "project_planning",
-      lane,
-      risk,
-      budgetRemainingUsd: budget_cap_usd,
-      contextBudget,
-      modelStack,
-      lanePolicy,
-      riskPolicy
-    });
-    const plannerProviderSelection = await providerFactory.getProviderWithFallback(plannerDecision.selected_model);
+  app.get("/v1/auth/me", async (req, reply) => {
+    const auth = await requireAuth(req, reply);
+    if (!auth) return;
+    const user = await userStore.findById(auth.user_id);
+    if (!user) {
+      reply.code(404).send({ error: "user not found" });
+      return;
+    }
+    const org = await orgStore.findById(auth.org_id);
+    const member = await orgStore.getMember(auth.org_id, auth.user_id);
+    reply.send({ user: toPublicUser(user), org, role: member?.role ?? null });
+  });
 
-    const planningRequestText =
-      inputText ||
+  app.get("/v1/orgs", async (req, reply) => {
+    const auth = await requireAuth(req, reply);
+    if (!auth) return;
+    const orgs = await orgStore.findByUserId(auth.user_id);
+    const withRoles = await Promise.all(
+      orgs.map(async (org) => ({ ...org, role: (await orgStore.getMember(org.id, auth.user_id))?.role ?? null }))
+    );
+    reply.send({ orgs: withRoles });
+  });
+
+  app.post("/v1/orgs", async (req, reply) => {
+    const service = requireAuthService(reply);
+    if (!service) return;
+    const auth = await requireAuth(req, reply);
+    if (!auth) return;
+    const body = (req.body ?? {}) as { name?: string };
+    const name = String(body.name ?? "").trim();
+    if (!name) {
+      reply.code(400).send({ error: "name required" });
+      return;
+    }
+    const user = await userStore.findById(auth.user_id);
+    if (!user) {
+      reply.code(404).send({ error: "user not found" });
+      return;
+    }
+    const org = await service.createOrganization(user.id, name);
+    reply.send({ org, role: "owner" });
+  });
+
+  app.get("/v1/orgs/:org_id", async (req, reply) => {
+    const auth = await requireAuth(req, reply);
+    if (!auth) return;
+    const member = await requireOrgMember(req, reply, auth);
+    if (!member) return;
+    const org = await orgStore.findById(member.org_id);
+    reply.send({ org, role: member.role });
+  });
+
+  app.get("/v1/orgs/:org_id/members", async (req, reply) => {
+    const auth = await requireAuth(req, reply);
+    if (!auth) return;
+    const member = await requireOrgMember(req, reply, auth);
+    if (!member) return;
+    reply.send({ members: await orgStore.listMembers(member.org_id) });
+  });
+
+  app.post("/v1/orgs/:org_id/members", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "admin");
+    if (!auth) return;
+    const member = await requireOrgMember(req, reply, auth, ["owner", "admin"]);
+    if (!member) return;
+    const body = (req.body ?? {}) as { email?: string; role?: string };
+    const role = body.role ?? "member";
+    if (role !== "admin" && role !== "member") {
+      reply.code(400).send({ error: "invalid_role" });
+      return;
+    }
+    const user = body.email ? await userStore.findByEmail(body.email) : null;
+    if (!user) {
+      reply.code(404).send({ error: "user not found" });
+      return;
+    }
+    if (await orgStore.getMember(member.org_id, user.id)) {
+      reply.code(409).send({ error: "already_member" });
+      return;
+    }
+    await orgStore.addMember(member.org_id, user.id, role);
+    await audit(req, auth, {
+      action: "PERMISSIONS_CHANGE",
+      targetType: "org_member",
+      targetId: user.id,
+      metadata: { org_id: member.org_id, change: "add", role }
+    });
+    reply.send({ member: await orgStore.getMember(member.org_id, user.id) });
+  });
+
+  app.post("/v1/orgs/:org_id/members/:user_id/role", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "admin");
+    if (!auth) return;
+    const member = await requireOrgMember(req, reply, auth, ["owner", "admin"]);
+    if (!member) return;
+    const user_id = (req.params as { user_id: string }).user_id;
+    const role = ((req.body ?? {}) as { role?: string }).role;
+    if (role !== "admin" && role !== "member") {
+      reply.code(400).send({ error: "invalid_role" });
+      return;
+    }
+    const target = await orgStore.getMember(member.org_id, user_id);
+    if (!target) {
+      reply.code(404).send({ error: "member not found" });
+      return;
+    }
+    if (target.role === "owner") {
+      reply.code(409).send({ error: "cannot_change_owner" });
+      return;
+    }
+    await orgStore.updateMemberRole(member.org_id, user_id, role);
+    await audit(req, auth, {
+      action: "PERMISSIONS_CHANGE",
+      targetType: "org_member",
+      targetId: user_id,
+      metadata: { org_id: member.org_id, change: "role", from: target.role, to: role }
+    });
+    reply.send({ member: { ...target, role } });
+  });
+
+  app.post("/v1/orgs/:org_id/members/:user_id/remove", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "admin");
+    if (!auth) return;
+    const member = await requireOrgMember(req, reply, auth, ["owner", "admin"]);
+    if (!member) return;
+    const user_id = (req.params as { user_id: string }).user_id;
+    const target = await orgStore.getMember(member.org_id, user_id);
+    if (!target) {
+      reply.code(404).send({ error: "member not found" });
+      return;
+    }
+    if (target.role === "owner") {
+      reply.code(409).send({ error: "cannot_remove_owner" });
+      return;
+    }
+    await orgStore.removeMember(member.org_id, user_id);
+    await audit(req, auth, {
+      action: "PERMISSIONS_CHANGE",
+      targetType: "org_member",
+      targetId: user_id,
+      metadata: { org_id: member.org_id, change: "remove", role: target.role }
+    });
+    reply.send({ ok: true });
+  });
+
+  app.get("/v1/audit", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "admin");
+    if (!auth) return;
+    const query = (req.query ?? {}) as {
+      user_id?: string;
+      action?: string;
+      since?: string;
+      until?: string;
+      limit?: string;
+      offset?: string;
+    };
+    const filters: AuditQueryFilters = {
+      orgId: auth.org_id,
+      userId: query.user_id,
+      action: query.action ? (query.action.split(",").map((action) => action.trim()) as AuditAction[]) : undefined,
+      startDate: query.since ? new Date(query.since) : undefined,
+      endDate: query.until ? new Date(query.until) : undefined,
+      limit: query.limit ? Number(query.limit) : undefined,
+      offset: query.offset ? Number(query.offset) : undefined
+    };
+    if (
+      [filters.startDate, filters.endDate].some((date) => date && Number.isNaN(date.getTime())) ||
+      [filters.limit, filters.offset].some((value) => value !== undefined && !Number.isFinite(value))
+    ) {
+      reply.code(400).send({ error: "invalid_audit_query" });
+      return;
+    }
+    reply.send({ entries: await auditLogger.query(filters) });
+  });
+
+  app.get("/v1/audit/verify", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "admin");
+    if (!auth) return;
+    const result = await auditStore.verify(auth.org_id);
+    reply.send({ valid: result.valid, checked: result.checked, broken_at: result.brokenAt ?? null });
+  });
+
+  app.post("/v1/projects/:id/permissions", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "projects:write");
+    if (!auth) return;
+    const project_id = (req.params as { id: string }).id;
+    const body = (req.body ?? {}) as { decision?: string; command?: string };
+    if (body.decision !== "allow" && body.decision !== "ask" && body.decision !== "deny") {
+      reply.code(400).send({ error: "invalid_decision" });
+      return;
+    }
+    if (!body.command) {
+      reply.code(400).send({ error: "command required" });
+      return;
+    }
+    await audit(req, auth, {
+      action: "PERMISSIONS_CHANGE",
+      targetType: "runner_permissions",
+      targetId: project_id,
+      metadata: { decision: body.decision, command: body.command, source: "cli" }
+    });
+    reply.send({ ok: true });
+  });
+
+  app.post("/v1/projects/:id/plan", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "projects:write");
+    if (!auth) return;
+
+    const project_id = (req.params as { id: string }).id;
+    const body = (req.body ?? {}) as {
+      input?: { text?: string; files?: Array<{ path: string; content: string }> };
+      pins?: string[];
+      lane?: Lane;
+      risk?: RiskLevel;
+      budget_cap_usd?: number;
+      stream_id?: string;
+    };
+    const stream_id = readStreamId(reply, body.stream_id);
+    if (stream_id === null) return;
+
+    const projectRow = (await db.query<{ repo_name?: string }>(
+      "SELECT repo_name FROM projects WHERE id = ?",
+      [project_id]
+    ))[0];
+    if (!projectRow) {
+      reply.code(404).send({ error: "project not found" });
+      return;
+    }
+
+    const plan_id = `plan_${Date.now()}`;
+    const sanitized = sanitizePins((body.pins ?? []).filter(Boolean));
+    const pins = sanitized.pins;
+    const warnings: string[] = [];
+    if (sanitized.droppedCount > 0) {
+      warnings.push(
+        `Dropped ${sanitized.droppedCount} unsafe pin(s). Pins must be repo-relative paths/globs and should not target secrets.`
+      );
+    }
+
+    const lane: Lane =
+      body.lane && lanePolicy.lanes[body.lane as Lane] ? (body.lane as Lane) : "balanced";
+    const risk: RiskLevel =
+      body.risk && riskPolicy.risk_levels[body.risk as RiskLevel]
+        ? (body.risk as RiskLevel)
+        : "standard";
+    const budget_cap_usd = typeof body.budget_cap_usd === "number" ? body.budget_cap_usd : undefined;
+
+    const redText = redactText((body.input?.text ?? "").trim());
+    const inputText = redText.text;
+    const inputFiles = (body.input?.files ?? [])
+      .filter((f) => Boolean(f?.path))
+      .map((f) => ({
+        path: String(f.path ?? ""),
+        content: limitText(redactText(String(f.content ?? "")).text, 20000)
+      }))
+      .filter((f) => f.path);
+    const pinnedFiles = inputFiles.map((f) => f.path).filter(Boolean);
+
+    const projectName = (projectRow.repo_name ?? "project").trim() || "project";
+
+    const contextBudget = lanePolicy.lanes[lane]?.context_budget ?? lanePolicy.lanes.balanced.context_budget;
+    const plannerDecision = decideRouter({
+      taskType: "project_planning",
+      lane,
+      risk,
+      budgetRemainingUsd: budget_cap_usd,
+      contextBudget,
+      modelStack,
+      lanePolicy,
+      riskPolicy,
+      pricing
+    });
+    const plannerProviderSelection = await providerFactory.getProviderWithFallback(plannerDecision.selected_model);
+
+    const planningRequestText =
+      inputText ||
       (inputFiles.length > 0 ? inputFiles.map((f) => `# ${f.path}\n\n${f.content}`).join("\n\n") : "");
 
     const allowedTaskTypes = Object.keys(modelStack.task_type_map ?? {});
@@ -609,7 +1420,9 @@ export async function createServer(options?: {
       inputFiles,
       lane,
       risk,
-      allowedTaskTypes
+      allowedTaskTypes,
+      schema: tasksSchema,
+      onChunk: deltaEmitter(stream_id, { source: "plan", model: plannerProviderSelection.selectedModel })
     });
 
     if (taskGen.warnings.length > 0) {
@@ -630,7 +1443,8 @@ export async function createServer(options?: {
             contextBudget,
             modelStack,
             lanePolicy,
-            riskPolicy
+            riskPolicy,
+            pricing
           });
           return `- [${phase.id}] ${task.id}: ${task.title} (${task.type}, risk=${task.risk}) -> ${d.selected_model}`;
         })
@@ -681,8 +1495,9 @@ export async function createServer(options?: {
       { path: `artifacts/${project_id}/${plan_id}/risks.md`, kind: "risks.md" }
     ];
 
-    if (taskGen.usage) {
-      const usageSoFar = await computeUsageForMonth({ db, pricing, plan_id: auth.plan_id });
+    // Every planner call is billed, repairs included, so a plan that needed fixing shows what it cost
+    for (const attempt of taskGen.attempts) {
+      const usageSoFar = await computeUsageForMonth({ db, pricing, plan_id: auth.plan_id, org_id: auth.org_id });
       const creditsRemaining = Math.max(
         0,
         (pricing.plans[auth.plan_id]?.included_credits_trc ?? 0) - usageSoFar.credits_used
@@ -690,23 +1505,28 @@ export async function createServer(options?: {
 
       const tokensEstimate = estimateTokens("project_planning", lane, risk);
       const tokensIn =
-        typeof taskGen.usage?.prompt_tokens === "number"
-          ? taskGen.usage.prompt_tokens
+        typeof attempt.usage?.prompt_tokens === "number"
+          ? attempt.usage.prompt_tokens
           : Math.round(tokensEstimate * 0.7);
       const tokensOut =
-        typeof taskGen.usage?.completion_tokens === "number"
-          ? taskGen.usage.completion_tokens
+        typeof attempt.usage?.completion_tokens === "number"
+          ? attempt.usage.completion_tokens
           : Math.round(tokensEstimate * 0.3);
+      const tokensCachedIn = attempt.usage?.cached_prompt_tokens ?? 0;
+      const tokensCacheWrite = attempt.usage?.cache_write_tokens ?? 0;
 
       const cost = calculateCost({
         model: plannerProviderSelection.selectedModel,
         tokens_in: tokensIn,
         tokens_out: tokensOut,
+        tokens_cached_in: tokensCachedIn,
+        tokens_cache_write: tokensCacheWrite,
         pricing,
         modelStack,
         plan_id: auth.plan_id,
         credits_remaining_trc: creditsRemaining
       });
+      const task_type = attempt.attempt === 0 ? "plan" : "plan_repair";
 
       await appendLedgerEvent(
         db,
@@ -721,7 +1541,8 @@ export async function createServer(options?: {
             requested_model: plannerDecision.selected_model,
             provider: plannerProviderSelection.provider.name,
             used_fallback: plannerProviderSelection.usedFallback,
-            task_type: "plan"
+            task_type,
+            attempt: attempt.attempt
           }
         })
       );
@@ -739,13 +1560,37 @@ export async function createServer(options?: {
             requested_model: plannerDecision.selected_model,
             provider: plannerProviderSelection.provider.name,
             used_fallback: plannerProviderSelection.usedFallback,
-            task_type: "plan",
+            task_type,
+            attempt: attempt.attempt,
             tokens_in: tokensIn,
             tokens_out: tokensOut,
+            tokens_cached_in: tokensCachedIn,
+            tokens_cache_write: tokensCacheWrite,
             provider_cost_usd: cost.provider_cost_usd,
             credits_applied_usd: cost.credits_applied_usd,
             billable_provider_cost_usd: cost.billable_provider_cost_usd,
             markup_rate: cost.markup_rate,
+            our_charge_usd: cost.our_charge_usd,
+            cache_savings_usd: cost.cache_savings_usd,
+            price_effective_from: cost.price_effective_from
+          }
+        })
+      );
+
+      await appendLedgerEvent(
+        db,
+        createLedgerEvent({
+          org_id: auth.org_id,
+          user_id: auth.user_id,
+          project_id,
+          plan_id,
+          event_type: "PLAN_VALIDATED",
+          payload: {
+            attempt: attempt.attempt,
+            valid: attempt.errors.length === 0,
+            errors: attempt.errors.slice(0, 20),
+            tokens_in: tokensIn,
+            tokens_out: tokensOut,
             our_charge_usd: cost.our_charge_usd
           }
         })
@@ -786,7 +1631,7 @@ export async function createServer(options?: {
   });
 
   app.post("/v1/projects/:id/chat", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "projects:write");
     if (!auth) return;
 
     const project_id = (req.params as { id: string }).id;
@@ -796,7 +1641,10 @@ export async function createServer(options?: {
       lane?: Lane;
       risk?: RiskLevel;
       budget_cap_usd?: number;
+      stream_id?: string;
     };
+    const stream_id = readStreamId(reply, body.stream_id);
+    if (stream_id === null) return;
 
     const project = (await db.query("SELECT id FROM projects WHERE id = ?", [project_id]))[0];
     if (!project) {
@@ -851,7 +1699,8 @@ export async function createServer(options?: {
       contextBudget,
       modelStack,
       lanePolicy,
-      riskPolicy
+      riskPolicy,
+      pricing
     });
 
     const providerSelection = await providerFactory.getProviderWithFallback(routerDecision.selected_model);
@@ -876,13 +1725,18 @@ export async function createServer(options?: {
       "Do not claim to have applied changes unless the user ran /apply. " +
       "Respect patch-first: suggest /plan and /start for execution.";
 
-    const completion = await providerSelection.provider.chat({
+    const chatRequest = {
       model: providerSelection.selectedModel,
-      messages: [{ role: "system", content: systemPrompt }, ...history],
+      messages: [{ role: "system" as const, content: systemPrompt, cache: true }, ...history],
       temperature: 0.2
-    });
+    };
+    const onChunk = deltaEmitter(stream_id, { source: "chat", model: providerSelection.selectedModel });
+    const completion =
+      onChunk && providerSelection.provider.chatStream
+        ? await providerSelection.provider.chatStream(chatRequest, onChunk)
+        : await providerSelection.provider.chat(chatRequest);
 
-    const usageSoFar = await computeUsageForMonth({ db, pricing, plan_id: auth.plan_id });
+    const usageSoFar = await computeUsageForMonth({ db, pricing, plan_id: auth.plan_id, org_id: auth.org_id });
     const creditsRemaining = Math.max(
       0,
       (pricing.plans[auth.plan_id]?.included_credits_trc ?? 0) - usageSoFar.credits_used
@@ -897,11 +1751,15 @@ export async function createServer(options?: {
       typeof completion.usage?.completion_tokens === "number"
         ? completion.usage.completion_tokens
         : Math.round(tokensEstimate * 0.3);
+    const tokensCachedIn = completion.usage?.cached_prompt_tokens ?? 0;
+    const tokensCacheWrite = completion.usage?.cache_write_tokens ?? 0;
 
     const cost = calculateCost({
       model: providerSelection.selectedModel,
       tokens_in: tokensIn,
       tokens_out: tokensOut,
+      tokens_cached_in: tokensCachedIn,
+      tokens_cache_write: tokensCacheWrite,
       pricing,
       modelStack,
       plan_id: auth.plan_id,
@@ -921,11 +1779,15 @@ export async function createServer(options?: {
         task_type: "chat",
         tokens_in: tokensIn,
         tokens_out: tokensOut,
+        tokens_cached_in: tokensCachedIn,
+        tokens_cache_write: tokensCacheWrite,
         provider_cost_usd: cost.provider_cost_usd,
         credits_applied_usd: cost.credits_applied_usd,
         billable_provider_cost_usd: cost.billable_provider_cost_usd,
         markup_rate: cost.markup_rate,
-        our_charge_usd: cost.our_charge_usd
+        our_charge_usd: cost.our_charge_usd,
+        cache_savings_usd: cost.cache_savings_usd,
+        price_effective_from: cost.price_effective_from
       }
     });
     await appendLedgerEvent(db, llmFinish);
@@ -947,15 +1809,36 @@ export async function createServer(options?: {
   });
 
   app.post("/v1/projects/:id/plan/approve", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "projects:write");
     if (!auth) return;
     const project_id = (req.params as { id: string }).id;
-    const body = req.body as { plan_id: string; repo_commit: string };
+    const body = req.body as { plan_id: string; repo_commit: string; revision?: number };
+
+    // Approval pins one revision: plan_id names it directly, or revision picks one of plan_id's chain
+    let plan_id = body.plan_id;
+    if (!(await getPlanRow(project_id, plan_id))) {
+      reply.code(404).send({ error: "plan not found" });
+      return;
+    }
+    let revision = (await getPlanRevision(db, plan_id))?.revision ?? 0;
+    if (body.revision !== undefined && body.revision !== revision) {
+      const lineage = await getPlanLineage(plan_id);
+      const match =
+        body.revision === 0
+          ? lineage.root_plan_id
+          : lineage.revisions.find((candidate) => candidate.revision === body.revision)?.plan_id;
+      if (!match || !(await getPlanRow(project_id, match))) {
+        reply.code(404).send({ error: "revision not found", revision: body.revision });
+        return;
+      }
+      plan_id = match;
+      revision = body.revision;
+    }
 
     await db.exec("UPDATE plans SET approved_at = ?, repo_commit = ? WHERE id = ? AND project_id = ?", [
       new Date().toISOString(),
       body.repo_commit,
-      body.plan_id,
+      plan_id,
       project_id
     ]);
 
@@ -963,31 +1846,141 @@ export async function createServer(options?: {
       org_id: auth.org_id,
       user_id: auth.user_id,
       project_id,
-      plan_id: body.plan_id,
+      plan_id,
       event_type: "PLAN_APPROVED",
-      payload: { repo_commit: body.repo_commit }
+      payload: { repo_commit: body.repo_commit, revision }
     });
     await appendLedgerEvent(db, event);
+    await audit(req, auth, {
+      action: "PLAN_APPROVE",
+      targetType: "plan",
+      targetId: plan_id,
+      metadata: { project_id, repo_commit: body.repo_commit, revision }
+    });
 
-    reply.send({ ok: true });
+    reply.send({ ok: true, plan_id, revision });
   });
 
-  app.get("/v1/projects/:id/plan/status", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+  type PlanRow = {
+    id: string;
+    project_id: string;
+    created_at: string;
+    approved_at: string | null;
+    tasks_json: unknown;
+    input_json: unknown;
+  };
+
+  async function getPlanRow(project_id: string, plan_id: string): Promise<PlanRow | undefined> {
+    return (await db.query<PlanRow>(
+      "SELECT id, project_id, created_at, approved_at, tasks_json, input_json FROM plans WHERE id = ? AND project_id = ?",
+      [plan_id, project_id]
+    ))[0];
+  }
+
+  // Revision chain a plan belongs to; a generated plan is revision 0 of its own chain
+  async function getPlanLineage(plan_id: string) {
+    const own = await getPlanRevision(db, plan_id);
+    const root_plan_id = own?.root_plan_id ?? plan_id;
+    const revisions = await listPlanRevisions(db, root_plan_id);
+    const latest = revisions[revisions.length - 1];
+    return {
+      root_plan_id,
+      revision: own?.revision ?? 0,
+      parent_plan_id: own?.parent_plan_id ?? null,
+      revisions,
+      latest_plan_id: latest?.plan_id ?? root_plan_id,
+      latest_revision: latest?.revision ?? 0
+    };
+  }
+
+  app.post("/v1/projects/:id/plan/revisions", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "projects:write");
     if (!auth) return;
     const project_id = (req.params as { id: string }).id;
+    const body = (req.body ?? {}) as { plan_id?: string; ops?: PlanEditOp[] };
+    if (!Array.isArray(body.ops) || body.ops.length === 0) {
+      reply.code(400).send({ error: "invalid_ops", message: "ops must be a non-empty list of plan edits" });
+      return;
+    }
 
-    const latest = (await db.query<{ id?: string; repo_commit?: string }>(
-      "SELECT id, repo_commit FROM plans WHERE project_id = ? ORDER BY created_at DESC LIMIT 1",
-      [project_id]
-    ))[0];
-    const approved = (await db.query<{ id?: string; repo_commit?: string }>(
-      "SELECT id, repo_commit FROM plans WHERE project_id = ? AND approved_at IS NOT NULL ORDER BY approved_at DESC LIMIT 1",
-      [project_id]
-    ))[0];
+    const plan_id =
+      body.plan_id ??
+      (await db.query<{ id: string }>("SELECT id FROM plans WHERE project_id = ? ORDER BY created_at DESC LIMIT 1", [
+        project_id
+      ]))[0]?.id;
+    const parent = plan_id ? await getPlanRow(project_id, plan_id) : undefined;
+    if (!parent) {
+      reply.code(404).send({ error: "plan not found" });
+      return;
+    }
+    const lineage = await getPlanLineage(parent.id);
+    // Edits build on the newest revision; editing an older one would silently fork the chain
+    if (lineage.latest_plan_id !== parent.id) {
+      reply.code(409).send({
+        error: "revision_conflict",
+        latest_plan_id: lineage.latest_plan_id,
+        latest_revision: lineage.latest_revision
+      });
+      return;
+    }
 
-    const repoState = await getRepoState(project_id);
-    const staleInfo = computeStale(approved?.repo_commit, repoState);
+    const before = parseJsonValue<TasksFileV1 | null>(parent.tasks_json, null);
+    if (!before) {
+      reply.code(409).send({ error: "plan has no tasks" });
+      return;
+    }
+    let after: TasksFileV1;
+    try {
+      after = applyPlanEdits(before, body.ops, Object.keys(modelStack.task_type_map ?? {}));
+    } catch (err) {
+      if (err instanceof PlanEditError || err instanceof TaskGraphError) {
+        reply.code(400).send({ error: err.code, message: err.message, task_ids: err.task_ids });
+        return;
+      }
+      throw err;
+    }
+
+    const revision = lineage.latest_revision + 1;
+    const revision_plan_id = `${lineage.root_plan_id}_r${revision}`;
+    after.plan_id = revision_plan_id;
+    const diff = diffPlanTasks(before, after);
+
+    writePlanArtifact(revision_plan_id, "tasks.v1.json", JSON.stringify(after, null, 2));
+    writePlanArtifact(
+      revision_plan_id,
+      "revision.json",
+      JSON.stringify({ parent_plan_id: parent.id, revision, ops: body.ops, diff }, null, 2)
+    );
+    const artifacts = [
+      { path: `artifacts/${project_id}/${revision_plan_id}/tasks.v1.json`, kind: "tasks.v1.json" },
+      { path: `artifacts/${project_id}/${revision_plan_id}/revision.json`, kind: "revision.json" }
+    ];
+
+    const created_at = new Date().toISOString();
+    await db.exec(
+      "INSERT INTO plans (id, project_id, created_at, approved_at, repo_commit, artifacts_json, tasks_json, input_json) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+      [
+        revision_plan_id,
+        project_id,
+        created_at,
+        null,
+        null,
+        JSON.stringify(artifacts),
+        JSON.stringify(after),
+        // Pins and the original request carry over, runs/start reads them from here
+        JSON.stringify(parseJsonValue<Record<string, unknown>>(parent.input_json, {}))
+      ]
+    );
+    await savePlanRevision(db, {
+      plan_id: revision_plan_id,
+      root_plan_id: lineage.root_plan_id,
+      parent_plan_id: parent.id,
+      revision,
+      ops: body.ops,
+      diff,
+      created_by: auth.user_id,
+      created_at
+    });
 
     await appendLedgerEvent(
       db,
@@ -995,260 +1988,534 @@ export async function createServer(options?: {
         org_id: auth.org_id,
         user_id: auth.user_id,
         project_id,
-        plan_id: approved?.id ?? latest?.id ?? null,
-        event_type: "PLAN_STATUS",
+        plan_id: revision_plan_id,
+        event_type: "PLAN_REVISED",
         payload: {
-          latest_plan_id: latest?.id ?? null,
-          approved_plan_id: approved?.id ?? null,
-          approved_repo_commit: approved?.repo_commit ?? null,
-          current_repo_commit: repoState.current_commit,
-          dirty: repoState.available ? repoState.dirty : null,
-          stale: staleInfo.stale,
-          stale_reason: staleInfo.reason
+          root_plan_id: lineage.root_plan_id,
+          parent_plan_id: parent.id,
+          revision,
+          ops: body.ops.map((op) => op.op),
+          added: diff.added.length,
+          removed: diff.removed.length,
+          changed: diff.changed.length,
+          moved: diff.moved.length
         }
       })
     );
 
     reply.send({
-      latest_plan_id: latest?.id ?? null,
-      approved_plan_id: approved?.id ?? null,
-      latest_repo_commit: latest?.repo_commit ?? null,
-      approved_repo_commit: approved?.repo_commit ?? null,
-      current_repo_commit: repoState.current_commit,
-      dirty: repoState.available ? repoState.dirty : null,
-      stale: staleInfo.stale,
-      stale_reason: staleInfo.reason
+      plan_id: revision_plan_id,
+      root_plan_id: lineage.root_plan_id,
+      parent_plan_id: parent.id,
+      revision,
+      diff,
+      tasks: after,
+      artifacts
     });
   });
 
-  app.post("/v1/projects/:id/runs/start", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+  app.get("/v1/projects/:id/plan/revisions", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "projects:read");
     if (!auth) return;
     const project_id = (req.params as { id: string }).id;
-    const body = (req.body ?? {}) as {
-      plan_id?: string;
-      lane?: Lane;
-      risk?: RiskLevel;
-      budget_cap_usd?: number;
-      task_id?: string;
-      confirm_high_risk?: boolean;
-      confirm_stale?: boolean;
-      model?: string;
-      context_budget?: {
-        max_files: number;
-        max_lines: number;
-        graph_depth: number;
-        top_k: number;
-        hydrate: boolean;
-      };
-    };
+    const query = (req.query ?? {}) as { plan_id?: string };
+    const plan_id =
+      query.plan_id ??
+      (await db.query<{ id: string }>("SELECT id FROM plans WHERE project_id = ? ORDER BY created_at DESC LIMIT 1", [
+        project_id
+      ]))[0]?.id;
+    const plan = plan_id ? await getPlanRow(project_id, plan_id) : undefined;
+    if (!plan) {
+      reply.code(404).send({ error: "plan not found" });
+      return;
+    }
 
-    if (body.model) {
-      reply.code(400).send({ error: "model_override_not_allowed" });
-      return;
+    const lineage = await getPlanLineage(plan.id);
+    const rows = new Map<string, PlanRow | undefined>();
+    for (const id of [lineage.root_plan_id, ...lineage.revisions.map((revision) => revision.plan_id)]) {
+      rows.set(id, await getPlanRow(project_id, id));
     }
+    reply.send({
+      root_plan_id: lineage.root_plan_id,
+      latest_plan_id: lineage.latest_plan_id,
+      revisions: [
+        {
+          plan_id: lineage.root_plan_id,
+          revision: 0,
+          parent_plan_id: null,
+          created_at: rows.get(lineage.root_plan_id)?.created_at ?? null,
+          approved_at: rows.get(lineage.root_plan_id)?.approved_at ?? null,
+          ops: []
+        },
+        ...lineage.revisions.map((revision) => ({
+          plan_id: revision.plan_id,
+          revision: revision.revision,
+          parent_plan_id: revision.parent_plan_id,
+          created_at: revision.created_at,
+          approved_at: rows.get(revision.plan_id)?.approved_at ?? null,
+          ops: revision.ops.map((op) => op.op)
+        }))
+      ]
+    });
+  });
 
-    const planRow = (await db.query<{ id: string; tasks_json: unknown; input_json: unknown; repo_commit?: string }>(
-      "SELECT id, tasks_json, input_json, repo_commit FROM plans WHERE project_id = ? AND approved_at IS NOT NULL ORDER BY approved_at DESC LIMIT 1",
-      [project_id]
-    ))[0];
-
-    const plan_id = body.plan_id ?? planRow?.id;
-    if (!plan_id || !planRow) {
-      reply.code(400).send({ error: "no approved plan" });
+  app.get("/v1/projects/:id/plan/diff", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "projects:read");
+    if (!auth) return;
+    const project_id = (req.params as { id: string }).id;
+    const query = (req.query ?? {}) as { from?: string; to?: string };
+
+    const to_plan_id =
+      query.to ??
+      (await db.query<{ id: string }>("SELECT id FROM plans WHERE project_id = ? ORDER BY created_at DESC LIMIT 1", [
+        project_id
+      ]))[0]?.id;
+    const to = to_plan_id ? await getPlanRow(project_id, to_plan_id) : undefined;
+    if (!to) {
+      reply.code(404).send({ error: "plan not found" });
       return;
     }
-
-    const repoState = await getRepoState(project_id);
-    const staleInfo = computeStale(planRow.repo_commit, repoState);
-    if (staleInfo.stale && !body.confirm_stale) {
-      reply.code(409).send({
-        error: "plan_stale",
-        stale: true,
-        stale_reason: staleInfo.reason,
-        current_repo_commit: repoState.current_commit,
-        approved_repo_commit: planRow.repo_commit ?? null,
-        dirty: repoState.available ? repoState.dirty : null
-      });
+    // Default baseline: the approved plan, else the revision the target was edited from
+    const from_plan_id =
+      query.from ??
+      (await db.query<{ id: string }>(
+        "SELECT id FROM plans WHERE project_id = ? AND approved_at IS NOT NULL ORDER BY approved_at DESC LIMIT 1",
+        [project_id]
+      ))[0]?.id ??
+      (await getPlanRevision(db, to.id))?.parent_plan_id ??
+      to.id;
+    const from = await getPlanRow(project_id, from_plan_id);
+    if (!from) {
+      reply.code(404).send({ error: "plan not found", plan_id: from_plan_id });
       return;
     }
 
-    const run_id = randomUUID();
-    const lane = body.lane ?? "balanced";
-    const risk = body.risk ?? "standard";
-    const budget_cap_usd = body.budget_cap_usd ?? 10;
-
-    await db.exec(
-      "INSERT INTO runs (id, project_id, plan_id, state, lane, risk, budget_cap_usd, cost_to_date, current_task_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
-      [
-        run_id,
-        project_id,
-        plan_id,
-        "RUNNING",
-        lane,
-        risk,
-        budget_cap_usd,
-        0,
-        null,
-        new Date().toISOString(),
-        new Date().toISOString()
-      ]
+    const empty: TasksFileV1 = { version: "tasks.v1", project: { name: "" }, plan_id: "", phases: [] };
+    const diff = diffPlanTasks(
+      parseJsonValue<TasksFileV1>(from.tasks_json, empty),
+      parseJsonValue<TasksFileV1>(to.tasks_json, empty)
     );
+    reply.send({ from: from.id, to: to.id, diff });
+  });
 
-    const tasks = parseJsonValue<TasksFileV1 | null>(planRow.tasks_json, null);
-    if (!tasks) {
-      reply.code(500).send({ error: "invalid tasks payload" });
+  app.get("/v1/projects/:id/plan/estimate", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "projects:read");
+    if (!auth) return;
+    const project_id = (req.params as { id: string }).id;
+    const query = (req.query ?? {}) as { plan_id?: string; lane?: string; risk?: string; budget_cap_usd?: string };
+
+    const plan_id =
+      query.plan_id ??
+      (await db.query<{ id: string }>("SELECT id FROM plans WHERE project_id = ? ORDER BY created_at DESC LIMIT 1", [
+        project_id
+      ]))[0]?.id;
+    const plan = plan_id ? await getPlanRow(project_id, plan_id) : undefined;
+    if (!plan) {
+      reply.code(404).send({ error: "plan not found" });
       return;
     }
-    const taskId = body.task_id;
-    const allTasks = tasks.phases.flatMap((phase) => phase.tasks);
-    const firstTask = taskId ? allTasks.find((task) => task.id === taskId) : allTasks[0];
-    if (!firstTask) {
-      reply.code(400).send({ error: "plan has no tasks" });
+    const tasks = parseJsonValue<TasksFileV1 | null>(plan.tasks_json, null);
+    if (!tasks) {
+      reply.code(409).send({ error: "plan has no tasks" });
       return;
     }
 
-    const needsConfirm =
-      riskPolicy.risk_levels[risk]?.requires_confirmation === true ||
-      firstTask.risk === "high" ||
-      riskPolicy.high_risk_task_types.includes(firstTask.type) ||
-      (firstTask.scope?.paths ?? []).some((p) =>
-        riskPolicy.high_risk_path_patterns.some((pattern) => globMatch(pattern, p))
-      );
-    if (needsConfirm && !body.confirm_high_risk) {
-      reply.code(409).send({ error: "high_risk_confirmation_required" });
-      return;
+    // Same defaults as runs/start, so the preview matches what /start would do
+    const lane: Lane = query.lane && lanePolicy.lanes[query.lane as Lane] ? (query.lane as Lane) : "balanced";
+    const risk: RiskLevel =
+      query.risk && riskPolicy.risk_levels[query.risk as RiskLevel] ? (query.risk as RiskLevel) : "standard";
+    const budget_cap_usd =
+      query.budget_cap_usd !== undefined && Number.isFinite(Number(query.budget_cap_usd))
+        ? Number(query.budget_cap_usd)
+        : DEFAULT_RUN_BUDGET_USD;
+
+    const usage = await computeUsageForMonth({ db, pricing, plan_id: auth.plan_id, org_id: auth.org_id });
+    const creditsRemaining = Math.max(0, (pricing.plans[auth.plan_id]?.included_credits_trc ?? 0) - usage.credits_used);
+
+    try {
+      const estimate = estimatePlan({
+        tasks,
+        lane,
+        risk,
+        budgetCapUsd: budget_cap_usd,
+        creditsRemainingUsd: creditsRemaining,
+        pricingPlanId: auth.plan_id,
+        pricing,
+        modelStack,
+        lanePolicy,
+        riskPolicy
+      });
+      reply.send({ plan_id: plan.id, approved: Boolean(plan.approved_at), ...estimate });
+    } catch (err) {
+      if (err instanceof TaskGraphError) {
+        reply.code(400).send({ error: "invalid_task_graph", reason: err.code, task_ids: err.task_ids });
+        return;
+      }
+      throw err;
     }
+  });
 
-    await db.exec(
-      "INSERT INTO tasks (id, run_id, plan_task_id, title, type, risk, state, router_decision_json, patch_path, patch_text, cost_usd, tokens_in, tokens_out) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
-      [
-        randomUUID(),
-        run_id,
-        firstTask.id,
-        firstTask.title,
-        firstTask.type,
-        firstTask.risk,
-        "RUNNING",
-        null,
-        null,
-        null,
-        0,
-        0,
-        0
-      ]
+  app.get("/v1/projects/:id/plan/status", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "projects:read");
+    if (!auth) return;
+    const project_id = (req.params as { id: string }).id;
+
+    const latest = (await db.query<{ id?: string; repo_commit?: string }>(
+      "SELECT id, repo_commit FROM plans WHERE project_id = ? ORDER BY created_at DESC LIMIT 1",
+      [project_id]
+    ))[0];
+    const approved = (await db.query<{ id?: string; repo_commit?: string }>(
+      "SELECT id, repo_commit FROM plans WHERE project_id = ? AND approved_at IS NOT NULL ORDER BY approved_at DESC LIMIT 1",
+      [project_id]
+    ))[0];
+
+    const repoState = await getRepoState(project_id);
+    const staleInfo = computeStale(approved?.repo_commit, repoState);
+
+    await appendLedgerEvent(
+      db,
+      createLedgerEvent({
+        org_id: auth.org_id,
+        user_id: auth.user_id,
+        project_id,
+        plan_id: approved?.id ?? latest?.id ?? null,
+        event_type: "PLAN_STATUS",
+        payload: {
+          latest_plan_id: latest?.id ?? null,
+          approved_plan_id: approved?.id ?? null,
+          approved_repo_commit: approved?.repo_commit ?? null,
+          current_repo_commit: repoState.current_commit,
+          dirty: repoState.available ? repoState.dirty : null,
+          stale: staleInfo.stale,
+          stale_reason: staleInfo.reason
+        }
+      })
     );
 
-    const verifyMode = resolveVerifyMode(
-      lanePolicy.lanes[lane].verify_mode,
-      riskPolicy.risk_levels[risk].verify_strictness
+    reply.send({
+      latest_plan_id: latest?.id ?? null,
+      approved_plan_id: approved?.id ?? null,
+      latest_repo_commit: latest?.repo_commit ?? null,
+      approved_repo_commit: approved?.repo_commit ?? null,
+      current_repo_commit: repoState.current_commit,
+      dirty: repoState.available ? repoState.dirty : null,
+      stale: staleInfo.stale,
+      stale_reason: staleInfo.reason
+    });
+  });
+
+  type ProviderSelection = Awaited<ReturnType<typeof providerFactory.getProviderWithFallback>>;
+
+  type GeneratedPatch = {
+    result: Awaited<ReturnType<ProviderSelection["provider"]["generatePatch"]>>;
+    tokens_in: number;
+    tokens_out: number;
+    cost: ReturnType<typeof calculateCost>;
+  };
+
+  async function requestTaskPatch(input: {
+    auth: AuthContext;
+    run_id: string;
+    project_id: string;
+    plan_id: string;
+    task: TaskDefinition;
+    lane: Lane;
+    risk: RiskLevel;
+    selection: ProviderSelection;
+    requested_model: string;
+    pack: ContextPackManifest;
+    prompt: PatchPrompt;
+    artifact_suffix?: string;
+  }): Promise<GeneratedPatch> {
+    const { auth, run_id, project_id, plan_id, task, selection, prompt } = input;
+    const suffix = input.artifact_suffix ?? "";
+
+    const logicalPromptPath = `artifacts/${project_id}/${run_id}/${task.id}/prompt${suffix}.md`;
+    writeArtifact(
+      run_id,
+      `prompt_${task.id}${suffix}.md`,
+      [
+        `# Prompt for ${task.id}`,
+        "",
+        `Model: ${selection.selectedModel}`,
+        `Context pack: ${input.pack.pack_id} (${input.pack.mode})`,
+        `Budget: ${prompt.stats.lines_used}/${prompt.stats.max_lines} lines`,
+        "",
+        "## Instructions",
+        "",
+        prompt.instructions,
+        "",
+        ...(prompt.attempt ? ["## Attempt", "", prompt.attempt, ""] : []),
+        "## Context",
+        "",
+        prompt.context,
+        ""
+      ].join("\n")
     );
-    const planType = pricing.plans[auth.plan_id] ? "subscription" : "payg";
 
-    const contextBudget = body.context_budget ?? lanePolicy.lanes[lane].context_budget;
+    const tokensEstimate = estimateTokens(task.type, input.lane, input.risk);
+    const llmStart = createLedgerEvent({
+      org_id: auth.org_id,
+      user_id: auth.user_id,
+      project_id,
+      run_id,
+      plan_id,
+      task_id: task.id,
+      event_type: "LLM_CALL_STARTED",
+      payload: {
+        model: selection.selectedModel,
+        requested_model: input.requested_model,
+        provider: selection.provider.name,
+        used_fallback: selection.usedFallback,
+        prompt_path: logicalPromptPath,
+        prompt_stats: prompt.stats
+      }
+    });
+    await appendLedgerEvent(db, llmStart);
 
-    const tasks_total = getPlanTasksCount(tasks);
+    const result = await selection.provider.generatePatch(
+      {
+        task_id: task.id,
+        instructions: prompt.instructions,
+        attempt: prompt.attempt,
+        context: prompt.context
+      },
+      deltaEmitter(run_id, { source: "patch", model: selection.selectedModel, run_id, task_id: task.id })
+    );
 
-    events.emit(run_id, {
-      type: "RUN_BANNER",
-      ts: new Date().toISOString(),
-      data: {
-        plan_type: planType,
-        plan_id: auth.plan_id,
-        lane,
-        risk,
-        gates_mode: verifyMode,
-        repo: project_id,
-        commit: tasks.repo_commit ?? "DEV",
-        approved_plan_id: plan_id,
-        budget_cap_usd,
-        cost_to_date_usd: 0,
-        budget_remaining_usd: budget_cap_usd,
-        verify_mode: verifyMode,
-        fix_loop_max_iters: lanePolicy.lanes[lane].fix_loop_max_iters
+    const usageSoFar = await computeUsageForMonth({ db, pricing, plan_id: auth.plan_id, org_id: auth.org_id });
+    const creditsRemaining = Math.max(
+      0,
+      (pricing.plans[auth.plan_id]?.included_credits_trc ?? 0) - usageSoFar.credits_used
+    );
+    const tokensIn =
+      typeof result.usage?.prompt_tokens === "number"
+        ? result.usage.prompt_tokens
+        : Math.round(tokensEstimate * 0.7);
+    const tokensOut =
+      typeof result.usage?.completion_tokens === "number"
+        ? result.usage.completion_tokens
+        : Math.round(tokensEstimate * 0.3);
+    const tokensCachedIn = result.usage?.cached_prompt_tokens ?? 0;
+    const tokensCacheWrite = result.usage?.cache_write_tokens ?? 0;
+    const cost = calculateCost({
+      model: selection.selectedModel,
+      tokens_in: tokensIn,
+      tokens_out: tokensOut,
+      tokens_cached_in: tokensCachedIn,
+      tokens_cache_write: tokensCacheWrite,
+      pricing,
+      modelStack,
+      plan_id: auth.plan_id,
+      credits_remaining_trc: creditsRemaining
+    });
+
+    const llmFinish = createLedgerEvent({
+      org_id: auth.org_id,
+      user_id: auth.user_id,
+      project_id,
+      run_id,
+      plan_id,
+      task_id: task.id,
+      event_type: "LLM_CALL_FINISHED",
+      payload: {
+        model: selection.selectedModel,
+        requested_model: input.requested_model,
+        provider: selection.provider.name,
+        used_fallback: selection.usedFallback,
+        task_type: task.type,
+        tokens_in: tokensIn,
+        tokens_out: tokensOut,
+        tokens_cached_in: tokensCachedIn,
+        tokens_cache_write: tokensCacheWrite,
+        provider_cost_usd: cost.provider_cost_usd,
+        credits_applied_usd: cost.credits_applied_usd,
+        billable_provider_cost_usd: cost.billable_provider_cost_usd,
+        markup_rate: cost.markup_rate,
+        our_charge_usd: cost.our_charge_usd,
+        cache_savings_usd: cost.cache_savings_usd,
+        price_effective_from: cost.price_effective_from
       }
     });
+    await appendLedgerEvent(db, llmFinish);
 
-    const runEvent = createLedgerEvent({
+    return { result, tokens_in: tokensIn, tokens_out: tokensOut, cost };
+  }
+
+  async function storeTaskPatch(input: {
+    auth: AuthContext;
+    run_id: string;
+    project_id: string;
+    plan_id: string;
+    task_id: string;
+    patch_text: string;
+    generated: GeneratedPatch;
+    stage_message: string;
+    artifact_suffix?: string;
+  }): Promise<string> {
+    const { auth, run_id, project_id, plan_id, task_id, generated } = input;
+    const suffix = input.artifact_suffix ?? "";
+
+    const logicalPatchPath = `artifacts/${project_id}/${run_id}/${task_id}/patch${suffix}.diff`;
+    const patchArtifact = writeArtifact(run_id, `patch_${task_id}${suffix}.diff`, input.patch_text);
+    await db.exec(
+      "UPDATE tasks SET patch_path = ?, patch_text = ?, cost_usd = cost_usd + ?, tokens_in = tokens_in + ?, tokens_out = tokens_out + ? WHERE run_id = ? AND plan_task_id = ?",
+      [
+        patchArtifact.path,
+        input.patch_text,
+        generated.cost.our_charge_usd,
+        generated.tokens_in,
+        generated.tokens_out,
+        run_id,
+        task_id
+      ]
+    );
+    await db.exec("UPDATE runs SET cost_to_date = cost_to_date + ?, updated_at = ? WHERE id = ?", [
+      generated.cost.our_charge_usd,
+      new Date().toISOString(),
+      run_id
+    ]);
+
+    const patchEvent = createLedgerEvent({
       org_id: auth.org_id,
       user_id: auth.user_id,
       project_id,
       run_id,
       plan_id,
-      event_type: "RUN_STARTED",
-      payload: { lane, risk, budget_cap_usd }
+      task_id,
+      event_type: "PATCH_PRODUCED",
+      payload: { patch_path: logicalPatchPath }
     });
-    await appendLedgerEvent(db, runEvent);
+    await appendLedgerEvent(db, patchEvent);
 
     await emitTaskStage({
       run_id,
-      task_id: firstTask.id,
-      stage: "PREPARE_CONTEXT",
-      message: "Building context pack",
+      task_id,
+      stage: "IMPLEMENT_PATCH",
+      message: input.stage_message,
       org_id: auth.org_id,
       user_id: auth.user_id,
       project_id,
       plan_id
     });
 
-    const inputMeta = parseJsonValue<{ pins?: string[] }>(planRow.input_json, {});
-    const pins = (inputMeta.pins ?? []) as string[];
+    events.emit(run_id, {
+      type: "TASK_RESULT",
+      ts: new Date().toISOString(),
+      data: {
+        task_id,
+        patch_path: logicalPatchPath,
+        patch_text: input.patch_text,
+        changed_files: (input.patch_text.match(/^diff --git/gm) || []).length,
+        verify_status: "pending",
+        cost: {
+          provider: generated.cost.provider_cost_usd,
+          charge: generated.cost.our_charge_usd
+        },
+        tokens: {
+          input: generated.tokens_in,
+          output: generated.tokens_out
+        },
+        risk_notes: [],
+        rollback_notes: []
+      }
+    });
 
-    const signals: ContextPackManifest["signals"] = {};
-    if (runnerBridge.hasRunner(project_id)) {
-      const diffResult = await runnerBridge.sendExec({
-        project_id,
-        cmd: "git diff --stat",
-        cwd: repoRoot
-      });
-      if (diffResult.exit_code === 0) {
-        signals.diff_summary = limitText(diffResult.stdout ?? "", 2000);
-      }
-      const statusResult = await runnerBridge.sendExec({
-        project_id,
-        cmd: "git status --short",
-        cwd: repoRoot
-      });
-      if (statusResult.exit_code === 0) {
-        const lines = (statusResult.stdout ?? "")
-          .split(/\r?\n/)
-          .map((line) => line.trim())
-          .filter(Boolean);
-        if (lines.length > 0) {
-          signals.logs = lines.slice(0, 50);
-        }
-      }
-    }
+    return logicalPatchPath;
+  }
 
-    const lastVerify = (await db.query<{ payload_json?: unknown }>(
-      "SELECT payload_json FROM ledger_events WHERE project_id = ? AND event_type = ? ORDER BY ts DESC LIMIT 1",
-      [project_id, "VERIFY_FINISHED"]
+  function patchBillingTotals(generated: GeneratedPatch[]): { charge_total: number; provider_total: number } {
+    return {
+      charge_total: generated.reduce((sum, patch) => sum + patch.cost.our_charge_usd, 0),
+      provider_total: generated.reduce((sum, patch) => sum + patch.cost.provider_cost_usd, 0)
+    };
+  }
+
+  type PlanTaskOutcome =
+    | { status: "done"; provider_cost_usd: number; our_charge_usd: number }
+    | { status: "paused"; reason: "budget" | "provider_unavailable" }
+    | { status: "failed"; task_id: string; error: string };
+
+  async function runPlanTask(input: {
+    auth: AuthContext;
+    run_id: string;
+    project_id: string;
+    plan_id: string;
+    task: TaskDefinition;
+    lane: Lane;
+    risk: RiskLevel;
+    budget_cap_usd: number;
+    context_budget: ContextBudget;
+    pins: string[];
+    signals: ContextPackManifest["signals"];
+    tasks_total: number;
+    tasks_completed: number;
+  }): Promise<PlanTaskOutcome> {
+    const { auth, run_id, project_id, plan_id, task, lane, risk } = input;
+
+    const runRow = (await db.query<{ cost_to_date: number | string }>(
+      "SELECT cost_to_date FROM runs WHERE id = ?",
+      [run_id]
     ))[0];
-    if (lastVerify?.payload_json) {
-      const payload = parseJsonValue<{ status?: string; report_path?: string }>(lastVerify.payload_json, {});
-      if (payload.status === "fail" && payload.report_path) {
-        const parts = payload.report_path.split("/");
-        const failureRunId = parts.length >= 3 ? parts[2] : run_id;
-        const reportPath = path.join(getArtifactsDir(), `run-${failureRunId}`, "verify-report.md");
-        if (fs.existsSync(reportPath)) {
-          const content = fs.readFileSync(reportPath, "utf8");
-          const failures = content
-            .split(/\r?\n/)
-            .filter((line) => line.includes("FAIL"))
-            .slice(0, 10);
-          if (failures.length > 0) {
-            signals.failing_tests = failures;
-          }
-        }
-      }
+    const costToDate = Number(runRow?.cost_to_date ?? 0);
+    const budgetRemaining = input.budget_cap_usd - costToDate;
+
+    // A resumed run re-enters the task it paused or failed on; keep that row (and its costs).
+    const existingTask = (await db.query<{ id: string }>(
+      "SELECT id FROM tasks WHERE run_id = ? AND plan_task_id = ?",
+      [run_id, task.id]
+    ))[0];
+    if (existingTask) {
+      await db.exec("UPDATE tasks SET state = ?, router_decision_json = ? WHERE id = ?", [
+        "RUNNING",
+        null,
+        existingTask.id
+      ]);
+    } else {
+      await db.exec(
+        "INSERT INTO tasks (id, run_id, plan_task_id, title, type, risk, state, router_decision_json, patch_path, patch_text, cost_usd, tokens_in, tokens_out) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+        [
+          randomUUID(),
+          run_id,
+          task.id,
+          task.title,
+          task.type,
+          task.risk,
+          "RUNNING",
+          null,
+          null,
+          null,
+          0,
+          0,
+          0
+        ]
+      );
     }
+    await db.exec("UPDATE runs SET current_task_id = ?, updated_at = ? WHERE id = ?", [
+      task.id,
+      new Date().toISOString(),
+      run_id
+    ]);
+
+    await emitTaskStage({
+      run_id,
+      task_id: task.id,
+      stage: "PREPARE_CONTEXT",
+      message: "Building context pack",
+      org_id: auth.org_id,
+      user_id: auth.user_id,
+      project_id,
+      plan_id
+    });
 
     let contextPack = buildContextPack({
       runId: run_id,
-      taskId: firstTask.id,
-      budgets: contextBudget,
-      pins,
-      signals
+      taskId: task.id,
+      budgets: input.context_budget,
+      pins: input.pins,
+      scope: task.scope,
+      candidates: await retrieveContextCandidates(project_id, task.scope, input.context_budget, input.pins),
+      signals: input.signals
     });
     contextPack = await enrichContextPack(contextPack, project_id);
     await saveContextPack(db, { project_id, manifest: contextPack });
@@ -1259,27 +2526,28 @@ export async function createServer(options?: {
       project_id,
       run_id,
       plan_id,
-      task_id: firstTask.id,
+      task_id: task.id,
       event_type: "CONTEXT_PACK_BUILT",
       payload: contextPack as unknown as Record<string, unknown>
     });
     await appendLedgerEvent(db, ctxEvent);
 
     const routerDecision = decideRouter({
-      taskType: firstTask.type,
+      taskType: task.type,
       lane,
       risk,
-      budgetRemainingUsd: budget_cap_usd,
-      contextBudget,
+      budgetRemainingUsd: budgetRemaining,
+      contextBudget: input.context_budget,
       modelStack,
       lanePolicy,
-      riskPolicy
+      riskPolicy,
+      pricing
     });
 
     await db.exec("UPDATE tasks SET router_decision_json = ? WHERE run_id = ? AND plan_task_id = ?", [
       JSON.stringify(routerDecision),
       run_id,
-      firstTask.id
+      task.id
     ]);
 
     const routerEvent = createLedgerEvent({
@@ -1288,7 +2556,7 @@ export async function createServer(options?: {
       project_id,
       run_id,
       plan_id,
-      task_id: firstTask.id,
+      task_id: task.id,
       event_type: "ROUTER_DECISION",
       payload: routerDecision as unknown as Record<string, unknown>
     });
@@ -1300,42 +2568,29 @@ export async function createServer(options?: {
         ts: new Date().toISOString(),
         data: {
           expected_p90: routerDecision.expected_cost_usd,
-          actual: 0,
+          actual: costToDate,
           reason: "budget cap would be exceeded",
           action: "paused",
           suggestions: ["/budget cap", "/lane set cost-saver", "/context trim"]
         }
       });
 
-      await db.exec("UPDATE runs SET state = ? WHERE id = ?", ["PAUSED", run_id]);
+      await db.exec("UPDATE tasks SET state = ? WHERE run_id = ? AND plan_task_id = ?", ["PAUSED", run_id, task.id]);
       const anomaly = createLedgerEvent({
         org_id: auth.org_id,
         user_id: auth.user_id,
         project_id,
         run_id,
         plan_id,
-        task_id: firstTask.id,
+        task_id: task.id,
         event_type: "ANOMALY_DETECTED",
         payload: { reason: "budget" }
       });
       await appendLedgerEvent(db, anomaly);
-
-      const paused = createLedgerEvent({
-        org_id: auth.org_id,
-        user_id: auth.user_id,
-        project_id,
-        run_id,
-        plan_id,
-        event_type: "RUN_PAUSED",
-        payload: { reason: "budget" }
-      });
-      await appendLedgerEvent(db, paused);
-
-      reply.send({ run_id });
-      return;
+      return { status: "paused", reason: "budget" };
     }
 
-    let providerSelection: Awaited<ReturnType<typeof providerFactory.getProviderWithFallback>>;
+    let providerSelection: ProviderSelection;
     try {
       providerSelection = await providerFactory.getProviderWithFallback(routerDecision.selected_model);
     } catch (err) {
@@ -1344,13 +2599,13 @@ export async function createServer(options?: {
         ts: new Date().toISOString(),
         data: {
           expected_p90: routerDecision.expected_cost_usd,
-          actual: 0,
+          actual: costToDate,
           reason: "provider unavailable",
           action: "paused",
           suggestions: ["/lane set cost-saver", "/context trim"]
         }
       });
-      await db.exec("UPDATE runs SET state = ? WHERE id = ?", ["PAUSED", run_id]);
+      await db.exec("UPDATE tasks SET state = ? WHERE run_id = ? AND plan_task_id = ?", ["PAUSED", run_id, task.id]);
       await appendLedgerEvent(
         db,
         createLedgerEvent({
@@ -1359,13 +2614,12 @@ export async function createServer(options?: {
           project_id,
           run_id,
           plan_id,
-          task_id: firstTask.id,
+          task_id: task.id,
           event_type: "ANOMALY_DETECTED",
           payload: { reason: "provider_unavailable", error: (err as Error).message }
         })
       );
-      reply.code(503).send({ error: "provider_unavailable" });
-      return;
+      return { status: "paused", reason: "provider_unavailable" };
     }
 
     const taskStartedEvent = createLedgerEvent({
@@ -1374,13 +2628,13 @@ export async function createServer(options?: {
       project_id,
       run_id,
       plan_id,
-      task_id: firstTask.id,
+      task_id: task.id,
       event_type: "TASK_STARTED",
       payload: {
-        task_id: firstTask.id,
-        title: firstTask.title,
-        type: firstTask.type,
-        risk: firstTask.risk,
+        task_id: task.id,
+        title: task.title,
+        type: task.type,
+        risk: task.risk,
         provider: providerSelection.provider.name,
         selected_model: providerSelection.selectedModel,
         requested_model: routerDecision.selected_model,
@@ -1393,9 +2647,9 @@ export async function createServer(options?: {
       type: "TASK_STARTED",
       ts: new Date().toISOString(),
       data: {
-        task_id: firstTask.id,
-        title: firstTask.title,
-        task_type: firstTask.type,
+        task_id: task.id,
+        title: task.title,
+        task_type: task.type,
         selected_model: providerSelection.selectedModel,
         requested_model: routerDecision.selected_model,
         provider: providerSelection.provider.name,
@@ -1405,15 +2659,15 @@ export async function createServer(options?: {
           p90: Number(routerDecision.expected_cost_usd.toFixed(4)),
           p50: Number((routerDecision.expected_cost_usd * 0.7).toFixed(4))
         },
-        budget_remaining: budget_cap_usd,
-        tasks_total,
-        tasks_completed: 0
+        budget_remaining: budgetRemaining,
+        tasks_total: input.tasks_total,
+        tasks_completed: input.tasks_completed
       }
     });
 
     await emitTaskStage({
       run_id,
-      task_id: firstTask.id,
+      task_id: task.id,
       stage: "DESIGN",
       message: "Preparing patch plan",
       org_id: auth.org_id,
@@ -1422,140 +2676,66 @@ export async function createServer(options?: {
       plan_id
     });
 
-    const tokensEstimate = estimateTokens(firstTask.type, lane, risk);
-    const llmStart = createLedgerEvent({
-      org_id: auth.org_id,
-      user_id: auth.user_id,
-      project_id,
-      run_id,
-      plan_id,
-      task_id: firstTask.id,
-      event_type: "LLM_CALL_STARTED",
-      payload: {
-        model: providerSelection.selectedModel,
-        requested_model: routerDecision.selected_model,
-        provider: providerSelection.provider.name,
-        used_fallback: providerSelection.usedFallback
-      }
-    });
-    await appendLedgerEvent(db, llmStart);
-
-    const patchResult = await providerSelection.provider.generatePatch({ task_id: firstTask.id });
-    const usageSoFar = await computeUsageForMonth({ db, pricing, plan_id: auth.plan_id });
-    const creditsRemaining = Math.max(
-      0,
-      (pricing.plans[auth.plan_id]?.included_credits_trc ?? 0) - usageSoFar.credits_used
-    );
-    const tokensIn =
-      typeof patchResult.usage?.prompt_tokens === "number"
-        ? patchResult.usage.prompt_tokens
-        : Math.round(tokensEstimate * 0.7);
-    const tokensOut =
-      typeof patchResult.usage?.completion_tokens === "number"
-        ? patchResult.usage.completion_tokens
-        : Math.round(tokensEstimate * 0.3);
-    const cost = calculateCost({
-      model: providerSelection.selectedModel,
-      tokens_in: tokensIn,
-      tokens_out: tokensOut,
-      pricing,
-      modelStack,
-      plan_id: auth.plan_id,
-      credits_remaining_trc: creditsRemaining
-    });
-
-    const llmFinish = createLedgerEvent({
-      org_id: auth.org_id,
-      user_id: auth.user_id,
-      project_id,
-      run_id,
-      plan_id,
-      task_id: firstTask.id,
-      event_type: "LLM_CALL_FINISHED",
-      payload: {
-        model: providerSelection.selectedModel,
-        requested_model: routerDecision.selected_model,
-        provider: providerSelection.provider.name,
-        used_fallback: providerSelection.usedFallback,
-        task_type: firstTask.type,
-        tokens_in: tokensIn,
-        tokens_out: tokensOut,
-        provider_cost_usd: cost.provider_cost_usd,
-        credits_applied_usd: cost.credits_applied_usd,
-        billable_provider_cost_usd: cost.billable_provider_cost_usd,
-        markup_rate: cost.markup_rate,
-        our_charge_usd: cost.our_charge_usd
-      }
+    const prompt = buildPatchPrompt({
+      task,
+      pack: contextPack,
+      files: await loadPromptFiles(contextPack, project_id),
+      prior_patches: await resolveRunPatches(run_id, plan_id, task.id)
     });
-    await appendLedgerEvent(db, llmFinish);
 
-    const logicalPatchPath = `artifacts/${project_id}/${run_id}/${firstTask.id}/patch.diff`;
-    const patchArtifact = writeArtifact(run_id, `patch_${firstTask.id}.diff`, patchResult.patchText);
-    await db.exec(
-      "UPDATE tasks SET patch_path = ?, patch_text = ?, cost_usd = ?, tokens_in = ?, tokens_out = ? WHERE run_id = ? AND plan_task_id = ?",
-      [
-        patchArtifact.path,
-        patchResult.patchText,
-        cost.our_charge_usd,
-        tokensIn,
-        tokensOut,
+    let generated: GeneratedPatch;
+    try {
+      generated = await requestTaskPatch({
+        auth,
         run_id,
-        firstTask.id
-      ]
-    );
-    await db.exec("UPDATE runs SET cost_to_date = ?, current_task_id = ? WHERE id = ?", [
-      cost.our_charge_usd,
-      firstTask.id,
-      run_id
-    ]);
-
-    const patchEvent = createLedgerEvent({
-      org_id: auth.org_id,
-      user_id: auth.user_id,
-      project_id,
-      run_id,
-      plan_id,
-      task_id: firstTask.id,
-      event_type: "PATCH_PRODUCED",
-      payload: { patch_path: logicalPatchPath }
-    });
-    await appendLedgerEvent(db, patchEvent);
+        project_id,
+        plan_id,
+        task,
+        lane,
+        risk,
+        selection: providerSelection,
+        requested_model: routerDecision.selected_model,
+        pack: contextPack,
+        prompt
+      });
+    } catch (err) {
+      const error = (err as Error).message;
+      await db.exec("UPDATE tasks SET state = ? WHERE run_id = ? AND plan_task_id = ?", ["FAILED", run_id, task.id]);
+      events.emit(run_id, {
+        type: "TASK_FAILED",
+        ts: new Date().toISOString(),
+        data: { run_id, task_id: task.id, error }
+      });
+      await appendLedgerEvent(
+        db,
+        createLedgerEvent({
+          org_id: auth.org_id,
+          user_id: auth.user_id,
+          project_id,
+          run_id,
+          plan_id,
+          task_id: task.id,
+          event_type: "TASK_FAILED",
+          payload: { error, model: providerSelection.selectedModel }
+        })
+      );
+      return { status: "failed", task_id: task.id, error };
+    }
 
-    await emitTaskStage({
+    const logicalPatchPath = await storeTaskPatch({
+      auth,
       run_id,
-      task_id: firstTask.id,
-      stage: "IMPLEMENT_PATCH",
-      message: "Patch generated",
-      org_id: auth.org_id,
-      user_id: auth.user_id,
       project_id,
-      plan_id
-    });
-
-    events.emit(run_id, {
-      type: "TASK_RESULT",
-      ts: new Date().toISOString(),
-      data: {
-        patch_path: logicalPatchPath,
-        patch_text: patchResult.patchText,
-        changed_files: patchResult.changedFiles,
-        verify_status: "pending",
-        cost: {
-          provider: cost.provider_cost_usd,
-          charge: cost.our_charge_usd
-        },
-        tokens: {
-          input: tokensIn,
-          output: tokensOut
-        },
-        risk_notes: [],
-        rollback_notes: []
-      }
+      plan_id,
+      task_id: task.id,
+      patch_text: generated.result.patchText,
+      generated,
+      stage_message: "Patch generated"
     });
 
     await emitTaskStage({
       run_id,
-      task_id: firstTask.id,
+      task_id: task.id,
       stage: "SELF_REVIEW",
       message: "Reviewing patch",
       org_id: auth.org_id,
@@ -1566,7 +2746,7 @@ export async function createServer(options?: {
 
     await emitTaskStage({
       run_id,
-      task_id: firstTask.id,
+      task_id: task.id,
       stage: "PROPOSE_APPLY",
       message: "Ready for /diff and /apply",
       org_id: auth.org_id,
@@ -1581,7 +2761,7 @@ export async function createServer(options?: {
       project_id,
       run_id,
       plan_id,
-      task_id: firstTask.id,
+      task_id: task.id,
       event_type: "TASK_COMPLETED",
       payload: { patch_path: logicalPatchPath }
     });
@@ -1590,69 +2770,948 @@ export async function createServer(options?: {
     await db.exec("UPDATE tasks SET state = ? WHERE run_id = ? AND plan_task_id = ?", [
       "DONE",
       run_id,
-      firstTask.id
+      task.id
     ]);
 
-    const sessionStats = await computeSessionStats(run_id);
-    if (sessionStats) {
-      events.emit(run_id, {
-        type: "SESSION_STATS",
-        ts: new Date().toISOString(),
-        data: { run_id, ...sessionStats }
+    return {
+      status: "done",
+      provider_cost_usd: generated.cost.provider_cost_usd,
+      our_charge_usd: generated.cost.our_charge_usd
+    };
+  }
+
+  async function collectRunSignals(project_id: string, run_id: string): Promise<ContextPackManifest["signals"]> {
+    const signals: ContextPackManifest["signals"] = {};
+    if (runnerBridge.hasRunner(project_id)) {
+      const diffResult = await runnerBridge.sendExec({
+        project_id,
+        cmd: "git diff --stat",
+        cwd: repoRoot
+      });
+      if (diffResult.exit_code === 0) {
+        signals.diff_summary = limitText(diffResult.stdout ?? "", 2000);
+      }
+      const statusResult = await runnerBridge.sendExec({
+        project_id,
+        cmd: "git status --short",
+        cwd: repoRoot
       });
+      if (statusResult.exit_code === 0) {
+        const lines = (statusResult.stdout ?? "")
+          .split(/\r?\n/)
+          .map((line) => line.trim())
+          .filter(Boolean);
+        if (lines.length > 0) {
+          signals.logs = lines.slice(0, 50);
+        }
+      }
     }
 
-    await db.exec("UPDATE runs SET state = ? WHERE id = ?", ["DONE", run_id]);
-    const runCompleted = createLedgerEvent({
-      org_id: auth.org_id,
-      user_id: auth.user_id,
-      project_id,
-      run_id,
-      plan_id,
-      event_type: "RUN_COMPLETED",
-      payload: {}
-    });
-    await appendLedgerEvent(db, runCompleted);
-
-    const billingPosted = createLedgerEvent({
-      org_id: auth.org_id,
-      user_id: auth.user_id,
-      project_id,
-      run_id,
-      plan_id,
-      event_type: "BILLING_POSTED",
-      payload: { charge_total: cost.our_charge_usd, provider_total: cost.provider_cost_usd }
-    });
-    await appendLedgerEvent(db, billingPosted);
-
-    reply.send({ run_id });
-  });
-
-  app.get("/v1/runs/:run_id/status", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
-    if (!auth) return;
-    const run_id = (req.params as { run_id: string }).run_id;
-    const run = (await db.query<Record<string, unknown>>("SELECT * FROM runs WHERE id = ?", [run_id]))[0] as
-      | { state: string; current_task_id: string; cost_to_date: number | string; budget_cap_usd: number | string }
+    const lastVerify = (await db.query<{ payload_json?: unknown }>(
+      "SELECT payload_json FROM ledger_events WHERE project_id = ? AND event_type = ? ORDER BY ts DESC LIMIT 1",
+      [project_id, "VERIFY_FINISHED"]
+    ))[0];
+    if (lastVerify?.payload_json) {
+      const payload = parseJsonValue<{ status?: string; report_path?: string }>(lastVerify.payload_json, {});
+      if (payload.status === "fail" && payload.report_path) {
+        const parts = payload.report_path.split("/");
+        const failureRunId = parts.length >= 3 ? parts[2] : run_id;
+        const reportPath = path.join(getArtifactsDir(), `run-${failureRunId}`, "verify-report.md");
+        if (fs.existsSync(reportPath)) {
+          const content = fs.readFileSync(reportPath, "utf8");
+          const failures = content
+            .split(/\r?\n/)
+            .filter((line) => line.includes("FAIL"))
+            .slice(0, 10);
+          if (failures.length > 0) {
+            signals.failing_tests = failures;
+          }
+        }
+      }
+    }
+
+    return signals;
+  }
+
+  /**
+   * Run plan tasks in order until one pauses or fails (or /pause or /cancel lands between tasks), then
+   * settle the run state and post billing for what ran. Shared by /runs/start and /resume.
+   */
+  async function runScheduledTasks(input: {
+    auth: AuthContext;
+    run_id: string;
+    project_id: string;
+    plan_id: string;
+    tasks: TaskDefinition[];
+    lane: Lane;
+    risk: RiskLevel;
+    budget_cap_usd: number;
+    context_budget: ContextBudget;
+    pins: string[];
+    tasks_total: number;
+    tasks_completed: number;
+  }): Promise<{
+    state: RunState | null;
+    stopped: Exclude<PlanTaskOutcome, { status: "done" }> | null;
+    tasks_completed: number;
+  }> {
+    const { auth, run_id, project_id, plan_id, lane, risk } = input;
+    const signals = await collectRunSignals(project_id, run_id);
+    let tasksCompleted = 0;
+    let providerTotal = 0;
+    let chargeTotal = 0;
+    let stopped: Exclude<PlanTaskOutcome, { status: "done" }> | null = null;
+    let interrupted = false;
+    for (const task of input.tasks) {
+      // /pause and /cancel only flip runs.state; honour them between tasks.
+      const current = (await db.query<{ state: string }>("SELECT state FROM runs WHERE id = ?", [run_id]))[0];
+      if (current?.state !== "RUNNING") {
+        interrupted = true;
+        break;
+      }
+
+      const outcome = await runPlanTask({
+        auth,
+        run_id,
+        project_id,
+        plan_id,
+        task,
+        lane,
+        risk,
+        budget_cap_usd: input.budget_cap_usd,
+        context_budget: input.context_budget,
+        pins: input.pins,
+        signals,
+        tasks_total: input.tasks_total,
+        tasks_completed: input.tasks_completed + tasksCompleted
+      });
+      if (outcome.status !== "done") {
+        stopped = outcome;
+        break;
+      }
+
+      tasksCompleted += 1;
+      providerTotal += outcome.provider_cost_usd;
+      chargeTotal += outcome.our_charge_usd;
+
+      const sessionStats = await computeSessionStats(run_id);
+      if (sessionStats) {
+        events.emit(run_id, {
+          type: "SESSION_STATS",
+          ts: new Date().toISOString(),
+          data: { run_id, ...sessionStats }
+        });
+      }
+    }
+
+    let state: RunState | null = null;
+    if (stopped?.status === "paused") {
+      state = "PAUSED";
+      await db.exec("UPDATE runs SET state = ?, updated_at = ? WHERE id = ?", [
+        state,
+        new Date().toISOString(),
+        run_id
+      ]);
+      const paused = createLedgerEvent({
+        org_id: auth.org_id,
+        user_id: auth.user_id,
+        project_id,
+        run_id,
+        plan_id,
+        event_type: "RUN_PAUSED",
+        payload: { reason: stopped.reason }
+      });
+      await appendLedgerEvent(db, paused);
+    } else if (stopped?.status === "failed") {
+      state = "FAILED";
+      await db.exec("UPDATE runs SET state = ?, updated_at = ? WHERE id = ?", [
+        state,
+        new Date().toISOString(),
+        run_id
+      ]);
+      const runFailed = createLedgerEvent({
+        org_id: auth.org_id,
+        user_id: auth.user_id,
+        project_id,
+        run_id,
+        plan_id,
+        event_type: "RUN_FAILED",
+        payload: {
+          task_id: stopped.task_id,
+          error: stopped.error,
+          tasks_completed: input.tasks_completed + tasksCompleted
+        }
+      });
+      await appendLedgerEvent(db, runFailed);
+    } else if (!interrupted) {
+      state = "DONE";
+      await db.exec("UPDATE runs SET state = ?, updated_at = ? WHERE id = ?", [
+        state,
+        new Date().toISOString(),
+        run_id
+      ]);
+      const runCompleted = createLedgerEvent({
+        org_id: auth.org_id,
+        user_id: auth.user_id,
+        project_id,
+        run_id,
+        plan_id,
+        event_type: "RUN_COMPLETED",
+        payload: { tasks_completed: input.tasks_completed + tasksCompleted }
+      });
+      await appendLedgerEvent(db, runCompleted);
+    }
+
+    if (state === "DONE" || tasksCompleted > 0) {
+      await postRunBilling(
+        auth,
+        { project_id, run_id, plan_id },
+        { charge_total: chargeTotal, provider_total: providerTotal }
+      );
+    }
+
+    if (state === null) {
+      const current = (await db.query<{ state: RunState }>("SELECT state FROM runs WHERE id = ?", [run_id]))[0];
+      state = current?.state ?? null;
+    }
+    return { state, stopped, tasks_completed: input.tasks_completed + tasksCompleted };
+  }
+
+  app.post("/v1/projects/:id/runs/start", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "runs:write");
+    if (!auth) return;
+    const project_id = (req.params as { id: string }).id;
+    const body = (req.body ?? {}) as {
+      plan_id?: string;
+      lane?: Lane;
+      risk?: RiskLevel;
+      budget_cap_usd?: number;
+      task_id?: string;
+      confirm_high_risk?: boolean;
+      confirm_stale?: boolean;
+      stream_id?: string;
+      model?: string;
+      context_budget?: {
+        max_files: number;
+        max_lines: number;
+        graph_depth: number;
+        top_k: number;
+        hydrate: boolean;
+      };
+    };
+
+    if (body.model) {
+      reply.code(400).send({ error: "model_override_not_allowed" });
+      return;
+    }
+    const stream_id = readStreamId(reply, body.stream_id);
+    if (stream_id === null) return;
+
+    const planRow = (await db.query<{ id: string; tasks_json: unknown; input_json: unknown; repo_commit?: string }>(
+      "SELECT id, tasks_json, input_json, repo_commit FROM plans WHERE project_id = ? AND approved_at IS NOT NULL ORDER BY approved_at DESC LIMIT 1",
+      [project_id]
+    ))[0];
+
+    const plan_id = body.plan_id ?? planRow?.id;
+    if (!plan_id || !planRow) {
+      reply.code(400).send({ error: "no approved plan" });
+      return;
+    }
+
+    const repoState = await getRepoState(project_id);
+    const staleInfo = computeStale(planRow.repo_commit, repoState);
+    if (staleInfo.stale && !body.confirm_stale) {
+      reply.code(409).send({
+        error: "plan_stale",
+        stale: true,
+        stale_reason: staleInfo.reason,
+        current_repo_commit: repoState.current_commit,
+        approved_repo_commit: planRow.repo_commit ?? null,
+        dirty: repoState.available ? repoState.dirty : null
+      });
+      return;
+    }
+
+    const tasks = parseJsonValue<TasksFileV1 | null>(planRow.tasks_json, null);
+    if (!tasks) {
+      reply.code(500).send({ error: "invalid tasks payload" });
+      return;
+    }
+
+    let orderedTasks: TaskDefinition[];
+    try {
+      orderedTasks = orderPlanTasks(tasks);
+    } catch (err) {
+      if (err instanceof TaskGraphError) {
+        reply.code(400).send({ error: "invalid_task_graph", reason: err.code, task_ids: err.task_ids });
+        return;
+      }
+      throw err;
+    }
+
+    // An explicit task_id runs just that task (used by /next); otherwise the whole plan runs in dependency order.
+    const runTasks = body.task_id ? orderedTasks.filter((task) => task.id === body.task_id) : orderedTasks;
+    if (runTasks.length === 0) {
+      reply.code(400).send({ error: "plan has no tasks" });
+      return;
+    }
+
+    const lane = body.lane ?? "balanced";
+    const risk = body.risk ?? "standard";
+    const budget_cap_usd = body.budget_cap_usd ?? DEFAULT_RUN_BUDGET_USD;
+
+    const needsConfirm =
+      riskPolicy.risk_levels[risk]?.requires_confirmation === true ||
+      runTasks.some(
+        (task) =>
+          task.risk === "high" ||
+          riskPolicy.high_risk_task_types.includes(task.type) ||
+          (task.scope?.paths ?? []).some((p) =>
+            riskPolicy.high_risk_path_patterns.some((pattern) => globMatch(pattern, p))
+          )
+      );
+    if (needsConfirm && !body.confirm_high_risk) {
+      reply.code(409).send({ error: "high_risk_confirmation_required" });
+      return;
+    }
+
+    const run_id = randomUUID();
+    if (stream_id) {
+      events.link(run_id, stream_id);
+    }
+    await db.exec(
+      "INSERT INTO runs (id, project_id, plan_id, state, lane, risk, budget_cap_usd, cost_to_date, current_task_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+      [
+        run_id,
+        project_id,
+        plan_id,
+        "RUNNING",
+        lane,
+        risk,
+        budget_cap_usd,
+        0,
+        null,
+        new Date().toISOString(),
+        new Date().toISOString()
+      ]
+    );
+    if (needsConfirm) {
+      await audit(req, auth, {
+        action: "RISK_CONFIRM",
+        targetType: "run",
+        targetId: run_id,
+        metadata: { project_id, plan_id, risk, task_ids: runTasks.map((task) => task.id) }
+      });
+    }
+
+    const verifyMode = resolveVerifyMode(
+      lanePolicy.lanes[lane].verify_mode,
+      riskPolicy.risk_levels[risk].verify_strictness
+    );
+    const planType = pricing.plans[auth.plan_id] ? "subscription" : "payg";
+
+    const contextBudget = body.context_budget ?? lanePolicy.lanes[lane].context_budget;
+
+    const tasks_total = getPlanTasksCount(tasks);
+
+    events.emit(run_id, {
+      type: "RUN_BANNER",
+      ts: new Date().toISOString(),
+      data: {
+        plan_type: planType,
+        plan_id: auth.plan_id,
+        lane,
+        risk,
+        gates_mode: verifyMode,
+        repo: project_id,
+        commit: tasks.repo_commit ?? "DEV",
+        approved_plan_id: plan_id,
+        budget_cap_usd,
+        cost_to_date_usd: 0,
+        budget_remaining_usd: budget_cap_usd,
+        verify_mode: verifyMode,
+        fix_loop_max_iters: lanePolicy.lanes[lane].fix_loop_max_iters,
+        tasks_scheduled: runTasks.length
+      }
+    });
+
+    const runEvent = createLedgerEvent({
+      org_id: auth.org_id,
+      user_id: auth.user_id,
+      project_id,
+      run_id,
+      plan_id,
+      event_type: "RUN_STARTED",
+      payload: { lane, risk, budget_cap_usd, context_budget: contextBudget, task_ids: runTasks.map((task) => task.id) }
+    });
+    await appendLedgerEvent(db, runEvent);
+
+    const inputMeta = parseJsonValue<{ pins?: string[] }>(planRow.input_json, {});
+    const pins = (inputMeta.pins ?? []) as string[];
+
+    const result = await runScheduledTasks({
+      auth,
+      run_id,
+      project_id,
+      plan_id,
+      tasks: runTasks,
+      lane,
+      risk,
+      budget_cap_usd,
+      context_budget: contextBudget,
+      pins,
+      tasks_total,
+      tasks_completed: 0
+    });
+    if (result.stopped?.status === "paused" && result.stopped.reason === "provider_unavailable") {
+      reply.code(503).send({ error: "provider_unavailable", run_id });
+      return;
+    }
+    reply.send({ run_id, state: result.state, tasks_completed: result.tasks_completed, tasks_scheduled: runTasks.length });
+  });
+
+  app.get("/v1/runs/:run_id/status", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "runs:read");
+    if (!auth) return;
+    const run_id = (req.params as { run_id: string }).run_id;
+    const run = (await db.query<Record<string, unknown>>("SELECT * FROM runs WHERE id = ?", [run_id]))[0] as
+      | { state: string; current_task_id: string; cost_to_date: number | string; budget_cap_usd: number | string }
+      | undefined;
+
+    if (!run) {
+      reply.code(404).send({ error: "run not found" });
+      return;
+    }
+
+    const cost_to_date = Number(run.cost_to_date ?? 0);
+    const budget_cap_usd = Number(run.budget_cap_usd ?? 0);
+    const sessionStats = await computeSessionStats(run_id);
+    reply.send({
+      state: run.state,
+      current_task: run.current_task_id,
+      cost_to_date,
+      budget_remaining: budget_cap_usd - cost_to_date,
+      tasks_completed: sessionStats?.tasks_completed ?? 0,
+      tasks_total: sessionStats?.tasks_total ?? 0
+    });
+  });
+
+  // A reviewed revision replaces the generated patch for as long as that patch is the one it was reviewed against
+  async function resolveTaskPatch(
+    run_id: string,
+    task_id: string
+  ): Promise<{ patch_text: string; patch_path: string | null; revision: number } | null> {
+    const taskRow = (await db.query<Record<string, unknown>>(
+      "SELECT patch_path, patch_text FROM tasks WHERE run_id = ? AND plan_task_id = ?",
+      [run_id, task_id]
+    ))[0] as { patch_path?: string | null; patch_text?: string | null } | undefined;
+    if (!taskRow?.patch_text) return null;
+
+    const latest = await getLatestPatchRevision(db, run_id, task_id);
+    if (latest && latest.base_patch_sha256 === createHash("sha256").update(taskRow.patch_text).digest("hex")) {
+      return { patch_text: latest.patch_text, patch_path: latest.patch_path, revision: latest.revision };
+    }
+    return { patch_text: taskRow.patch_text, patch_path: taskRow.patch_path ?? null, revision: 0 };
+  }
+
+  type TaskPatch = { task_id: string; patch_text: string; patch_path: string | null; revision: number };
+
+  // Finished tasks' patches in plan graph order, each at its current revision.
+  // With before_task_id only the tasks ordered ahead of that task are returned.
+  async function resolveRunPatches(run_id: string, plan_id: string, before_task_id?: string): Promise<TaskPatch[]> {
+    const planRow = (await db.query<{ tasks_json?: unknown }>("SELECT tasks_json FROM plans WHERE id = ?", [
+      plan_id
+    ]))[0];
+    const tasksFile = parseJsonValue<TasksFileV1 | null>(planRow?.tasks_json, null);
+    // The plan was ordered when the run started, so it still forms a valid graph
+    const order = tasksFile ? orderPlanTasks(tasksFile).map((task) => task.id) : [];
+    const cutoff = before_task_id ? order.indexOf(before_task_id) : -1;
+    const done = new Set(
+      (
+        await db.query<{ plan_task_id: string }>("SELECT plan_task_id FROM tasks WHERE run_id = ? AND state = ?", [
+          run_id,
+          "DONE"
+        ])
+      ).map((row) => row.plan_task_id)
+    );
+
+    const patches: TaskPatch[] = [];
+    for (const task_id of cutoff >= 0 ? order.slice(0, cutoff) : order) {
+      if (!done.has(task_id)) continue;
+      const patch = await resolveTaskPatch(run_id, task_id);
+      if (patch) patches.push({ task_id, ...patch });
+    }
+    return patches;
+  }
+
+  // Later tasks were generated on top of earlier ones, so their diffs apply in this order as one patch
+  function combinePatches(patchTexts: string[]): string {
+    return patchTexts
+      .filter((text) => text.trim())
+      .reduce((combined, text) => (combined ? `${combined.replace(/\n*$/, "\n")}${text}` : text), "");
+  }
+
+  // Per-task routes default to the run's only patched task; with several the caller has to name one
+  function pickPatchTask(patches: TaskPatch[], task_id: string | undefined, reply: FastifyReply): string | null {
+    if (task_id) return task_id;
+    if (patches.length === 1) return patches[0].task_id;
+    if (patches.length === 0) {
+      reply.code(404).send({ error: "no patch available" });
+    } else {
+      reply.code(400).send({ error: "task_id_required", task_ids: patches.map((patch) => patch.task_id) });
+    }
+    return null;
+  }
+
+  app.get("/v1/runs/:run_id/patch", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "runs:read");
+    if (!auth) return;
+    const run_id = (req.params as { run_id: string }).run_id;
+    const query = (req.query ?? {}) as { task_id?: string };
+    const run = (await db.query<Record<string, unknown>>("SELECT plan_id FROM runs WHERE id = ?", [run_id]))[0] as
+      | { plan_id: string }
+      | undefined;
+    if (!run) {
+      reply.code(404).send({ error: "run not found" });
+      return;
+    }
+
+    if (query.task_id) {
+      const patch = await resolveTaskPatch(run_id, query.task_id);
+      if (!patch) {
+        reply.code(404).send({ error: "no patch available", task_id: query.task_id });
+        return;
+      }
+      reply.send({ run_id, task_id: query.task_id, ...patch });
+      return;
+    }
+
+    // Without a task the whole run's change is shown, the way /apply will apply it
+    const patches = await resolveRunPatches(run_id, run.plan_id);
+    if (patches.length === 0) {
+      reply.code(404).send({ error: "no patch available" });
+      return;
+    }
+    const single = patches.length === 1 ? patches[0] : null;
+    reply.send({
+      run_id,
+      task_id: single?.task_id ?? null,
+      patch_text: combinePatches(patches.map((patch) => patch.patch_text)),
+      patch_path: single?.patch_path ?? null,
+      revision: single?.revision ?? null,
+      tasks: patches.map(({ task_id, patch_path, revision }) => ({ task_id, patch_path, revision }))
+    });
+  });
+
+  app.post("/v1/runs/:run_id/patch/revisions", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "runs:write");
+    if (!auth) return;
+    const run_id = (req.params as { run_id: string }).run_id;
+    const body = (req.body ?? {}) as {
+      task_id?: string;
+      patch_text?: string;
+      base_revision?: number;
+      dropped_hunks?: number;
+      edited_hunks?: number;
+    };
+    const run = (await db.query<Record<string, unknown>>("SELECT * FROM runs WHERE id = ?", [run_id]))[0] as
+      | { project_id: string; plan_id: string }
+      | undefined;
+    if (!run) {
+      reply.code(404).send({ error: "run not found" });
+      return;
+    }
+
+    const task_id = pickPatchTask(await resolveRunPatches(run_id, run.plan_id), body.task_id, reply);
+    if (!task_id) return;
+    const current = await resolveTaskPatch(run_id, task_id);
+    if (!current) {
+      reply.code(404).send({ error: "no patch available", task_id });
+      return;
+    }
+    // Reviews start from a specific revision; refuse to overwrite one saved in the meantime
+    if (body.base_revision !== undefined && body.base_revision !== current.revision) {
+      reply.code(409).send({ error: "revision_conflict", current_revision: current.revision });
+      return;
+    }
+
+    const patchText = body.patch_text ?? "";
+    const files = parseUnifiedDiff(patchText);
+    if (files.length === 0) {
+      reply.code(400).send({ error: "invalid_patch", message: "patch_text must be a non-empty unified diff" });
+      return;
+    }
+
+    const taskRow = (await db.query<Record<string, unknown>>(
+      "SELECT patch_text FROM tasks WHERE run_id = ? AND plan_task_id = ?",
+      [run_id, task_id]
+    ))[0] as { patch_text: string };
+    const latest = await getLatestPatchRevision(db, run_id, task_id);
+    const revision = (latest?.revision ?? 0) + 1;
+    const logicalPatchPath = `artifacts/${run.project_id}/${run_id}/${task_id}/patch_rev${revision}.diff`;
+    const artifact = writeArtifact(run_id, `patch_${task_id}_rev${revision}.diff`, patchText);
+    const summary = {
+      files: files.length,
+      hunks: files.reduce((sum, file) => sum + file.hunks.length, 0),
+      additions: files.reduce((sum, file) => sum + file.additions, 0),
+      deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+      dropped_hunks: body.dropped_hunks,
+      edited_hunks: body.edited_hunks
+    };
+    await savePatchRevision(db, {
+      id: randomUUID(),
+      run_id,
+      task_id,
+      revision,
+      base_patch_sha256: createHash("sha256").update(taskRow.patch_text).digest("hex"),
+      patch_path: artifact.path,
+      patch_text: patchText,
+      summary,
+      created_by: auth.user_id,
+      created_at: new Date().toISOString()
+    });
+    await appendLedgerEvent(
+      db,
+      createLedgerEvent({
+        org_id: auth.org_id,
+        user_id: auth.user_id,
+        project_id: run.project_id,
+        run_id,
+        plan_id: run.plan_id,
+        task_id,
+        event_type: "PATCH_REVISED",
+        payload: { revision, base_revision: current.revision, patch_path: logicalPatchPath, ...summary }
+      })
+    );
+
+    reply.send({ run_id, task_id, revision, patch_path: logicalPatchPath, summary });
+  });
+
+  // Dry-runs a patch against the runner's current HEAD; nothing in the working tree changes
+  async function checkTaskPatch(
+    project_id: string,
+    run_id: string,
+    label: string,
+    patchText: string
+  ): Promise<PatchCheckResult | null> {
+    const patchPath = await writeRunnerPatch(project_id, `check_${run_id}_${label}.diff`, patchText);
+    if (!patchPath) return null;
+    const plain = await runnerBridge.sendExec({
+      project_id,
+      cmd: `git apply --check --verbose \"${patchPath}\"`,
+      cwd: repoRoot
+    });
+    if (plain.exit_code === 0) {
+      return { status: "clean", conflicts: [] };
+    }
+    const conflicts = parseApplyErrors([plain.stdout, plain.stderr].filter(Boolean).join("\n"));
+    const threeWay = await runnerBridge.sendExec({
+      project_id,
+      cmd: `git apply --check --3way \"${patchPath}\"`,
+      cwd: repoRoot
+    });
+    return resolveThreeWay(
+      conflicts,
+      [threeWay.stdout, threeWay.stderr].filter(Boolean).join("\n"),
+      threeWay.exit_code
+    );
+  }
+
+  app.post("/v1/runs/:run_id/patch/check", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "runs:write");
+    if (!auth) return;
+    const run_id = (req.params as { run_id: string }).run_id;
+    const body = (req.body ?? {}) as { task_id?: string };
+    const run = (await db.query<Record<string, unknown>>("SELECT * FROM runs WHERE id = ?", [run_id]))[0] as
+      | { project_id: string; plan_id: string }
       | undefined;
+    if (!run) {
+      reply.code(404).send({ error: "run not found" });
+      return;
+    }
+    if (!runnerBridge.hasRunner(run.project_id)) {
+      reply.code(409).send({ error: "runner not connected" });
+      return;
+    }
+
+    // A task is checked on top of the tasks before it; without one the whole run's patch is checked
+    let patches: TaskPatch[];
+    if (body.task_id) {
+      const patch = await resolveTaskPatch(run_id, body.task_id);
+      if (!patch) {
+        reply.code(404).send({ error: "no patch available", task_id: body.task_id });
+        return;
+      }
+      patches = [...(await resolveRunPatches(run_id, run.plan_id, body.task_id)), { task_id: body.task_id, ...patch }];
+    } else {
+      patches = await resolveRunPatches(run_id, run.plan_id);
+      if (patches.length === 0) {
+        reply.code(404).send({ error: "no patch available" });
+        return;
+      }
+    }
+    const check = await checkTaskPatch(
+      run.project_id,
+      run_id,
+      body.task_id ?? "run",
+      combinePatches(patches.map((patch) => patch.patch_text))
+    );
+    if (!check) {
+      reply.code(500).send({ error: "patch_write_failed" });
+      return;
+    }
+    // Conflicts are pinned on the earliest task touching a conflicting file (else the earliest task), the one to rebase
+    const conflictPaths = new Set(check.conflicts.map((conflict) => conflict.path));
+    const patch = body.task_id
+      ? patches[patches.length - 1]
+      : check.conflicts.length > 0
+        ? patches.find((candidate) =>
+            parseUnifiedDiff(candidate.patch_text).some((file) => conflictPaths.has(file.path))
+          ) ?? patches[0]
+        : patches.length === 1
+          ? patches[0]
+          : undefined;
+    const task_id = patch?.task_id;
 
+    await appendLedgerEvent(
+      db,
+      createLedgerEvent({
+        org_id: auth.org_id,
+        user_id: auth.user_id,
+        project_id: run.project_id,
+        run_id,
+        plan_id: run.plan_id,
+        task_id,
+        event_type: "PATCH_CHECKED",
+        payload: {
+          status: check.status,
+          patch_revision: patch?.revision ?? null,
+          task_ids: patches.map((candidate) => candidate.task_id),
+          conflicts: check.conflicts.map((conflict) => ({ path: conflict.path, reason: conflict.reason }))
+        }
+      })
+    );
+
+    reply.send({
+      run_id,
+      task_id: task_id ?? null,
+      task_ids: patches.map((candidate) => candidate.task_id),
+      patch_revision: patch?.revision ?? null,
+      ...check,
+      // A clean or 3-way fit applies as is; anything else needs the patch regenerated
+      rebase_available: check.status === "conflict"
+    });
+  });
+
+  app.post("/v1/runs/:run_id/patch/rebase", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "runs:write");
+    if (!auth) return;
+    const run_id = (req.params as { run_id: string }).run_id;
+    const body = (req.body ?? {}) as { task_id?: string };
+    const run = (await db.query<Record<string, unknown>>("SELECT * FROM runs WHERE id = ?", [run_id]))[0] as
+      | {
+          project_id: string;
+          plan_id: string;
+          lane: string;
+          risk: string;
+          state: string;
+          budget_cap_usd: number | string;
+        }
+      | undefined;
     if (!run) {
       reply.code(404).send({ error: "run not found" });
       return;
     }
+    if (run.state === "CANCELLED") {
+      reply.code(409).send({ error: "run_cancelled" });
+      return;
+    }
+    if (!runnerBridge.hasRunner(run.project_id)) {
+      reply.code(409).send({ error: "runner not connected" });
+      return;
+    }
+
+    const task_id = pickPatchTask(await resolveRunPatches(run_id, run.plan_id), body.task_id, reply);
+    if (!task_id) return;
+    const planRow = (await db.query<{ tasks_json?: unknown }>("SELECT tasks_json FROM plans WHERE id = ?", [
+      run.plan_id
+    ]))[0];
+    const tasksFile = parseJsonValue<TasksFileV1 | null>(planRow?.tasks_json, null);
+    const task = tasksFile ? flattenPlanTasks(tasksFile).find((candidate) => candidate.id === task_id) : undefined;
+    const taskRow = (await db.query<{ router_decision_json?: unknown }>(
+      "SELECT router_decision_json FROM tasks WHERE run_id = ? AND plan_task_id = ?",
+      [run_id, task_id]
+    ))[0];
+    const routerDecision = parseJsonValue<RouterDecision | null>(taskRow?.router_decision_json, null);
+    const previousPack = await getLatestContextPackForTask(db, run_id, task_id);
+    const patch = await resolveTaskPatch(run_id, task_id);
+    if (!task || !taskRow || !routerDecision || !previousPack) {
+      reply.code(404).send({ error: "task not found" });
+      return;
+    }
+    if (!patch) {
+      reply.code(404).send({ error: "no patch available", task_id });
+      return;
+    }
+
+    // The task's patch is checked, and regenerated, on top of the tasks ordered before it
+    const priorPatches = await resolveRunPatches(run_id, run.plan_id, task_id);
+    const priorText = priorPatches.map((prior) => prior.patch_text);
+    const before = await checkTaskPatch(run.project_id, run_id, task_id, combinePatches([...priorText, patch.patch_text]));
+    if (!before) {
+      reply.code(500).send({ error: "patch_write_failed" });
+      return;
+    }
+    if (before.status !== "conflict") {
+      reply.send({ run_id, task_id, rebased: false, status: before.status, conflicts: before.conflicts });
+      return;
+    }
+
+    const costRow = (await db.query<{ cost_to_date: number | string }>("SELECT cost_to_date FROM runs WHERE id = ?", [
+      run_id
+    ]))[0];
+    const budgetRemaining = Number(run.budget_cap_usd ?? 0) - Number(costRow?.cost_to_date ?? 0);
+    if (budgetRemaining <= 0 || routerDecision.expected_cost_usd > budgetRemaining) {
+      reply.code(409).send({ error: "budget_exceeded", budget_remaining_usd: budgetRemaining });
+      return;
+    }
+
+    // Fresh context: files are ranked and read again from the current HEAD
+    let pack = buildContextPack({
+      runId: run_id,
+      taskId: task_id,
+      budgets: previousPack.budgets,
+      pins: previousPack.pinned_sources,
+      scope: previousPack.scope ?? task.scope,
+      candidates: await retrieveContextCandidates(
+        run.project_id,
+        previousPack.scope ?? task.scope,
+        previousPack.budgets,
+        previousPack.pinned_sources
+      ),
+      signals: previousPack.signals
+    });
+    pack = await enrichContextPack(pack, run.project_id);
+    await saveContextPack(db, { project_id: run.project_id, manifest: pack });
+    await appendLedgerEvent(
+      db,
+      createLedgerEvent({
+        org_id: auth.org_id,
+        user_id: auth.user_id,
+        project_id: run.project_id,
+        run_id,
+        plan_id: run.plan_id,
+        task_id,
+        event_type: "CONTEXT_PACK_BUILT",
+        payload: pack as unknown as Record<string, unknown>
+      })
+    );
+
+    const rebaseCount = (await db.query<{ count: number | string }>(
+      "SELECT COUNT(*) AS count FROM ledger_events WHERE run_id = ? AND task_id = ? AND event_type = ?",
+      [run_id, task_id, "PATCH_REBASED"]
+    ))[0];
+    const suffix = `_rebase${Number(rebaseCount?.count ?? 0) + 1}`;
+
+    let patch_path: string;
+    let patchText: string;
+    let generated: GeneratedPatch | null = null;
+    const billingIds = { project_id: run.project_id, run_id, plan_id: run.plan_id };
+    try {
+      const selection = await providerFactory.getProviderWithFallback(routerDecision.selected_model);
+      const prompt = buildPatchPrompt({
+        task,
+        pack,
+        files: await loadPromptFiles(pack, run.project_id),
+        prior_patches: priorPatches,
+        rebase: {
+          conflicts: before.conflicts.map((conflict) => conflict.message),
+          previous_patch: patch.patch_text
+        }
+      });
+      generated = await requestTaskPatch({
+        auth,
+        run_id,
+        project_id: run.project_id,
+        plan_id: run.plan_id,
+        task,
+        lane: run.lane as Lane,
+        risk: run.risk as RiskLevel,
+        selection,
+        requested_model: routerDecision.selected_model,
+        pack,
+        prompt,
+        artifact_suffix: suffix
+      });
+      patchText = generated.result.patchText;
+      patch_path = await storeTaskPatch({
+        auth,
+        run_id,
+        project_id: run.project_id,
+        plan_id: run.plan_id,
+        task_id,
+        patch_text: patchText,
+        generated,
+        stage_message: "Patch regenerated against the current HEAD",
+        artifact_suffix: suffix
+      });
+    } catch (err) {
+      await appendLedgerEvent(
+        db,
+        createLedgerEvent({
+          org_id: auth.org_id,
+          user_id: auth.user_id,
+          project_id: run.project_id,
+          run_id,
+          plan_id: run.plan_id,
+          task_id,
+          event_type: "ANOMALY_DETECTED",
+          payload: { reason: "provider_failed", source: "patch_rebase", error: (err as Error).message }
+        })
+      );
+      if (generated) {
+        await postRunBilling(auth, billingIds, patchBillingTotals([generated]));
+      }
+      reply.code(502).send({ error: "provider_failed", details: (err as Error).message });
+      return;
+    }
+    await postRunBilling(auth, billingIds, patchBillingTotals([generated]));
+
+    const after = await checkTaskPatch(run.project_id, run_id, task_id, combinePatches([...priorText, patchText]));
+    await appendLedgerEvent(
+      db,
+      createLedgerEvent({
+        org_id: auth.org_id,
+        user_id: auth.user_id,
+        project_id: run.project_id,
+        run_id,
+        plan_id: run.plan_id,
+        task_id,
+        event_type: "PATCH_REBASED",
+        payload: {
+          patch_path,
+          base_revision: patch.revision,
+          conflicts: before.conflicts.map((conflict) => conflict.path),
+          status: after?.status ?? null
+        }
+      })
+    );
 
-    const cost_to_date = Number(run.cost_to_date ?? 0);
-    const budget_cap_usd = Number(run.budget_cap_usd ?? 0);
     reply.send({
-      state: run.state,
-      current_task: run.current_task_id,
-      cost_to_date,
-      budget_remaining: budget_cap_usd - cost_to_date
+      run_id,
+      task_id,
+      rebased: true,
+      patch_path,
+      // The regenerated patch replaces any reviewed revision, so it starts again at 0
+      patch_revision: 0,
+      previous_conflicts: before.conflicts,
+      status: after?.status ?? null,
+      conflicts: after?.conflicts ?? []
     });
   });
 
   app.get("/v1/projects/:id/runs", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "projects:read");
     if (!auth) return;
     const project_id = (req.params as { id: string }).id;
     const runs = await db.query(
@@ -1668,7 +3727,7 @@ export async function createServer(options?: {
   });
 
   app.post("/v1/runs/:run_id/pause", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "runs:write");
     if (!auth) return;
     const run_id = (req.params as { run_id: string }).run_id;
     await db.exec("UPDATE runs SET state = ? WHERE id = ?", ["PAUSED", run_id]);
@@ -1693,32 +3752,108 @@ export async function createServer(options?: {
   });
 
   app.post("/v1/runs/:run_id/resume", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "runs:write");
     if (!auth) return;
     const run_id = (req.params as { run_id: string }).run_id;
-    await db.exec("UPDATE runs SET state = ? WHERE id = ?", ["RUNNING", run_id]);
-    const run = (await db.query<Record<string, unknown>>("SELECT project_id, plan_id FROM runs WHERE id = ?", [run_id]))[0] as
-      | { project_id: string; plan_id: string }
+    const run = (await db.query<Record<string, unknown>>(
+      "SELECT project_id, plan_id, state, lane, risk, budget_cap_usd FROM runs WHERE id = ?",
+      [run_id]
+    ))[0] as
+      | {
+          project_id: string;
+          plan_id: string;
+          state: RunState;
+          lane: Lane;
+          risk: RiskLevel;
+          budget_cap_usd: number | string;
+        }
       | undefined;
-    if (run) {
-      await appendLedgerEvent(
-        db,
-        createLedgerEvent({
-          org_id: auth.org_id,
-          user_id: auth.user_id,
-          project_id: run.project_id,
+    if (!run) {
+      reply.code(404).send({ error: "run not found" });
+      return;
+    }
+    if (run.state !== "PAUSED" && run.state !== "FAILED") {
+      reply.code(409).send({ error: "run_not_resumable", state: run.state });
+      return;
+    }
+
+    const planRow = (await db.query<{ tasks_json: unknown; input_json: unknown }>(
+      "SELECT tasks_json, input_json FROM plans WHERE id = ?",
+      [run.plan_id]
+    ))[0];
+    const tasks = parseJsonValue<TasksFileV1 | null>(planRow?.tasks_json, null);
+    if (!planRow || !tasks) {
+      reply.code(500).send({ error: "invalid tasks payload" });
+      return;
+    }
+
+    // Pick up where the run stopped: the tasks it was started with, minus the ones already DONE.
+    const started = (await db.query<{ payload_json: unknown }>(
+      "SELECT payload_json FROM ledger_events WHERE run_id = ? AND event_type = ? ORDER BY ts ASC LIMIT 1",
+      [run_id, "RUN_STARTED"]
+    ))[0];
+    const startedMeta = parseJsonValue<{ task_ids?: string[]; context_budget?: ContextBudget }>(
+      started?.payload_json,
+      {}
+    );
+    const scheduled = orderPlanTasks(tasks).filter(
+      (task) => !startedMeta.task_ids || startedMeta.task_ids.includes(task.id)
+    );
+    const done = new Set(
+      (
+        await db.query<{ plan_task_id: string }>("SELECT plan_task_id FROM tasks WHERE run_id = ? AND state = ?", [
           run_id,
-          plan_id: run.plan_id,
-          event_type: "RUN_RESUMED",
-          payload: { reason: "manual" }
-        })
-      );
+          "DONE"
+        ])
+      ).map((row) => row.plan_task_id)
+    );
+    const pending = scheduled.filter((task) => !done.has(task.id));
+    const tasksCompleted = scheduled.length - pending.length;
+
+    await db.exec("UPDATE runs SET state = ?, updated_at = ? WHERE id = ?", ["RUNNING", new Date().toISOString(), run_id]);
+    await appendLedgerEvent(
+      db,
+      createLedgerEvent({
+        org_id: auth.org_id,
+        user_id: auth.user_id,
+        project_id: run.project_id,
+        run_id,
+        plan_id: run.plan_id,
+        event_type: "RUN_RESUMED",
+        payload: { reason: "manual", task_ids: pending.map((task) => task.id) }
+      })
+    );
+
+    const inputMeta = parseJsonValue<{ pins?: string[] }>(planRow.input_json, {});
+    const result = await runScheduledTasks({
+      auth,
+      run_id,
+      project_id: run.project_id,
+      plan_id: run.plan_id,
+      tasks: pending,
+      lane: run.lane,
+      risk: run.risk,
+      budget_cap_usd: Number(run.budget_cap_usd),
+      context_budget: startedMeta.context_budget ?? lanePolicy.lanes[run.lane].context_budget,
+      pins: inputMeta.pins ?? [],
+      tasks_total: getPlanTasksCount(tasks),
+      tasks_completed: tasksCompleted
+    });
+    if (result.stopped?.status === "paused" && result.stopped.reason === "provider_unavailable") {
+      reply.code(503).send({ error: "provider_unavailable", run_id });
+      return;
     }
-    reply.send({ ok: true });
+    reply.send({
+      ok: true,
+      run_id,
+      state: result.state,
+      tasks_completed: result.tasks_completed,
+      tasks_scheduled: scheduled.length
+    });
   });
 
   app.post("/v1/runs/:run_id/cancel", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "runs:write");
     if (!auth) return;
     const run_id = (req.params as { run_id: string }).run_id;
     await db.exec("UPDATE runs SET state = ? WHERE id = ?", ["CANCELLED", run_id]);
@@ -1743,18 +3878,29 @@ export async function createServer(options?: {
   });
 
   app.get("/v1/runs/:run_id/stream", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "runs:read");
     if (!auth) return;
     const run_id = (req.params as { run_id: string }).run_id;
-    events.attach(run_id, reply.raw);
+    const query = req.query as { last_event_id?: string };
+    // EventSource sends Last-Event-ID on reconnect; the query parameter serves clients that cannot set headers
+    const lastEventId = Number(req.headers["last-event-id"] ?? query.last_event_id ?? 0);
+    if (!Number.isSafeInteger(lastEventId) || lastEventId < 0) {
+      return reply.code(400).send({ error: "invalid_last_event_id" });
+    }
+    reply.hijack();
+    await events.attach(run_id, reply.raw, lastEventId);
   });
 
   async function executeVerify(input: {
     auth: AuthContext;
     run_id: string;
-    run: { project_id: string; plan_id: string; lane: string; risk: string; current_task_id: string };
+    run: { project_id: string; plan_id: string; lane: string; risk: string };
+    // The task being verified; omitted when the whole run's patch is
+    task_id?: string;
     mode?: "targeted" | "standard" | "strict";
     target?: string;
+    // Verify this patch applied in a throwaway worktree instead of the runner's checkout as is
+    patch_text?: string;
   }): Promise<{
     status: "pass" | "fail";
     report_path: string;
@@ -1767,7 +3913,7 @@ export async function createServer(options?: {
 
     await emitTaskStage({
       run_id: input.run_id,
-      task_id: input.run.current_task_id,
+      task_id: input.task_id,
       stage: "LOCAL_VERIFY",
       message: `verify mode: ${verifyMode}`,
       org_id: input.auth.org_id,
@@ -1788,66 +3934,87 @@ export async function createServer(options?: {
     await appendLedgerEvent(db, verifyStart);
 
     const gates = verifyGates.modes[verifyMode].gates;
-    const results: Array<{ gate: string; exit_code: number; stdout: string; stderr: string }> = [];
-
-    for (const gate of gates) {
-      const command = verifyGates.commands[gate];
-      const cmdStart = createLedgerEvent({
-        org_id: input.auth.org_id,
-        user_id: input.auth.user_id,
-        project_id: input.run.project_id,
-        run_id: input.run_id,
-        plan_id: input.run.plan_id,
-        event_type: "RUNNER_CMD_STARTED",
-        payload: { command }
-      });
-      await appendLedgerEvent(db, cmdStart);
-
-      const result = await runnerBridge.sendExec({ project_id: input.run.project_id, cmd: command });
-      results.push({ gate, exit_code: result.exit_code, stdout: result.stdout, stderr: result.stderr });
+    const runGates = async (cwd?: string) => {
+      const results: Array<{ gate: string; exit_code: number; stdout: string; stderr: string }> = [];
+
+      for (const gate of gates) {
+        const command = verifyGates.commands[gate];
+        const cmdStart = createLedgerEvent({
+          org_id: input.auth.org_id,
+          user_id: input.auth.user_id,
+          project_id: input.run.project_id,
+          run_id: input.run_id,
+          plan_id: input.run.plan_id,
+          event_type: "RUNNER_CMD_STARTED",
+          payload: { command }
+        });
+        await appendLedgerEvent(db, cmdStart);
+
+        const result = await runnerBridge.sendExec({ project_id: input.run.project_id, cmd: command, cwd });
+        results.push({ gate, exit_code: result.exit_code, stdout: result.stdout, stderr: result.stderr });
+
+        const stderr = result.stderr ?? "";
+        if (
+          result.exit_code !== 0 &&
+          (stderr.includes("Denied by permissions") || stderr.includes("User denied command"))
+        ) {
+          const reason = stderr.includes("User denied") ? "ask_denied" : "deny";
+          await appendLedgerEvent(
+            db,
+            createLedgerEvent({
+              org_id: input.auth.org_id,
+              user_id: input.auth.user_id,
+              project_id: input.run.project_id,
+              run_id: input.run_id,
+              plan_id: input.run.plan_id,
+              task_id: input.task_id,
+              event_type: "RUNNER_CMD_BLOCKED",
+              payload: { command, gate, reason }
+            })
+          );
+          events.emit(input.run_id, {
+            type: "PERMISSION_DENIED",
+            ts: new Date().toISOString(),
+            data: {
+              run_id: input.run_id,
+              task_id: input.task_id,
+              command,
+              gate,
+              reason
+            }
+          });
+        }
 
-      const stderr = result.stderr ?? "";
-      if (
-        result.exit_code !== 0 &&
-        (stderr.includes("Denied by permissions") || stderr.includes("User denied command"))
-      ) {
-        const reason = stderr.includes("User denied") ? "ask_denied" : "deny";
-        await appendLedgerEvent(
-          db,
-          createLedgerEvent({
-            org_id: input.auth.org_id,
-            user_id: input.auth.user_id,
-            project_id: input.run.project_id,
-            run_id: input.run_id,
-            plan_id: input.run.plan_id,
-            task_id: input.run.current_task_id,
-            event_type: "RUNNER_CMD_BLOCKED",
-            payload: { command, gate, reason }
-          })
-        );
-        events.emit(input.run_id, {
-          type: "PERMISSION_DENIED",
-          ts: new Date().toISOString(),
-          data: {
-            run_id: input.run_id,
-            task_id: input.run.current_task_id,
-            command,
-            gate,
-            reason
-          }
+        const cmdFinish = createLedgerEvent({
+          org_id: input.auth.org_id,
+          user_id: input.auth.user_id,
+          project_id: input.run.project_id,
+          run_id: input.run_id,
+          plan_id: input.run.plan_id,
+          event_type: "RUNNER_CMD_FINISHED",
+          payload: { command, exit_code: result.exit_code }
         });
+        await appendLedgerEvent(db, cmdFinish);
       }
+      return results;
+    };
 
-      const cmdFinish = createLedgerEvent({
-        org_id: input.auth.org_id,
-        user_id: input.auth.user_id,
-        project_id: input.run.project_id,
-        run_id: input.run_id,
-        plan_id: input.run.plan_id,
-        event_type: "RUNNER_CMD_FINISHED",
-        payload: { command, exit_code: result.exit_code }
-      });
-      await appendLedgerEvent(db, cmdFinish);
+    let results: Array<{ gate: string; exit_code: number; stdout: string; stderr: string }>;
+    if (input.patch_text !== undefined) {
+      const outcome = await withPatchedWorktree(
+        {
+          project_id: input.run.project_id,
+          name: `verify_${input.run_id}_${input.task_id ?? "run"}`,
+          patchText: input.patch_text
+        },
+        runGates
+      );
+      // A patch that does not apply fails verify like a gate would, so the fix loop sees why
+      results = Array.isArray(outcome)
+        ? outcome
+        : [{ gate: "apply", exit_code: 1, stdout: "", stderr: outcome.details ?? outcome.error }];
+    } else {
+      results = await runGates();
     }
 
     const allPassed = results.every((r) => r.exit_code === 0);
@@ -1858,7 +4025,7 @@ export async function createServer(options?: {
       ...results.map((result) => `- ${result.gate}: ${result.exit_code === 0 ? "PASS" : "FAIL"}`)
     ];
     const report = reportLines.join("\n");
-    const logicalReportPath = `artifacts/${input.run.project_id}/${input.run_id}/${input.run.current_task_id ?? "task"}/verify-report.md`;
+    const logicalReportPath = `artifacts/${input.run.project_id}/${input.run_id}/${input.task_id ?? "run"}/verify-report.md`;
     const reportArtifact = writeArtifact(input.run_id, "verify-report.md", report);
 
     const verifyFinish = createLedgerEvent({
@@ -1877,7 +4044,7 @@ export async function createServer(options?: {
       ts: new Date().toISOString(),
       data: {
         run_id: input.run_id,
-        task_id: input.run.current_task_id,
+        task_id: input.task_id,
         status: allPassed ? "pass" : "fail",
         verify_report: logicalReportPath
       }
@@ -1900,33 +4067,436 @@ export async function createServer(options?: {
   }
 
   app.post("/v1/runs/:run_id/verify", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "runs:write");
     if (!auth) return;
     const run_id = (req.params as { run_id: string }).run_id;
     const body = (req.body ?? {}) as { mode?: "targeted" | "standard" | "strict"; target?: string };
 
     const run = (await db.query<Record<string, unknown>>("SELECT * FROM runs WHERE id = ?", [run_id]))[0] as
-      | { project_id: string; plan_id: string; lane: string; risk: string; current_task_id: string }
+      | { project_id: string; plan_id: string; lane: string; risk: string }
+      | undefined;
+    if (!run) {
+      reply.code(404).send({ error: "run not found" });
+      return;
+    }
+
+    if (!runnerBridge.hasRunner(run.project_id)) {
+      reply.code(409).send({ error: "runner not connected" });
+      return;
+    }
+
+    // Every finished task's patch is applied in a worktree; a run without patches verifies the checkout as is
+    const patches = await resolveRunPatches(run_id, run.plan_id);
+    const result = await executeVerify({
+      auth,
+      run_id,
+      run,
+      mode: body.mode,
+      target: body.target,
+      patch_text: patches.length > 0 ? combinePatches(patches.map((patch) => patch.patch_text)) : undefined
+    });
+    reply.send(result);
+  });
+
+  app.post("/v1/runs/:run_id/fix", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "runs:write");
+    if (!auth) return;
+    const run_id = (req.params as { run_id: string }).run_id;
+    const body = (req.body ?? {}) as { task_id?: string; max_iters?: number; mode?: "replace" | "stack" };
+    if (body.max_iters !== undefined && (!Number.isInteger(body.max_iters) || body.max_iters < 1)) {
+      reply.code(400).send({ error: "max_iters must be a positive integer" });
+      return;
+    }
+
+    const run = (await db.query<Record<string, unknown>>("SELECT * FROM runs WHERE id = ?", [run_id]))[0] as
+      | {
+          project_id: string;
+          plan_id: string;
+          state: string;
+          lane: string;
+          risk: string;
+          budget_cap_usd: number | string;
+        }
       | undefined;
     if (!run) {
       reply.code(404).send({ error: "run not found" });
       return;
     }
+    if (run.state === "CANCELLED") {
+      reply.code(409).send({ error: "run_cancelled" });
+      return;
+    }
+    if (!runnerBridge.hasRunner(run.project_id)) {
+      reply.code(409).send({ error: "runner not connected" });
+      return;
+    }
+
+    const task_id = pickPatchTask(await resolveRunPatches(run_id, run.plan_id), body.task_id, reply);
+    if (!task_id) return;
+    const planRow = (await db.query<{ tasks_json?: unknown }>("SELECT tasks_json FROM plans WHERE id = ?", [
+      run.plan_id
+    ]))[0];
+    const tasksFile = parseJsonValue<TasksFileV1 | null>(planRow?.tasks_json, null);
+    const task = tasksFile ? flattenPlanTasks(tasksFile).find((candidate) => candidate.id === task_id) : undefined;
+    const taskRow = (await db.query<{ router_decision_json?: unknown }>(
+      "SELECT router_decision_json FROM tasks WHERE run_id = ? AND plan_task_id = ?",
+      [run_id, task_id]
+    ))[0];
+    const routerDecision = parseJsonValue<RouterDecision | null>(taskRow?.router_decision_json, null);
+    const pack = await getLatestContextPackForTask(db, run_id, task_id);
+    // The loop starts from the reviewed revision when there is one, same as /apply
+    const currentPatch = await resolveTaskPatch(run_id, task_id);
+    if (!task || !taskRow || !routerDecision || !pack || !currentPatch) {
+      reply.code(404).send({ error: "task not found" });
+      return;
+    }
+
+    const lane = run.lane as Lane;
+    const risk = run.risk as RiskLevel;
+    const policyMaxIters = lanePolicy.lanes[lane].fix_loop_max_iters;
+    const max_iters = Math.min(body.max_iters ?? policyMaxIters, policyMaxIters);
+    const mode = body.mode ?? "replace";
+    // Each attempt is verified and regenerated on top of the patches of the tasks before this one
+    const priorPatches = await resolveRunPatches(run_id, run.plan_id, task_id);
+    const withPriorPatches = (patchText: string) =>
+      combinePatches([...priorPatches.map((prior) => prior.patch_text), patchText]);
+
+    let selection: ProviderSelection | null = null;
+    const generatedPatches: GeneratedPatch[] = [];
+    let previousPatch = currentPatch.patch_text;
+    let patch_path: string | null = null;
+    let iterations = 0;
+    let stop_reason: "pass" | "max_iters" | "budget" | "provider_failed" = "max_iters";
+    // Gates run against the checkout with the task's patch applied, so each attempt is judged on its own patch
+    let verify = await executeVerify({ auth, run_id, run, task_id, patch_text: withPriorPatches(previousPatch) });
+    while (verify.status !== "pass") {
+      if (iterations >= max_iters) {
+        stop_reason = "max_iters";
+        break;
+      }
+
+      const costRow = (await db.query<{ cost_to_date: number | string }>(
+        "SELECT cost_to_date FROM runs WHERE id = ?",
+        [run_id]
+      ))[0];
+      const costToDate = Number(costRow?.cost_to_date ?? 0);
+      const budgetRemaining = Number(run.budget_cap_usd ?? 0) - costToDate;
+      if (budgetRemaining <= 0 || routerDecision.expected_cost_usd > budgetRemaining) {
+        events.emit(run_id, {
+          type: "ANOMALY",
+          ts: new Date().toISOString(),
+          data: {
+            expected_p90: routerDecision.expected_cost_usd,
+            actual: costToDate,
+            reason: "budget cap would be exceeded",
+            action: "fix loop stopped",
+            suggestions: ["/budget cap", "/lane set cost-saver"]
+          }
+        });
+        await appendLedgerEvent(
+          db,
+          createLedgerEvent({
+            org_id: auth.org_id,
+            user_id: auth.user_id,
+            project_id: run.project_id,
+            run_id,
+            plan_id: run.plan_id,
+            task_id,
+            event_type: "ANOMALY_DETECTED",
+            payload: { reason: "budget", source: "fix_loop" }
+          })
+        );
+        stop_reason = "budget";
+        break;
+      }
+
+      iterations += 1;
+      const failures = verify.gates
+        .filter((gate) => gate.exit_code !== 0)
+        .map((gate) => ({
+          gate: gate.gate,
+          exit_code: gate.exit_code,
+          output: limitText(redactText([gate.stdout, gate.stderr].filter(Boolean).join("\n")).text, 4000)
+        }));
+
+      await emitTaskStage({
+        run_id,
+        task_id,
+        stage: "FIX_ITERATION",
+        message: `fix attempt ${iterations}/${max_iters} (${failures.map((f) => f.gate).join(", ") || "verify"} failed)`,
+        org_id: auth.org_id,
+        user_id: auth.user_id,
+        project_id: run.project_id,
+        plan_id: run.plan_id
+      });
+      await appendLedgerEvent(
+        db,
+        createLedgerEvent({
+          org_id: auth.org_id,
+          user_id: auth.user_id,
+          project_id: run.project_id,
+          run_id,
+          plan_id: run.plan_id,
+          task_id,
+          event_type: "FIX_ITERATION",
+          payload: {
+            iteration: iterations,
+            max_iters,
+            mode,
+            failing_gates: failures.map((f) => f.gate),
+            verify_report: verify.report_path
+          }
+        })
+      );
+
+      try {
+        selection = selection ?? (await providerFactory.getProviderWithFallback(routerDecision.selected_model));
+        const prompt = buildPatchPrompt({
+          task,
+          pack,
+          files: await loadPromptFiles(pack, run.project_id),
+          prior_patches: priorPatches,
+          fix: { iteration: iterations, max_iters, mode, failures, previous_patch: previousPatch }
+        });
+        const generated = await requestTaskPatch({
+          auth,
+          run_id,
+          project_id: run.project_id,
+          plan_id: run.plan_id,
+          task,
+          lane,
+          risk,
+          selection,
+          requested_model: routerDecision.selected_model,
+          pack,
+          prompt,
+          artifact_suffix: `_fix${iterations}`
+        });
+        generatedPatches.push(generated);
+        const patchText =
+          mode === "stack" && previousPatch.trim()
+            ? `${previousPatch.replace(/\n*$/, "\n")}${generated.result.patchText}`
+            : generated.result.patchText;
+        patch_path = await storeTaskPatch({
+          auth,
+          run_id,
+          project_id: run.project_id,
+          plan_id: run.plan_id,
+          task_id,
+          patch_text: patchText,
+          generated,
+          stage_message: `Fix patch generated (attempt ${iterations}/${max_iters})`,
+          artifact_suffix: `_fix${iterations}`
+        });
+        previousPatch = patchText;
+      } catch (err) {
+        await appendLedgerEvent(
+          db,
+          createLedgerEvent({
+            org_id: auth.org_id,
+            user_id: auth.user_id,
+            project_id: run.project_id,
+            run_id,
+            plan_id: run.plan_id,
+            task_id,
+            event_type: "ANOMALY_DETECTED",
+            payload: { reason: "provider_failed", source: "fix_loop", error: (err as Error).message }
+          })
+        );
+        stop_reason = "provider_failed";
+        break;
+      }
+
+      verify = await executeVerify({ auth, run_id, run, task_id, patch_text: withPriorPatches(previousPatch) });
+    }
+    if (verify.status === "pass") {
+      stop_reason = "pass";
+    }
+    if (generatedPatches.length > 0) {
+      await postRunBilling(
+        auth,
+        { project_id: run.project_id, run_id, plan_id: run.plan_id },
+        patchBillingTotals(generatedPatches)
+      );
+    }
+
+    reply.send({
+      status: verify.status,
+      stop_reason,
+      iterations,
+      max_iters,
+      mode,
+      report_path: verify.report_path,
+      patch_path
+    });
+  });
+
+  const APPLY_MODES: ApplyMode[] = ["pr", "branch", "staged"];
+
+  type ApplyFailure = { status: number; error: string; details?: string; conflicts?: PatchConflict[] };
+
+  async function writeRunnerPatch(project_id: string, filename: string, patchText: string): Promise<string | null> {
+    const patchPath = path.join(repoRoot, ".trcoder", "patches", filename);
+    const writeResult = await runnerBridge.sendWrite({
+      project_id,
+      path: patchPath,
+      content: Buffer.from(patchText, "utf8").toString("base64"),
+      encoding: "base64"
+    });
+    return writeResult.exit_code === 0 ? patchPath : null;
+  }
+
+  // Runs fn inside a detached throwaway worktree of HEAD with the patch applied, then removes the worktree.
+  async function withPatchedWorktree<T>(
+    input: { project_id: string; name: string; patchText: string },
+    fn: (cwd: string) => Promise<T>
+  ): Promise<T | ApplyFailure> {
+    const { project_id } = input;
+    const patchPath = await writeRunnerPatch(project_id, `${input.name}.patch`, input.patchText);
+    if (!patchPath) {
+      return { status: 500, error: "patch_write_failed" };
+    }
+    const worktreePath = path.join(repoRoot, ".trcoder", "worktrees", input.name);
+    const worktreeResult = await runnerBridge.sendExec({
+      project_id,
+      cmd: `git worktree add --detach \"${worktreePath}\" HEAD`,
+      cwd: repoRoot
+    });
+    if (worktreeResult.exit_code !== 0) {
+      return { status: 500, error: "git_worktree_failed", details: worktreeResult.stderr };
+    }
+    try {
+      if (input.patchText.trim()) {
+        const applyResult = await runnerBridge.sendExec({
+          project_id,
+          cmd: `git apply --index \"${patchPath}\"`,
+          cwd: worktreePath
+        });
+        if (applyResult.exit_code !== 0) {
+          return {
+            status: 409,
+            error: "git_apply_failed",
+            details: applyResult.stderr,
+            conflicts: parseApplyErrors(applyResult.stderr ?? "")
+          };
+        }
+      }
+      return await fn(worktreePath);
+    } finally {
+      await runnerBridge.sendExec({
+        project_id,
+        cmd: `git worktree remove --force \"${worktreePath}\"`,
+        cwd: repoRoot
+      });
+    }
+  }
+
+  // Applies the patch in a throwaway worktree and commits it onto a new branch.
+  // The branch is deleted again unless the commit landed (and was pushed, when asked to).
+  async function commitPatchOnBranch(input: {
+    project_id: string;
+    run_id: string;
+    task_id: string;
+    branchName: string;
+    headSha: string;
+    patchPath: string;
+    commitMessage: string;
+    push: boolean;
+  }): Promise<{ commit_sha: string } | ApplyFailure> {
+    const { project_id, branchName } = input;
+    const worktreePath = path.join(repoRoot, ".trcoder", "worktrees", `${input.run_id}_${input.task_id}`);
+    let worktreeCreated = false;
+    let keepBranch = false;
+    try {
+      const worktreeResult = await runnerBridge.sendExec({
+        project_id,
+        cmd: `git worktree add -b \"${branchName}\" \"${worktreePath}\" ${input.headSha}`,
+        cwd: repoRoot
+      });
+      if (worktreeResult.exit_code !== 0) {
+        return { status: 500, error: "git_worktree_failed", details: worktreeResult.stderr };
+      }
+      worktreeCreated = true;
+
+      const applyResult = await runnerBridge.sendExec({
+        project_id,
+        cmd: `git apply --index \"${input.patchPath}\"`,
+        cwd: worktreePath
+      });
+      if (applyResult.exit_code !== 0) {
+        // Same fallback as /patch/check; a conflicted 3-way merge only touches the throwaway worktree
+        const threeWayResult = await runnerBridge.sendExec({
+          project_id,
+          cmd: `git apply --index --3way \"${input.patchPath}\"`,
+          cwd: worktreePath
+        });
+        if (threeWayResult.exit_code !== 0) {
+          return {
+            status: 500,
+            error: "git_apply_failed",
+            details: applyResult.stderr,
+            conflicts: parseApplyErrors(applyResult.stderr ?? "")
+          };
+        }
+      }
+
+      // The message is user text, so it goes through a file instead of the command line
+      const messagePath = await writeRunnerPatch(project_id, `commit_${input.run_id}_${input.task_id}.txt`, input.commitMessage);
+      if (!messagePath) {
+        return { status: 500, error: "commit_message_write_failed" };
+      }
+      const commitResult = await runnerBridge.sendExec({
+        project_id,
+        cmd: `git commit -F \"${messagePath}\"`,
+        cwd: worktreePath
+      });
+      if (commitResult.exit_code !== 0) {
+        return { status: 500, error: "git_commit_failed", details: commitResult.stderr };
+      }
+
+      const shaResult = await runnerBridge.sendExec({
+        project_id,
+        cmd: "git rev-parse HEAD",
+        cwd: worktreePath
+      });
+      const commit_sha = (shaResult.stdout ?? "").trim();
 
-    if (!runnerBridge.hasRunner(run.project_id)) {
-      reply.code(409).send({ error: "runner not connected" });
-      return;
+      if (input.push) {
+        const pushResult = await runnerBridge.sendExec({
+          project_id,
+          cmd: `git push -u origin \"${branchName}\"`,
+          cwd: worktreePath
+        });
+        if (pushResult.exit_code !== 0) {
+          return { status: 500, error: "git_push_failed", details: pushResult.stderr };
+        }
+      }
+      keepBranch = true;
+      return { commit_sha };
+    } finally {
+      if (worktreeCreated) {
+        await runnerBridge.sendExec({
+          project_id,
+          cmd: `git worktree remove --force \"${worktreePath}\"`,
+          cwd: repoRoot
+        });
+      }
+      if (worktreeCreated && !keepBranch) {
+        await runnerBridge.sendExec({
+          project_id,
+          cmd: `git branch -D \"${branchName}\"`,
+          cwd: repoRoot
+        });
+      }
     }
-
-    const result = await executeVerify({ auth, run_id, run, mode: body.mode, target: body.target });
-    reply.send(result);
-  });
+  }
 
   app.post("/v1/runs/:run_id/apply", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "runs:write");
     if (!auth) return;
     const run_id = (req.params as { run_id: string }).run_id;
     const body = (req.body ?? {}) as {
+      mode?: ApplyMode;
       title?: string;
       body?: string;
       draft?: boolean;
@@ -1936,9 +4506,14 @@ export async function createServer(options?: {
       branch?: string;
       commit_message?: string;
     };
+    const mode = body.mode ?? "pr";
+    if (!APPLY_MODES.includes(mode)) {
+      reply.code(400).send({ error: "invalid_mode", modes: APPLY_MODES });
+      return;
+    }
 
     const run = (await db.query<Record<string, unknown>>("SELECT * FROM runs WHERE id = ?", [run_id]))[0] as
-      | { project_id: string; plan_id: string; lane: string; risk: string; current_task_id: string }
+      | { project_id: string; plan_id: string; lane: string; risk: string }
       | undefined;
     if (!run) {
       reply.code(404).send({ error: "run not found" });
@@ -1950,50 +4525,160 @@ export async function createServer(options?: {
       return;
     }
 
-    const taskRow = (await db.query<Record<string, unknown>>(
-      "SELECT title, patch_text FROM tasks WHERE run_id = ? AND plan_task_id = ?",
-      [run_id, run.current_task_id]
-    ))[0] as { title?: string; patch_text?: string } | undefined;
-
-    const patchText = taskRow?.patch_text;
-    if (!patchText) {
+    // Every finished task's patch, each at its reviewed revision when there is one (see /patch/revisions)
+    const patches = await resolveRunPatches(run_id, run.plan_id);
+    if (patches.length === 0) {
       reply.code(400).send({ error: "no patch available" });
       return;
     }
+    const patchText = combinePatches(patches.map((patch) => patch.patch_text));
+    const task_ids = patches.map((patch) => patch.task_id);
+    // Single-task runs keep the task's own names; a multi-task run is applied as one change
+    const single = patches.length === 1 ? patches[0] : null;
+    const task_id = single?.task_id;
+    const applyLabel = task_id ?? "run";
+    const patch_revision = single?.revision ?? null;
+    const patch_revisions = Object.fromEntries(patches.map((patch) => [patch.task_id, patch.revision]));
 
     const verifyResult = await executeVerify({
       auth,
       run_id,
       run,
-      mode: "strict"
+      task_id,
+      mode: "strict",
+      patch_text: patchText
     });
     if (verifyResult.status !== "pass") {
+      await audit(req, auth, {
+        action: "PATCH_APPLY",
+        targetType: "run",
+        targetId: run_id,
+        metadata: { project_id: run.project_id, task_ids, mode },
+        status: "failure",
+        reason: "verify_failed"
+      });
       reply.code(409).send({ error: "verify_failed", report_path: verifyResult.report_path });
       return;
     }
 
-    const remoteResult = await runnerBridge.sendExec({
+    const appendPatchApplied = (payload: Record<string, unknown>) =>
+      appendLedgerEvent(
+        db,
+        createLedgerEvent({
+          org_id: auth.org_id,
+          user_id: auth.user_id,
+          project_id: run.project_id,
+          run_id,
+          plan_id: run.plan_id,
+          task_id,
+          event_type: "PATCH_APPLIED",
+          payload: { mode, task_ids, patch_revision, patch_revisions, ...payload }
+        })
+      );
+
+    if (mode === "staged") {
+      // Stage onto whatever is checked out; refuse to mix with changes the user already staged
+      const indexCheck = await runnerBridge.sendExec({
+        project_id: run.project_id,
+        cmd: "git diff --cached --quiet",
+        cwd: repoRoot
+      });
+      if (indexCheck.exit_code !== 0) {
+        reply.code(409).send({ error: "index_not_clean" });
+        return;
+      }
+      const patchPath = await writeRunnerPatch(run.project_id, `apply_${run_id}_${applyLabel}.diff`, patchText);
+      if (!patchPath) {
+        reply.code(500).send({ error: "patch_write_failed" });
+        return;
+      }
+      const applyResult = await runnerBridge.sendExec({
+        project_id: run.project_id,
+        cmd: `git apply --index \"${patchPath}\"`,
+        cwd: repoRoot
+      });
+      if (applyResult.exit_code !== 0) {
+        reply.code(500).send({
+          error: "git_apply_failed",
+          details: applyResult.stderr,
+          conflicts: parseApplyErrors(applyResult.stderr ?? "")
+        });
+        return;
+      }
+      const files = parseUnifiedDiff(patchText).map((file) => file.path);
+      await appendPatchApplied({ files });
+      await audit(req, auth, {
+        action: "PATCH_APPLY",
+        targetType: "run",
+        targetId: run_id,
+        metadata: { project_id: run.project_id, task_ids, mode, patch_revisions }
+      });
+      reply.send({ ok: true, mode, files, task_ids, patch_revision });
+      return;
+    }
+
+    let provider: PrProvider | null = null;
+    let remote: ReturnType<typeof parseGitRemote> = null;
+    let adapter: IPrAdapter | null = null;
+    if (mode === "pr") {
+      const remoteResult = await runnerBridge.sendExec({
+        project_id: run.project_id,
+        cmd: "git config --get remote.origin.url",
+        cwd: repoRoot
+      });
+      if (remoteResult.exit_code !== 0 || !remoteResult.stdout) {
+        reply.code(500).send({ error: "remote_origin_missing" });
+        return;
+      }
+      remote = parseGitRemote(remoteResult.stdout.trim());
+      provider = remote ? resolvePrProvider(remote.host) : null;
+      if (!remote || !provider) {
+        reply.code(400).send({ error: "unsupported_remote" });
+        return;
+      }
+
+      try {
+        adapter = createPrAdapterFor(provider, remote);
+      } catch (err) {
+        reply.code(500).send({ error: "pr_adapter_unavailable", details: (err as Error).message });
+        return;
+      }
+    }
+
+    let baseBranch: string;
+    if (adapter) {
+      baseBranch = await adapter.getDefaultBranch();
+    } else {
+      // Local branches fork from what is checked out, not from a remote default branch
+      const currentBranch = await runnerBridge.sendExec({
+        project_id: run.project_id,
+        cmd: "git rev-parse --abbrev-ref HEAD",
+        cwd: repoRoot
+      });
+      if (currentBranch.exit_code !== 0 || !currentBranch.stdout) {
+        reply.code(500).send({ error: "git_head_failed", details: currentBranch.stderr });
+        return;
+      }
+      baseBranch = currentBranch.stdout.trim();
+    }
+    const branchName = body.branch ?? (task_id ? `trcoder/${run_id}/${task_id}` : `trcoder/${run_id}`);
+    if (!BRANCH_NAME_PATTERN.test(branchName)) {
+      reply.code(400).send({ error: "invalid_branch" });
+      return;
+    }
+    const refFormatCheck = await runnerBridge.sendExec({
       project_id: run.project_id,
-      cmd: "git config --get remote.origin.url",
+      cmd: `git check-ref-format --branch \"${branchName}\"`,
       cwd: repoRoot
     });
-    if (remoteResult.exit_code !== 0 || !remoteResult.stdout) {
-      reply.code(500).send({ error: "remote_origin_missing" });
-      return;
-    }
-    const repoInfo = parseGitHubRemote(remoteResult.stdout.trim());
-    if (!repoInfo) {
-      reply.code(400).send({ error: "unsupported_remote" });
+    if (refFormatCheck.exit_code !== 0) {
+      reply.code(400).send({ error: "invalid_branch", details: refFormatCheck.stderr });
       return;
     }
 
-    const adapter = GitHubAdapter.fromEnv(repoInfo.owner, repoInfo.repo);
-    const baseBranch = await adapter.getDefaultBranch();
-    const branchName = body.branch ?? `trcoder/${run_id}/${run.current_task_id}`;
-
     const localBranchCheck = await runnerBridge.sendExec({
       project_id: run.project_id,
-      cmd: `git show-ref --verify --quiet refs/heads/${branchName}`,
+      cmd: `git show-ref --verify --quiet \"refs/heads/${branchName}\"`,
       cwd: repoRoot
     });
     if (localBranchCheck.exit_code === 0) {
@@ -2001,16 +4686,18 @@ export async function createServer(options?: {
       return;
     }
 
-    let remoteBranchExists = false;
-    try {
-      remoteBranchExists = await adapter.branchExists(branchName);
-    } catch (err) {
-      reply.code(502).send({ error: "branch_check_failed", details: (err as Error).message });
-      return;
-    }
-    if (remoteBranchExists) {
-      reply.code(409).send({ error: "branch_exists_remote" });
-      return;
+    if (adapter) {
+      let remoteBranchExists = false;
+      try {
+        remoteBranchExists = await adapter.branchExists(branchName);
+      } catch (err) {
+        reply.code(502).send({ error: "branch_check_failed", details: (err as Error).message });
+        return;
+      }
+      if (remoteBranchExists) {
+        reply.code(409).send({ error: "branch_exists_remote" });
+        return;
+      }
     }
 
     const headResult = await runnerBridge.sendExec({
@@ -2024,87 +4711,68 @@ export async function createServer(options?: {
     }
     const headSha = headResult.stdout.trim();
 
-    const patchPath = path.join(repoRoot, ".trcoder", "patches", `apply_${run_id}_${run.current_task_id}.diff`);
-    const worktreePath = path.join(repoRoot, ".trcoder", "worktrees", `${run_id}_${run.current_task_id}`);
-    const writeResult = await runnerBridge.sendWrite({
-      project_id: run.project_id,
-      path: patchPath,
-      content: Buffer.from(patchText, "utf8").toString("base64"),
-      encoding: "base64"
-    });
-    if (writeResult.exit_code !== 0) {
+    const patchPath = await writeRunnerPatch(run.project_id, `apply_${run_id}_${applyLabel}.diff`, patchText);
+    if (!patchPath) {
       reply.code(500).send({ error: "patch_write_failed" });
       return;
     }
 
-    let worktreeCreated = false;
-    let pushed = false;
-    try {
-      const worktreeResult = await runnerBridge.sendExec({
-        project_id: run.project_id,
-        cmd: `git worktree add -b ${branchName} \"${worktreePath}\" ${headSha}`,
-        cwd: repoRoot
-      });
-      if (worktreeResult.exit_code !== 0) {
-        reply.code(500).send({ error: "git_worktree_failed", details: worktreeResult.stderr });
-        return;
-      }
-      worktreeCreated = true;
-
-      const applyResult = await runnerBridge.sendExec({
-        project_id: run.project_id,
-        cmd: `git apply --index \"${patchPath}\"`,
-        cwd: worktreePath
+    const committed = await commitPatchOnBranch({
+      project_id: run.project_id,
+      run_id,
+      task_id: applyLabel,
+      branchName,
+      headSha,
+      patchPath,
+      commitMessage: body.commit_message ?? `TRCODER: apply ${task_ids.join(", ")}`,
+      push: mode === "pr"
+    });
+    if ("error" in committed) {
+      reply.code(committed.status).send({
+        error: committed.error,
+        details: committed.details,
+        conflicts: committed.conflicts
       });
-      if (applyResult.exit_code !== 0) {
-        reply.code(500).send({ error: "git_apply_failed", details: applyResult.stderr });
-        return;
-      }
+      return;
+    }
 
-      const commitMessage = body.commit_message ?? `TRCODER: apply ${run.current_task_id}`;
-      const commitResult = await runnerBridge.sendExec({
-        project_id: run.project_id,
-        cmd: `git commit -m \"${commitMessage}\"`,
-        cwd: worktreePath
+    if (!adapter || !provider || !remote) {
+      await appendPatchApplied({ branch: branchName, base_branch: baseBranch, commit_sha: committed.commit_sha });
+      await audit(req, auth, {
+        action: "PATCH_APPLY",
+        targetType: "run",
+        targetId: run_id,
+        metadata: {
+          project_id: run.project_id,
+          task_ids,
+          mode,
+          patch_revisions,
+          branch: branchName
+        }
       });
-      if (commitResult.exit_code !== 0) {
-        reply.code(500).send({ error: "git_commit_failed", details: commitResult.stderr });
-        return;
-      }
-
-      const pushResult = await runnerBridge.sendExec({
-        project_id: run.project_id,
-        cmd: `git push -u origin ${branchName}`,
-        cwd: worktreePath
+      reply.send({
+        ok: true,
+        mode,
+        branch: branchName,
+        base_branch: baseBranch,
+        commit_sha: committed.commit_sha,
+        task_ids,
+        patch_revision
       });
-      if (pushResult.exit_code !== 0) {
-        reply.code(500).send({ error: "git_push_failed", details: pushResult.stderr });
-        return;
-      }
-      pushed = true;
-    } finally {
-      if (worktreeCreated) {
-        await runnerBridge.sendExec({
-          project_id: run.project_id,
-          cmd: `git worktree remove --force \"${worktreePath}\"`,
-          cwd: repoRoot
-        });
-      }
-      if (worktreeCreated && !pushed) {
-        await runnerBridge.sendExec({
-          project_id: run.project_id,
-          cmd: `git branch -D ${branchName}`,
-          cwd: repoRoot
-        });
-      }
+      return;
     }
 
-    const prTitle = body.title ?? `TRCODER: ${taskRow?.title ?? run.current_task_id}`;
+    const titles = await db.query<{ plan_task_id: string; title?: string }>(
+      "SELECT plan_task_id, title FROM tasks WHERE run_id = ?",
+      [run_id]
+    );
+    const taskTitle = (id: string) => titles.find((row) => row.plan_task_id === id)?.title ?? id;
+    const prTitle = body.title ?? `TRCODER: ${task_ids.map(taskTitle).join("; ")}`;
     const prBody =
       body.body ??
-      `Automated by TRCODER\n\nRun: ${run_id}\nTask: ${run.current_task_id}\nBranch: ${branchName}\n`;
+      `Automated by TRCODER\n\nRun: ${run_id}\n${task_ids.length === 1 ? "Task" : "Tasks"}: ${task_ids.join(", ")}\nBranch: ${branchName}\n`;
 
-    let pr: { number: number; htmlUrl: string };
+    let pr: PullRequestResult;
     try {
       pr = await adapter.createPullRequest({
         title: prTitle,
@@ -2117,6 +4785,14 @@ export async function createServer(options?: {
         draft: body.draft ?? false
       });
     } catch (err) {
+      await audit(req, auth, {
+        action: "PATCH_APPLY",
+        targetType: "run",
+        targetId: run_id,
+        metadata: { project_id: run.project_id, task_ids, mode, branch: branchName },
+        status: "failure",
+        reason: "pr_create_failed"
+      });
       reply.code(502).send({
         error: "pr_create_failed",
         details: (err as Error).message,
@@ -2126,41 +4802,222 @@ export async function createServer(options?: {
       return;
     }
 
+    const now = new Date().toISOString();
+    const record: PullRequestRecord = {
+      id: randomUUID(),
+      project_id: run.project_id,
+      run_id,
+      task_id: task_id ?? null,
+      provider,
+      remote_host: remote.host,
+      owner: remote.owner,
+      repo: remote.repo,
+      number: pr.number,
+      url: pr.htmlUrl,
+      branch: branchName,
+      base_branch: baseBranch,
+      title: pr.title ?? prTitle,
+      state: pr.state,
+      created_at: now,
+      updated_at: now
+    };
+    await savePullRequest(db, record);
+    await appendPatchApplied({
+      branch: branchName,
+      base_branch: baseBranch,
+      commit_sha: committed.commit_sha,
+      pr_id: record.id
+    });
+    await appendPullRequestEvent(auth, record, "PR_OPENED", { branch: branchName, base_branch: baseBranch });
+    await audit(req, auth, {
+      action: "PATCH_APPLY",
+      targetType: "run",
+      targetId: run_id,
+      metadata: {
+        project_id: run.project_id,
+        task_ids,
+        mode,
+        patch_revisions,
+        branch: branchName,
+        pr_id: record.id,
+        pr_url: record.url
+      }
+    });
+
     reply.send({
       ok: true,
+      mode,
       branch: branchName,
       base_branch: baseBranch,
+      commit_sha: committed.commit_sha,
+      pr_id: record.id,
       pr_number: pr.number,
-      pr_url: pr.htmlUrl
+      pr_url: pr.htmlUrl,
+      task_ids,
+      patch_revision
     });
   });
 
+  app.get("/v1/projects/:id/prs", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "projects:read");
+    if (!auth) return;
+    const project_id = (req.params as { id: string }).id;
+    const query = (req.query ?? {}) as { run_id?: string };
+    const prs = await listPullRequests(db, { project_id, run_id: query.run_id });
+    reply.send({ prs });
+  });
+
+  app.post("/v1/prs/:pr_id/refresh", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "runs:write");
+    if (!auth) return;
+    const opened = await openPullRequest(req, reply);
+    if (!opened) return;
+    const { record, adapter } = opened;
+
+    let remotePr: PullRequestResult;
+    try {
+      remotePr = await adapter.getPullRequest(record.number);
+    } catch (err) {
+      reply.code(502).send({ error: "pr_refresh_failed", details: (err as Error).message });
+      return;
+    }
+
+    const changed = remotePr.state !== record.state;
+    if (changed || remotePr.title !== record.title) {
+      await updatePullRequestState(db, record.id, { state: remotePr.state, title: remotePr.title });
+    }
+    if (changed) {
+      await appendPullRequestEvent(auth, record, "PR_STATE_CHANGED", { from: record.state, to: remotePr.state });
+    }
+    reply.send({ pr: await getPullRequestRecord(db, record.id), changed });
+  });
+
+  app.post("/v1/prs/:pr_id/merge", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "runs:write");
+    if (!auth) return;
+    const body = (req.body ?? {}) as { method?: "merge" | "squash" | "rebase" };
+    const method = body.method ?? "squash";
+    if (!["merge", "squash", "rebase"].includes(method)) {
+      reply.code(400).send({ error: "invalid_merge_method" });
+      return;
+    }
+    const opened = await openPullRequest(req, reply);
+    if (!opened) return;
+    const { record, adapter } = opened;
+    if (record.state !== "open") {
+      reply.code(409).send({ error: "pr_not_open", state: record.state });
+      return;
+    }
+
+    try {
+      await adapter.mergePullRequest(record.number, method);
+    } catch (err) {
+      const conflict = err instanceof ConflictError;
+      reply.code(conflict ? 409 : 502).send({
+        error: conflict ? "pr_merge_conflict" : "pr_merge_failed",
+        details: (err as Error).message
+      });
+      return;
+    }
+
+    await updatePullRequestState(db, record.id, { state: "merged" });
+    await appendPullRequestEvent(auth, record, "PR_MERGED", { method });
+    reply.send({ pr: await getPullRequestRecord(db, record.id) });
+  });
+
+  app.post("/v1/prs/:pr_id/close", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "runs:write");
+    if (!auth) return;
+    const opened = await openPullRequest(req, reply);
+    if (!opened) return;
+    const { record, adapter } = opened;
+    if (record.state !== "open") {
+      reply.code(409).send({ error: "pr_not_open", state: record.state });
+      return;
+    }
+
+    try {
+      await adapter.closePullRequest(record.number);
+    } catch (err) {
+      reply.code(502).send({ error: "pr_close_failed", details: (err as Error).message });
+      return;
+    }
+
+    await updatePullRequestState(db, record.id, { state: "closed" });
+    await appendPullRequestEvent(auth, record, "PR_CLOSED", {});
+    reply.send({ pr: await getPullRequestRecord(db, record.id) });
+  });
+
   app.get("/v1/usage/month", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "billing:read");
     if (!auth) return;
-    const usage = await computeUsageForMonth({ db, pricing, plan_id: auth.plan_id });
+    const usage = await computeUsageForMonth({ db, pricing, plan_id: auth.plan_id, org_id: auth.org_id });
     reply.send(usage);
   });
 
   app.get("/v1/usage/today", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "billing:read");
     if (!auth) return;
     const today = new Date();
     const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
     const end = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
-    const usage = await computeUsageForRange({ db, pricing, plan_id: auth.plan_id, start, end });
+    const usage = await computeUsageForRange({ db, pricing, plan_id: auth.plan_id, org_id: auth.org_id, start, end });
     reply.send({ ...usage, range: { start: start.toISOString(), end: end.toISOString() } });
   });
 
   app.get("/v1/invoice/preview", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "billing:read");
     if (!auth) return;
-    const invoice = await computeInvoicePreview({ db, pricing, plan_id: auth.plan_id });
+    const invoice = await computeInvoicePreview({ db, pricing, plan_id: auth.plan_id, org_id: auth.org_id });
     reply.send(invoice);
   });
 
+  app.get("/v1/billing/reconcile", async (req, reply) => {
+    const auth = await requireAuth(req, reply, "billing:read");
+    if (!auth) return;
+    const range = monthRange((req.query as { month?: string }).month);
+    if (!range) {
+      reply.code(400).send({ error: "invalid_month", message: "month must be YYYY-MM" });
+      return;
+    }
+    reply.send(await reconcileCredits({ db, store: billingStore, org_id: auth.org_id, ...range }));
+  });
+
+  // Stripe signs the raw body, so this scope keeps JSON payloads as Buffers
+  app.register(async (scope) => {
+    scope.addContentTypeParser("application/json", { parseAs: "buffer" }, (_req, body, done) => done(null, body));
+
+    scope.post("/v1/billing/webhook", async (req, reply) => {
+      if (!stripeService || !webhookHandler || !webhookIdempotency) {
+        reply.code(503).send({ error: "billing_not_configured" });
+        return;
+      }
+      const signature = req.headers["stripe-signature"]?.toString();
+      if (!signature) {
+        reply.code(400).send({ error: "missing_signature" });
+        return;
+      }
+      let event: ReturnType<StripeService["verifyWebhook"]>;
+      try {
+        event = stripeService.verifyWebhook(req.body as Buffer, signature);
+      } catch {
+        reply.code(400).send({ error: "invalid_signature" });
+        return;
+      }
+      try {
+        // Failed events are not recorded, so Stripe's retry gets processed again
+        const outcome = await webhookIdempotency.process(event.id, () => webhookHandler.processEvent(event));
+        reply.send({ received: true, event_type: event.type, duplicate: outcome.duplicate });
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error("Webhook processing failed:", { eventType: event.type, error: err });
+        reply.code(500).send({ error: "webhook_processing_failed", event_type: event.type });
+      }
+    });
+  });
+
   app.get("/v1/cost/explain", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "billing:read");
     if (!auth) return;
     const query = req.query as { task_id?: string; run_id?: string };
     if (!query.task_id && !query.run_id) {
@@ -2168,31 +5025,53 @@ export async function createServer(options?: {
       return;
     }
 
-    let row: { router_decision_json?: unknown } | undefined;
+    let row: { router_decision_json?: unknown; run_id: string } | undefined;
     if (query.task_id) {
-      row = (await db.query<{ router_decision_json?: unknown }>(
-        "SELECT router_decision_json FROM tasks WHERE plan_task_id = ?",
+      row = (await db.query<{ router_decision_json?: unknown; run_id: string }>(
+        "SELECT router_decision_json, run_id FROM tasks WHERE plan_task_id = ?",
         [query.task_id]
       ))[0];
     } else if (query.run_id) {
-      row = (await db.query<{ router_decision_json?: unknown }>(
-        "SELECT router_decision_json FROM tasks WHERE run_id = ?",
+      row = (await db.query<{ router_decision_json?: unknown; run_id: string }>(
+        "SELECT router_decision_json, run_id FROM tasks WHERE run_id = ?",
         [query.run_id]
       ))[0];
     }
 
-    if (!row?.router_decision_json) {
+    if (!row?.router_decision_json || !(await runInOrg(row.run_id, auth.org_id))) {
       reply.code(404).send({ error: "router decision not found" });
       return;
     }
 
+    // Prompt cache totals over the calls billed for the task (or the whole run)
+    const calls = (
+      await db.query<{ task_id?: string; payload_json?: unknown }>(
+        "SELECT task_id, payload_json FROM ledger_events WHERE run_id = ? AND event_type = ?",
+        [row.run_id, "LLM_CALL_FINISHED"]
+      )
+    )
+      .filter((call) => !query.task_id || call.task_id === query.task_id)
+      .map((call) => parseJsonValue<Record<string, unknown>>(call.payload_json, {}));
+    const sum = (key: string) => calls.reduce((total, payload) => total + Number(payload[key] ?? 0), 0);
+    const tokensIn = sum("tokens_in");
+    const cachedIn = sum("tokens_cached_in");
+
     reply.send({
-      router_decision: parseJsonValue<Record<string, unknown>>(row.router_decision_json, {})
+      router_decision: parseJsonValue<Record<string, unknown>>(row.router_decision_json, {}),
+      cache: {
+        llm_calls: calls.length,
+        tokens_in: tokensIn,
+        tokens_cached_in: cachedIn,
+        tokens_cache_write: sum("tokens_cache_write"),
+        cache_hit_rate: tokensIn > 0 ? cachedIn / tokensIn : 0,
+        provider_cost_usd: sum("provider_cost_usd"),
+        cache_savings_usd: sum("cache_savings_usd")
+      }
     });
   });
 
   app.get("/v1/projects/:id/plan/tasks", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "projects:read");
     if (!auth) return;
     const project_id = (req.params as { id: string }).id;
     const planRow = (await db.query<{ tasks_json: unknown }>(
@@ -2208,13 +5087,17 @@ export async function createServer(options?: {
   });
 
   app.get("/v1/logs/tail", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "runs:read");
     if (!auth) return;
     const query = req.query as { run_id?: string; limit?: string };
     if (!query.run_id) {
       reply.code(400).send({ error: "run_id required" });
       return;
     }
+    if (!(await runInOrg(query.run_id, auth.org_id))) {
+      reply.code(404).send({ error: "run not found" });
+      return;
+    }
     const limit = clampInt(Number(query.limit ?? 50), 1, 500);
     const rows = await db.query<{ event_id: string; ts: string; event_type: string; payload_json?: unknown }>(
       "SELECT event_id, ts, event_type, payload_json FROM ledger_events WHERE run_id = ? ORDER BY ts DESC LIMIT ?",
@@ -2232,7 +5115,7 @@ export async function createServer(options?: {
   });
 
   app.get("/v1/ledger/export", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "billing:read");
     if (!auth) return;
     const rows = await db.query<{
       event_id: string;
@@ -2246,7 +5129,8 @@ export async function createServer(options?: {
       event_type: string;
       payload_json?: unknown;
     }>(
-      "SELECT event_id, ts, org_id, user_id, project_id, run_id, plan_id, task_id, event_type, payload_json FROM ledger_events ORDER BY ts ASC"
+      "SELECT event_id, ts, org_id, user_id, project_id, run_id, plan_id, task_id, event_type, payload_json FROM ledger_events WHERE org_id = ? ORDER BY ts ASC",
+      [auth.org_id]
     );
     const jsonl = rows
       .map((row) =>
@@ -2268,7 +5152,7 @@ export async function createServer(options?: {
   });
 
   app.post("/v1/projects/:id/init", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "projects:write");
     if (!auth) return;
     const project_id = (req.params as { id: string }).id;
     const body = (req.body ?? {}) as { portable?: boolean; refresh?: boolean };
@@ -2335,7 +5219,7 @@ export async function createServer(options?: {
   });
 
   app.get("/v1/packs/:pack_id/stats", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "runs:read");
     if (!auth) return;
     const pack_id = (req.params as { pack_id: string }).pack_id;
     const record = await getContextPackRecord(db, pack_id);
@@ -2358,7 +5242,7 @@ export async function createServer(options?: {
   });
 
   app.post("/v1/packs/:pack_id/rebuild", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "runs:write");
     if (!auth) return;
     const pack_id = (req.params as { pack_id: string }).pack_id;
     const record = await getContextPackRecord(db, pack_id);
@@ -2370,11 +5254,14 @@ export async function createServer(options?: {
 
     const body = req.body as { budgets?: ContextPackManifest["budgets"]; pins?: string[] };
     const sanitizedPins = sanitizePins((body.pins ?? pack.pinned_sources).filter(Boolean));
+    const budgets = body.budgets ?? pack.budgets;
     let newPack = buildContextPack({
       runId: pack.run_id,
       taskId: pack.task_id,
-      budgets: body.budgets ?? pack.budgets,
-      pins: sanitizedPins.pins
+      budgets,
+      pins: sanitizedPins.pins,
+      scope: pack.scope,
+      candidates: await retrieveContextCandidates(record.project_id, pack.scope, budgets, sanitizedPins.pins)
     });
     newPack = await enrichContextPack(newPack, record.project_id);
     await saveContextPack(db, { project_id: record.project_id, manifest: newPack });
@@ -2393,7 +5280,7 @@ export async function createServer(options?: {
   });
 
   app.post("/v1/packs/:pack_id/list", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "runs:read");
     if (!auth) return;
     const pack_id = (req.params as { pack_id: string }).pack_id;
     const record = await getContextPackRecord(db, pack_id);
@@ -2429,7 +5316,7 @@ export async function createServer(options?: {
   });
 
   app.post("/v1/packs/:pack_id/read", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "runs:read");
     if (!auth) return;
     const pack_id = (req.params as { pack_id: string }).pack_id;
     const record = await getContextPackRecord(db, pack_id);
@@ -2470,7 +5357,7 @@ export async function createServer(options?: {
   });
 
   app.post("/v1/packs/:pack_id/search", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "runs:read");
     if (!auth) return;
     const pack_id = (req.params as { pack_id: string }).pack_id;
     const record = await getContextPackRecord(db, pack_id);
@@ -2484,31 +5371,40 @@ export async function createServer(options?: {
       return;
     }
 
-    const body = req.body as { query: string; scope?: { paths?: string[] }; top_k?: number };
-    const scope = body.scope?.paths?.[0] ?? process.cwd();
-    const result = await runnerBridge.sendGrep({
+    const body = req.body as {
+      query: string;
+      scope?: { paths?: string[]; exclude_paths?: string[]; symbols?: string[] };
+      top_k?: number;
+    };
+    const topK = clampInt(Number(body.top_k ?? 10), 1, 50);
+    const result = await runnerBridge.sendSearch({
       project_id: record.project_id,
-      query: body.query,
-      scope
+      root: repoRoot,
+      request: {
+        query: body.query,
+        symbols: body.scope?.symbols,
+        paths: body.scope?.paths,
+        exclude_paths: body.scope?.exclude_paths,
+        top_k: topK
+      }
     });
     if (result.exit_code !== 0) {
       reply.code(500).send({ error: result.stderr || "search failed" });
       return;
     }
 
-    const lines = (result.stdout ?? "").split(/\r?\n/).filter(Boolean);
-    const topK = clampInt(Number(body.top_k ?? 10), 1, 50);
-    const matches = lines.slice(0, topK).map((line) => {
-      const [pathPart, linePart] = line.split(":");
-      const snippet = line.split(":").slice(2).join(":");
-      const redacted = redactText(snippet);
+    const found = parseJsonValue<CodeSearchResult>(result.stdout, { hits: [], related: [], indexed_files: 0 });
+    const matches = found.hits.map((hit) => {
+      const redacted = redactText(hit.snippet);
       if (redacted.masked_count > 0) {
         pack.redaction_stats.masked_entries += redacted.masked_count;
         pack.redaction_stats.masked_chars += redacted.masked_chars;
       }
       return {
-        path: pathPart,
-        line: Number(linePart ?? 0),
+        path: hit.path,
+        line: hit.line,
+        score: hit.score,
+        why: hit.why,
         snippet: trimSnippet(redacted.text)
       };
     });
@@ -2519,7 +5415,7 @@ export async function createServer(options?: {
   });
 
   app.post("/v1/packs/:pack_id/diff", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "runs:read");
     if (!auth) return;
     const pack_id = (req.params as { pack_id: string }).pack_id;
     const record = await getContextPackRecord(db, pack_id);
@@ -2557,7 +5453,7 @@ export async function createServer(options?: {
   });
 
   app.post("/v1/packs/:pack_id/gitlog", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "runs:read");
     if (!auth) return;
     const pack_id = (req.params as { pack_id: string }).pack_id;
     const record = await getContextPackRecord(db, pack_id);
@@ -2600,7 +5496,7 @@ export async function createServer(options?: {
   });
 
   app.get("/v1/packs/:pack_id/failures", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "runs:read");
     if (!auth) return;
     const pack_id = (req.params as { pack_id: string }).pack_id;
     const record = await getContextPackRecord(db, pack_id);
@@ -2642,7 +5538,7 @@ export async function createServer(options?: {
   });
 
   app.post("/v1/packs/:pack_id/logs", async (req, reply) => {
-    const auth = await requireAuth(req, reply);
+    const auth = await requireAuth(req, reply, "runs:read");
     if (!auth) return;
     const pack_id = (req.params as { pack_id: string }).pack_id;
     const record = await getContextPackRecord(db, pack_id);
@@ -0,0 +1,53 @@
+import { TaskDefinition, TasksFileV1 } from "@trcoder/shared";
+
+export class TaskGraphError extends Error {
+  constructor(
+    message: string,
+    public readonly code: "unknown_dependency" | "dependency_cycle",
+    public readonly task_ids: string[]
+  ) {
+    super(message);
+    this.name = "TaskGraphError";
+  }
+}
+
+export function flattenPlanTasks(tasks: TasksFileV1): TaskDefinition[] {
+  return tasks.phases.flatMap((phase) => phase.tasks);
+}
+
+/**
+ * Orders plan tasks so every task comes after its deps.
+ * Ties keep the plan's phase/task order, so a plan that is already
+ * topologically sorted comes back unchanged.
+ */
+export function orderPlanTasks(tasks: TasksFileV1): TaskDefinition[] {
+  const allTasks = flattenPlanTasks(tasks);
+  const byId = new Map(allTasks.map((task) => [task.id, task]));
+
+  const unknown = allTasks.filter((task) => (task.deps ?? []).some((dep) => !byId.has(dep)));
+  if (unknown.length > 0) {
+    throw new TaskGraphError(
+      `Unknown task dependency in ${unknown.map((task) => task.id).join(", ")}`,
+      "unknown_dependency",
+      unknown.map((task) => task.id)
+    );
+  }
+
+  const ordered: TaskDefinition[] = [];
+  const placed = new Set<string>();
+  let pending = allTasks;
+  while (pending.length > 0) {
+    const ready = pending.find((task) => (task.deps ?? []).every((dep) => placed.has(dep)));
+    if (!ready) {
+      throw new TaskGraphError(
+        `Dependency cycle between ${pending.map((task) => task.id).join(", ")}`,
+        "dependency_cycle",
+        pending.map((task) => task.id)
+      );
+    }
+    ordered.push(ready);
+    placed.add(ready.id);
+    pending = pending.filter((task) => task !== ready);
+  }
+  return ordered;
+}
@@ -0,0 +1,112 @@
+import { randomUUID } from "crypto";
+import { User, UserStore } from "@trcoder/auth";
+import { IDb } from "./db";
+
+const COLUMNS =
+  "id, email, name, avatar_url, provider, provider_id, password_hash, email_verified, created_at, updated_at";
+
+const UPDATABLE: Array<keyof User> = [
+  "email",
+  "name",
+  "avatar_url",
+  "provider",
+  "provider_id",
+  "password_hash",
+  "email_verified"
+];
+
+// Postgres returns TIMESTAMPTZ columns as Date objects
+function toIsoString(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function toUser(row: Record<string, unknown>): User {
+  return {
+    id: String(row.id),
+    email: String(row.email),
+    name: (row.name as string | null) ?? undefined,
+    avatar_url: (row.avatar_url as string | null) ?? undefined,
+    provider: row.provider as User["provider"],
+    provider_id: (row.provider_id as string | null) ?? undefined,
+    password_hash: (row.password_hash as string | null) ?? undefined,
+    email_verified: Number(row.email_verified) === 1,
+    created_at: toIsoString(row.created_at),
+    updated_at: toIsoString(row.updated_at)
+  };
+}
+
+// Booleans are stored as 0/1 so the same statements work on sql.js and Postgres
+function toColumnValue(key: keyof User, value: unknown): unknown {
+  if (key === "email_verified") return value ? 1 : 0;
+  return value ?? null;
+}
+
+export function toPublicUser(user: User): Omit<User, "password_hash"> {
+  const { password_hash: _passwordHash, ...rest } = user;
+  return rest;
+}
+
+export class DbUserStore implements UserStore {
+  constructor(private db: IDb) {}
+
+  async create(user: Omit<User, "id" | "created_at" | "updated_at">): Promise<User> {
+    const now = new Date().toISOString();
+    const created: User = {
+      ...user,
+      id: `user_${randomUUID()}`,
+      email: user.email.toLowerCase(),
+      created_at: now,
+      updated_at: now
+    };
+    await this.db.exec(`INSERT INTO users (${COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`, [
+      created.id,
+      created.email,
+      created.name ?? null,
+      created.avatar_url ?? null,
+      created.provider,
+      created.provider_id ?? null,
+      created.password_hash ?? null,
+      toColumnValue("email_verified", created.email_verified),
+      now,
+      now
+    ]);
+    return created;
+  }
+
+  async findById(id: string): Promise<User | null> {
+    const row = (await this.db.query<Record<string, unknown>>(`SELECT ${COLUMNS} FROM users WHERE id = ?`, [id]))[0];
+    return row ? toUser(row) : null;
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    const row = (await this.db.query<Record<string, unknown>>(`SELECT ${COLUMNS} FROM users WHERE email = ?`, [
+      email.toLowerCase()
+    ]))[0];
+    return row ? toUser(row) : null;
+  }
+
+  async findByProvider(provider: string, providerId: string): Promise<User | null> {
+    const row = (await this.db.query<Record<string, unknown>>(
+      `SELECT ${COLUMNS} FROM users WHERE provider = ? AND provider_id = ?`,
+      [provider, providerId]
+    ))[0];
+    return row ? toUser(row) : null;
+  }
+
+  async update(id: string, data: Partial<User>): Promise<User> {
+    const keys = UPDATABLE.filter((key) => key in data);
+    if (keys.length > 0) {
+      const assignments = keys.map((key) => `${key} = ?`).join(", ");
+      await this.db.exec(`UPDATE users SET ${assignments}, updated_at = ? WHERE id = ?`, [
+        ...keys.map((key) => toColumnValue(key, data[key])),
+        new Date().toISOString(),
+        id
+      ]);
+    }
+    const user = await this.findById(id);
+    if (!user) {
+      throw new Error(`User not found: ${id}`);
+    }
+    return user;
+  }
+}
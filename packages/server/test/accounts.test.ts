@@ -0,0 +1,109 @@
+import { describe, expect, it, afterAll } from "vitest";
+import { startServer, stopServer } from "./helpers";
+
+let app: Awaited<ReturnType<typeof startServer>>["app"];
+let baseUrl = "";
+
+async function setup() {
+  process.env.TRCODER_DB_DRIVER = "sqljs";
+  process.env.TRCODER_DB_PATH = ":memory:";
+  process.env.TRCODER_JWT_SECRET = "test-secret";
+  const started = await startServer();
+  app = started.app;
+  baseUrl = started.baseUrl;
+}
+
+afterAll(async () => {
+  if (app) {
+    await stopServer(app);
+  }
+  delete process.env.TRCODER_DB_DRIVER;
+  delete process.env.TRCODER_DB_PATH;
+  delete process.env.TRCODER_JWT_SECRET;
+});
+
+async function post(path: string, body: unknown, token?: string) {
+  return fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {})
+    },
+    body: JSON.stringify(body)
+  });
+}
+
+async function get(path: string, token: string) {
+  return fetch(`${baseUrl}${path}`, { headers: { Authorization: `Bearer ${token}` } });
+}
+
+describe("accounts and orgs", () => {
+  it("registers users, logs in and manages org members by role", async () => {
+    await setup();
+
+    const registerRes = await post("/v1/auth/register", {
+      email: "Owner@Example.com",
+      password: "Passw0rdOwner",
+      name: "Owner"
+    });
+    expect(registerRes.status).toBe(200);
+    const owner = await registerRes.json();
+    expect(owner.user.email).toBe("owner@example.com");
+    expect(owner.user.password_hash).toBeUndefined();
+    expect(owner.org.plan_id).toBe("pro_solo");
+
+    const duplicate = await post("/v1/auth/register", { email: "owner@example.com", password: "Passw0rdOwner" });
+    expect(duplicate.status).toBe(409);
+    expect((await duplicate.json()).error).toBe("email_exists");
+
+    const badLogin = await post("/v1/auth/login", { email: "owner@example.com", password: "wrong" });
+    expect(badLogin.status).toBe(401);
+
+    const memberRes = await post("/v1/auth/register", { email: "dev@example.com", password: "Passw0rdDev" });
+    const member = await memberRes.json();
+
+    const me = await (await get("/v1/auth/me", owner.access_token)).json();
+    expect(me).toMatchObject({ user: { id: owner.user.id }, org: { id: owner.org.id }, role: "owner" });
+
+    const addRes = await post(
+      `/v1/orgs/${owner.org.id}/members`,
+      { email: "dev@example.com", role: "member" },
+      owner.access_token
+    );
+    expect(addRes.status).toBe(200);
+
+    const members = await (await get(`/v1/orgs/${owner.org.id}/members`, owner.access_token)).json();
+    expect(members.members.map((m: any) => [m.email, m.role])).toEqual([
+      ["owner@example.com", "owner"],
+      ["dev@example.com", "member"]
+    ]);
+
+    const switched = await (await post("/v1/auth/switch-org", { org_id: owner.org.id }, member.access_token)).json();
+    const whoami = await (await get("/v1/whoami", switched.access_token)).json();
+    expect(whoami).toMatchObject({ org_id: owner.org.id, user_id: member.user.id, auth_method: "jwt" });
+    expect(whoami.scopes).not.toContain("admin");
+
+    const memberAdd = await post(
+      `/v1/orgs/${owner.org.id}/members`,
+      { email: "owner@example.com" },
+      switched.access_token
+    );
+    expect(memberAdd.status).toBe(403);
+
+    const removeOwner = await post(`/v1/orgs/${owner.org.id}/members/${owner.user.id}/remove`, {}, owner.access_token);
+    expect(removeOwner.status).toBe(409);
+
+    const orgs = await (await get("/v1/orgs", member.access_token)).json();
+    expect(orgs.orgs.map((org: any) => [org.id, org.role])).toEqual([
+      [member.org.id, "owner"],
+      [owner.org.id, "member"]
+    ]);
+
+    const outsider = await get(`/v1/orgs/${member.org.id}`, owner.access_token);
+    expect(outsider.status).toBe(404);
+
+    const login = await (await post("/v1/auth/login", { email: "owner@example.com", password: "Passw0rdOwner" })).json();
+    const refreshed = await (await post("/v1/auth/refresh", { refresh_token: login.refresh_token })).json();
+    expect(refreshed.org.id).toBe(owner.org.id);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it, afterAll } from "vitest";
+import { TokenManager, hashApiKey } from "@trcoder/auth";
+import { createDb } from "../src/db";
+import { DbApiKeyStore, migrateLegacyApiKeys } from "../src/api-key-store";
+import { RequestAuthenticator } from "../src/request-auth";
+import { startServer, stopServer, authHeaders } from "./helpers";
+
+const JWT_SECRET = "test-secret";
+
+let app: Awaited<ReturnType<typeof startServer>>["app"];
+let baseUrl = "";
+
+async function setup() {
+  process.env.TRCODER_DB_DRIVER = "sqljs";
+  process.env.TRCODER_DB_PATH = ":memory:";
+  process.env.TRCODER_JWT_SECRET = JWT_SECRET;
+  const started = await startServer();
+  app = started.app;
+  baseUrl = started.baseUrl;
+}
+
+afterAll(async () => {
+  if (app) {
+    await stopServer(app);
+  }
+  delete process.env.TRCODER_DB_DRIVER;
+  delete process.env.TRCODER_DB_PATH;
+  delete process.env.TRCODER_JWT_SECRET;
+});
+
+function bearer(token: string) {
+  return { Authorization: `Bearer ${token}`, "Content-Type": "application/json" };
+}
+
+describe("api key auth", () => {
+  it("creates scoped keys, enforces scopes and honours revocation", async () => {
+    await setup();
+
+    const whoami = await (await fetch(`${baseUrl}/v1/whoami`, { headers: authHeaders() })).json();
+    expect(whoami).toMatchObject({ org_id: "org_demo", auth_method: "api_key", scopes: ["admin"] });
+
+    const createRes = await fetch(`${baseUrl}/v1/api-keys`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ name: "ci", scopes: ["runs:read"] })
+    });
+    expect(createRes.status).toBe(200);
+    const created = await createRes.json();
+    expect(created.key).toMatch(/^trc_live_/);
+
+    const readRes = await fetch(`${baseUrl}/v1/runs/missing/status`, { headers: bearer(created.key) });
+    expect(readRes.status).not.toBe(401);
+    expect(readRes.status).not.toBe(403);
+
+    const writeRes = await fetch(`${baseUrl}/v1/projects/connect`, {
+      method: "POST",
+      headers: bearer(created.key),
+      body: JSON.stringify({ repo_name: "trcoder", repo_root_hash: "DEV" })
+    });
+    expect(writeRes.status).toBe(403);
+    expect(await writeRes.json()).toEqual({ error: "insufficient_scope", required: "projects:write" });
+
+    const list = await (await fetch(`${baseUrl}/v1/api-keys`, { headers: authHeaders() })).json();
+    const listed = list.keys.find((key: any) => key.id === created.id);
+    expect(listed.scopes).toEqual(["runs:read"]);
+    expect(listed.key_hash).toBeUndefined();
+    expect(listed.last_used_at).toBeTruthy();
+
+    const badScopes = await fetch(`${baseUrl}/v1/api-keys`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ name: "bad", scopes: ["root"] })
+    });
+    expect(badScopes.status).toBe(400);
+
+    const revokeRes = await fetch(`${baseUrl}/v1/api-keys/${created.id}/revoke`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({})
+    });
+    expect(revokeRes.status).toBe(200);
+
+    const revoked = await fetch(`${baseUrl}/v1/whoami`, { headers: bearer(created.key) });
+    expect(revoked.status).toBe(401);
+    expect(await revoked.json()).toEqual({ error: "api_key_revoked" });
+
+    const unknown = await fetch(`${baseUrl}/v1/whoami`, { headers: bearer("trc_live_nope") });
+    expect(unknown.status).toBe(401);
+  });
+
+  it("accepts portal JWT sessions with role-based scopes", async () => {
+    const tokens = new TokenManager({ secret: JWT_SECRET });
+    const member = tokens.generateAccessToken({ sub: "user_2", org: "org_demo", email: "m@example.com", role: "member" });
+
+    const whoami = await (await fetch(`${baseUrl}/v1/whoami`, { headers: bearer(member) })).json();
+    expect(whoami).toMatchObject({ org_id: "org_demo", user_id: "user_2", plan_id: "pro_solo", auth_method: "jwt" });
+    expect(whoami.scopes).not.toContain("admin");
+
+    const keysRes = await fetch(`${baseUrl}/v1/api-keys`, { headers: bearer(member) });
+    expect(keysRes.status).toBe(403);
+
+    const forged = new TokenManager({ secret: "other" }).generateAccessToken({
+      sub: "user_2",
+      org: "org_demo",
+      email: "m@example.com",
+      role: "owner"
+    });
+    const forgedRes = await fetch(`${baseUrl}/v1/whoami`, { headers: bearer(forged) });
+    expect(forgedRes.status).toBe(401);
+    expect(await forgedRes.json()).toEqual({ error: "invalid_token" });
+  });
+
+  it("migrates plaintext keys to hashes", async () => {
+    const db = await createDb(":memory:");
+    await db.exec(
+      "INSERT INTO api_keys (key, org_id, user_id, plan_id, created_at) VALUES (?, ?, ?, ?, ?)",
+      ["legacy-secret", "org_old", "user_old", "team", new Date().toISOString()]
+    );
+
+    expect(await migrateLegacyApiKeys(db)).toBe(1);
+    expect(await db.query("SELECT key FROM api_keys")).toEqual([]);
+
+    const store = new DbApiKeyStore(db);
+    const stored = await store.findByHash(hashApiKey("legacy-secret"));
+    expect(stored).toMatchObject({ org_id: "org_old", plan_id: "team", scopes: ["admin"] });
+
+    const outcome = await new RequestAuthenticator(store, null).authenticate("Bearer legacy-secret");
+    expect(outcome).toMatchObject({ ok: true, auth: { org_id: "org_old", plan_id: "team" } });
+    await db.close();
+  });
+});
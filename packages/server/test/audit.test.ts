@@ -0,0 +1,139 @@
+import { describe, expect, it, afterAll } from "vitest";
+import { WebSocket } from "ws";
+import { AuditLogger } from "@trcoder/auth";
+import { createDb } from "../src/db";
+import { DbAuditStore } from "../src/audit-store";
+import { startServer, stopServer, authHeaders } from "./helpers";
+
+let app: Awaited<ReturnType<typeof startServer>>["app"];
+let baseUrl = "";
+
+async function setup() {
+  process.env.TRCODER_DB_DRIVER = "sqljs";
+  process.env.TRCODER_DB_PATH = ":memory:";
+  const started = await startServer();
+  app = started.app;
+  baseUrl = started.baseUrl;
+}
+
+afterAll(async () => {
+  if (app) {
+    await stopServer(app);
+  }
+  delete process.env.TRCODER_DB_DRIVER;
+  delete process.env.TRCODER_DB_PATH;
+});
+
+describe("audit log", () => {
+  it("records sensitive actions and serves them per org", async () => {
+    await setup();
+
+    const connect = await (
+      await fetch(`${baseUrl}/v1/projects/connect`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({ repo_name: "trcoder", repo_root_hash: "DEV" })
+      })
+    ).json();
+
+    const plan = await (
+      await fetch(`${baseUrl}/v1/projects/${connect.project_id}/plan`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({})
+      })
+    ).json();
+    await fetch(`${baseUrl}/v1/projects/${connect.project_id}/plan/approve`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ plan_id: plan.plan_id, repo_commit: "abc" })
+    });
+    await fetch(`${baseUrl}/v1/api-keys`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ name: "ci", scopes: ["runs:read"] })
+    });
+    const permissionsRes = await fetch(`${baseUrl}/v1/projects/${connect.project_id}/permissions`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ decision: "allow", command: "pnpm test" })
+    });
+    expect(permissionsRes.status).toBe(200);
+
+    const ws = new WebSocket(baseUrl.replace("http", "ws") + "/v1/runner/ws", {
+      headers: { Authorization: "Bearer dev", "x-trcoder-project": "missing" }
+    });
+    await new Promise<void>((resolve) => {
+      ws.on("close", () => resolve());
+      ws.on("error", () => resolve());
+    });
+
+    const all = await (await fetch(`${baseUrl}/v1/audit`, { headers: authHeaders() })).json();
+    expect(all.entries.map((entry: any) => entry.action)).toEqual([
+      "RUNNER_AUTH_FAILED",
+      "PERMISSIONS_CHANGE",
+      "API_KEY_CREATE",
+      "PLAN_APPROVE"
+    ]);
+    expect(all.entries[0]).toMatchObject({ orgId: "org_demo", status: "failure", targetId: "missing" });
+    expect(all.entries[3]).toMatchObject({ userId: "user_demo", targetType: "plan", targetId: plan.plan_id });
+
+    const filtered = await (
+      await fetch(`${baseUrl}/v1/audit?action=API_KEY_CREATE,PLAN_APPROVE&limit=1`, { headers: authHeaders() })
+    ).json();
+    expect(filtered.entries.map((entry: any) => entry.action)).toEqual(["API_KEY_CREATE"]);
+
+    const badQuery = await fetch(`${baseUrl}/v1/audit?since=yesterday`, { headers: authHeaders() });
+    expect(badQuery.status).toBe(400);
+
+    const verify = await (await fetch(`${baseUrl}/v1/audit/verify`, { headers: authHeaders() })).json();
+    expect(verify).toEqual({ valid: true, checked: 4, broken_at: null });
+  }, 20000);
+
+  it("detects edited or deleted entries", async () => {
+    const db = await createDb(":memory:");
+    const store = new DbAuditStore(db);
+    const logger = new AuditLogger({ store });
+    await Promise.all([
+      logger.log({ action: "PLAN_APPROVE", orgId: "org_a", metadata: { plan_id: "p1" }, status: "success" }),
+      logger.log({ action: "PATCH_APPLY", orgId: "org_a", status: "success" }),
+      logger.log({ action: "API_KEY_CREATE", orgId: "org_a", metadata: { scopes: ["admin"] }, status: "success" })
+    ]);
+    expect(await store.verify()).toEqual({ valid: true, checked: 3 });
+
+    const [newest, middle] = await store.query({ orgId: "org_a" });
+    const tampered = JSON.stringify({ scopes: ["runs:read"] });
+    await db.exec("UPDATE audit_logs SET metadata = ? WHERE id = ?", [tampered, newest.id]);
+    expect(await store.verify()).toMatchObject({ valid: false, brokenAt: newest.id });
+
+    await db.exec("UPDATE audit_logs SET metadata = ? WHERE id = ?", [JSON.stringify(newest.metadata), newest.id]);
+    expect(await store.verify()).toEqual({ valid: true, checked: 3 });
+
+    await db.exec("DELETE FROM audit_logs WHERE id = ?", [middle.id]);
+    expect(await store.verify()).toMatchObject({ valid: false, brokenAt: newest.id });
+    await db.close();
+  });
+
+  it("verifies and reports only the given org's entries", async () => {
+    const db = await createDb(":memory:");
+    const store = new DbAuditStore(db);
+    const logger = new AuditLogger({ store });
+    await logger.log({ action: "PLAN_APPROVE", orgId: "org_a", status: "success" });
+    await logger.log({ action: "PATCH_APPLY", orgId: "org_b", status: "success" });
+    await logger.log({ action: "API_KEY_CREATE", orgId: "org_a", status: "success" });
+    await logger.log({ action: "LOGIN", orgId: "org_b", status: "success" });
+    expect(await store.verify("org_a")).toEqual({ valid: true, checked: 2 });
+
+    // An edit to the last org_b entry is not org_a's to see
+    const [lastB, firstB] = await store.query({ orgId: "org_b" });
+    await db.exec("UPDATE audit_logs SET action = ? WHERE id = ?", ["LOGOUT", lastB.id]);
+    expect(await store.verify("org_a")).toEqual({ valid: true, checked: 2 });
+    expect(await store.verify("org_b")).toMatchObject({ valid: false, checked: 1, brokenAt: lastB.id });
+
+    // Deleting the entry in front of an org_a entry still breaks org_a's link
+    await db.exec("DELETE FROM audit_logs WHERE id = ?", [firstB.id]);
+    const [newestA] = await store.query({ orgId: "org_a" });
+    expect(await store.verify("org_a")).toMatchObject({ valid: false, checked: 1, brokenAt: newestA.id });
+    await db.close();
+  });
+});
@@ -0,0 +1,283 @@
+import { describe, expect, it, afterAll } from "vitest";
+import http from "http";
+import { AddressInfo } from "net";
+import { BillingService, StripeService } from "@trcoder/billing";
+import { createLedgerEvent } from "@trcoder/shared";
+import { createDb } from "../src/db";
+import { DbBillingStore } from "../src/billing-store";
+import { DbOrgStore } from "../src/org-store";
+import { appendLedgerEvent } from "../src/ledger-store";
+import { computeRunCredits, monthRange, reconcileCredits } from "../src/billing";
+import { connectProject, connectRunner, startServer, stopServer } from "./helpers";
+
+let app: Awaited<ReturnType<typeof startServer>>["app"];
+let baseUrl = "";
+let stripeStub: http.Server | null = null;
+const customers = new Map<string, string>();
+
+const WEBHOOK_SECRET = "whsec_test";
+
+// Serves the only Stripe call the webhook handler makes: customer lookup for metadata.org_id
+async function startStripeStub(): Promise<string> {
+  stripeStub = http.createServer((req, res) => {
+    const match = /^\/v1\/customers\/([^/?]+)/.exec(req.url ?? "");
+    const orgId = match ? customers.get(match[1]) : undefined;
+    res.setHeader("Content-Type", "application/json");
+    if (!match || !orgId) {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: { type: "invalid_request_error", message: "No such customer" } }));
+      return;
+    }
+    res.end(JSON.stringify({ id: match[1], object: "customer", metadata: { org_id: orgId } }));
+  });
+  await new Promise<void>((resolve) => stripeStub!.listen(0, "127.0.0.1", () => resolve()));
+  return `http://127.0.0.1:${(stripeStub.address() as AddressInfo).port}`;
+}
+
+async function setup() {
+  process.env.TRCODER_DB_DRIVER = "sqljs";
+  process.env.TRCODER_DB_PATH = ":memory:";
+  process.env.TRCODER_JWT_SECRET = "test-secret";
+  process.env.STRIPE_SECRET_KEY = "sk_test_stub";
+  process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  process.env.STRIPE_API_BASE = await startStripeStub();
+  const started = await startServer();
+  app = started.app;
+  baseUrl = started.baseUrl;
+}
+
+afterAll(async () => {
+  if (app) {
+    await stopServer(app);
+  }
+  if (stripeStub) {
+    await new Promise<void>((resolve) => stripeStub!.close(() => resolve()));
+  }
+  delete process.env.TRCODER_DB_DRIVER;
+  delete process.env.TRCODER_DB_PATH;
+  delete process.env.TRCODER_JWT_SECRET;
+  delete process.env.STRIPE_SECRET_KEY;
+  delete process.env.STRIPE_WEBHOOK_SECRET;
+  delete process.env.STRIPE_API_BASE;
+});
+
+function subscriptionEvent(id: string, type: string, status: string, planId: string) {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    id,
+    object: "event",
+    type,
+    data: {
+      object: {
+        id: "sub_stub",
+        object: "subscription",
+        customer: "cus_stub",
+        status,
+        metadata: { plan_id: planId },
+        current_period_start: now,
+        current_period_end: now + 30 * 24 * 60 * 60,
+        cancel_at_period_end: false,
+        items: { data: [{ price: { recurring: { interval: "month" } } }] }
+      }
+    }
+  };
+}
+
+async function sendWebhook(event: unknown, secret = WEBHOOK_SECRET) {
+  const payload = JSON.stringify(event);
+  const signature = new StripeService({ secretKey: "sk_test_stub", successUrl: "", cancelUrl: "" })
+    .getStripe()
+    .webhooks.generateTestHeaderString({ payload, secret });
+  return fetch(`${baseUrl}/v1/billing/webhook`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Stripe-Signature": signature },
+    body: payload
+  });
+}
+
+function headers(token: string) {
+  return { Authorization: `Bearer ${token}`, "Content-Type": "application/json" };
+}
+
+async function currentOrg(token: string) {
+  const me = await (await fetch(`${baseUrl}/v1/auth/me`, { headers: headers(token) })).json();
+  return me.org as { id: string; plan_id: string; credits_balance: number };
+}
+
+describe("billing webhooks and credits", () => {
+  it("applies Stripe subscription events once and moves the org plan", async () => {
+    await setup();
+
+    const registered = await (
+      await fetch(`${baseUrl}/v1/auth/register`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: "billing@example.com", password: "Passw0rdBilling" })
+      })
+    ).json();
+    const token = registered.access_token as string;
+    customers.set("cus_stub", registered.org.id);
+    const startingCredits = registered.org.credits_balance as number;
+
+    const unsigned = await fetch(`${baseUrl}/v1/billing/webhook`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{}"
+    });
+    expect(unsigned.status).toBe(400);
+    const forged = await sendWebhook(
+      subscriptionEvent("evt_forged", "customer.subscription.created", "active", "team_monthly"),
+      "whsec_other"
+    );
+    expect(forged.status).toBe(400);
+    expect((await forged.json()).error).toBe("invalid_signature");
+
+    const created = subscriptionEvent("evt_created", "customer.subscription.created", "active", "team_monthly");
+    const first = await sendWebhook(created);
+    expect(first.status).toBe(200);
+    expect(await first.json()).toEqual({
+      received: true,
+      event_type: "customer.subscription.created",
+      duplicate: false
+    });
+    const replay = await (await sendWebhook(created)).json();
+    expect(replay.duplicate).toBe(true);
+
+    const upgraded = await currentOrg(token);
+    expect(upgraded.plan_id).toBe("team");
+    expect(upgraded.credits_balance).toBeGreaterThan(startingCredits);
+
+    const reconcile = await (await fetch(`${baseUrl}/v1/billing/reconcile`, { headers: headers(token) })).json();
+    expect(reconcile).toMatchObject({ org_id: registered.org.id, balanced: true, mismatched_runs: [] });
+    const badMonth = await fetch(`${baseUrl}/v1/billing/reconcile?month=2026-13`, { headers: headers(token) });
+    expect(badMonth.status).toBe(400);
+
+    await sendWebhook(subscriptionEvent("evt_deleted", "customer.subscription.deleted", "canceled", "team_monthly"));
+    expect((await currentOrg(token)).plan_id).toBe("pro_solo");
+  }, 30000);
+
+  it("reconciles ledger credits of billed runs with usage transactions", async () => {
+    const db = await createDb(":memory:");
+    const store = new DbBillingStore(db);
+    const billing = new BillingService({ store });
+    const orgs = new DbOrgStore(db);
+    const org = await orgs.create({
+      name: "Acme",
+      slug: "acme",
+      owner_id: "user_1",
+      plan_id: "pro_solo",
+      credits_balance: 10,
+      credits_included: 10
+    });
+
+    const llmCall = (run_id: string, credits: number) =>
+      createLedgerEvent({
+        org_id: org.id,
+        user_id: "user_1",
+        project_id: "proj_1",
+        run_id,
+        event_type: "LLM_CALL_FINISHED",
+        payload: { model: "claude-sonnet-4.5", credits_applied_usd: credits }
+      });
+    const posted = (run_id: string) =>
+      createLedgerEvent({ org_id: org.id, user_id: "user_1", project_id: "proj_1", run_id, event_type: "BILLING_POSTED" });
+
+    await appendLedgerEvent(db, llmCall("run_a", 1.25));
+    await appendLedgerEvent(db, llmCall("run_a", 0.75));
+    await appendLedgerEvent(db, posted("run_a"));
+    await appendLedgerEvent(db, llmCall("run_b", 3));
+    await appendLedgerEvent(db, posted("run_b"));
+    // Unbilled runs are not reconciled yet
+    await appendLedgerEvent(db, llmCall("run_c", 5));
+
+    expect(await computeRunCredits(db, "run_a")).toBe(2);
+    await billing.useCredits(org.id, 2, "run_a");
+    expect(await store.getCreditsBalance(org.id)).toBe(8);
+    expect(await store.getRunCreditsBilled(org.id, "run_a")).toBe(2);
+
+    const range = monthRange() as { start: Date; end: Date };
+    const report = await reconcileCredits({ db, store, org_id: org.id, ...range });
+    expect(report).toMatchObject({ ledger_credits: 5, billed_credits: 2, difference: 3, balanced: false });
+    expect(report.mismatched_runs).toEqual([{ run_id: "run_b", ledger_credits: 3, billed_credits: 0 }]);
+
+    await billing.useCredits(org.id, 3, "run_b");
+    expect((await reconcileCredits({ db, store, org_id: org.id, ...range })).balanced).toBe(true);
+
+    // A fix iteration adds a call to an already billed run; only its own credits are still owed
+    await appendLedgerEvent(db, llmCall("run_a", 0.5));
+    await appendLedgerEvent(db, posted("run_a"));
+    expect((await reconcileCredits({ db, store, org_id: org.id, ...range })).mismatched_runs).toEqual([
+      { run_id: "run_a", ledger_credits: 2.5, billed_credits: 2 }
+    ]);
+    await billing.useCredits(org.id, 0.5, "run_a");
+    expect((await reconcileCredits({ db, store, org_id: org.id, ...range })).balanced).toBe(true);
+    await db.close();
+  });
+
+  it("debits the LLM calls of fix iterations so the run still reconciles", async () => {
+    const registered = await (
+      await fetch(`${baseUrl}/v1/auth/register`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: "fixloop@example.com", password: "Passw0rdFixLoop" })
+      })
+    ).json();
+    const token = registered.access_token as string;
+    const projectId = await connectProject(baseUrl, token);
+    let typecheckRuns = 0;
+    const { ws, ready } = connectRunner(
+      baseUrl,
+      projectId,
+      (msg) => {
+        const cmd = String(msg.cmd);
+        if (cmd.startsWith("git rev-parse")) {
+          return { exit_code: 0, stdout: "DEV" };
+        }
+        if (cmd.includes("typecheck")) {
+          typecheckRuns += 1;
+          return typecheckRuns < 2 ? { exit_code: 1, stderr: "error TS2304" } : { exit_code: 0, stdout: "ok" };
+        }
+        return { exit_code: 0, stdout: "" };
+      },
+      token
+    );
+    await ready;
+
+    const plan = await (
+      await fetch(`${baseUrl}/v1/projects/${projectId}/plan`, { method: "POST", headers: headers(token), body: "{}" })
+    ).json();
+    await fetch(`${baseUrl}/v1/projects/${projectId}/plan/approve`, {
+      method: "POST",
+      headers: headers(token),
+      body: JSON.stringify({ plan_id: plan.plan_id, repo_commit: "DEV" })
+    });
+    const tasks = await (await fetch(`${baseUrl}/v1/projects/${projectId}/plan/tasks`, { headers: headers(token) })).json();
+    const run = await (
+      await fetch(`${baseUrl}/v1/projects/${projectId}/runs/start`, {
+        method: "POST",
+        headers: headers(token),
+        body: JSON.stringify({ task_id: tasks.phases[0].tasks[0].id })
+      })
+    ).json();
+    const fix = await (
+      await fetch(`${baseUrl}/v1/runs/${run.run_id}/fix`, { method: "POST", headers: headers(token), body: "{}" })
+    ).json();
+    expect(fix).toMatchObject({ status: "pass", iterations: 1 });
+
+    // The fix iteration's LLM call is posted and debited after it, not only the one from /runs/start
+    const ledger = (await (await fetch(`${baseUrl}/v1/ledger/export`, { headers: headers(token) })).text())
+      .split(/\r?\n/)
+      .filter(Boolean)
+      .map((line) => JSON.parse(line))
+      .filter((event) => event.run_id === run.run_id)
+      .map((event) => event.event_type as string);
+    expect(ledger.filter((type) => type === "LLM_CALL_FINISHED")).toHaveLength(2);
+    expect(ledger.lastIndexOf("BILLING_POSTED")).toBeGreaterThan(ledger.lastIndexOf("LLM_CALL_FINISHED"));
+    expect(ledger.lastIndexOf("LLM_CALL_FINISHED")).toBeGreaterThan(ledger.indexOf("FIX_ITERATION"));
+
+    const reconcile = await (await fetch(`${baseUrl}/v1/billing/reconcile`, { headers: headers(token) })).json();
+    expect(reconcile).toMatchObject({ org_id: registered.org.id, balanced: true, mismatched_runs: [] });
+
+    ws.close();
+  }, 30000);
+});
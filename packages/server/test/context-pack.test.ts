@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { buildContextPack } from "../src/context-pack";
+
+describe("context pack builder", () => {
+  it("keeps pins and fills the rest of the budget with ranked candidates", () => {
+    const pack = buildContextPack({
+      runId: "run_1",
+      taskId: "task_1",
+      budgets: { max_files: 4, max_lines: 150, graph_depth: 1, top_k: 5, hydrate: false },
+      pins: ["docs/prd.md"],
+      scope: { queries: ["invoice"] },
+      candidates: [
+        { path: "src/invoice.ts", why: "matches invoice", lines: 100 },
+        { path: "docs/prd.md", why: "matches invoice", lines: 20 },
+        { path: "src/money.ts", why: "imported by src/invoice.ts", lines: 80 },
+        { path: "src/plan.ts", why: "imported by src/invoice.ts", lines: 10 }
+      ]
+    });
+
+    expect(pack.scope).toEqual({ queries: ["invoice"] });
+    expect(pack.file_entries).toEqual([
+      { path: "docs/prd.md", why: "pinned" },
+      { path: "src/invoice.ts", why: "matches invoice", range: { start_line: 1, end_line: 100 } },
+      // Only 50 of max_lines are left, so the next file is truncated and nothing follows it
+      { path: "src/money.ts", why: "imported by src/invoice.ts", range: { start_line: 1, end_line: 50 } }
+    ]);
+  });
+});
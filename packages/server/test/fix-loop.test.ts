@@ -0,0 +1,231 @@
+import { describe, expect, it, afterAll } from "vitest";
+import {
+  startServer,
+  stopServer,
+  authHeaders,
+  connectProject,
+  connectRunner
+} from "./helpers";
+
+let app: Awaited<ReturnType<typeof startServer>>["app"];
+let baseUrl = "";
+
+async function setup() {
+  process.env.TRCODER_DB_DRIVER = "sqljs";
+  process.env.TRCODER_DB_PATH = ":memory:";
+  const started = await startServer();
+  app = started.app;
+  baseUrl = started.baseUrl;
+}
+
+afterAll(async () => {
+  if (app) {
+    await stopServer(app);
+  }
+  delete process.env.TRCODER_DB_DRIVER;
+  delete process.env.TRCODER_DB_PATH;
+});
+
+async function startRun(projectId: string): Promise<string> {
+  const planRes = await fetch(`${baseUrl}/v1/projects/${projectId}/plan`, {
+    method: "POST",
+    headers: authHeaders(),
+    body: JSON.stringify({})
+  });
+  const planData = await planRes.json();
+  await fetch(`${baseUrl}/v1/projects/${projectId}/plan/approve`, {
+    method: "POST",
+    headers: authHeaders(),
+    body: JSON.stringify({ plan_id: planData.plan_id, repo_commit: "DEV" })
+  });
+  // One task, so /fix has a single patch to work on and no earlier tasks' patches underneath
+  const tasks = await (await fetch(`${baseUrl}/v1/projects/${projectId}/plan/tasks`, { headers: authHeaders() })).json();
+  const runRes = await fetch(`${baseUrl}/v1/projects/${projectId}/runs/start`, {
+    method: "POST",
+    headers: authHeaders(),
+    body: JSON.stringify({ task_id: tasks.phases[0].tasks[0].id })
+  });
+  const runData = await runRes.json();
+  return runData.run_id as string;
+}
+
+async function ledgerFor(runId: string): Promise<Array<{ event_type: string; payload: any }>> {
+  const ledgerRes = await fetch(`${baseUrl}/v1/ledger/export`, {
+    headers: { Authorization: "Bearer dev" }
+  });
+  return (await ledgerRes.text())
+    .split(/\r?\n/)
+    .filter(Boolean)
+    .map((line) => JSON.parse(line))
+    .filter((event) => event.run_id === runId);
+}
+
+describe("fix loop", () => {
+  it("feeds failing gates into new patches until verify passes", async () => {
+    await setup();
+    const projectId = await connectProject(baseUrl);
+    let typecheckRuns = 0;
+    const { ws, ready } = connectRunner(baseUrl, projectId, (msg) => {
+      const cmd = String(msg.cmd);
+      if (cmd.startsWith("git rev-parse")) {
+        return { exit_code: 0, stdout: "DEV" };
+      }
+      if (cmd.includes("typecheck")) {
+        typecheckRuns += 1;
+        return typecheckRuns < 3
+          ? { exit_code: 1, stderr: "src/index.ts(3,1): error TS2304: Cannot find name 'foo'." }
+          : { exit_code: 0, stdout: "ok" };
+      }
+      return { exit_code: 0, stdout: "" };
+    });
+    await ready;
+
+    const runId = await startRun(projectId);
+    const fixRes = await fetch(`${baseUrl}/v1/runs/${runId}/fix`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({})
+    });
+    expect(fixRes.status).toBe(200);
+    const fix = await fixRes.json();
+    expect(fix.status).toBe("pass");
+    expect(fix.stop_reason).toBe("pass");
+    expect(fix.iterations).toBe(2);
+
+    const events = await ledgerFor(runId);
+    const iterations = events.filter((event) => event.event_type === "FIX_ITERATION");
+    expect(iterations).toHaveLength(2);
+    expect(iterations[0].payload.failing_gates).toContain("typecheck");
+    const stages = events
+      .filter((event) => event.event_type === "TASK_STAGE")
+      .map((event) => event.payload.stage);
+    expect(stages).toContain("FIX_ITERATION");
+
+    ws.close();
+  }, 20000);
+
+  it("stops at the lane max iterations", async () => {
+    const projectId = await connectProject(baseUrl);
+    const { ws, ready } = connectRunner(baseUrl, projectId, (msg) => {
+      const cmd = String(msg.cmd);
+      if (cmd.startsWith("git rev-parse")) {
+        return { exit_code: 0, stdout: "DEV" };
+      }
+      if (cmd.includes("typecheck")) {
+        return { exit_code: 1, stderr: "error TS2304" };
+      }
+      return { exit_code: 0, stdout: "" };
+    });
+    await ready;
+
+    const runId = await startRun(projectId);
+    const fixRes = await fetch(`${baseUrl}/v1/runs/${runId}/fix`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ max_iters: 99, mode: "stack" })
+    });
+    const fix = await fixRes.json();
+    expect(fix.status).toBe("fail");
+    expect(fix.stop_reason).toBe("max_iters");
+    // balanced lane allows 3 attempts; a larger request cannot raise it
+    expect(fix.max_iters).toBe(3);
+    expect(fix.iterations).toBe(3);
+
+    for (const max_iters of [0, 1.5, null, "foo"]) {
+      const invalid = await fetch(`${baseUrl}/v1/runs/${runId}/fix`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({ max_iters })
+      });
+      expect(invalid.status).toBe(400);
+    }
+
+    ws.close();
+  }, 20000);
+
+  it("verifies each attempt with its patch applied in a worktree", async () => {
+    const projectId = await connectProject(baseUrl);
+    const written = new Map<string, string>();
+    const applied = new Map<string, string>();
+    const { ws, ready } = connectRunner(baseUrl, projectId, (msg) => {
+      if (msg.type === "RUNNER_WRITE") {
+        written.set(String(msg.path), Buffer.from(String(msg.content), "base64").toString("utf8"));
+        return { exit_code: 0 };
+      }
+      const cmd = String(msg.cmd);
+      if (cmd.startsWith("git rev-parse")) {
+        return { exit_code: 0, stdout: "DEV" };
+      }
+      const apply = cmd.match(/^git apply --index "(.+)"$/);
+      if (apply) {
+        applied.set(String(msg.cwd), written.get(apply[1]) ?? "");
+        return { exit_code: 0 };
+      }
+      if (cmd.includes("typecheck")) {
+        // Only the stacked fix (original patch plus the fix on top) makes typecheck pass, and only where it was applied
+        const patch = applied.get(String(msg.cwd)) ?? "";
+        return (patch.match(/^diff --git/gm) ?? []).length >= 2
+          ? { exit_code: 0, stdout: "ok" }
+          : { exit_code: 1, stderr: "error TS2304" };
+      }
+      return { exit_code: 0, stdout: "" };
+    });
+    await ready;
+
+    const runId = await startRun(projectId);
+    const fixRes = await fetch(`${baseUrl}/v1/runs/${runId}/fix`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ mode: "stack" })
+    });
+    const fix = await fixRes.json();
+    expect(fix).toMatchObject({ status: "pass", stop_reason: "pass", iterations: 1 });
+    expect([...applied.keys()].every((cwd) => cwd.includes("worktrees"))).toBe(true);
+
+    ws.close();
+  }, 20000);
+
+  it("starts from the reviewed revision of the task's patch", async () => {
+    const projectId = await connectProject(baseUrl);
+    const written = new Map<string, string>();
+    const applied: string[] = [];
+    const { ws, ready } = connectRunner(baseUrl, projectId, (msg) => {
+      if (msg.type === "RUNNER_WRITE") {
+        written.set(String(msg.path), Buffer.from(String(msg.content), "base64").toString("utf8"));
+        return { exit_code: 0 };
+      }
+      const cmd = String(msg.cmd);
+      if (cmd.startsWith("git rev-parse")) {
+        return { exit_code: 0, stdout: "DEV" };
+      }
+      const apply = cmd.match(/^git apply --index "(.+)"$/);
+      if (apply) {
+        applied.push(written.get(apply[1]) ?? "");
+        return { exit_code: 0 };
+      }
+      return { exit_code: 0, stdout: "" };
+    });
+    await ready;
+
+    const runId = await startRun(projectId);
+    const { task_id } = await (await fetch(`${baseUrl}/v1/runs/${runId}/patch`, { headers: authHeaders() })).json();
+    const reviewedText = "diff --git a/REVIEWED.md b/REVIEWED.md\n--- a/REVIEWED.md\n+++ b/REVIEWED.md\n@@ -1 +1 @@\n-draft\n+reviewed\n";
+    const saved = await fetch(`${baseUrl}/v1/runs/${runId}/patch/revisions`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ task_id, patch_text: reviewedText, base_revision: 0 })
+    });
+    expect(saved.status).toBe(200);
+
+    const fixRes = await fetch(`${baseUrl}/v1/runs/${runId}/fix`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({})
+    });
+    expect(await fixRes.json()).toMatchObject({ status: "pass", iterations: 0 });
+    // The first verify judges the reviewed revision, not the generated patch
+    expect(applied[0]).toContain("+reviewed");
+
+    ws.close();
+  }, 20000);
+});
@@ -0,0 +1,164 @@
+import http from "http";
+import { describe, expect, it, afterAll, beforeAll } from "vitest";
+import {
+  ConflictError,
+  GitLabAdapter,
+  ResourceNotFoundError,
+  isGitLabHost,
+  parseGitRemote,
+  resolvePrProvider
+} from "../src/pr-adapters";
+import { RecordedRequest, startStubApi, stopStubApi } from "./helpers";
+
+type CommitAction = { action: string; file_path: string };
+
+let requests: RecordedRequest[] = [];
+let server: http.Server;
+let baseUrl = "";
+
+const mergeRequest = {
+  id: 501,
+  iid: 7,
+  web_url: "https://gitlab.example.com/group/sub/app/-/merge_requests/7",
+  state: "opened",
+  title: "TRCODER: task-001",
+  source_branch: "trcoder/run/task-001",
+  target_branch: "main",
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  reviewers: [{ id: 1 }]
+};
+
+function route(method: string, url: string): { status: number; body?: unknown } {
+  const project = "/projects/group%2Fsub%2Fapp";
+  if (method === "GET" && url === project) return { status: 200, body: { default_branch: "main" } };
+  if (method === "GET" && url === `${project}/repository/branches/main`) {
+    return { status: 200, body: { name: "main", commit: { id: "abc123" } } };
+  }
+  if (method === "GET" && url.startsWith(`${project}/repository/branches/`)) return { status: 404 };
+  if (method === "POST" && url === `${project}/repository/branches`) {
+    return { status: 201, body: { name: "feature", protected: false, commit: { id: "abc123" } } };
+  }
+  if (method === "GET" && url.startsWith(`${project}/repository/files/README.md`)) return { status: 200, body: {} };
+  if (method === "GET" && url.startsWith(`${project}/repository/files/`)) return { status: 404 };
+  if (method === "POST" && url === `${project}/repository/commits`) {
+    return { status: 201, body: { id: "def456", message: "commit", web_url: "https://gitlab.example.com/c/def456" } };
+  }
+  if (method === "GET" && url === "/users?username=alice") return { status: 200, body: [{ id: 42 }] };
+  if (method === "GET" && url === "/users?username=ghost") return { status: 200, body: [] };
+  if (method === "POST" && url === `${project}/merge_requests`) return { status: 201, body: mergeRequest };
+  if (method === "GET" && url === `${project}/merge_requests/7`) return { status: 200, body: mergeRequest };
+  if (method === "PUT" && url === `${project}/merge_requests/7`) return { status: 200, body: mergeRequest };
+  if (method === "PUT" && url === `${project}/merge_requests/7/merge`) return { status: 200, body: mergeRequest };
+  if (method === "PUT" && url === `${project}/merge_requests/8/merge`) return { status: 405, body: { message: "Method Not Allowed" } };
+  return { status: 404 };
+}
+
+beforeAll(async () => {
+  ({ server, baseUrl, requests } = await startStubApi(route, { "RateLimit-Remaining": "99" }));
+});
+
+afterAll(async () => {
+  await stopStubApi(server);
+});
+
+function adapter(): GitLabAdapter {
+  return new GitLabAdapter({ token: "glpat-test", owner: "group/sub", repo: "app", baseUrl });
+}
+
+describe("gitlab remote parsing", () => {
+  it("handles gitlab.com, custom hosts and subgroups", () => {
+    expect(parseGitRemote("https://gitlab.com/acme/app.git")).toEqual({ host: "gitlab.com", owner: "acme", repo: "app" });
+    expect(parseGitRemote("git@gitlab.example.com:group/sub/app.git")).toEqual({
+      host: "gitlab.example.com",
+      owner: "group/sub",
+      repo: "app"
+    });
+    expect(parseGitRemote("ssh://git@code.internal:2222/team/app.git")).toEqual({
+      host: "code.internal",
+      owner: "team",
+      repo: "app"
+    });
+    // The web port stays, since the API is served there as well
+    expect(parseGitRemote("https://code.internal:8443/team/app.git")).toEqual({
+      host: "code.internal:8443",
+      owner: "team",
+      repo: "app"
+    });
+    expect(parseGitRemote("not a remote")).toBeNull();
+
+    expect(isGitLabHost("gitlab.com")).toBe(true);
+    expect(isGitLabHost("gitlab.example.com")).toBe(true);
+    expect(isGitLabHost("gitlab.example.com:8443")).toBe(true);
+    expect(isGitLabHost("code.internal")).toBe(false);
+    process.env.TRCODER_PR_HOSTS = "code.internal=gitlab";
+    expect(resolvePrProvider("code.internal:8443")).toBe("gitlab");
+    delete process.env.TRCODER_PR_HOSTS;
+  });
+});
+
+describe("gitlab adapter", () => {
+  it("drives branches, commits and merge requests through the v4 API", async () => {
+    const gitlab = adapter();
+    expect(await gitlab.getDefaultBranch()).toBe("main");
+    expect(await gitlab.branchExists("main")).toBe(true);
+    expect(await gitlab.branchExists("missing")).toBe(false);
+
+    const branch = await gitlab.createBranch("feature");
+    expect(branch.sha).toBe("abc123");
+
+    const commit = await gitlab.commitFiles(
+      "feature",
+      [
+        { path: "README.md", content: "hello" },
+        { path: "src/new.ts", content: "export {};" }
+      ],
+      "update files"
+    );
+    expect(commit.sha).toBe("def456");
+    const commitRequest = requests.find((r) => r.method === "POST" && r.url.endsWith("/repository/commits"));
+    const actions: CommitAction[] = JSON.parse(commitRequest!.raw).actions;
+    expect(actions.map((a) => a.action)).toEqual(["update", "create"]);
+    expect(commitRequest?.headers["private-token"]).toBe("glpat-test");
+
+    const pr = await gitlab.createPullRequest({
+      title: "TRCODER: task-001",
+      body: "Automated",
+      sourceBranch: "trcoder/run/task-001",
+      targetBranch: "main",
+      labels: ["trcoder", "auto"],
+      reviewers: ["alice"],
+      draft: true
+    });
+    expect(pr.number).toBe(7);
+    expect(pr.state).toBe("open");
+    expect(pr.htmlUrl).toContain("/merge_requests/7");
+    const mrRequest = requests.find((r) => r.method === "POST" && r.url.endsWith("/merge_requests"));
+    expect(JSON.parse(mrRequest!.raw)).toMatchObject({
+      title: "Draft: TRCODER: task-001",
+      labels: "trcoder,auto",
+      reviewer_ids: [42]
+    });
+
+    await gitlab.addReviewers(7, ["alice"]);
+    const reviewerUpdate = requests.filter((r) => r.method === "PUT" && r.url.endsWith("/merge_requests/7")).pop();
+    expect(JSON.parse(reviewerUpdate!.raw).reviewer_ids).toEqual([1, 42]);
+
+    await gitlab.mergePullRequest(7);
+    const merge = requests.find((r) => r.url.endsWith("/merge_requests/7/merge"));
+    expect(JSON.parse(merge!.raw)).toEqual({ squash: true });
+
+    await gitlab.closePullRequest(7);
+    const close = requests.filter((r) => r.method === "PUT" && r.url.endsWith("/merge_requests/7")).pop();
+    expect(JSON.parse(close!.raw)).toEqual({ state_event: "close" });
+
+    const health = await gitlab.healthCheck();
+    expect(health).toEqual({ healthy: true, rateLimitRemaining: 99 });
+  });
+
+  it("maps GitLab errors onto adapter errors", async () => {
+    const gitlab = adapter();
+    await expect(gitlab.mergePullRequest(8)).rejects.toBeInstanceOf(ConflictError);
+    await expect(gitlab.addReviewers(7, ["ghost"])).rejects.toBeInstanceOf(ResourceNotFoundError);
+  });
+});
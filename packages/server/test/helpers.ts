@@ -1,31 +1,34 @@
+import http from "http";
+import { AddressInfo } from "net";
 import { createServer } from "../src/server";
 import { WebSocket } from "ws";
 
 export async function startServer(): Promise<{
   app: Awaited<ReturnType<typeof createServer>>["app"];
+  db: Awaited<ReturnType<typeof createServer>>["db"];
   baseUrl: string;
 }> {
-  const { app } = await createServer();
+  const { app, db } = await createServer();
   await app.listen({ port: 0, host: "127.0.0.1" });
   const address = app.server.address();
   if (!address || typeof address === "string") {
     throw new Error("Failed to bind server");
   }
-  return { app, baseUrl: `http://127.0.0.1:${address.port}` };
+  return { app, db, baseUrl: `http://127.0.0.1:${address.port}` };
 }
 
 export async function stopServer(app: Awaited<ReturnType<typeof createServer>>["app"]) {
   await app.close();
 }
 
-export function authHeaders() {
-  return { Authorization: "Bearer dev", "Content-Type": "application/json" };
+export function authHeaders(token = "dev") {
+  return { Authorization: `Bearer ${token}`, "Content-Type": "application/json" };
 }
 
-export async function connectProject(baseUrl: string): Promise<string> {
+export async function connectProject(baseUrl: string, token = "dev"): Promise<string> {
   const projectRes = await fetch(`${baseUrl}/v1/projects/connect`, {
     method: "POST",
-    headers: authHeaders(),
+    headers: authHeaders(token),
     body: JSON.stringify({ repo_name: "trcoder", repo_root_hash: "DEV" })
   });
   const projectData = await projectRes.json();
@@ -40,11 +43,12 @@ export function connectRunner(
     stdout?: string;
     stderr?: string;
     duration_ms?: number;
-  }
+  },
+  token = "dev"
 ): { ws: WebSocket; ready: Promise<string> } {
   const ws = new WebSocket(baseUrl.replace("http", "ws") + "/v1/runner/ws", {
     headers: {
-      Authorization: "Bearer dev",
+      Authorization: `Bearer ${token}`,
       "X-TRCODER-Project": projectId
     }
   });
@@ -56,7 +60,21 @@ export function connectRunner(
         sessionId = msg.runner_session_id;
         resolve(sessionId);
       }
-      if (msg.type === "RUNNER_EXEC") {
+      // The stub has no code index; context packs fall back to pins
+      if (msg.type === "RUNNER_SEARCH") {
+        ws.send(
+          JSON.stringify({
+            type: "RUNNER_RESULT",
+            request_id: msg.request_id,
+            runner_session_id: sessionId,
+            exit_code: 0,
+            stdout: JSON.stringify({ hits: [], related: [], indexed_files: 0 }),
+            stderr: "",
+            duration_ms: 1
+          })
+        );
+      }
+      if (msg.type === "RUNNER_EXEC" || msg.type === "RUNNER_WRITE") {
         const result = onExec(msg);
         ws.send(
           JSON.stringify({
@@ -79,3 +97,35 @@ export function connectRunner(
 
   return { ws, ready };
 }
+
+export type StubRoute = (method: string, url: string) => { status: number; body?: unknown };
+
+export type RecordedRequest = { method: string; url: string; headers: http.IncomingHttpHeaders; raw: string };
+
+// Stands in for a provider API: answers each request from route with a JSON body and records it
+export async function startStubApi(
+  route: StubRoute,
+  responseHeaders: Record<string, string> = {}
+): Promise<{ server: http.Server; baseUrl: string; requests: RecordedRequest[] }> {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+    });
+    req.on("end", () => {
+      const method = req.method ?? "GET";
+      const url = req.url ?? "/";
+      requests.push({ method, url, headers: req.headers, raw });
+      const result = route(method, url);
+      res.writeHead(result.status, { "Content-Type": "application/json", ...responseHeaders });
+      res.end(result.body === undefined ? "" : JSON.stringify(result.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+  return { server, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests };
+}
+
+export async function stopStubApi(server: http.Server) {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+}
@@ -100,7 +100,21 @@ describe("integration smoke", () => {
       if (msg.type === "HELLO_ACK") {
         sessionId = msg.runner_session_id;
       }
-      if (msg.type === "RUNNER_EXEC") {
+      if (msg.type === "RUNNER_SEARCH") {
+        ws.send(
+          JSON.stringify({
+            type: "RUNNER_RESULT",
+            request_id: msg.request_id,
+            runner_session_id: sessionId,
+            exit_code: 0,
+            stdout: JSON.stringify({ hits: [], related: [], indexed_files: 0 }),
+            stderr: "",
+            duration_ms: 1
+          })
+        );
+      }
+      // /verify writes the run's patch before applying it in a worktree
+      if (msg.type === "RUNNER_EXEC" || msg.type === "RUNNER_WRITE") {
         const cmd = String(msg.cmd ?? "");
         let stdout = "ok";
         if (cmd.startsWith("git rev-parse")) {
@@ -0,0 +1,113 @@
+import { describe, expect, it, afterAll } from "vitest";
+import { startServer, stopServer, authHeaders, connectProject, connectRunner } from "./helpers";
+
+let app: Awaited<ReturnType<typeof startServer>>["app"];
+let baseUrl = "";
+
+afterAll(async () => {
+  if (app) {
+    await stopServer(app);
+  }
+  delete process.env.TRCODER_DB_DRIVER;
+  delete process.env.TRCODER_DB_PATH;
+});
+
+async function post(pathname: string, body: Record<string, unknown> = {}) {
+  const res = await fetch(`${baseUrl}${pathname}`, {
+    method: "POST",
+    headers: authHeaders(),
+    body: JSON.stringify(body)
+  });
+  return { status: res.status, data: await res.json() };
+}
+
+describe("local apply modes", () => {
+  it("commits to a local branch or stages the patch without a git remote", async () => {
+    process.env.TRCODER_DB_DRIVER = "sqljs";
+    process.env.TRCODER_DB_PATH = ":memory:";
+    const started = await startServer();
+    app = started.app;
+    baseUrl = started.baseUrl;
+
+    const projectId = await connectProject(baseUrl);
+    const commands: string[] = [];
+    const writes = new Map<string, string>();
+    let indexClean = false;
+    const { ws, ready } = connectRunner(baseUrl, projectId, (msg) => {
+      if (msg.type === "RUNNER_WRITE") {
+        writes.set(msg.path, Buffer.from(msg.content, "base64").toString("utf8"));
+        return { exit_code: 0 };
+      }
+      const cmd = String(msg.cmd ?? "");
+      commands.push(cmd);
+      if (cmd === "git rev-parse --abbrev-ref HEAD") return { exit_code: 0, stdout: "main\n" };
+      if (cmd.startsWith("git rev-parse")) return { exit_code: 0, stdout: "DEV" };
+      // No origin configured: PR mode cannot work here
+      if (cmd.startsWith("git config --get remote.origin.url")) return { exit_code: 1, stdout: "" };
+      if (cmd.startsWith("git show-ref")) return { exit_code: 1 };
+      if (cmd === "git diff --cached --quiet") return { exit_code: indexClean ? 0 : 1 };
+      return { exit_code: 0, stdout: "" };
+    });
+    await ready;
+
+    const plan = await post(`/v1/projects/${projectId}/plan`);
+    await post(`/v1/projects/${projectId}/plan/approve`, { plan_id: plan.data.plan_id, repo_commit: "DEV" });
+
+    const first = await post(`/v1/projects/${projectId}/runs/start`);
+    expect((await post(`/v1/runs/${first.data.run_id}/apply`, { mode: "push" })).data.error).toBe("invalid_mode");
+    const prMode = await post(`/v1/runs/${first.data.run_id}/apply`);
+    expect(prMode.status).toBe(500);
+    expect(prMode.data.error).toBe("remote_origin_missing");
+
+    commands.length = 0;
+    const injected = await post(`/v1/runs/${first.data.run_id}/apply`, { mode: "branch", branch: "x; touch pwned" });
+    expect(injected.status).toBe(400);
+    expect(injected.data.error).toBe("invalid_branch");
+    expect(commands.some((cmd) => cmd.includes("pwned"))).toBe(false);
+
+    commands.length = 0;
+    const message = 'Apply "quoted" $(touch pwned) `change`';
+    const branched = await post(`/v1/runs/${first.data.run_id}/apply`, { mode: "branch", commit_message: message });
+    expect(branched.status).toBe(200);
+    expect(branched.data).toMatchObject({ ok: true, mode: "branch", base_branch: "main", commit_sha: "DEV" });
+    // The demo plan has several tasks, applied together on one branch named after the run
+    expect(branched.data.task_ids.length).toBeGreaterThan(1);
+    expect(branched.data).toMatchObject({ branch: `trcoder/${first.data.run_id}`, patch_revision: null });
+    expect(commands.some((cmd) => cmd.startsWith("git worktree add -b"))).toBe(true);
+    expect(commands).toContain(`git check-ref-format --branch "trcoder/${first.data.run_id}"`);
+    // The commit message never reaches the shell; git reads it from a file the runner wrote
+    const commit = commands.find((cmd) => cmd.startsWith("git commit"));
+    expect(commit).toMatch(/^git commit -F "(.+)"$/);
+    expect(writes.get(commit!.match(/^git commit -F "(.+)"$/)![1])).toBe(message);
+    // The branch is the result, so it must survive the worktree cleanup
+    expect(commands.some((cmd) => /git (push|branch -D)/.test(cmd))).toBe(false);
+    expect(commands.some((cmd) => cmd.startsWith("git config --get remote.origin.url"))).toBe(false);
+
+    const second = await post(`/v1/projects/${projectId}/runs/start`);
+    const dirty = await post(`/v1/runs/${second.data.run_id}/apply`, { mode: "staged" });
+    expect(dirty.status).toBe(409);
+    expect(dirty.data.error).toBe("index_not_clean");
+
+    indexClean = true;
+    commands.length = 0;
+    const staged = await post(`/v1/runs/${second.data.run_id}/apply`, { mode: "staged" });
+    expect(staged.status).toBe(200);
+    expect(staged.data).toMatchObject({ ok: true, mode: "staged" });
+    expect(staged.data.files.length).toBeGreaterThan(0);
+    expect(commands.some((cmd) => cmd.startsWith("git apply --index"))).toBe(true);
+    // Only the strict verify pre-hook uses a (detached) worktree; nothing is committed or pushed
+    expect(commands.some((cmd) => /git (worktree add -b|commit|push)/.test(cmd))).toBe(false);
+
+    const ledger = (await (await fetch(`${baseUrl}/v1/ledger/export`, { headers: authHeaders() })).text())
+      .split(/\r?\n/)
+      .filter(Boolean)
+      .map((line) => JSON.parse(line))
+      .filter((event) => event.event_type === "PATCH_APPLIED");
+    expect(ledger.map((event) => event.payload.mode)).toEqual(["branch", "staged"]);
+    expect(ledger[0].payload).toMatchObject({ branch: branched.data.branch, commit_sha: "DEV", task_ids: branched.data.task_ids });
+    expect(Object.values(ledger[0].payload.patch_revisions)).toEqual(branched.data.task_ids.map(() => 0));
+    expect(ledger[1].run_id).toBe(second.data.run_id);
+
+    ws.close();
+  }, 30000);
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it, afterAll } from "vitest";
+import { startServer, stopServer, authHeaders, connectProject, connectRunner } from "./helpers";
+
+let app: Awaited<ReturnType<typeof startServer>>["app"];
+let baseUrl = "";
+
+afterAll(async () => {
+  if (app) {
+    await stopServer(app);
+  }
+  delete process.env.TRCODER_DB_DRIVER;
+  delete process.env.TRCODER_DB_PATH;
+  delete process.env.TRCODER_JWT_SECRET;
+});
+
+describe("org scoping", () => {
+  it("hides projects, runs and ledger events from other orgs", async () => {
+    process.env.TRCODER_DB_DRIVER = "sqljs";
+    process.env.TRCODER_DB_PATH = ":memory:";
+    process.env.TRCODER_JWT_SECRET = "test-secret";
+    const started = await startServer();
+    app = started.app;
+    baseUrl = started.baseUrl;
+
+    const projectId = await connectProject(baseUrl);
+    const { ws, ready } = connectRunner(baseUrl, projectId, (msg) => {
+      if (String(msg.cmd).startsWith("git rev-parse")) {
+        return { exit_code: 0, stdout: "DEV" };
+      }
+      return { exit_code: 0, stdout: "" };
+    });
+    await ready;
+
+    const plan = await (
+      await fetch(`${baseUrl}/v1/projects/${projectId}/plan`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({})
+      })
+    ).json();
+    await fetch(`${baseUrl}/v1/projects/${projectId}/plan/approve`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ plan_id: plan.plan_id, repo_commit: "DEV" })
+    });
+    const run = await (
+      await fetch(`${baseUrl}/v1/projects/${projectId}/runs/start`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({})
+      })
+    ).json();
+
+    // A self-registered user owns a fresh org and must see none of the demo org's work
+    const registered = await (
+      await fetch(`${baseUrl}/v1/auth/register`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: "outsider@example.com", password: "Passw0rdOutsider" })
+      })
+    ).json();
+    const outsider = { Authorization: `Bearer ${registered.access_token}`, "Content-Type": "application/json" };
+
+    const connected = await (
+      await fetch(`${baseUrl}/v1/projects/connect`, {
+        method: "POST",
+        headers: outsider,
+        body: JSON.stringify({ repo_name: "trcoder", repo_root_hash: "DEV" })
+      })
+    ).json();
+    expect(connected.project_id).not.toBe(projectId);
+
+    const projectRuns = await fetch(`${baseUrl}/v1/projects/${projectId}/runs`, { headers: outsider });
+    expect(projectRuns.status).toBe(404);
+    expect(await projectRuns.json()).toEqual({ error: "project not found" });
+
+    const status = await fetch(`${baseUrl}/v1/runs/${run.run_id}/status`, { headers: outsider });
+    expect(status.status).toBe(404);
+    expect(await status.json()).toEqual({ error: "run not found" });
+
+    const cancel = await fetch(`${baseUrl}/v1/runs/${run.run_id}/cancel`, {
+      method: "POST",
+      headers: outsider,
+      body: JSON.stringify({})
+    });
+    expect(cancel.status).toBe(404);
+
+    const tail = await fetch(`${baseUrl}/v1/logs/tail?run_id=${run.run_id}`, { headers: outsider });
+    expect(tail.status).toBe(404);
+
+    const ledger = (await (await fetch(`${baseUrl}/v1/ledger/export`, { headers: outsider })).text())
+      .split(/\r?\n/)
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+    expect(ledger.every((event) => event.org_id === registered.org.id)).toBe(true);
+    expect(ledger.some((event) => event.run_id === run.run_id)).toBe(false);
+
+    // The owning org still reaches its own run
+    const own = await fetch(`${baseUrl}/v1/runs/${run.run_id}/status`, { headers: authHeaders() });
+    expect(own.status).toBe(200);
+
+    ws.close();
+  }, 20000);
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it, afterAll } from "vitest";
+import { parseApplyErrors, resolveThreeWay } from "../src/patch-check";
+import { startServer, stopServer, authHeaders, connectProject, connectRunner } from "./helpers";
+
+let app: Awaited<ReturnType<typeof startServer>>["app"];
+let baseUrl = "";
+
+afterAll(async () => {
+  if (app) {
+    await stopServer(app);
+  }
+  delete process.env.TRCODER_DB_DRIVER;
+  delete process.env.TRCODER_DB_PATH;
+});
+
+const CHECK_ERRORS = [
+  "Checking patch src/app.ts...",
+  "error: while searching for:",
+  "export const a = 1;",
+  "",
+  "error: patch failed: src/app.ts:12",
+  "error: src/app.ts: patch does not apply",
+  "Checking patch src/gone.ts...",
+  "error: src/gone.ts: No such file or directory"
+].join("\n");
+
+async function post(pathname: string, body: Record<string, unknown> = {}) {
+  const res = await fetch(`${baseUrl}${pathname}`, {
+    method: "POST",
+    headers: authHeaders(),
+    body: JSON.stringify(body)
+  });
+  return { status: res.status, data: await res.json() };
+}
+
+describe("patch check", () => {
+  it("reports one conflict per file from git apply --check output", () => {
+    const conflicts = parseApplyErrors(CHECK_ERRORS);
+    expect(conflicts).toEqual([
+      { path: "src/app.ts", reason: "does_not_apply", line: 12, message: "error: src/app.ts: patch does not apply" },
+      { path: "src/gone.ts", reason: "missing", message: "error: src/gone.ts: No such file or directory" }
+    ]);
+
+    const merged = resolveThreeWay(
+      conflicts,
+      "Applied patch to 'src/app.ts' cleanly.\nerror: src/gone.ts: does not exist in index",
+      1
+    );
+    expect(merged.status).toBe("conflict");
+    expect(merged.conflicts.map((conflict) => conflict.three_way)).toEqual(["clean", "failed"]);
+
+    // git can exit 0 under --check even though the merge left conflicts
+    const conflicted = resolveThreeWay(conflicts.slice(0, 1), "Applied patch to 'src/app.ts' with conflicts.", 0);
+    expect(conflicted.status).toBe("conflict");
+    expect(resolveThreeWay(conflicts.slice(0, 1), "", 0).status).toBe("three_way");
+  });
+
+  it("dry-runs the patch against HEAD and regenerates it on conflict", async () => {
+    process.env.TRCODER_DB_DRIVER = "sqljs";
+    process.env.TRCODER_DB_PATH = ":memory:";
+    const started = await startServer();
+    app = started.app;
+    baseUrl = started.baseUrl;
+
+    const projectId = await connectProject(baseUrl);
+    let headMoved = false;
+    const commands: string[] = [];
+    const { ws, ready } = connectRunner(baseUrl, projectId, (msg) => {
+      const cmd = String(msg.cmd ?? "");
+      commands.push(cmd);
+      if (cmd.startsWith("git rev-parse")) return { exit_code: 0, stdout: "DEV" };
+      if (cmd.startsWith("git apply --check --verbose") && headMoved) {
+        return { exit_code: 1, stderr: CHECK_ERRORS };
+      }
+      if (cmd.startsWith("git apply --check --3way") && headMoved) {
+        return {
+          exit_code: 1,
+          stdout: "Applied patch to 'src/app.ts' cleanly.",
+          stderr: "error: src/gone.ts: does not exist in index"
+        };
+      }
+      return { exit_code: 0, stdout: "" };
+    });
+    await ready;
+
+    const plan = await post(`/v1/projects/${projectId}/plan`);
+    await post(`/v1/projects/${projectId}/plan/approve`, { plan_id: plan.data.plan_id, repo_commit: "DEV" });
+    const run = await post(`/v1/projects/${projectId}/runs/start`);
+    const runId = run.data.run_id;
+
+    // The check writes into the runner's repo and the ledger, so a read-only key may not run it
+    const readKey = await post("/v1/api-keys", { name: "viewer", scopes: ["runs:read"] });
+    const readOnly = await fetch(`${baseUrl}/v1/runs/${runId}/patch/check`, {
+      method: "POST",
+      headers: authHeaders(readKey.data.key),
+      body: JSON.stringify({})
+    });
+    expect(readOnly.status).toBe(403);
+    expect(commands.some((cmd) => cmd.startsWith("git apply --check"))).toBe(false);
+
+    const clean = await post(`/v1/runs/${runId}/patch/check`);
+    expect(clean.status).toBe(200);
+    expect(clean.data).toMatchObject({ status: "clean", conflicts: [], rebase_available: false });
+    // Without a task_id the run's tasks are checked together, in plan order
+    expect(clean.data.task_ids.length).toBeGreaterThan(1);
+    expect(commands.some((cmd) => /git apply --check --verbose ".*check_.*\.diff"/.test(cmd))).toBe(true);
+    // Nothing was applied for real
+    expect(commands.some((cmd) => /git apply (--index|")/.test(cmd))).toBe(false);
+
+    expect((await post(`/v1/runs/${runId}/patch/rebase`)).data).toMatchObject({
+      error: "task_id_required",
+      task_ids: clean.data.task_ids
+    });
+    expect((await post(`/v1/runs/${runId}/patch/rebase`, { task_id: clean.data.task_ids[0] })).data).toMatchObject({
+      rebased: false,
+      status: "clean"
+    });
+
+    headMoved = true;
+    const conflict = await post(`/v1/runs/${runId}/patch/check`);
+    expect(conflict.data.status).toBe("conflict");
+    expect(conflict.data.rebase_available).toBe(true);
+    // No task touches the conflicting files, so the earliest one is offered for the rebase
+    expect(conflict.data.task_id).toBe(clean.data.task_ids[0]);
+    expect(conflict.data.conflicts.map((c: { path: string; three_way: string }) => [c.path, c.three_way])).toEqual([
+      ["src/app.ts", "clean"],
+      ["src/gone.ts", "failed"]
+    ]);
+
+    const rebased = await post(`/v1/runs/${runId}/patch/rebase`, { task_id: conflict.data.task_id });
+    expect(rebased.status).toBe(200);
+    expect(rebased.data.rebased).toBe(true);
+    expect(rebased.data.patch_path).toBe(
+      `artifacts/${projectId}/${runId}/${conflict.data.task_id}/patch_rebase1.diff`
+    );
+    expect(rebased.data.previous_conflicts).toHaveLength(2);
+
+    const ledger = (await (await fetch(`${baseUrl}/v1/ledger/export`, { headers: authHeaders() })).text())
+      .split(/\r?\n/)
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+    const checks = ledger.filter((event) => event.event_type === "PATCH_CHECKED");
+    expect(checks.map((event) => event.payload.status)).toEqual(["clean", "conflict"]);
+    expect(checks[1].payload.conflicts).toEqual([
+      { path: "src/app.ts", reason: "does_not_apply" },
+      { path: "src/gone.ts", reason: "missing" }
+    ]);
+    const rebaseEvent = ledger.find((event) => event.event_type === "PATCH_REBASED");
+    expect(rebaseEvent.payload).toMatchObject({
+      base_revision: 0,
+      conflicts: ["src/app.ts", "src/gone.ts"],
+      status: "conflict"
+    });
+    const rebuilt = ledger.filter(
+      (event) => event.event_type === "CONTEXT_PACK_BUILT" && event.task_id === conflict.data.task_id
+    );
+    expect(rebuilt.length).toBeGreaterThanOrEqual(2);
+
+    ws.close();
+  }, 30000);
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it, afterAll } from "vitest";
+import { formatUnifiedDiff, parseUnifiedDiff } from "@trcoder/shared";
+import { startServer, stopServer, authHeaders, connectProject, connectRunner } from "./helpers";
+
+let app: Awaited<ReturnType<typeof startServer>>["app"];
+let baseUrl = "";
+
+afterAll(async () => {
+  if (app) {
+    await stopServer(app);
+  }
+  delete process.env.TRCODER_DB_DRIVER;
+  delete process.env.TRCODER_DB_PATH;
+});
+
+describe("patch revisions", () => {
+  it("stores a reviewed revision and serves it instead of the generated patch", async () => {
+    process.env.TRCODER_DB_DRIVER = "sqljs";
+    process.env.TRCODER_DB_PATH = ":memory:";
+    const started = await startServer();
+    app = started.app;
+    baseUrl = started.baseUrl;
+
+    const projectId = await connectProject(baseUrl);
+    const { ws, ready } = connectRunner(baseUrl, projectId, (msg) => {
+      if (String(msg.cmd).startsWith("git rev-parse")) {
+        return { exit_code: 0, stdout: "DEV" };
+      }
+      return { exit_code: 0, stdout: "" };
+    });
+    await ready;
+
+    const plan = await (
+      await fetch(`${baseUrl}/v1/projects/${projectId}/plan`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({})
+      })
+    ).json();
+    await fetch(`${baseUrl}/v1/projects/${projectId}/plan/approve`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ plan_id: plan.plan_id, repo_commit: "DEV" })
+    });
+    const run = await (
+      await fetch(`${baseUrl}/v1/projects/${projectId}/runs/start`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({})
+      })
+    ).json();
+
+    const combined = await (await fetch(`${baseUrl}/v1/runs/${run.run_id}/patch`, { headers: authHeaders() })).json();
+    // The demo plan has several tasks; revisions are saved per task
+    expect(combined.task_id).toBeNull();
+    expect(combined.tasks.length).toBeGreaterThan(1);
+    const taskId = combined.tasks[0].task_id;
+    const original = await (
+      await fetch(`${baseUrl}/v1/runs/${run.run_id}/patch?task_id=${taskId}`, { headers: authHeaders() })
+    ).json();
+    expect(original.revision).toBe(0);
+    const files = parseUnifiedDiff(original.patch_text);
+    expect(files.length).toBeGreaterThan(0);
+
+    // Keep only the first file, as a reviewer dropping the rest would
+    const revisedText = formatUnifiedDiff(files.slice(0, 1));
+    const revise = (body: Record<string, unknown>) =>
+      fetch(`${baseUrl}/v1/runs/${run.run_id}/patch/revisions`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({ task_id: taskId, ...body })
+      });
+
+    expect((await revise({ task_id: undefined, patch_text: "x" })).status).toBe(400);
+
+    expect((await revise({ patch_text: "not a diff", base_revision: 0 })).status).toBe(400);
+    const saved = await revise({ patch_text: revisedText, base_revision: 0, dropped_hunks: 1 });
+    expect(saved.status).toBe(200);
+    const savedData = await saved.json();
+    expect(savedData).toMatchObject({ revision: 1, task_id: original.task_id });
+    expect(savedData.patch_path).toBe(`artifacts/${projectId}/${run.run_id}/${original.task_id}/patch_rev1.diff`);
+
+    // A second review based on the generated patch conflicts with revision 1
+    const stale = await revise({ patch_text: revisedText, base_revision: 0 });
+    expect(stale.status).toBe(409);
+    expect(await stale.json()).toEqual({ error: "revision_conflict", current_revision: 1 });
+
+    const current = await (
+      await fetch(`${baseUrl}/v1/runs/${run.run_id}/patch?task_id=${taskId}`, { headers: authHeaders() })
+    ).json();
+    expect(current).toMatchObject({ revision: 1, patch_text: revisedText });
+    // The run's combined patch picks up the revision too
+    const combinedAfter = await (await fetch(`${baseUrl}/v1/runs/${run.run_id}/patch`, { headers: authHeaders() })).json();
+    expect(combinedAfter.tasks[0]).toMatchObject({ task_id: taskId, revision: 1 });
+    expect(combinedAfter.patch_text.startsWith(revisedText.trimEnd())).toBe(true);
+
+    const ledger = (await (await fetch(`${baseUrl}/v1/ledger/export`, { headers: authHeaders() })).text())
+      .split(/\r?\n/)
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+    const revised = ledger.find((event) => event.event_type === "PATCH_REVISED");
+    expect(revised.payload).toMatchObject({ revision: 1, base_revision: 0, files: 1, dropped_hunks: 1 });
+
+    ws.close();
+  }, 20000);
+});
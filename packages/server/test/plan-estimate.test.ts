@@ -0,0 +1,136 @@
+import path from "path";
+import { describe, expect, it, afterAll } from "vitest";
+import { TasksFileV1, loadLanePolicy, loadModelStack, loadPricing, loadRiskPolicy } from "@trcoder/shared";
+import { buildTaskDefinition } from "../src/planner";
+import { estimatePlan } from "../src/plan-estimate";
+import { startServer, stopServer, authHeaders, connectProject } from "./helpers";
+
+const configDir = path.resolve(__dirname, "../../../config");
+const modelStack = loadModelStack(path.join(configDir, "model-stack.v2.json"));
+const lanePolicy = loadLanePolicy(path.join(configDir, "lane-policy.v1.yaml"));
+const riskPolicy = loadRiskPolicy(path.join(configDir, "risk-policy.v1.yaml"));
+const pricing = loadPricing(path.join(configDir, "pricing.v1.yaml"));
+
+let app: Awaited<ReturnType<typeof startServer>>["app"];
+
+afterAll(async () => {
+  if (app) {
+    await stopServer(app);
+  }
+  delete process.env.TRCODER_DB_DRIVER;
+  delete process.env.TRCODER_DB_PATH;
+});
+
+function fixturePlan(): TasksFileV1 {
+  const task = (id: string, type: string, deps: string[]) =>
+    buildTaskDefinition({ id, title: `Task ${id}`, type, risk: "standard", deps, acceptance: [] });
+  // design fans out into api and ui, which join again in tests; docs only needs the api
+  return {
+    version: "tasks.v1",
+    project: { name: "demo" },
+    plan_id: "plan_demo",
+    phases: [
+      { id: "design", name: "Design", tasks: [task("design", "architecture_design", [])] },
+      { id: "api", name: "API", tasks: [task("api", "backend_development", ["design"])] },
+      { id: "ui", name: "UI", tasks: [task("ui", "frontend_development", ["design"])] },
+      {
+        id: "finish",
+        name: "Finish",
+        tasks: [task("tests", "integration_tests", ["api", "ui"]), task("docs", "api_docs", ["api"])]
+      }
+    ]
+  };
+}
+
+function estimate(overrides: { tasks?: TasksFileV1; budgetCapUsd?: number; creditsRemainingUsd?: number } = {}) {
+  return estimatePlan({
+    tasks: overrides.tasks ?? fixturePlan(),
+    lane: "balanced",
+    risk: "standard",
+    budgetCapUsd: overrides.budgetCapUsd ?? 10,
+    creditsRemainingUsd: overrides.creditsRemainingUsd ?? 0,
+    pricingPlanId: "pro_solo",
+    pricing,
+    modelStack,
+    lanePolicy,
+    riskPolicy
+  });
+}
+
+describe("plan estimate", () => {
+  it("finds waves, parallel phases and the critical path", () => {
+    const result = estimate();
+    expect(result.task_waves).toEqual([["design"], ["api", "ui"], ["tests", "docs"]]);
+    expect(result.phase_waves).toEqual([["design"], ["api", "ui"], ["finish"]]);
+    // integration tests are the longest job of the last wave and the frontend model is slower than the backend one
+    expect(result.critical_path.task_ids).toEqual(["design", "ui", "tests"]);
+    expect(result.tasks.filter((task) => task.critical).map((task) => task.task_id)).toEqual(["design", "ui", "tests"]);
+    expect(result.totals.serial_duration_p90_sec).toBeGreaterThan(result.critical_path.duration_p90_sec);
+  });
+
+  it("puts phases that depend on each other into one wave", () => {
+    const task = (id: string, deps: string[]) =>
+      buildTaskDefinition({ id, title: `Task ${id}`, type: "backend_development", risk: "standard", deps, acceptance: [] });
+    // a2 needs b1 and b1 needs a1, so neither phase finishes before the other starts; c only needs b
+    const result = estimate({
+      tasks: {
+        version: "tasks.v1",
+        project: { name: "demo" },
+        plan_id: "plan_cycle",
+        phases: [
+          { id: "A", name: "A", tasks: [task("a1", []), task("a2", ["b1"])] },
+          { id: "B", name: "B", tasks: [task("b1", ["a1"])] },
+          { id: "C", name: "C", tasks: [task("c1", ["b1"])] }
+        ]
+      }
+    });
+    expect(result.task_waves).toEqual([["a1"], ["b1"], ["a2", "c1"]]);
+    expect(result.phase_waves).toEqual([["A", "B"], ["C"]]);
+  });
+
+  it("previews router decisions and compares the cost range with budget and credits", () => {
+    const result = estimate();
+    const api = result.tasks.find((task) => task.task_id === "api")!;
+    expect(api).toMatchObject({ model: "claude-sonnet-4.5", tier: "standard" });
+    expect(api.cost_p50_usd).toBeCloseTo(api.cost_p90_usd * 0.7, 4);
+    // Without credits everything is charged with the standard pro_solo markup
+    expect(api.charge_p90_usd).toBeCloseTo(api.cost_p90_usd * 1.3, 4);
+    expect(result.budget).toMatchObject({ within_budget_p90: true, credits_cover_p50: false });
+
+    const covered = estimate({ creditsRemainingUsd: 100 });
+    expect(covered.totals.charge_p90_usd).toBe(0);
+    expect(covered.budget).toMatchObject({ credits_cover_p50: true, credits_cover_p90: true });
+
+    const tight = estimate({ budgetCapUsd: 0.5 });
+    expect(tight.budget.within_budget_p90).toBe(false);
+    expect(tight.tasks.some((task) => task.budget_violation)).toBe(true);
+  });
+
+  it("serves the estimate for the latest plan", async () => {
+    process.env.TRCODER_DB_DRIVER = "sqljs";
+    process.env.TRCODER_DB_PATH = ":memory:";
+    const started = await startServer();
+    app = started.app;
+    const projectId = await connectProject(started.baseUrl);
+
+    const missing = await fetch(`${started.baseUrl}/v1/projects/${projectId}/plan/estimate`, { headers: authHeaders() });
+    expect(missing.status).toBe(404);
+
+    const plan = await (
+      await fetch(`${started.baseUrl}/v1/projects/${projectId}/plan`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({})
+      })
+    ).json();
+    const res = await fetch(`${started.baseUrl}/v1/projects/${projectId}/plan/estimate?lane=quality&budget_cap_usd=1`, {
+      headers: authHeaders()
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body).toMatchObject({ plan_id: plan.plan_id, approved: false, lane: "quality", risk: "standard" });
+    expect(body.budget.budget_cap_usd).toBe(1);
+    expect(body.tasks.length).toBe(plan.tasks.phases[0].tasks.length);
+    expect(body.critical_path.task_ids[0]).toBe("task-001");
+  }, 20000);
+});
@@ -0,0 +1,212 @@
+import { describe, expect, it, afterAll } from "vitest";
+import { TasksFileV1 } from "@trcoder/shared";
+import { buildTaskDefinition } from "../src/planner";
+import { PlanEditError, applyPlanEdits, diffPlanTasks } from "../src/plan-edit";
+import { flattenPlanTasks } from "../src/task-graph";
+import { startServer, stopServer, authHeaders, connectProject, connectRunner } from "./helpers";
+
+let app: Awaited<ReturnType<typeof startServer>>["app"];
+let baseUrl = "";
+
+afterAll(async () => {
+  if (app) {
+    await stopServer(app);
+  }
+  delete process.env.TRCODER_DB_DRIVER;
+  delete process.env.TRCODER_DB_PATH;
+});
+
+const TASK_TYPES = ["setup", "feature", "refactor", "test"];
+
+function fixturePlan(): TasksFileV1 {
+  const task = (id: string, deps: string[]) =>
+    buildTaskDefinition({ id, title: `Task ${id}`, type: "feature", risk: "low", deps, acceptance: [`${id} works`] });
+  return {
+    version: "tasks.v1",
+    project: { name: "demo" },
+    plan_id: "plan_demo",
+    phases: [
+      { id: "p1", name: "Build", tasks: [task("a", []), task("b", ["a"]), task("c", ["b"])] },
+      { id: "p2", name: "Ship", tasks: [task("d", ["c"])] }
+    ]
+  };
+}
+
+describe("plan edits", () => {
+  it("rewires dependents when a task is removed and reports the diff", () => {
+    const before = fixturePlan();
+    const after = applyPlanEdits(before, [{ op: "remove_task", task_id: "b" }], TASK_TYPES);
+    expect(flattenPlanTasks(after).map((task) => task.id)).toEqual(["a", "c", "d"]);
+    expect(flattenPlanTasks(after).find((task) => task.id === "c")?.deps).toEqual(["a"]);
+    // The input plan is left untouched
+    expect(flattenPlanTasks(before)).toHaveLength(4);
+
+    const diff = diffPlanTasks(before, after);
+    expect(diff.removed.map((task) => task.task_id)).toEqual(["b"]);
+    expect(diff.changed).toEqual([{ task_id: "c", fields: { deps: { from: ["b"], to: ["a"] } } }]);
+    expect(diff.added).toEqual([]);
+    expect(diff.moved).toEqual([]);
+  });
+
+  it("splits, merges and moves tasks", () => {
+    const split = applyPlanEdits(
+      fixturePlan(),
+      [{ op: "split_task", task_id: "b", parts: [{ title: "B schema" }, { title: "B routes" }] }],
+      TASK_TYPES
+    );
+    const splitTasks = flattenPlanTasks(split);
+    expect(splitTasks.map((task) => task.id)).toEqual(["a", "b-1", "b-2", "c", "d"]);
+    expect(splitTasks.find((task) => task.id === "b-2")?.deps).toEqual(["b-1"]);
+    expect(splitTasks.find((task) => task.id === "c")?.deps).toEqual(["b-2"]);
+
+    const merged = applyPlanEdits(
+      fixturePlan(),
+      [{ op: "update_task", task_id: "c", changes: { risk: "high" } }, { op: "merge_tasks", task_ids: ["b", "c"] }],
+      TASK_TYPES
+    );
+    const mergedB = flattenPlanTasks(merged).find((task) => task.id === "b");
+    expect(mergedB).toMatchObject({ risk: "high", deps: ["a"], acceptance: ["b works", "c works"] });
+    expect(flattenPlanTasks(merged).find((task) => task.id === "d")?.deps).toEqual(["b"]);
+
+    const before = fixturePlan();
+    const moved = applyPlanEdits(
+      before,
+      [{ op: "update_task", task_id: "b", changes: { deps: [] } }, { op: "move_task", task_id: "a", after: "c" }],
+      TASK_TYPES
+    );
+    const diff = diffPlanTasks(before, moved);
+    expect(diff.moved).toEqual([{ task_id: "a", from: { phase_id: "p1", index: 0 }, to: { phase_id: "p1", index: 2 } }]);
+  });
+
+  it("rejects edits that break the plan", () => {
+    const attempt = (ops: Parameters<typeof applyPlanEdits>[1]) => {
+      try {
+        applyPlanEdits(fixturePlan(), ops, TASK_TYPES);
+      } catch (err) {
+        return (err as PlanEditError).code;
+      }
+      return "ok";
+    };
+    expect(attempt([{ op: "remove_task", task_id: "zzz" }])).toBe("unknown_task");
+    expect(attempt([{ op: "update_task", task_id: "a", changes: { type: "poetry" } }])).toBe("invalid_task_type");
+    expect(attempt([{ op: "update_task", task_id: "a", changes: { deps: ["d"] } }])).toBe("dependency_cycle");
+  });
+});
+
+describe("plan revisions", () => {
+  it("edits a plan into revisions and approves and runs a specific revision", async () => {
+    process.env.TRCODER_DB_DRIVER = "sqljs";
+    process.env.TRCODER_DB_PATH = ":memory:";
+    const started = await startServer();
+    app = started.app;
+    baseUrl = started.baseUrl;
+
+    const projectId = await connectProject(baseUrl);
+    const { ws, ready } = connectRunner(baseUrl, projectId, (msg) => {
+      if (String(msg.cmd).startsWith("git rev-parse")) {
+        return { exit_code: 0, stdout: "DEV" };
+      }
+      return { exit_code: 0, stdout: "" };
+    });
+    await ready;
+
+    const post = (path: string, body: Record<string, unknown>) =>
+      fetch(`${baseUrl}/v1/projects/${projectId}${path}`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify(body)
+      });
+    const get = async (path: string) =>
+      (await fetch(`${baseUrl}/v1/projects/${projectId}${path}`, { headers: authHeaders() })).json();
+
+    const plan = await (await post("/plan", {})).json();
+    // The planner always opens with a design task followed by a persistence task
+    const [first, second] = ["task-001", "task-002"];
+
+    const bad = await post("/plan/revisions", { plan_id: plan.plan_id, ops: [{ op: "remove_task", task_id: "nope" }] });
+    expect(bad.status).toBe(400);
+    expect(await bad.json()).toMatchObject({ error: "unknown_task", task_ids: ["nope"] });
+
+    const r1 = await post("/plan/revisions", {
+      plan_id: plan.plan_id,
+      ops: [
+        { op: "add_task", task: { title: "Write release notes", type: "backend_development" }, after: first },
+        { op: "update_task", task_id: second, changes: { risk: "high" } }
+      ]
+    });
+    expect(r1.status).toBe(200);
+    const rev1 = await r1.json();
+    expect(rev1).toMatchObject({ plan_id: `${plan.plan_id}_r1`, parent_plan_id: plan.plan_id, revision: 1 });
+    expect(rev1.diff.added).toHaveLength(1);
+    expect(rev1.diff.changed).toEqual([{ task_id: second, fields: { risk: expect.objectContaining({ to: "high" }) } }]);
+    const addedId = rev1.diff.added[0].task_id;
+
+    // Editing the root again would fork the chain
+    const stale = await post("/plan/revisions", { plan_id: plan.plan_id, ops: [{ op: "remove_task", task_id: second }] });
+    expect(stale.status).toBe(409);
+    expect(await stale.json()).toEqual({
+      error: "revision_conflict",
+      latest_plan_id: `${plan.plan_id}_r1`,
+      latest_revision: 1
+    });
+
+    const r2 = await (
+      await post("/plan/revisions", { ops: [{ op: "update_task", task_id: addedId, changes: { title: "Write changelog" } }] })
+    ).json();
+    expect(r2).toMatchObject({ plan_id: `${plan.plan_id}_r2`, parent_plan_id: `${plan.plan_id}_r1`, revision: 2 });
+
+    const revisions = await get("/plan/revisions");
+    expect(revisions.latest_plan_id).toBe(`${plan.plan_id}_r2`);
+    expect(revisions.revisions.map((revision: { revision: number }) => revision.revision)).toEqual([0, 1, 2]);
+    expect(revisions.revisions[1].ops).toEqual(["add_task", "update_task"]);
+
+    const diff = await get(`/plan/diff?from=${plan.plan_id}`);
+    expect(diff.to).toBe(`${plan.plan_id}_r2`);
+    expect(diff.diff.added).toEqual([expect.objectContaining({ task_id: addedId, title: "Write changelog" })]);
+
+    // Unknown plans and revisions, and plans of another project, are not approved
+    const unknownPlan = await post("/plan/approve", { plan_id: "plan_missing", repo_commit: "DEV" });
+    expect(unknownPlan.status).toBe(404);
+    expect(await unknownPlan.json()).toEqual({ error: "plan not found" });
+    const missing = await post("/plan/approve", { plan_id: plan.plan_id, repo_commit: "DEV", revision: 9 });
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({ error: "revision not found", revision: 9 });
+    const otherProject = await (
+      await fetch(`${baseUrl}/v1/projects/connect`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({ repo_name: "other", repo_root_hash: "OTHER" })
+      })
+    ).json();
+    const otherProjectId = otherProject.project_id as string;
+    const foreign = await fetch(`${baseUrl}/v1/projects/${otherProjectId}/plan/approve`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ plan_id: plan.plan_id, repo_commit: "DEV", revision: 1 })
+    });
+    expect(foreign.status).toBe(404);
+
+    // Approve revision 1 through any plan of the chain
+    const approved = await (await post("/plan/approve", { plan_id: plan.plan_id, repo_commit: "DEV", revision: 1 })).json();
+    expect(approved).toEqual({ ok: true, plan_id: `${plan.plan_id}_r1`, revision: 1 });
+
+    // The approved revision is the diff baseline, and its tasks are what runs execute
+    expect((await get("/plan/diff")).from).toBe(`${plan.plan_id}_r1`);
+    const run = await (await post("/runs/start", { task_id: addedId })).json();
+    expect(run.tasks_scheduled).toBe(1);
+
+    const ledger = (await (await fetch(`${baseUrl}/v1/ledger/export`, { headers: authHeaders() })).text())
+      .split(/\r?\n/)
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+    const revised = ledger.filter((event) => event.event_type === "PLAN_REVISED");
+    expect(revised.map((event) => event.payload.revision)).toEqual([1, 2]);
+    const approvals = ledger.filter((event) => event.event_type === "PLAN_APPROVED");
+    expect(approvals).toHaveLength(1);
+    expect(approvals[0]).toMatchObject({ plan_id: `${plan.plan_id}_r1`, payload: expect.objectContaining({ revision: 1 }) });
+    const runStarted = ledger.find((event) => event.event_type === "RUN_STARTED");
+    expect(runStarted.plan_id).toBe(`${plan.plan_id}_r1`);
+
+    ws.close();
+  }, 30000);
+});
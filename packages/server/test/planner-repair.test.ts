@@ -0,0 +1,134 @@
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { generateTasksForPlan } from "../src/planner";
+import { JsonSchema, validateTasksFile } from "../src/plan-validation";
+import { ChatCompletionRequest, IModelProvider } from "../src/providers/provider.interface";
+
+const schema = JSON.parse(
+  fs.readFileSync(path.resolve(__dirname, "../../../schemas/tasks.v1.schema.json"), "utf8")
+) as JsonSchema;
+const TASK_TYPES = ["backend_development", "integration_tests"];
+
+function planJson(tasks: Array<Record<string, unknown>>): string {
+  return JSON.stringify({ version: "tasks.v1", phases: [{ id: "phase-1", name: "Build", tasks }] });
+}
+
+function scriptedProvider(replies: string[]): IModelProvider & { requests: ChatCompletionRequest[] } {
+  const requests: ChatCompletionRequest[] = [];
+  return {
+    name: "scripted",
+    models: ["scripted-model"],
+    requests,
+    async chat(request) {
+      requests.push(request);
+      const content = replies[requests.length - 1] ?? "{}";
+      return {
+        id: `reply_${requests.length}`,
+        model: "scripted-model",
+        content,
+        finish_reason: "stop",
+        usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 }
+      };
+    },
+    async generatePatch() {
+      throw new Error("not used by the planner");
+    },
+    async healthCheck() {
+      return { healthy: true, latency_ms: 0 };
+    }
+  } as unknown as IModelProvider & { requests: ChatCompletionRequest[] };
+}
+
+function generate(provider: IModelProvider, maxRepairs?: number) {
+  return generateTasksForPlan({
+    provider,
+    model: "scripted-model",
+    planId: "plan_test",
+    projectName: "demo",
+    requestText: "Build an API",
+    inputFiles: [],
+    lane: "balanced",
+    risk: "standard",
+    allowedTaskTypes: TASK_TYPES,
+    schema,
+    maxRepairs
+  });
+}
+
+describe("planner validation", () => {
+  it("reports schema, type, dependency and cycle errors", () => {
+    const tasks = (overrides: Array<Record<string, unknown>>) => ({
+      version: "tasks.v1",
+      project: { name: "demo" },
+      plan_id: "p",
+      phases: [
+        {
+          id: "phase-1",
+          name: "Build",
+          tasks: overrides.map((task) => ({
+            title: "t",
+            type: "backend_development",
+            risk: "low",
+            deps: [],
+            scope: {},
+            acceptance: [],
+            execution: {},
+            outputs: {},
+            ...task
+          }))
+        }
+      ]
+    });
+
+    expect(validateTasksFile(tasks([{ id: "a", risk: "medium" }]), schema, TASK_TYPES)).toEqual([
+      '$.phases[0].tasks[0].risk: must be one of low, standard, high (got "medium")'
+    ]);
+    expect(
+      validateTasksFile(tasks([{ id: "a", type: "poetry" }, { id: "a" }, { id: "b", deps: ["zzz"] }]), schema, TASK_TYPES)
+    ).toEqual([
+      "task a: duplicate task id",
+      'task a: type "poetry" is not allowed (use one of backend_development, integration_tests)',
+      'task b: depends on unknown task "zzz"'
+    ]);
+    expect(
+      validateTasksFile(tasks([{ id: "a", deps: ["b"] }, { id: "b", deps: ["a"] }]), schema, TASK_TYPES)
+    ).toEqual(["dependency cycle between a, b"]);
+  });
+
+  it("sends the exact errors back to the model and accepts the repaired plan", async () => {
+    const provider = scriptedProvider([
+      planJson([
+        { id: "task-001", title: "API", type: "backend_development", deps: ["task-002"] },
+        { id: "task-002", title: "Tests", type: "integration_tests", deps: ["task-001"] }
+      ]),
+      planJson([
+        { id: "task-001", title: "API", type: "backend_development", deps: [] },
+        { id: "task-002", title: "Tests", type: "integration_tests", deps: ["task-001"] }
+      ])
+    ]);
+
+    const result = await generate(provider);
+    expect(result.source).toBe("model");
+    expect(result.tasks.phases[0].tasks.map((task) => task.id)).toEqual(["task-001", "task-002"]);
+    expect(result.attempts).toEqual([
+      expect.objectContaining({ attempt: 0, errors: ["dependency cycle between task-001, task-002"] }),
+      expect.objectContaining({ attempt: 1, errors: [] })
+    ]);
+
+    const repair = provider.requests[1].messages;
+    expect(repair.map((message) => message.role)).toEqual(["system", "user", "assistant", "user"]);
+    expect(repair[3].content).toContain("- dependency cycle between task-001, task-002");
+  });
+
+  it("gives up after the repair budget and falls back to the heuristic plan", async () => {
+    const provider = scriptedProvider(["not json", planJson([{ id: "task-001", type: "poetry" }])]);
+
+    const result = await generate(provider, 1);
+    expect(result.source).toBe("heuristic");
+    expect(provider.requests).toHaveLength(2);
+    expect(result.attempts.map((attempt) => attempt.errors.length > 0)).toEqual([true, true]);
+    expect(result.attempts[0].errors[0]).toMatch(/^output is not usable tasks JSON/);
+    expect(result.warnings[0]).toMatch(/failed validation after 1 repair attempt/);
+  });
+});
@@ -0,0 +1,204 @@
+import http from "http";
+import { describe, expect, it, afterAll, beforeAll, afterEach } from "vitest";
+import {
+  BitbucketAdapter,
+  ConflictError,
+  GitHubAdapter,
+  GitLabAdapter,
+  GiteaAdapter,
+  createPrAdapter,
+  resolvePrProvider
+} from "../src/pr-adapters";
+import { RecordedRequest, startStubApi, stopStubApi } from "./helpers";
+
+type GiteaFileChange = { operation: string; path: string; content: string; sha?: string };
+
+let requests: RecordedRequest[] = [];
+let server: http.Server;
+let baseUrl = "";
+
+const bitbucketPr = {
+  id: 3,
+  title: "TRCODER: task-001",
+  state: "OPEN",
+  source: { branch: { name: "feature" } },
+  destination: { branch: { name: "main" } },
+  reviewers: [{ uuid: "{existing}" }],
+  links: { self: { href: "https://api.bitbucket.org/2.0/pr/3" }, html: { href: "https://bitbucket.org/ws/app/pull-requests/3" } },
+  created_on: "2026-01-01T00:00:00Z",
+  updated_on: "2026-01-01T00:00:00Z"
+};
+
+const giteaPr = {
+  id: 90,
+  number: 5,
+  url: "https://git.example.com/api/v1/repos/team/app/pulls/5",
+  html_url: "https://git.example.com/team/app/pulls/5",
+  state: "closed",
+  merged: true,
+  title: "TRCODER: task-001",
+  head: { ref: "feature" },
+  base: { ref: "main" },
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z"
+};
+
+function route(method: string, url: string): { status: number; body?: unknown } {
+  const bb = "/bitbucket/repositories/ws/app";
+  if (method === "GET" && url === bb) return { status: 200, body: { mainbranch: { name: "main" } } };
+  if (method === "GET" && url === `${bb}/refs/branches/main`) return { status: 200, body: { target: { hash: "aaa111" } } };
+  if (method === "GET" && url === `${bb}/refs/branches/feature`) return { status: 200, body: { target: { hash: "bbb222" } } };
+  if (method === "POST" && url === `${bb}/refs/branches`) return { status: 201, body: { name: "feature", target: { hash: "aaa111" } } };
+  if (method === "POST" && url === `${bb}/src`) return { status: 201 };
+  if (method === "POST" && url === `${bb}/pullrequests`) return { status: 201, body: bitbucketPr };
+  if (url === `${bb}/pullrequests/3`) return { status: 200, body: bitbucketPr };
+  if (method === "POST" && url === `${bb}/pullrequests/3/merge`) return { status: 200, body: bitbucketPr };
+  if (method === "POST" && url === `${bb}/pullrequests/4/merge`) return { status: 409, body: { error: { message: "conflict" } } };
+
+  const gt = "/gitea/repos/team/app";
+  if (method === "GET" && url === `${gt}/contents/README.md?ref=feature`) return { status: 200, body: { sha: "blob1" } };
+  if (method === "GET" && url.startsWith(`${gt}/contents/`)) return { status: 404 };
+  if (method === "POST" && url === `${gt}/contents`) {
+    return { status: 201, body: { commit: { sha: "ccc333", message: "update files", html_url: "https://git.example.com/c/ccc333" } } };
+  }
+  if (method === "GET" && url === `${gt}/labels`) return { status: 200, body: [{ id: 11, name: "trcoder" }, { id: 12, name: "other" }] };
+  if (method === "POST" && url === `${gt}/pulls`) return { status: 201, body: giteaPr };
+  if (method === "POST" && url === `${gt}/pulls/5/requested_reviewers`) return { status: 201, body: [] };
+  if (method === "POST" && url === `${gt}/pulls/5/merge`) return { status: 200 };
+  if (method === "POST" && url === `${gt}/pulls/6/merge`) return { status: 405, body: { message: "not mergeable" } };
+  return { status: 404 };
+}
+
+beforeAll(async () => {
+  ({ server, baseUrl, requests } = await startStubApi(route));
+});
+
+afterAll(async () => {
+  await stopStubApi(server);
+});
+
+afterEach(() => {
+  for (const key of ["TRCODER_PR_HOSTS", "GITHUB_TOKEN", "GITLAB_TOKEN", "BITBUCKET_TOKEN", "GITEA_TOKEN"]) {
+    delete process.env[key];
+  }
+});
+
+describe("pr adapter registry", () => {
+  it("resolves providers from the remote host and TRCODER_PR_HOSTS", () => {
+    expect(resolvePrProvider("github.com")).toBe("github");
+    expect(resolvePrProvider("gitlab.example.com")).toBe("gitlab");
+    expect(resolvePrProvider("bitbucket.org")).toBe("bitbucket");
+    expect(resolvePrProvider("codeberg.org")).toBe("gitea");
+    expect(resolvePrProvider("forgejo.example.com")).toBe("gitea");
+    expect(resolvePrProvider("git.example.com")).toBeNull();
+
+    process.env.TRCODER_PR_HOSTS = "git.example.com=gitea, gitlab.example.com=github, bad.example.com=svn";
+    expect(resolvePrProvider("git.example.com")).toBe("gitea");
+    expect(resolvePrProvider("gitlab.example.com")).toBe("github");
+    expect(resolvePrProvider("bad.example.com")).toBeNull();
+
+    // A port in the entry pins it to that one instance
+    process.env.TRCODER_PR_HOSTS = "git.example.com:3000=gitea";
+    expect(resolvePrProvider("git.example.com:3000")).toBe("gitea");
+    expect(resolvePrProvider("git.example.com")).toBeNull();
+  });
+
+  it("builds the matching adapter from environment credentials", () => {
+    process.env.GITHUB_TOKEN = "ghp";
+    process.env.GITLAB_TOKEN = "glpat";
+    process.env.BITBUCKET_TOKEN = "bb";
+    process.env.GITEA_TOKEN = "gt";
+
+    expect(createPrAdapter({ host: "github.com", owner: "acme", repo: "app" })).toBeInstanceOf(GitHubAdapter);
+    expect(createPrAdapter({ host: "gitlab.com", owner: "acme", repo: "app" })).toBeInstanceOf(GitLabAdapter);
+    expect(createPrAdapter({ host: "bitbucket.org", owner: "ws", repo: "app" })).toBeInstanceOf(BitbucketAdapter);
+    expect(createPrAdapter({ host: "codeberg.org", owner: "team", repo: "app" })).toBeInstanceOf(GiteaAdapter);
+    expect(createPrAdapter({ host: "git.example.com", owner: "team", repo: "app" })).toBeNull();
+
+    delete process.env.GITEA_TOKEN;
+    expect(() => createPrAdapter({ host: "codeberg.org", owner: "team", repo: "app" })).toThrow(/GITEA_TOKEN/);
+  });
+});
+
+describe("bitbucket adapter", () => {
+  it("drives branches, commits and pull requests through the 2.0 API", async () => {
+    const bitbucket = new BitbucketAdapter({
+      token: "app-pass",
+      username: "bot",
+      owner: "ws",
+      repo: "app",
+      baseUrl: `${baseUrl}/bitbucket`
+    });
+    expect(await bitbucket.getDefaultBranch()).toBe("main");
+    expect((await bitbucket.createBranch("feature")).sha).toBe("aaa111");
+
+    const commit = await bitbucket.commitFiles("feature", [{ path: "src/new.ts", content: "export {};" }], "update files");
+    expect(commit.sha).toBe("bbb222");
+    const src = requests.find((r) => r.method === "POST" && r.url.endsWith("/src"));
+    expect(src?.headers["content-type"]).toContain("multipart/form-data");
+    expect(src?.raw).toContain('name="src/new.ts"');
+    expect(src?.headers.authorization).toBe(`Basic ${Buffer.from("bot:app-pass").toString("base64")}`);
+
+    const pr = await bitbucket.createPullRequest({
+      title: "TRCODER: task-001",
+      body: "Automated",
+      sourceBranch: "feature",
+      targetBranch: "main",
+      reviewers: ["557058:abc"]
+    });
+    expect(pr).toMatchObject({ number: 3, state: "open", htmlUrl: "https://bitbucket.org/ws/app/pull-requests/3" });
+    const create = requests.find((r) => r.method === "POST" && r.url.endsWith("/pullrequests"));
+    expect(JSON.parse(create!.raw).reviewers).toEqual([{ account_id: "557058:abc" }]);
+
+    await bitbucket.addReviewers(3, ["{new}"]);
+    const update = requests.filter((r) => r.method === "PUT" && r.url.endsWith("/pullrequests/3")).pop();
+    expect(JSON.parse(update!.raw)).toEqual({ title: "TRCODER: task-001", reviewers: [{ uuid: "{existing}" }, { uuid: "{new}" }] });
+
+    await bitbucket.mergePullRequest(3);
+    const merge = requests.find((r) => r.url.endsWith("/pullrequests/3/merge"));
+    expect(JSON.parse(merge!.raw)).toEqual({ merge_strategy: "squash" });
+    await expect(bitbucket.mergePullRequest(4)).rejects.toBeInstanceOf(ConflictError);
+  });
+});
+
+describe("gitea adapter", () => {
+  it("drives commits and pull requests through the v1 API", async () => {
+    const gitea = new GiteaAdapter({ token: "gt", owner: "team", repo: "app", baseUrl: `${baseUrl}/gitea` });
+
+    const commit = await gitea.commitFiles(
+      "feature",
+      [
+        { path: "README.md", content: "hello" },
+        { path: "src/new.ts", content: "export {};" }
+      ],
+      "update files"
+    );
+    expect(commit.sha).toBe("ccc333");
+    const contents = requests.find((r) => r.method === "POST" && r.url === "/gitea/repos/team/app/contents");
+    const files: GiteaFileChange[] = JSON.parse(contents!.raw).files;
+    expect(files.map((f) => f.operation)).toEqual(["update", "create"]);
+    expect(files[0].sha).toBe("blob1");
+    expect(Buffer.from(files[1].content, "base64").toString()).toBe("export {};");
+    expect(contents?.headers.authorization).toBe("token gt");
+
+    const pr = await gitea.createPullRequest({
+      title: "TRCODER: task-001",
+      body: "Automated",
+      sourceBranch: "feature",
+      targetBranch: "main",
+      labels: ["trcoder", "missing"],
+      reviewers: ["alice"],
+      draft: true
+    });
+    expect(pr).toMatchObject({ number: 5, state: "merged", headBranch: "feature" });
+    const create = requests.find((r) => r.method === "POST" && r.url.endsWith("/pulls"));
+    expect(JSON.parse(create!.raw)).toMatchObject({ title: "WIP: TRCODER: task-001", labels: [11], head: "feature", base: "main" });
+    const reviewers = requests.find((r) => r.url.endsWith("/pulls/5/requested_reviewers"));
+    expect(JSON.parse(reviewers!.raw)).toEqual({ reviewers: ["alice"] });
+
+    await gitea.mergePullRequest(5, "rebase");
+    const merge = requests.find((r) => r.url.endsWith("/pulls/5/merge"));
+    expect(JSON.parse(merge!.raw)).toEqual({ Do: "rebase" });
+    await expect(gitea.mergePullRequest(6)).rejects.toBeInstanceOf(ConflictError);
+  });
+});
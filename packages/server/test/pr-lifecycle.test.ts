@@ -0,0 +1,179 @@
+import http from "http";
+import { describe, expect, it, afterAll } from "vitest";
+import {
+  startServer,
+  stopServer,
+  authHeaders,
+  connectProject,
+  connectRunner,
+  startStubApi,
+  stopStubApi
+} from "./helpers";
+
+let app: Awaited<ReturnType<typeof startServer>>["app"];
+let baseUrl = "";
+let gitea: http.Server;
+let giteaUrl = "";
+
+// Remote PR state as the fake Gitea instance reports it, keyed by PR number
+const remotePrs = new Map<number, { state: string; merged: boolean }>();
+let nextPrNumber = 12;
+
+function giteaPr(number: number) {
+  const remote = remotePrs.get(number)!;
+  return {
+    id: number * 10,
+    number,
+    url: `${giteaUrl}/api/v1/repos/team/app/pulls/${number}`,
+    html_url: `${giteaUrl}/team/app/pulls/${number}`,
+    state: remote.state,
+    merged: remote.merged,
+    title: `PR ${number}`,
+    head: { ref: "feature" },
+    base: { ref: "main" },
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z"
+  };
+}
+
+function route(method: string, url: string): { status: number; body?: unknown } {
+  const repo = "/api/v1/repos/team/app";
+  if (method === "GET" && url === repo) return { status: 200, body: { default_branch: "main" } };
+  if (method === "GET" && url.startsWith(`${repo}/branches/`)) return { status: 404 };
+  if (method === "POST" && url === `${repo}/pulls`) {
+    const number = nextPrNumber++;
+    remotePrs.set(number, { state: "open", merged: false });
+    return { status: 201, body: giteaPr(number) };
+  }
+  const match = url.match(/^\/api\/v1\/repos\/team\/app\/pulls\/(\d+)(\/merge)?$/);
+  if (match && remotePrs.has(Number(match[1]))) {
+    const number = Number(match[1]);
+    if (method === "POST" && match[2]) {
+      remotePrs.set(number, { state: "closed", merged: true });
+      return { status: 200 };
+    }
+    if (method === "PATCH") {
+      remotePrs.set(number, { state: "closed", merged: false });
+      return { status: 201, body: giteaPr(number) };
+    }
+    if (method === "GET") return { status: 200, body: giteaPr(number) };
+  }
+  return { status: 404 };
+}
+
+async function setup() {
+  ({ server: gitea, baseUrl: giteaUrl } = await startStubApi(route));
+
+  process.env.TRCODER_DB_DRIVER = "sqljs";
+  process.env.TRCODER_DB_PATH = ":memory:";
+  process.env.TRCODER_PR_HOSTS = "127.0.0.1=gitea";
+  process.env.GITEA_TOKEN = "gitea-test";
+  process.env.GITEA_API_URL = `${giteaUrl}/api/v1`;
+  const started = await startServer();
+  app = started.app;
+  baseUrl = started.baseUrl;
+}
+
+afterAll(async () => {
+  if (app) {
+    await stopServer(app);
+  }
+  if (gitea) {
+    await stopStubApi(gitea);
+  }
+  for (const key of ["TRCODER_DB_DRIVER", "TRCODER_DB_PATH", "TRCODER_PR_HOSTS", "GITEA_TOKEN", "GITEA_API_URL"]) {
+    delete process.env[key];
+  }
+});
+
+async function post(pathname: string, body: unknown = {}) {
+  const res = await fetch(`${baseUrl}${pathname}`, {
+    method: "POST",
+    headers: authHeaders(),
+    body: JSON.stringify(body)
+  });
+  return { status: res.status, data: await res.json() };
+}
+
+describe("pull request lifecycle", () => {
+  it("tracks PRs opened by /apply through refresh, merge and close", async () => {
+    await setup();
+    const projectId = await connectProject(baseUrl);
+    const { ws, ready } = connectRunner(baseUrl, projectId, (msg) => {
+      const cmd = String(msg.cmd ?? "");
+      if (cmd.startsWith("git rev-parse")) return { exit_code: 0, stdout: "DEV" };
+      if (cmd.startsWith("git config --get remote.origin.url")) {
+        return { exit_code: 0, stdout: `${giteaUrl}/team/app.git\n` };
+      }
+      if (cmd.startsWith("git show-ref")) return { exit_code: 1 };
+      return { exit_code: 0, stdout: "" };
+    });
+    await ready;
+
+    const plan = await post(`/v1/projects/${projectId}/plan`);
+    await post(`/v1/projects/${projectId}/plan/approve`, { plan_id: plan.data.plan_id, repo_commit: "DEV" });
+
+    const prIds: string[] = [];
+    for (let i = 0; i < 3; i += 1) {
+      const run = await post(`/v1/projects/${projectId}/runs/start`);
+      const applied = await post(`/v1/runs/${run.data.run_id}/apply`);
+      expect(applied.status).toBe(200);
+      expect(applied.data.pr_number).toBe(12 + i);
+      prIds.push(applied.data.pr_id);
+    }
+
+    const listRes = await fetch(`${baseUrl}/v1/projects/${projectId}/prs`, { headers: authHeaders() });
+    const list = await listRes.json();
+    expect(list.prs).toHaveLength(3);
+    expect(list.prs.every((pr: any) => pr.state === "open" && pr.provider === "gitea")).toBe(true);
+
+    const unchanged = await post(`/v1/prs/${prIds[0]}/refresh`);
+    expect(unchanged.data.changed).toBe(false);
+
+    const merged = await post(`/v1/prs/${prIds[0]}/merge`, { method: "rebase" });
+    expect(merged.status).toBe(200);
+    expect(merged.data.pr.state).toBe("merged");
+    const mergeAgain = await post(`/v1/prs/${prIds[0]}/merge`);
+    expect(mergeAgain.status).toBe(409);
+    expect(mergeAgain.data.error).toBe("pr_not_open");
+
+    const closed = await post(`/v1/prs/${prIds[1]}/close`);
+    expect(closed.data.pr.state).toBe("closed");
+
+    // Closed on the provider side; refresh picks it up
+    remotePrs.set(14, { state: "closed", merged: false });
+    // Refresh writes the remote state and a ledger event, so a read-only key may not run it
+    const readKey = await post("/v1/api-keys", { name: "viewer", scopes: ["runs:read"] });
+    const readOnly = await fetch(`${baseUrl}/v1/prs/${prIds[2]}/refresh`, {
+      method: "POST",
+      headers: authHeaders(readKey.data.key),
+      body: JSON.stringify({})
+    });
+    expect(readOnly.status).toBe(403);
+    const refreshed = await post(`/v1/prs/${prIds[2]}/refresh`);
+    expect(refreshed.data.changed).toBe(true);
+    expect(refreshed.data.pr.state).toBe("closed");
+
+    const missing = await post("/v1/prs/unknown/refresh");
+    expect(missing.status).toBe(404);
+
+    const ledgerRes = await fetch(`${baseUrl}/v1/ledger/export`, { headers: { Authorization: "Bearer dev" } });
+    const events = (await ledgerRes.text())
+      .split(/\r?\n/)
+      .filter(Boolean)
+      .map((line) => JSON.parse(line))
+      .filter((event) => event.event_type.startsWith("PR_"));
+    expect(events.map((event) => event.event_type)).toEqual([
+      "PR_OPENED",
+      "PR_OPENED",
+      "PR_OPENED",
+      "PR_MERGED",
+      "PR_CLOSED",
+      "PR_STATE_CHANGED"
+    ]);
+    expect(events[3].payload).toMatchObject({ pr_id: prIds[0], number: 12, method: "rebase" });
+    expect(events[5].payload).toMatchObject({ from: "open", to: "closed" });
+
+    ws.close();
+  }, 30000);
+});
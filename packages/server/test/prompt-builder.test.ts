@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { ContextPackManifest, TaskDefinition } from "@trcoder/shared";
+import { buildPatchPrompt } from "../src/prompt-builder";
+
+const task: TaskDefinition = {
+  id: "task-001",
+  title: "Add login endpoint",
+  type: "backend_development",
+  risk: "standard",
+  deps: [],
+  scope: { paths: ["src/api/**"], exclude_paths: ["**/dist/**"] },
+  acceptance: ["POST /login returns a token", "Invalid password returns 401"],
+  execution: {},
+  outputs: {}
+};
+
+function pack(maxLines: number, maxFiles = 10): ContextPackManifest {
+  return {
+    pack_id: "ctx_demo",
+    task_id: task.id,
+    run_id: "run_demo",
+    mode: "hydrated",
+    pinned_sources: [],
+    file_entries: [],
+    signals: { failing_tests: ["FAIL test/login.test.ts"], diff_summary: " src/api/login.ts | 2 +-" },
+    budgets: { max_files: maxFiles, max_lines: maxLines, graph_depth: 1, top_k: 10, hydrate: true },
+    redaction_stats: { masked_entries: 0, masked_chars: 0 }
+  };
+}
+
+describe("patch prompt builder", () => {
+  it("includes task acceptance, scope and signals", () => {
+    const prompt = buildPatchPrompt({ task, pack: pack(100), files: [] });
+    expect(prompt.instructions).toContain("Add login endpoint");
+    expect(prompt.instructions).toContain("- Invalid password returns 401");
+    expect(prompt.instructions).toContain("- src/api/**");
+    expect(prompt.context).toContain("FAIL test/login.test.ts");
+    expect(prompt.context).toContain("src/api/login.ts | 2 +-");
+  });
+
+  it("keeps file content within max_lines", () => {
+    const content = Array.from({ length: 50 }, (_, i) => `line ${i + 1}`).join("\n");
+    const prompt = buildPatchPrompt({
+      task,
+      pack: pack(20),
+      files: [
+        { path: "src/api/login.ts", why: "pinned", content },
+        { path: "src/api/users.ts", why: "pinned", content }
+      ]
+    });
+    expect(prompt.stats.lines_used).toBeLessThanOrEqual(21);
+    expect(prompt.stats.files_hydrated).toBe(1);
+    expect(prompt.stats.files_truncated).toBe(1);
+    expect(prompt.stats.files_omitted).toBe(1);
+    expect(prompt.context).toContain("File: src/api/login.ts");
+    expect(prompt.context).not.toContain("File: src/api/users.ts");
+    expect(prompt.context).toMatch(/<truncated \d+ lines>/);
+  });
+
+  it("includes earlier tasks' patches ahead of the file content", () => {
+    const prompt = buildPatchPrompt({
+      task,
+      pack: pack(100),
+      files: [{ path: "src/api/login.ts", why: "pinned", content: "export {};" }],
+      prior_patches: [{ task_id: "task-000", patch_text: "diff --git a/src/api/db.ts b/src/api/db.ts\n+export const db = {};" }]
+    });
+    const priorAt = prompt.context.indexOf("Patch from earlier task task-000");
+    expect(priorAt).toBeGreaterThan(-1);
+    expect(prompt.context).toContain("+export const db = {};");
+    expect(priorAt).toBeLessThan(prompt.context.indexOf("File: src/api/login.ts"));
+  });
+
+  it("puts fix attempt details apart from the context, which stays the same across attempts", () => {
+    const files = [{ path: "src/api/login.ts", why: "pinned", content: "export {};" }];
+    const first = buildPatchPrompt({ task, pack: pack(20), files });
+    const fix = buildPatchPrompt({
+      task,
+      pack: pack(20),
+      files,
+      fix: {
+        iteration: 1,
+        max_iters: 3,
+        mode: "replace",
+        failures: [{ gate: "typecheck", exit_code: 1, output: Array.from({ length: 40 }, () => "error TS2304").join("\n") }],
+        previous_patch: "diff --git a/src/api/login.ts b/src/api/login.ts"
+      }
+    });
+    expect(first.attempt).toBe("");
+    expect(fix.context).toBe(first.context);
+    expect(fix.attempt).toContain("Verify gate typecheck failed (exit 1):");
+    expect(fix.attempt.split("\n").length).toBeLessThanOrEqual(20);
+    expect(fix.instructions).toContain("Fix attempt 1/3");
+  });
+
+  it("lists manifest-only files without content", () => {
+    const prompt = buildPatchPrompt({
+      task,
+      pack: pack(100, 1),
+      files: [
+        { path: "src/api/login.ts", why: "pinned" },
+        { path: "src/api/users.ts", why: "pinned" }
+      ]
+    });
+    expect(prompt.stats.files_listed).toBe(1);
+    expect(prompt.stats.files_omitted).toBe(1);
+    expect(prompt.context).toContain("File: src/api/login.ts (pinned)");
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AnthropicProvider, GoogleProvider, OpenAIProvider } from "../src/providers";
+
+function stubFetch(body: unknown) {
+  const calls: Array<{ url: string; body: any }> = [];
+  vi.stubGlobal("fetch", async (url: string, init: { body: string }) => {
+    calls.push({ url, body: JSON.parse(init.body) });
+    return new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+  });
+  return calls;
+}
+
+const patchInput = { task_id: "task-001", instructions: "Fix the failing test", context: "src/app.ts ..." };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("prompt caching", () => {
+  it("puts a cache breakpoint after the anthropic system prompt and reports cache reads and writes", async () => {
+    const calls = stubFetch({
+      id: "msg_1",
+      model: "claude-3-5-sonnet-20241022",
+      content: [{ type: "text", text: "diff --git a/x b/x" }],
+      stop_reason: "end_turn",
+      usage: { input_tokens: 50, output_tokens: 20, cache_read_input_tokens: 4000, cache_creation_input_tokens: 100 }
+    });
+    const provider = new AnthropicProvider({ apiKey: "test" });
+
+    const result = await provider.generatePatch(patchInput);
+
+    expect(calls[0].body.system).toEqual([
+      expect.objectContaining({ type: "text", cache_control: { type: "ephemeral" } })
+    ]);
+    expect(calls[0].body.system[0].text).toContain("Context:\nsrc/app.ts ...");
+    expect(calls[0].body.messages[0].content).toContain("Instructions: Fix the failing test");
+    expect(result.usage).toEqual({
+      prompt_tokens: 4150,
+      completion_tokens: 20,
+      total_tokens: 4170,
+      cached_prompt_tokens: 4000,
+      cache_write_tokens: 100
+    });
+  });
+
+  it("keeps fix attempt details out of the cached anthropic prefix", async () => {
+    const calls = stubFetch({
+      id: "msg_2",
+      model: "claude-3-5-sonnet-20241022",
+      content: [{ type: "text", text: "" }],
+      stop_reason: "end_turn",
+      usage: { input_tokens: 10, output_tokens: 1 }
+    });
+    const provider = new AnthropicProvider({ apiKey: "test" });
+
+    await provider.generatePatch({ ...patchInput, attempt: "Verify gate typecheck failed (exit 1):\nTS2304" });
+    await provider.generatePatch({ ...patchInput, attempt: "Verify gate test failed (exit 1):\nexpected 1" });
+
+    expect(calls[1].body.system).toEqual(calls[0].body.system);
+    expect(calls[0].body.system[0].text).not.toContain("Verify gate");
+    expect(calls[0].body.messages[0].content).toContain("Verify gate typecheck failed");
+    expect(calls[1].body.messages[0].content).toContain("Verify gate test failed");
+  });
+
+  it("keys openai calls by the cached prefix and reads cached tokens from the usage details", async () => {
+    const calls = stubFetch({
+      id: "chatcmpl_1",
+      model: "gpt-4o",
+      choices: [{ message: { content: "" }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 3000, completion_tokens: 10, total_tokens: 3010, prompt_tokens_details: { cached_tokens: 2048 } }
+    });
+    const provider = new OpenAIProvider({ apiKey: "test" });
+
+    const first = await provider.generatePatch(patchInput);
+    await provider.generatePatch({ ...patchInput, instructions: "Try again", attempt: "Previous patch:\n+x" });
+    await provider.generatePatch({ ...patchInput, context: "other context" });
+
+    expect(calls[0].body.messages[0]).toEqual({ role: "system", content: expect.stringContaining("Context:") });
+    expect(calls[0].body.prompt_cache_key).toMatch(/^trcoder-[0-9a-f]{32}$/);
+    expect(calls[1].body.prompt_cache_key).toBe(calls[0].body.prompt_cache_key);
+    expect(calls[2].body.prompt_cache_key).not.toBe(calls[0].body.prompt_cache_key);
+    expect(first.usage).toMatchObject({ prompt_tokens: 3000, cached_prompt_tokens: 2048, cache_write_tokens: 0 });
+  });
+
+  it("maps gemini implicit cache hits", async () => {
+    stubFetch({
+      candidates: [{ content: { parts: [{ text: "ok" }] }, finishReason: "STOP" }],
+      usageMetadata: { promptTokenCount: 5000, candidatesTokenCount: 5, totalTokenCount: 5005, cachedContentTokenCount: 4096 }
+    });
+    const provider = new GoogleProvider({ apiKey: "test" });
+
+    const response = await provider.chat({ messages: [{ role: "user", content: "hi" }] });
+    expect(response.usage).toMatchObject({ prompt_tokens: 5000, cached_prompt_tokens: 4096 });
+  });
+});
@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it } from "vitest";
+import http from "http";
+import { AddressInfo } from "net";
+import { createDb, IDb } from "../src/db";
+import { RunEventHub } from "../src/run-events";
+
+type Frame = { id?: string; comment?: string; event?: { type: string; data: any } };
+
+const servers: http.Server[] = [];
+const hubs: RunEventHub[] = [];
+const dbs: IDb[] = [];
+
+afterEach(async () => {
+  for (const hub of hubs.splice(0)) {
+    await hub.close();
+  }
+  for (const server of servers.splice(0)) {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+  for (const db of dbs.splice(0)) {
+    await db.close();
+  }
+});
+
+async function serve(hub: RunEventHub): Promise<string> {
+  hubs.push(hub);
+  const server = http.createServer((req, res) => {
+    const runId = (req.url ?? "").slice(1);
+    void hub.attach(runId, res, Number(req.headers["last-event-id"] ?? 0));
+  });
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+// Read frames until `until` matches, then disconnect
+async function collect(
+  url: string,
+  until: (frames: Frame[]) => boolean,
+  lastEventId?: string
+): Promise<Frame[]> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), 5000);
+  const res = await fetch(url, {
+    headers: lastEventId ? { "Last-Event-ID": lastEventId } : {},
+    signal: controller.signal
+  });
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  const frames: Frame[] = [];
+  let buffer = "";
+  try {
+    while (!until(frames)) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let idx;
+      while ((idx = buffer.indexOf("\n\n")) !== -1) {
+        const frame: Frame = {};
+        for (const line of buffer.slice(0, idx).split("\n")) {
+          if (line.startsWith("id: ")) frame.id = line.slice(4);
+          if (line.startsWith("data: ")) frame.event = JSON.parse(line.slice(6));
+          if (line.startsWith(": ")) frame.comment = line.slice(2);
+        }
+        frames.push(frame);
+        buffer = buffer.slice(idx + 2);
+      }
+    }
+  } finally {
+    clearTimeout(timer);
+    controller.abort();
+  }
+  return frames;
+}
+
+function emitSteps(hub: RunEventHub, runId: string, steps: string[]) {
+  for (const step of steps) {
+    hub.emit(runId, { type: "RUN_STATE", ts: new Date().toISOString(), data: { step } });
+  }
+}
+
+const events = (frames: Frame[]) => frames.filter((frame) => frame.event);
+const steps = (frames: Frame[]) => events(frames).map((frame) => frame.event!.data.step);
+
+describe("run event hub", () => {
+  it("numbers events and resumes after Last-Event-ID", async () => {
+    const hub = new RunEventHub();
+    const url = await serve(hub);
+    emitSteps(hub, "run_1", ["a", "b", "c"]);
+    hub.emit("run_1", { type: "LLM_DELTA", ts: new Date().toISOString(), data: { delta: "x" } }, { transient: true });
+
+    const all = await collect(`${url}/run_1`, (frames) => events(frames).length === 3);
+    expect(steps(all)).toEqual(["a", "b", "c"]);
+    const ids = all.map((frame) => Number(frame.id));
+    expect(ids[0]).toBeLessThan(ids[1]);
+    expect(ids[1]).toBeLessThan(ids[2]);
+
+    const live = collect(`${url}/run_1`, (frames) => events(frames).length === 2, all[1].id);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    emitSteps(hub, "run_1", ["d"]);
+    expect(steps(await live)).toEqual(["c", "d"]);
+  });
+
+  it("replays persisted events after a restart and across instances", async () => {
+    const db = await createDb(":memory:");
+    dbs.push(db);
+    const first = new RunEventHub({ db, pollMs: 50 });
+    hubs.push(first);
+    emitSteps(first, "run_2", ["a", "b"]);
+    await first.flush();
+
+    // A second hub on the same db stands in for a restarted or separate instance
+    const second = new RunEventHub({ db, pollMs: 50, heartbeatMs: 50 });
+    const url = await serve(second);
+    const replayed = await collect(`${url}/run_2`, (frames) => events(frames).length === 2);
+    expect(steps(replayed)).toEqual(["a", "b"]);
+
+    const live = collect(
+      `${url}/run_2`,
+      (frames) => events(frames).length === 1 && frames.some((frame) => frame.comment === "heartbeat"),
+      replayed[1].id
+    );
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    emitSteps(first, "run_2", ["c"]);
+    expect(steps(await live)).toEqual(["c"]);
+  });
+});
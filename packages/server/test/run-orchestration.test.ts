@@ -0,0 +1,218 @@
+import { describe, expect, it, afterAll } from "vitest";
+import { TasksFileV1 } from "@trcoder/shared";
+import { orderPlanTasks } from "../src/task-graph";
+import {
+  startServer,
+  stopServer,
+  authHeaders,
+  connectProject,
+  connectRunner
+} from "./helpers";
+
+let app: Awaited<ReturnType<typeof startServer>>["app"];
+let db: Awaited<ReturnType<typeof startServer>>["db"];
+let baseUrl = "";
+
+async function setup() {
+  process.env.TRCODER_DB_DRIVER = "sqljs";
+  process.env.TRCODER_DB_PATH = ":memory:";
+  const started = await startServer();
+  app = started.app;
+  db = started.db;
+  baseUrl = started.baseUrl;
+}
+
+afterAll(async () => {
+  if (app) {
+    await stopServer(app);
+  }
+  delete process.env.TRCODER_DB_DRIVER;
+  delete process.env.TRCODER_DB_PATH;
+});
+
+function tasksFile(tasks: Array<{ id: string; deps: string[] }>): TasksFileV1 {
+  return {
+    version: "tasks.v1",
+    project: { name: "demo" },
+    plan_id: "plan_demo",
+    phases: [
+      {
+        id: "phase-1",
+        name: "Phase 1",
+        tasks: tasks.map((task) => ({
+          id: task.id,
+          title: task.id,
+          type: "backend_development",
+          risk: "standard",
+          deps: task.deps,
+          scope: {},
+          acceptance: [],
+          execution: {},
+          outputs: {}
+        }))
+      }
+    ]
+  };
+}
+
+describe("task graph ordering", () => {
+  it("places deps before dependents and rejects cycles", () => {
+    const ordered = orderPlanTasks(
+      tasksFile([
+        { id: "b", deps: ["a"] },
+        { id: "a", deps: [] },
+        { id: "c", deps: ["a", "b"] }
+      ])
+    );
+    expect(ordered.map((task) => task.id)).toEqual(["a", "b", "c"]);
+
+    expect(() =>
+      orderPlanTasks(
+        tasksFile([
+          { id: "a", deps: ["b"] },
+          { id: "b", deps: ["a"] }
+        ])
+      )
+    ).toThrow(/cycle/i);
+    expect(() => orderPlanTasks(tasksFile([{ id: "a", deps: ["missing"] }]))).toThrow(/unknown/i);
+  });
+});
+
+describe("run orchestration", () => {
+  it("walks every approved task in dependency order", async () => {
+    await setup();
+    const projectId = await connectProject(baseUrl);
+    const { ws, ready } = connectRunner(baseUrl, projectId, (msg) => {
+      if (String(msg.cmd).startsWith("git rev-parse")) {
+        return { exit_code: 0, stdout: "DEV" };
+      }
+      if (String(msg.cmd).startsWith("git status --porcelain")) {
+        return { exit_code: 0, stdout: "" };
+      }
+      return { exit_code: 0, stdout: "" };
+    });
+    await ready;
+
+    const planRes = await fetch(`${baseUrl}/v1/projects/${projectId}/plan`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({})
+    });
+    const planData = await planRes.json();
+    await fetch(`${baseUrl}/v1/projects/${projectId}/plan/approve`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ plan_id: planData.plan_id, repo_commit: "DEV" })
+    });
+
+    const tasksRes = await fetch(`${baseUrl}/v1/projects/${projectId}/plan/tasks`, {
+      headers: { Authorization: "Bearer dev" }
+    });
+    const tasks = (await tasksRes.json()) as TasksFileV1;
+    const allTasks = tasks.phases.flatMap((phase) => phase.tasks);
+    expect(allTasks.length).toBeGreaterThan(1);
+
+    const runRes = await fetch(`${baseUrl}/v1/projects/${projectId}/runs/start`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({})
+    });
+    expect(runRes.status).toBe(200);
+    const runData = await runRes.json();
+    expect(runData.state).toBe("DONE");
+    expect(runData.tasks_completed).toBe(allTasks.length);
+
+    const statusRes = await fetch(`${baseUrl}/v1/runs/${runData.run_id}/status`, {
+      headers: { Authorization: "Bearer dev" }
+    });
+    const status = await statusRes.json();
+    expect(status.state).toBe("DONE");
+    expect(status.tasks_completed).toBe(allTasks.length);
+    expect(status.tasks_total).toBe(allTasks.length);
+
+    const ledgerRes = await fetch(`${baseUrl}/v1/ledger/export`, {
+      headers: { Authorization: "Bearer dev" }
+    });
+    const completed = (await ledgerRes.text())
+      .split(/\r?\n/)
+      .filter(Boolean)
+      .map((line) => JSON.parse(line))
+      .filter((event) => event.run_id === runData.run_id && event.event_type === "TASK_COMPLETED")
+      .map((event) => event.task_id as string);
+    expect(completed).toHaveLength(allTasks.length);
+    expect(status.current_task).toBe(completed[completed.length - 1]);
+    for (const task of allTasks) {
+      for (const dep of task.deps) {
+        expect(completed.indexOf(dep)).toBeLessThan(completed.indexOf(task.id));
+      }
+    }
+
+    // /diff, /verify and /apply see every task's patch, combined in the order the tasks ran
+    const patch = await (
+      await fetch(`${baseUrl}/v1/runs/${runData.run_id}/patch`, { headers: { Authorization: "Bearer dev" } })
+    ).json();
+    expect(patch.tasks.map((task: { task_id: string }) => task.task_id)).toEqual(completed);
+    expect(patch.patch_text.match(/^diff --git/gm)).toHaveLength(allTasks.length);
+
+    ws.close();
+  }, 20000);
+
+  it("pauses the run when the budget cap would be exceeded", async () => {
+    const projectId = await connectProject(baseUrl);
+    const { ws, ready } = connectRunner(baseUrl, projectId, (msg) => {
+      if (String(msg.cmd).startsWith("git rev-parse")) {
+        return { exit_code: 0, stdout: "DEV" };
+      }
+      return { exit_code: 0, stdout: "" };
+    });
+    await ready;
+
+    const planRes = await fetch(`${baseUrl}/v1/projects/${projectId}/plan`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({})
+    });
+    const planData = await planRes.json();
+    await fetch(`${baseUrl}/v1/projects/${projectId}/plan/approve`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ plan_id: planData.plan_id, repo_commit: "DEV" })
+    });
+
+    const runRes = await fetch(`${baseUrl}/v1/projects/${projectId}/runs/start`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ budget_cap_usd: 0 })
+    });
+    expect(runRes.status).toBe(200);
+    const runData = await runRes.json();
+    expect(runData.state).toBe("PAUSED");
+    expect(runData.tasks_completed).toBe(0);
+
+    // Raise the cap and resume: the scheduler picks up at the paused task and finishes the plan
+    await db.exec("UPDATE runs SET budget_cap_usd = ? WHERE id = ?", [50, runData.run_id]);
+    const resumeRes = await fetch(`${baseUrl}/v1/runs/${runData.run_id}/resume`, {
+      method: "POST",
+      headers: { Authorization: "Bearer dev" }
+    });
+    expect(resumeRes.status).toBe(200);
+    const resumed = await resumeRes.json();
+    expect(resumed.state).toBe("DONE");
+    expect(resumed.tasks_completed).toBe(resumed.tasks_scheduled);
+
+    const taskRows = await db.query<{ plan_task_id: string; state: string }>(
+      "SELECT plan_task_id, state FROM tasks WHERE run_id = ?",
+      [runData.run_id]
+    );
+    expect(taskRows).toHaveLength(resumed.tasks_scheduled);
+    expect(taskRows.every((row) => row.state === "DONE")).toBe(true);
+
+    const again = await fetch(`${baseUrl}/v1/runs/${runData.run_id}/resume`, {
+      method: "POST",
+      headers: { Authorization: "Bearer dev" }
+    });
+    expect(again.status).toBe(409);
+
+    ws.close();
+  }, 20000);
+});
@@ -8,6 +8,7 @@ let baseUrl = "";
 async function setup() {
   process.env.TRCODER_DB_DRIVER = "sqljs";
   process.env.TRCODER_DB_PATH = ":memory:";
+  process.env.TRCODER_JWT_SECRET = "test-secret";
   const started = await startServer();
   app = started.app;
   baseUrl = started.baseUrl;
@@ -19,6 +20,7 @@ afterAll(async () => {
   }
   delete process.env.TRCODER_DB_DRIVER;
   delete process.env.TRCODER_DB_PATH;
+  delete process.env.TRCODER_JWT_SECRET;
 });
 
 describe("runner ws auth", () => {
@@ -31,6 +33,33 @@ describe("runner ws auth", () => {
       ws.on("error", () => resolve());
     });
 
+    // A self-registered user owns a second org with its own project
+    const registered = await (
+      await fetch(`${baseUrl}/v1/auth/register`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: "outsider@example.com", password: "Passw0rdOutsider" })
+      })
+    ).json();
+    const foreignProject = await (
+      await fetch(`${baseUrl}/v1/projects/connect`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${registered.access_token}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ repo_name: "outsider", repo_root_hash: "OUTSIDER" })
+      })
+    ).json();
+    expect(foreignProject.project_id).toEqual(expect.any(String));
+
+    // Valid credentials for a project outside the caller's org are refused and logged against the caller's org
+    const foreign = new WebSocket(baseUrl.replace("http", "ws") + "/v1/runner/ws", {
+      headers: { Authorization: "Bearer dev", "X-TRCODER-Project": foreignProject.project_id }
+    });
+
+    await new Promise<void>((resolve) => {
+      foreign.on("close", () => resolve());
+      foreign.on("error", () => resolve());
+    });
+
     const ledgerRes = await fetch(`${baseUrl}/v1/ledger/export`, {
       headers: { Authorization: "Bearer dev" }
     });
@@ -38,8 +67,11 @@ describe("runner ws auth", () => {
     const events = ledgerText
       .split(/\r?\n/)
       .filter(Boolean)
-      .map((line) => JSON.parse(line).event_type as string);
+      .map((line) => JSON.parse(line))
+      .filter((event) => event.event_type === "RUNNER_AUTH_FAILED");
 
-    expect(events).toContain("RUNNER_AUTH_FAILED");
+    expect(events).toEqual([
+      expect.objectContaining({ org_id: "org_demo", user_id: "user_demo", project_id: foreignProject.project_id })
+    ]);
   }, 20000);
 });
@@ -74,6 +74,48 @@ async function collectStages(runId: string, required: string[], timeoutMs = 8000
   }
 }
 
+// Subscribe before the request (headers arrive immediately) and collect events until stop() or timeout
+async function subscribe(streamId: string, timeoutMs = 8000) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const res = await fetch(`${baseUrl}/v1/runs/${streamId}/stream`, {
+    headers: { Authorization: "Bearer dev" },
+    signal: controller.signal
+  });
+  const events: Array<{ type: string; data: any }> = [];
+  const reader = res.body!.getReader();
+  const done = (async () => {
+    const decoder = new TextDecoder();
+    let buffer = "";
+    try {
+      while (true) {
+        const { done: finished, value } = await reader.read();
+        if (finished) break;
+        buffer += decoder.decode(value, { stream: true });
+        let idx = buffer.indexOf("\n\n");
+        while (idx !== -1) {
+          const line = buffer.slice(0, idx).split("\n").find((l) => l.startsWith("data:"));
+          buffer = buffer.slice(idx + 2);
+          if (line) events.push(JSON.parse(line.replace(/^data:\s?/, "")));
+          idx = buffer.indexOf("\n\n");
+        }
+      }
+    } catch {
+      // aborted
+    }
+  })();
+  return {
+    events,
+    async stop() {
+      // Give in-flight chunks a moment to arrive before closing
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      controller.abort();
+      clearTimeout(timeout);
+      await done;
+    }
+  };
+}
+
 describe("sse stage coverage", () => {
   it("emits canonical task stages", async () => {
     await setup();
@@ -135,4 +177,73 @@ describe("sse stage coverage", () => {
 
     ws.close();
   }, 20000);
+
+  it("streams LLM_DELTA events for chat answers and run patches", async () => {
+    const projectId = await connectProject(baseUrl);
+
+    const badStream = await fetch(`${baseUrl}/v1/projects/${projectId}/chat`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ message: "hi", stream_id: "../nope" })
+    });
+    expect(badStream.status).toBe(400);
+
+    const chatStream = await subscribe("chat_stream_0001");
+    const chat = await (
+      await fetch(`${baseUrl}/v1/projects/${projectId}/chat`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({ message: "hello", stream_id: "chat_stream_0001" })
+      })
+    ).json();
+    await chatStream.stop();
+    const chatDeltas = chatStream.events.filter((event) => event.type === "LLM_DELTA");
+    expect(chatDeltas.length).toBeGreaterThan(1);
+    expect(chatDeltas.every((event) => event.data.source === "chat")).toBe(true);
+    expect(chatDeltas.map((event) => event.data.delta).join("")).toBe(chat.message);
+
+    const { ws, ready } = connectRunner(baseUrl, projectId, (msg) => {
+      if (String(msg.cmd).startsWith("git rev-parse")) {
+        return { exit_code: 0, stdout: "DEV" };
+      }
+      return { exit_code: 0, stdout: "" };
+    });
+    await ready;
+    const planData = await (
+      await fetch(`${baseUrl}/v1/projects/${projectId}/plan`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({})
+      })
+    ).json();
+    await fetch(`${baseUrl}/v1/projects/${projectId}/plan/approve`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: JSON.stringify({ plan_id: planData.plan_id, repo_commit: "DEV" })
+    });
+
+    const runStream = await subscribe("run_stream_0001");
+    const runData = await (
+      await fetch(`${baseUrl}/v1/projects/${projectId}/runs/start`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({ stream_id: "run_stream_0001" })
+      })
+    ).json();
+    await runStream.stop();
+    ws.close();
+
+    const types = runStream.events.map((event) => event.type);
+    expect(types).toContain("RUN_BANNER");
+    expect(types).toContain("TASK_RESULT");
+    const firstDelta = runStream.events.find((event) => event.type === "LLM_DELTA");
+    expect(firstDelta?.data).toMatchObject({ source: "patch", run_id: runData.run_id });
+    expect(types.indexOf("LLM_DELTA")).toBeLessThan(types.indexOf("TASK_RESULT"));
+
+    // Deltas are live-only; attaching to the run afterwards replays everything else
+    const replay = await subscribe(runData.run_id);
+    await replay.stop();
+    expect(replay.events.some((event) => event.type === "TASK_RESULT")).toBe(true);
+    expect(replay.events.some((event) => event.type === "LLM_DELTA")).toBe(false);
+  }, 20000);
 });
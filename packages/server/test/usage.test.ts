@@ -1,7 +1,9 @@
 import { describe, expect, it } from "vitest";
 import { createServer } from "../src/server";
+import { computeUsageForRange } from "../src/billing";
+import { createDb } from "../src/db";
 import { appendLedgerEvent } from "../src/ledger-store";
-import { createLedgerEvent } from "@trcoder/shared";
+import { PricingConfig, createLedgerEvent } from "@trcoder/shared";
 
 describe("usage endpoints", () => {
   it("reflects ledger totals for today and month", async () => {
@@ -77,4 +79,52 @@ describe("usage endpoints", () => {
     delete process.env.TRCODER_DB_DRIVER;
     delete process.env.TRCODER_DB_PATH;
   });
+
+  it("bills calls at the figures priced when they happened, whatever the current prices", async () => {
+    const db = await createDb(":memory:");
+    const price = { output_per_1k: 0.03, cached_input_per_1k: 0.001, cache_write_per_1k: 0.0125, reasoning_per_1k: 0.03 };
+    // A later price entry must not change what an earlier call cost
+    const pricing = {
+      plans: { pro_solo: { included_credits_trc: 0 } },
+      model_prices: {
+        "claude-sonnet-4.5": [
+          { effective_from: "2025-01-01T00:00:00Z", input_per_1k: 0.01, ...price },
+          { effective_from: "2025-06-01T00:00:00Z", input_per_1k: 0.005, ...price }
+        ]
+      }
+    } as unknown as PricingConfig;
+    await appendLedgerEvent(
+      db,
+      createLedgerEvent({
+        org_id: "org_demo",
+        user_id: "user_demo",
+        project_id: "project_demo",
+        run_id: "run_demo",
+        event_type: "LLM_CALL_FINISHED",
+        ts: "2025-07-01T00:00:00Z",
+        payload: {
+          model: "claude-sonnet-4.5",
+          tokens_in: 2000,
+          tokens_out: 0,
+          price_effective_from: "2025-01-01T00:00:00Z",
+          provider_cost_usd: 0.02,
+          credits_applied_usd: 0,
+          billable_provider_cost_usd: 0.02,
+          markup_rate: 0.5,
+          our_charge_usd: 0.03
+        }
+      })
+    );
+
+    const usage = await computeUsageForRange({
+      db,
+      pricing,
+      plan_id: "pro_solo",
+      start: new Date("2025-07-01T00:00:00Z"),
+      end: new Date("2025-08-01T00:00:00Z")
+    });
+    expect(usage.provider_cost_total).toBeCloseTo(0.02);
+    expect(usage.charged_total).toBeCloseTo(0.03);
+    await db.close();
+  });
 });
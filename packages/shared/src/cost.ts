@@ -1,14 +1,29 @@
-import { CostBreakdown, CostInput, ModelPricing } from "./types";
+import { CostBreakdown, CostInput, ModelPriceEntry, PricingConfig } from "./types";
 
-export const MODEL_PRICING_USD_PER_1K: Record<string, ModelPricing> = {
-  "gpt-5.2-xhigh": { input_per_1k: 0.03, output_per_1k: 0.06 },
-  "claude-opus-4.5": { input_per_1k: 0.025, output_per_1k: 0.05 },
-  "claude-sonnet-4.5": { input_per_1k: 0.01, output_per_1k: 0.03 },
-  "gemini-3.0-pro": { input_per_1k: 0.008, output_per_1k: 0.024 }
-};
-
-export function getModelPricing(model: string): ModelPricing {
-  return MODEL_PRICING_USD_PER_1K[model] ?? { input_per_1k: 0.01, output_per_1k: 0.03 };
+/**
+ * Price of a model at a point in time (ISO timestamp, default now): the last
+ * entry in pricing.model_prices whose effective_from is not after it.
+ * Throws for models without a price instead of guessing one.
+ */
+export function getModelPricing(pricing: PricingConfig, model: string, at?: string): ModelPriceEntry {
+  const entries = pricing.model_prices?.[model];
+  if (!entries || entries.length === 0) {
+    throw new Error(`No price configured for model "${model}" in ${pricing.version}.`);
+  }
+  const when = at ? Date.parse(at) : Date.now();
+  let current: ModelPriceEntry | undefined;
+  let currentFrom = -Infinity;
+  for (const entry of entries) {
+    const from = Date.parse(entry.effective_from);
+    if (from <= when && from >= currentFrom) {
+      current = entry;
+      currentFrom = from;
+    }
+  }
+  if (!current) {
+    throw new Error(`No price for model "${model}" in effect at ${new Date(when).toISOString()}.`);
+  }
+  return current;
 }
 
 export function estimateTokens(taskType: string, lane: string, risk: string): number {
@@ -25,17 +40,45 @@ export function estimateTokens(taskType: string, lane: string, risk: string): nu
   return Math.round(base);
 }
 
-export function estimateProviderCostUsd(model: string, totalTokens: number): number {
-  const pricing = getModelPricing(model);
-  const avgPer1k = (pricing.input_per_1k + pricing.output_per_1k) / 2;
+export function estimateProviderCostUsd(pricing: PricingConfig, model: string, totalTokens: number): number {
+  const price = getModelPricing(pricing, model);
+  const avgPer1k = (price.input_per_1k + price.output_per_1k) / 2;
   return (totalTokens / 1000) * avgPer1k;
 }
 
+/**
+ * Provider cost of one call. Input read from or written to the prompt cache
+ * and reasoning output are priced with their own rates when reported.
+ */
+export function providerCostUsd(input: {
+  pricing: PricingConfig;
+  model: string;
+  tokens_in: number;
+  tokens_out: number;
+  tokens_cached_in?: number;
+  tokens_cache_write?: number;
+  tokens_reasoning?: number;
+  at?: string;
+}): number {
+  const price = getModelPricing(input.pricing, input.model, input.at);
+  const cachedIn = Math.min(input.tokens_cached_in ?? 0, input.tokens_in);
+  const cacheWrite = Math.min(input.tokens_cache_write ?? 0, input.tokens_in - cachedIn);
+  const reasoning = Math.min(input.tokens_reasoning ?? 0, input.tokens_out);
+  return (
+    ((input.tokens_in - cachedIn - cacheWrite) / 1000) * price.input_per_1k +
+    (cachedIn / 1000) * price.cached_input_per_1k +
+    (cacheWrite / 1000) * price.cache_write_per_1k +
+    ((input.tokens_out - reasoning) / 1000) * price.output_per_1k +
+    (reasoning / 1000) * price.reasoning_per_1k
+  );
+}
+
 export function calculateCost(input: CostInput): CostBreakdown {
-  const pricing = getModelPricing(input.model);
-  const provider_cost_usd =
-    (input.tokens_in / 1000) * pricing.input_per_1k +
-    (input.tokens_out / 1000) * pricing.output_per_1k;
+  const provider_cost_usd = providerCostUsd(input);
+  const cache_savings_usd =
+    input.tokens_cached_in || input.tokens_cache_write
+      ? providerCostUsd({ ...input, tokens_cached_in: 0, tokens_cache_write: 0 }) - provider_cost_usd
+      : 0;
 
   const modelTier = input.modelStack.models[input.model]?.tier ?? "standard";
   const plan = input.plan_id ? input.pricing.plans[input.plan_id] : undefined;
@@ -59,6 +102,8 @@ export function calculateCost(input: CostInput): CostBreakdown {
     credits_used_trc,
     payg_overage_usd,
     markup_rate: markup,
-    effective_markup
+    effective_markup,
+    cache_savings_usd,
+    price_effective_from: getModelPricing(input.pricing, input.model, input.at).effective_from
   };
 }
@@ -5,3 +5,4 @@ export * from "./cost";
 export * from "./ledger";
 export * from "./permissions";
 export * from "./validate";
+export * from "./unified-diff";
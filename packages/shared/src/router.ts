@@ -1,5 +1,5 @@
 import { estimateProviderCostUsd, estimateTokens } from "./cost";
-import { ModelStackConfig, ModelTier, RouterDecision, RouterInput } from "./types";
+import { ModelStackConfig, ModelTier, PricingConfig, RouterDecision, RouterInput } from "./types";
 
 const TIER_RANK: Record<ModelTier, number> = {
   economy: 1,
@@ -14,6 +14,7 @@ function meetsMinTier(modelStack: ModelStackConfig, model: string, minTier: Mode
 }
 
 function pickModelForMinTier(
+  pricing: PricingConfig,
   modelStack: ModelStackConfig,
   minTier: ModelTier,
   preferModel?: string,
@@ -32,9 +33,9 @@ function pickModelForMinTier(
   }
 
   let best = candidates[0];
-  let bestCost = estimateProviderCostUsd(best, tokensEstimate);
+  let bestCost = estimateProviderCostUsd(pricing, best, tokensEstimate);
   for (const model of candidates.slice(1)) {
-    const cost = estimateProviderCostUsd(model, tokensEstimate);
+    const cost = estimateProviderCostUsd(pricing, model, tokensEstimate);
     if (cost < bestCost) {
       best = model;
       bestCost = cost;
@@ -44,7 +45,7 @@ function pickModelForMinTier(
 }
 
 export function decideRouter(input: RouterInput): RouterDecision {
-  const { taskType, lane, risk, budgetRemainingUsd, modelStack, lanePolicy, riskPolicy, contextBudget } =
+  const { taskType, lane, risk, budgetRemainingUsd, modelStack, lanePolicy, riskPolicy, contextBudget, pricing } =
     input;
   const reasons: string[] = [];
   const constraints: string[] = [];
@@ -66,7 +67,7 @@ export function decideRouter(input: RouterInput): RouterDecision {
   const minTier = riskPolicy.risk_levels[risk]?.min_allowed_tier ?? "standard";
   if (!meetsMinTier(modelStack, selected, minTier)) {
     const prior = selected;
-    selected = pickModelForMinTier(modelStack, minTier, base);
+    selected = pickModelForMinTier(pricing, modelStack, minTier, base);
     reasons.push(`risk floor applied: ${minTier}`);
     constraints.push(`min_allowed_tier:${minTier}`);
     if (selected !== prior) {
@@ -80,7 +81,7 @@ export function decideRouter(input: RouterInput): RouterDecision {
     expectedTokens = Math.round(expectedTokens * scale);
     reasons.push("context budget scaling");
   }
-  let expectedCostUsd = estimateProviderCostUsd(selected, expectedTokens);
+  let expectedCostUsd = estimateProviderCostUsd(pricing, selected, expectedTokens);
 
   let downgradeApplied = false;
   let budgetViolation = false;
@@ -88,10 +89,10 @@ export function decideRouter(input: RouterInput): RouterDecision {
     const downgradeAllowed = riskPolicy.risk_levels[risk]?.downgrade_allowed ?? false;
     const downgradeBias = lanePolicy.lanes[lane]?.downgrade_bias ?? false;
     if (downgradeAllowed && (lane === "cost-saver" || downgradeBias)) {
-      const cheaper = pickModelForMinTier(modelStack, minTier, undefined, expectedTokens);
+      const cheaper = pickModelForMinTier(pricing, modelStack, minTier, undefined, expectedTokens);
       if (cheaper && cheaper !== selected) {
         selected = cheaper;
-        expectedCostUsd = estimateProviderCostUsd(selected, expectedTokens);
+        expectedCostUsd = estimateProviderCostUsd(pricing, selected, expectedTokens);
         downgradeApplied = true;
         reasons.push("budget downgrade applied");
       }
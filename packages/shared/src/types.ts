@@ -1,6 +1,8 @@
 export type Lane = "speed" | "balanced" | "quality" | "cost-saver";
 export type RiskLevel = "low" | "standard" | "high";
 export type VerifyMode = "targeted" | "standard" | "strict";
+// pr: push a branch and open a PR; branch: commit onto a local branch only; staged: stage in the working tree
+export type ApplyMode = "pr" | "branch" | "staged";
 
 export type ModelTier = "premium_reasoning" | "premium" | "standard" | "economy";
 
@@ -59,6 +61,12 @@ export interface PricingConfig {
   credit_definition: {
     trc_equals_provider_cost_usd: number;
   };
+  // Provider prices per model, oldest first; an entry applies from its effective_from until the next one
+  model_prices: Record<string, ModelPriceEntry[]>;
+}
+
+export interface ModelPriceEntry extends ModelPricing {
+  effective_from: string;
 }
 
 export interface PermissionsConfig {
@@ -108,6 +116,29 @@ export interface TasksFileV1 {
   phases: TasksPhase[];
 }
 
+// Edits accepted by POST /v1/projects/:id/plan/revisions; "after: null" means first in the phase
+export type PlanTaskFields = Partial<Pick<TaskDefinition, "title" | "type" | "risk" | "deps" | "scope" | "acceptance">>;
+
+export type PlanEditOp =
+  | { op: "add_task"; task: PlanTaskFields & { title: string; id?: string }; phase_id?: string; after?: string | null }
+  | { op: "remove_task"; task_id: string }
+  | { op: "move_task"; task_id: string; phase_id?: string; after?: string | null }
+  | { op: "update_task"; task_id: string; changes: PlanTaskFields }
+  | { op: "split_task"; task_id: string; parts: Array<PlanTaskFields & { title: string }> }
+  | { op: "merge_tasks"; task_ids: string[]; title?: string };
+
+export interface PlanTaskPosition {
+  phase_id: string;
+  index: number;
+}
+
+export interface PlanDiff {
+  added: Array<{ task_id: string; title: string; position: PlanTaskPosition }>;
+  removed: Array<{ task_id: string; title: string; position: PlanTaskPosition }>;
+  changed: Array<{ task_id: string; fields: Record<string, { from: unknown; to: unknown }> }>;
+  moved: Array<{ task_id: string; from: PlanTaskPosition; to: PlanTaskPosition }>;
+}
+
 export interface ContextBudget {
   max_files: number;
   max_lines: number;
@@ -138,9 +169,47 @@ export interface ContextPackManifest {
   file_entries: ContextPackFileEntry[];
   signals: ContextPackSignals;
   budgets: ContextBudget;
+  // Task scope the pack was retrieved for; rebuilds rank files against it again
+  scope?: TaskScope;
   redaction_stats: { masked_entries: number; masked_chars: number };
 }
 
+export interface CodeSearchRequest {
+  query?: string;
+  symbols?: string[];
+  paths?: string[];
+  exclude_paths?: string[];
+  top_k: number;
+  graph_depth?: number;
+  // Files to expand the import graph from in addition to the hits (pins)
+  seeds?: string[];
+}
+
+export interface CodeSearchHit {
+  path: string;
+  score: number;
+  line: number;
+  snippet: string;
+  lines: number;
+  why: string;
+}
+
+export interface CodeSearchRelated {
+  path: string;
+  lines: number;
+  why: string;
+  // dependency: imported by a file already in the result; dependent: imports one
+  direction: "dependency" | "dependent";
+  depth: number;
+}
+
+export interface CodeSearchResult {
+  hits: CodeSearchHit[];
+  // Files reached from the hits and seeds through imports, nearest first
+  related: CodeSearchRelated[];
+  indexed_files: number;
+}
+
 export interface RouterDecision {
   selected_model: string;
   reasons: string[];
@@ -170,6 +239,8 @@ export type LedgerEventType =
   | "PLAN_STATUS"
   | "PLAN_CREATED"
   | "PLAN_APPROVED"
+  | "PLAN_REVISED"
+  | "PLAN_VALIDATED"
   | "TASK_STARTED"
   | "TASK_STAGE"
   | "ROUTER_DECISION"
@@ -181,15 +252,28 @@ export type LedgerEventType =
   | "RUNNER_CMD_BLOCKED"
   | "VERIFY_STARTED"
   | "VERIFY_FINISHED"
+  | "FIX_ITERATION"
   | "PATCH_PRODUCED"
+  | "PATCH_REVISED"
+  | "PATCH_CHECKED"
+  | "PATCH_REBASED"
+  | "PATCH_APPLIED"
   | "TASK_COMPLETED"
+  | "TASK_FAILED"
   | "RUN_COMPLETED"
+  | "RUN_FAILED"
   | "BILLING_POSTED"
   | "ANOMALY_DETECTED"
   | "RUN_PAUSED"
   | "RUN_RESUMED"
   | "RUN_CANCELLED"
-  | "RUNNER_AUTH_FAILED";
+  | "PR_OPENED"
+  | "PR_STATE_CHANGED"
+  | "PR_MERGED"
+  | "PR_CLOSED"
+  | "RUNNER_AUTH_FAILED"
+  | "CREDITS_DEBIT_FAILED"
+  | "BILLING_RECONCILED";
 
 export interface CostBreakdown {
   provider_cost_usd: number;
@@ -200,6 +284,10 @@ export interface CostBreakdown {
   payg_overage_usd: number;
   markup_rate: number;
   effective_markup: number;
+  // What prompt caching saved on provider cost: cache reads minus the cache-write premium
+  cache_savings_usd: number;
+  // effective_from of the model_prices entry the call was priced with
+  price_effective_from: string;
 }
 
 export type RunState =
@@ -217,6 +305,7 @@ export type TaskStage =
   | "LOCAL_VERIFY"
   | "SELF_REVIEW"
   | "PROPOSE_APPLY"
+  | "FIX_ITERATION"
   | "TASK_DONE";
 
 export interface RouterInput {
@@ -228,11 +317,15 @@ export interface RouterInput {
   modelStack: ModelStackConfig;
   lanePolicy: LanePolicyConfig;
   riskPolicy: RiskPolicyConfig;
+  pricing: PricingConfig;
 }
 
 export interface ModelPricing {
   input_per_1k: number;
   output_per_1k: number;
+  cached_input_per_1k: number;
+  cache_write_per_1k: number;
+  reasoning_per_1k: number;
 }
 
 export interface CostInput {
@@ -243,4 +336,12 @@ export interface CostInput {
   modelStack: ModelStackConfig;
   plan_id?: string;
   credits_remaining_trc?: number;
+  // Part of tokens_in served from the provider's prompt cache
+  tokens_cached_in?: number;
+  // Part of tokens_in written to the provider's prompt cache
+  tokens_cache_write?: number;
+  // Part of tokens_out spent on hidden reasoning
+  tokens_reasoning?: number;
+  // When the call happened (ISO); picks the price in effect then. Defaults to now.
+  at?: string;
 }
@@ -0,0 +1,190 @@
+export type DiffFileStatus = "added" | "deleted" | "modified" | "renamed";
+
+export interface DiffHunk {
+  header: string;
+  old_start: number;
+  old_lines: number;
+  new_start: number;
+  new_lines: number;
+  // Body lines including their " ", "+", "-" or "\" prefix
+  lines: string[];
+  additions: number;
+  deletions: number;
+}
+
+export interface DiffFile {
+  // New path, or the old path for deletions
+  path: string;
+  old_path: string | null;
+  new_path: string | null;
+  status: DiffFileStatus;
+  binary: boolean;
+  // "diff --git", "index", "---", "+++" and mode/rename lines, kept verbatim
+  header_lines: string[];
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function stripPrefix(value: string): string | null {
+  const trimmed = value.replace(/\t.*$/, "").trim();
+  if (trimmed === "/dev/null") return null;
+  return trimmed.replace(/^"?[ab]\//, "").replace(/"$/, "");
+}
+
+function newFile(): DiffFile {
+  return {
+    path: "",
+    old_path: null,
+    new_path: null,
+    status: "modified",
+    binary: false,
+    header_lines: [],
+    hunks: [],
+    additions: 0,
+    deletions: 0
+  };
+}
+
+function finishFile(file: DiffFile): DiffFile {
+  if (file.old_path === null && file.new_path !== null) {
+    file.status = "added";
+  } else if (file.new_path === null && file.old_path !== null) {
+    file.status = "deleted";
+  } else if (file.old_path !== file.new_path) {
+    file.status = "renamed";
+  }
+  file.path = file.new_path ?? file.old_path ?? "";
+  return file;
+}
+
+/**
+ * Parse a unified diff (git or plain `diff -u` output) into files and hunks.
+ * Text outside of any file (commit messages, "Only in" notes) is ignored.
+ */
+export function parseUnifiedDiff(text: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  // Lines still expected in the current hunk; a "---" inside a hunk is a deleted line, not a header
+  let oldLeft = 0;
+  let newLeft = 0;
+
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") lines.pop();
+
+  for (const line of lines) {
+    if (hunk && (oldLeft > 0 || newLeft > 0 || line.startsWith("\\"))) {
+      hunk.lines.push(line);
+      if (line.startsWith("+")) {
+        hunk.additions += 1;
+        newLeft -= 1;
+      } else if (line.startsWith("-")) {
+        hunk.deletions += 1;
+        oldLeft -= 1;
+      } else if (!line.startsWith("\\")) {
+        oldLeft -= 1;
+        newLeft -= 1;
+      }
+      continue;
+    }
+    hunk = null;
+
+    if (line.startsWith("diff --git ")) {
+      if (file) files.push(finishFile(file));
+      file = newFile();
+      file.header_lines.push(line);
+      const match = /^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/.exec(line);
+      if (match) {
+        file.old_path = match[1];
+        file.new_path = match[2];
+      }
+      continue;
+    }
+
+    // Plain `diff -u` output has no "diff --git" line between files
+    const startsPlainFile =
+      line.startsWith("--- ") &&
+      (!file || file.hunks.length > 0 || file.header_lines.some((header) => header.startsWith("+++ ")));
+    if (startsPlainFile) {
+      if (file) files.push(finishFile(file));
+      file = newFile();
+    }
+    if (!file) continue;
+
+    if (line.startsWith("--- ")) {
+      file.header_lines.push(line);
+      file.old_path = stripPrefix(line.slice(4));
+    } else if (line.startsWith("+++ ")) {
+      file.header_lines.push(line);
+      file.new_path = stripPrefix(line.slice(4));
+    } else if (line.startsWith("new file mode")) {
+      file.header_lines.push(line);
+      file.old_path = null;
+    } else if (line.startsWith("deleted file mode")) {
+      file.header_lines.push(line);
+      file.new_path = null;
+    } else if (line.startsWith("rename from ")) {
+      file.header_lines.push(line);
+      file.old_path = line.slice("rename from ".length);
+    } else if (line.startsWith("rename to ")) {
+      file.header_lines.push(line);
+      file.new_path = line.slice("rename to ".length);
+    } else if (line.startsWith("Binary files ") || line === "GIT binary patch") {
+      file.header_lines.push(line);
+      file.binary = true;
+    } else if (line.startsWith("@@")) {
+      const match = HUNK_HEADER.exec(line);
+      if (!match) continue;
+      hunk = {
+        header: line,
+        old_start: Number(match[1]),
+        old_lines: match[2] === undefined ? 1 : Number(match[2]),
+        new_start: Number(match[3]),
+        new_lines: match[4] === undefined ? 1 : Number(match[4]),
+        lines: [],
+        additions: 0,
+        deletions: 0
+      };
+      oldLeft = hunk.old_lines;
+      newLeft = hunk.new_lines;
+      file.hunks.push(hunk);
+    } else if (file.hunks.length === 0) {
+      // index, mode, similarity and other extended header lines
+      file.header_lines.push(line);
+    }
+  }
+  if (file) files.push(finishFile(file));
+
+  for (const parsed of files) {
+    parsed.additions = parsed.hunks.reduce((sum, h) => sum + h.additions, 0);
+    parsed.deletions = parsed.hunks.reduce((sum, h) => sum + h.deletions, 0);
+  }
+  return files;
+}
+
+/**
+ * Serialize files back into a patch. Hunk ranges are recomputed from the hunk
+ * bodies, so files may have had hunks dropped or edited since parsing.
+ */
+export function formatUnifiedDiff(files: DiffFile[]): string {
+  const out: string[] = [];
+  for (const file of files) {
+    if (file.hunks.length === 0 && !file.binary && file.status === "modified") continue;
+    out.push(...file.header_lines);
+    // Net lines added by the hunks written so far; shifts where later hunks land in the new file
+    let delta = 0;
+    for (const hunk of file.hunks) {
+      const oldLines = hunk.lines.filter((line) => line.startsWith(" ") || line.startsWith("-") || line === "").length;
+      const newLines = hunk.lines.filter((line) => line.startsWith(" ") || line.startsWith("+") || line === "").length;
+      // Empty ranges point at the line before the change, hence the +/-1
+      const newStart = hunk.old_start + delta + (oldLines === 0 ? 1 : 0) - (newLines === 0 ? 1 : 0);
+      const section = hunk.header.replace(/^@@[^@]*@@/, "");
+      out.push(`@@ -${hunk.old_start},${oldLines} +${newStart},${newLines} @@${section}`, ...hunk.lines);
+      delta += newLines - oldLines;
+    }
+  }
+  return out.length > 0 ? `${out.join("\n")}\n` : "";
+}
@@ -3,6 +3,7 @@ import {
   LanePolicyConfig,
   ModelStackConfig,
   ModelTier,
+  PricingConfig,
   RiskLevel,
   RiskPolicyConfig,
   VerifyMode
@@ -227,17 +228,67 @@ export function validateRiskPolicy(
   return result;
 }
 
+const PRICE_FIELDS = [
+  "input_per_1k",
+  "output_per_1k",
+  "cached_input_per_1k",
+  "cache_write_per_1k",
+  "reasoning_per_1k"
+] as const;
+
+export function validatePricing(pricing: PricingConfig, modelStack: ModelStackConfig): ValidationResult {
+  const result = resultBase();
+  const prices = pricing.model_prices ?? {};
+
+  for (const model of Object.keys(modelStack.models ?? {})) {
+    if (!ensureArray(prices[model]) || prices[model].length === 0) {
+      addError(result, `pricing: model "${model}" from model-stack has no price.`);
+    }
+  }
+
+  for (const [model, entries] of Object.entries(prices)) {
+    if (!ensureArray(entries)) {
+      addError(result, `pricing: model_prices "${model}" must be an array.`);
+      continue;
+    }
+    const seen = new Set<number>();
+    entries.forEach((entry, index) => {
+      const label = `pricing: model_prices "${model}" entry ${index}`;
+      const from = Date.parse(String(entry?.effective_from));
+      if (Number.isNaN(from)) {
+        addError(result, `${label} has invalid effective_from "${entry?.effective_from ?? "missing"}".`);
+      } else if (seen.has(from)) {
+        addError(result, `${label} repeats effective_from "${entry.effective_from}".`);
+      } else {
+        seen.add(from);
+      }
+      for (const field of PRICE_FIELDS) {
+        const value = entry?.[field];
+        if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+          addError(result, `${label} ${field} must be a number >= 0.`);
+        }
+      }
+    });
+  }
+
+  return result;
+}
+
 export function validateAllConfig(input: {
   modelStack: ModelStackConfig;
   lanePolicy: LanePolicyConfig;
   riskPolicy: RiskPolicyConfig;
+  pricing?: PricingConfig;
 }): ValidationResult {
-  const modelResult = validateModelStack(input.modelStack);
-  const laneResult = validateLanePolicy(input.lanePolicy, input.modelStack);
-  const riskResult = validateRiskPolicy(input.riskPolicy, input.modelStack);
-
-  const errors = [...modelResult.errors, ...laneResult.errors, ...riskResult.errors];
-  const warnings = [...modelResult.warnings, ...laneResult.warnings, ...riskResult.warnings];
+  const results = [
+    validateModelStack(input.modelStack),
+    validateLanePolicy(input.lanePolicy, input.modelStack),
+    validateRiskPolicy(input.riskPolicy, input.modelStack)
+  ];
+  if (input.pricing) results.push(validatePricing(input.pricing, input.modelStack));
+
+  const errors = results.flatMap((result) => result.errors);
+  const warnings = results.flatMap((result) => result.warnings);
   return { ok: errors.length === 0, errors, warnings };
 }
 
@@ -245,6 +296,7 @@ export function assertValidConfig(input: {
   modelStack: ModelStackConfig;
   lanePolicy: LanePolicyConfig;
   riskPolicy: RiskPolicyConfig;
+  pricing?: PricingConfig;
 }): void {
   const result = validateAllConfig(input);
   if (result.errors.length > 0) {
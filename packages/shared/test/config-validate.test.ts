@@ -3,8 +3,10 @@ import {
   validateLanePolicy,
   validateModelStack,
   validateRiskPolicy,
+  validatePricing,
   ModelStackConfig,
   LanePolicyConfig,
+  PricingConfig,
   RiskPolicyConfig
 } from "@trcoder/shared";
 
@@ -116,4 +118,30 @@ describe("config validation", () => {
     expect(result.ok).toBe(false);
     expect(result.errors.join("\n")).toContain("no models satisfy");
   });
+
+  it("flags model-stack models without a price and malformed price entries", () => {
+    const modelStack = baseModelStack();
+    const price = {
+      input_per_1k: 0.01,
+      output_per_1k: 0.03,
+      cached_input_per_1k: 0.001,
+      cache_write_per_1k: 0.0125,
+      reasoning_per_1k: 0.03
+    };
+    const pricing = {
+      model_prices: {
+        "model-standard": [
+          { effective_from: "2025-01-01T00:00:00Z", ...price },
+          { effective_from: "soon", ...price, output_per_1k: -1 }
+        ]
+      }
+    } as unknown as PricingConfig;
+    const result = validatePricing(pricing, modelStack);
+    expect(result.ok).toBe(false);
+    expect(result.errors).toEqual([
+      'pricing: model "model-premium" from model-stack has no price.',
+      'pricing: model_prices "model-standard" entry 1 has invalid effective_from "soon".',
+      'pricing: model_prices "model-standard" entry 1 output_per_1k must be a number >= 0.'
+    ]);
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { calculateCost, ModelStackConfig, PricingConfig } from "@trcoder/shared";
+import { calculateCost, getModelPricing, ModelStackConfig, PricingConfig } from "@trcoder/shared";
 
 describe("cost per call", () => {
   it("applies credits before markup", () => {
@@ -17,7 +17,19 @@ describe("cost per call", () => {
         minimum_monthly_charge_usd: 0,
         markup: { standard: 0.5, premium: 0.5, economy: 0.5 }
       },
-      credit_definition: { trc_equals_provider_cost_usd: 1 }
+      credit_definition: { trc_equals_provider_cost_usd: 1 },
+      model_prices: {
+        "mock-model": [
+          {
+            effective_from: "2025-01-01T00:00:00Z",
+            input_per_1k: 0.01,
+            output_per_1k: 0.03,
+            cached_input_per_1k: 0.001,
+            cache_write_per_1k: 0.0125,
+            reasoning_per_1k: 0.03
+          }
+        ]
+      }
     };
 
     const modelStack: ModelStackConfig = {
@@ -57,7 +69,19 @@ describe("cost per call", () => {
         minimum_monthly_charge_usd: 0,
         markup: { standard: 0.5, premium: 0.5, economy: 0.5 }
       },
-      credit_definition: { trc_equals_provider_cost_usd: 1 }
+      credit_definition: { trc_equals_provider_cost_usd: 1 },
+      model_prices: {
+        "mock-model": [
+          {
+            effective_from: "2025-01-01T00:00:00Z",
+            input_per_1k: 0.01,
+            output_per_1k: 0.03,
+            cached_input_per_1k: 0.001,
+            cache_write_per_1k: 0.0125,
+            reasoning_per_1k: 0.03
+          }
+        ]
+      }
     };
 
     const modelStack: ModelStackConfig = {
@@ -80,4 +104,102 @@ describe("cost per call", () => {
     expect(result.billable_provider_cost_usd).toBeGreaterThan(0);
     expect(result.our_charge_usd).toBeCloseTo(result.billable_provider_cost_usd * 1.5);
   });
+
+  it("prices calls with the model price in effect when they happened", () => {
+    const price = {
+      input_per_1k: 0.01,
+      output_per_1k: 0.03,
+      cached_input_per_1k: 0.001,
+      cache_write_per_1k: 0.0125,
+      reasoning_per_1k: 0.05
+    };
+    const pricing = {
+      version: "pricing.v1",
+      plans: {},
+      payg_only: { enabled: true, minimum_monthly_charge_usd: 0, markup: { standard: 0, premium: 0, economy: 0 } },
+      credit_definition: { trc_equals_provider_cost_usd: 1 },
+      model_prices: {
+        "mock-model": [
+          { effective_from: "2025-01-01T00:00:00Z", ...price },
+          { effective_from: "2025-06-01T00:00:00Z", ...price, input_per_1k: 0.02 }
+        ]
+      }
+    } as PricingConfig;
+    const modelStack: ModelStackConfig = {
+      version: "model-stack.v2",
+      models: { "mock-model": { provider: "mock", tier: "standard" } },
+      task_type_map: {},
+      fallback_chains: {}
+    };
+    const cost = (at: string) =>
+      calculateCost({ model: "mock-model", tokens_in: 1000, tokens_out: 0, pricing, modelStack, at }).provider_cost_usd;
+
+    expect(cost("2025-05-31T23:59:59Z")).toBeCloseTo(0.01);
+    expect(cost("2025-06-01T00:00:00Z")).toBeCloseTo(0.02);
+    expect(
+      calculateCost({ model: "mock-model", tokens_in: 1000, tokens_out: 0, pricing, modelStack, at: "2025-07-01T00:00:00Z" })
+        .price_effective_from
+    ).toBe("2025-06-01T00:00:00Z");
+    expect(() => cost("2024-12-31T00:00:00Z")).toThrow(/No price for model "mock-model" in effect/);
+    expect(() => getModelPricing(pricing, "other-model")).toThrow(/No price configured for model "other-model"/);
+
+    // Cached input and reasoning output use their own rates
+    const split = calculateCost({
+      model: "mock-model",
+      tokens_in: 1000,
+      tokens_out: 1000,
+      tokens_cached_in: 400,
+      tokens_reasoning: 500,
+      pricing,
+      modelStack,
+      at: "2025-02-01T00:00:00Z"
+    });
+    expect(split.provider_cost_usd).toBeCloseTo(0.6 * 0.01 + 0.4 * 0.001 + 0.5 * 0.03 + 0.5 * 0.05);
+  });
+
+  it("prices cache reads and writes separately and reports the savings", () => {
+    const pricing = {
+      version: "pricing.v1",
+      plans: {},
+      payg_only: { enabled: true, minimum_monthly_charge_usd: 0, markup: { standard: 0, premium: 0, economy: 0 } },
+      credit_definition: { trc_equals_provider_cost_usd: 1 },
+      model_prices: {
+        "mock-model": [
+          {
+            effective_from: "2025-01-01T00:00:00Z",
+            input_per_1k: 0.01,
+            output_per_1k: 0.03,
+            cached_input_per_1k: 0.001,
+            cache_write_per_1k: 0.0125,
+            reasoning_per_1k: 0.03
+          }
+        ]
+      }
+    } as PricingConfig;
+    const modelStack: ModelStackConfig = {
+      version: "model-stack.v2",
+      models: { "mock-model": { provider: "mock", tier: "standard" } },
+      task_type_map: {},
+      fallback_chains: {}
+    };
+    const call = (cached: number, written: number) =>
+      calculateCost({
+        model: "mock-model",
+        tokens_in: 10000,
+        tokens_out: 0,
+        tokens_cached_in: cached,
+        tokens_cache_write: written,
+        pricing,
+        modelStack
+      });
+
+    // First call writes the 8k prefix, the next one reads it back
+    const first = call(0, 8000);
+    expect(first.provider_cost_usd).toBeCloseTo(2 * 0.01 + 8 * 0.0125);
+    expect(first.cache_savings_usd).toBeCloseTo(-8 * 0.0025);
+    const second = call(8000, 0);
+    expect(second.provider_cost_usd).toBeCloseTo(2 * 0.01 + 8 * 0.001);
+    expect(second.cache_savings_usd).toBeCloseTo(8 * 0.009);
+    expect(call(0, 0).cache_savings_usd).toBe(0);
+  });
 });
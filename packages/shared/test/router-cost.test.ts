@@ -14,6 +14,7 @@ const repoRoot = path.resolve(__dirname, "../../..");
 const modelStack = loadModelStack(path.join(repoRoot, "config", "model-stack.v2.json"));
 const lanePolicy = loadLanePolicy(path.join(repoRoot, "config", "lane-policy.v1.yaml"));
 const riskPolicy = loadRiskPolicy(path.join(repoRoot, "config", "risk-policy.v1.yaml"));
+const pricing = loadPricing(path.join(repoRoot, "config", "pricing.v1.yaml"));
 
 
 describe("router decision", () => {
@@ -25,7 +26,8 @@ describe("router decision", () => {
       budgetRemainingUsd: 10,
       modelStack,
       lanePolicy,
-      riskPolicy
+      riskPolicy,
+      pricing
     });
 
     const tier = modelStack.models[decision.selected_model].tier;
@@ -35,7 +37,6 @@ describe("router decision", () => {
 
 describe("cost calculator", () => {
   it("applies markup", () => {
-    const pricing = loadPricing(path.join(repoRoot, "config", "pricing.v1.yaml"));
     const result = calculateCost({
       model: "claude-sonnet-4.5",
       tokens_in: 1000,
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { formatUnifiedDiff, parseUnifiedDiff } from "@trcoder/shared";
+
+const PATCH = [
+  "diff --git a/src/invoice.ts b/src/invoice.ts",
+  "index 1111111..2222222 100644",
+  "--- a/src/invoice.ts",
+  "+++ b/src/invoice.ts",
+  "@@ -1,3 +1,3 @@",
+  " export function total() {",
+  "--- return 1;",
+  "+  return 2;",
+  " }",
+  "@@ -10 +10,2 @@ export const x = 1;",
+  " const y = 2;",
+  "+const z = 3;",
+  "diff --git a/docs/new.md b/docs/new.md",
+  "new file mode 100644",
+  "--- /dev/null",
+  "+++ b/docs/new.md",
+  "@@ -0,0 +1 @@",
+  "+hello",
+  "\\ No newline at end of file",
+  "diff --git a/old.txt b/old.txt",
+  "deleted file mode 100644",
+  "--- a/old.txt",
+  "+++ /dev/null",
+  "@@ -1 +0,0 @@",
+  "-bye",
+  "diff --git a/a.ts b/b.ts",
+  "similarity index 90%",
+  "rename from a.ts",
+  "rename to b.ts",
+  "diff --git a/logo.png b/logo.png",
+  "Binary files a/logo.png and b/logo.png differ",
+  ""
+].join("\n");
+
+describe("unified diff parser", () => {
+  it("splits a git diff into files and hunks with counts", () => {
+    const files = parseUnifiedDiff(PATCH);
+    expect(files.map((file) => [file.path, file.status, file.additions, file.deletions])).toEqual([
+      ["src/invoice.ts", "modified", 2, 1],
+      ["docs/new.md", "added", 1, 0],
+      ["old.txt", "deleted", 0, 1],
+      ["b.ts", "renamed", 0, 0],
+      ["logo.png", "modified", 0, 0]
+    ]);
+
+    const [invoice, added] = files;
+    // A removed line that starts with "--" stays inside the hunk
+    expect(invoice.hunks[0].lines).toEqual([" export function total() {", "--- return 1;", "+  return 2;", " }"]);
+    expect(invoice.hunks[1]).toMatchObject({ old_start: 10, old_lines: 1, new_start: 10, new_lines: 2 });
+    expect(invoice.header_lines).toHaveLength(4);
+    expect(added.hunks[0].lines).toEqual(["+hello", "\\ No newline at end of file"]);
+    expect(files[3].old_path).toBe("a.ts");
+    expect(files[4].binary).toBe(true);
+  });
+
+  it("reads plain diff -u output without git headers", () => {
+    const files = parseUnifiedDiff(
+      ["--- a.txt\t2024-01-01", "+++ a.txt\t2024-01-02", "@@ -1 +1 @@", "-a", "+b", "--- b.txt", "+++ b.txt", "@@ -1 +1 @@", "-c", "+d"].join(
+        "\n"
+      )
+    );
+    expect(files.map((file) => [file.path, file.hunks.length])).toEqual([
+      ["a.txt", 1],
+      ["b.txt", 1]
+    ]);
+  });
+
+  it("re-serializes kept hunks with shifted ranges", () => {
+    const files = parseUnifiedDiff(PATCH);
+    // Headers are normalized ("-10" becomes "-10,1"); everything else survives a round trip
+    const withoutHeaders = (parsed: typeof files) =>
+      parsed.map((file) => ({ ...file, hunks: file.hunks.map(({ header, ...hunk }) => hunk) }));
+    expect(withoutHeaders(parseUnifiedDiff(formatUnifiedDiff(files)))).toEqual(withoutHeaders(files));
+
+    // Dropping the first hunk moves the second one back in the new file
+    const [invoice] = files;
+    const onlySecond = formatUnifiedDiff([{ ...invoice, hunks: [invoice.hunks[1]] }]);
+    expect(onlySecond.split("\n").slice(4)).toEqual([
+      "@@ -10,1 +10,2 @@ export const x = 1;",
+      " const y = 2;",
+      "+const z = 3;",
+      ""
+    ]);
+    const onlyFirst = formatUnifiedDiff([{ ...invoice, hunks: [invoice.hunks[0]] }, { ...files[2] }]);
+    expect(onlyFirst).toContain("@@ -1,3 +1,3 @@");
+    expect(onlyFirst).toContain("@@ -1,1 +0,0 @@");
+    // A modified file with every hunk dropped disappears
+    expect(formatUnifiedDiff([{ ...invoice, hunks: [] }])).toBe("");
+  });
+});
@@ -4,7 +4,9 @@ import path from "path";
 export default defineConfig({
   resolve: {
     alias: {
-      "@trcoder/shared": path.resolve(__dirname, "packages/shared/src")
+      "@trcoder/shared": path.resolve(__dirname, "packages/shared/src"),
+      "@trcoder/auth": path.resolve(__dirname, "packages/auth/src"),
+      "@trcoder/billing": path.resolve(__dirname, "packages/billing/src")
     }
   },
   test: {